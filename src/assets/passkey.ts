@@ -0,0 +1,94 @@
+import {
+  browserSupportsWebAuthn,
+  startAuthentication,
+  startRegistration,
+  WebAuthnError,
+} from "@simplewebauthn/browser";
+
+// Passkey forms are plain POST forms with a hidden "response" field. Before
+// submitting, this fetches options from the form's data-passkey-options URL,
+// runs the browser's passkey prompt and puts the result in the field.
+//
+//   <div data-passkey-section hidden>
+//     <form method="POST" action="..." data-passkey="login|register"
+//       data-passkey-options="...">
+//       <input type="hidden" name="response" />
+//       <p data-passkey-error hidden></p>
+//     </form>
+//   </div>
+
+// Shows a message in the form's error element
+const showError = (form: HTMLFormElement, message: string) => {
+  const error = form.querySelector<HTMLElement>("[data-passkey-error]");
+  if (!error) return;
+  error.textContent = message;
+  error.hidden = false;
+};
+
+// Explains why the prompt failed in words a non-technical user can act on
+const describeError = (error: unknown): string => {
+  if (error instanceof WebAuthnError) {
+    if (error.code === "ERROR_AUTHENTICATOR_PREVIOUSLY_REGISTERED") {
+      return "This device already has a passkey for your account.";
+    }
+  }
+  if (error instanceof Error && error.name === "NotAllowedError") {
+    return "The passkey prompt was cancelled or timed out. Please try again.";
+  }
+  return "Something went wrong with the passkey. Please try again.";
+};
+
+// Runs the passkey prompt for a form and submits it with the result
+const handleSubmit = async (form: HTMLFormElement) => {
+  const mode = form.dataset.passkey;
+  const optionsUrl = form.dataset.passkeyOptions;
+  const field = form.querySelector<HTMLInputElement>('input[name="response"]');
+  if (!optionsUrl || !field) return;
+
+  const optionsResponse = await fetch(optionsUrl, {
+    method: "POST",
+    credentials: "same-origin",
+  });
+  if (!optionsResponse.ok) {
+    showError(
+      form,
+      optionsResponse.status === 429
+        ? "Too many attempts. Please wait a while and try again."
+        : "This page has expired. Please reload it and try again.",
+    );
+    return;
+  }
+  const optionsJSON = await optionsResponse.json();
+
+  try {
+    const response =
+      mode === "register"
+        ? await startRegistration({ optionsJSON })
+        : await startAuthentication({ optionsJSON });
+    field.value = JSON.stringify(response);
+  } catch (error) {
+    showError(form, describeError(error));
+    return;
+  }
+
+  form.submit();
+};
+
+if (browserSupportsWebAuthn()) {
+  document
+    .querySelectorAll<HTMLElement>("[data-passkey-section]")
+    .forEach((section) => {
+      section.hidden = false;
+    });
+
+  document
+    .querySelectorAll<HTMLFormElement>("form[data-passkey]")
+    .forEach((form) => {
+      form.addEventListener("submit", (event) => {
+        event.preventDefault();
+        handleSubmit(form).catch(() =>
+          showError(form, "Something went wrong. Please try again."),
+        );
+      });
+    });
+}
@@ -6,6 +6,17 @@ const envSchema = z.object({
   DATABASE_PATH: z.string().optional(),
   NODE_ENV: z.string().optional(),
   ADMIN_EMAIL: z.string().email("ADMIN_EMAIL must be a valid email"),
+  COMMAND_CONCURRENCY: z.coerce.number().int().min(1).default(4),
+  EVENT_TRANSPORT: z.enum(["memory", "sqlite"]).default("memory"),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().default(587),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  MAIL_FROM: z.string().default("All Eyes on Mum <no-reply@localhost>"),
+  MAIL_DIR: z.string().optional(),
+  CLIENT_IP_HEADER: z.string().toLowerCase().optional(),
+  TRUSTED_PROXY_HOPS: z.coerce.number().int().min(0).default(0),
+  SSE_HEARTBEAT_SECONDS: z.coerce.number().int().min(1).default(20),
 });
 
 export const env = envSchema.parse(process.env);
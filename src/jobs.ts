@@ -1,6 +1,7 @@
 import { Sidequest } from "sidequest";
 import { env } from "./env.ts";
 import { DailyReminderJob } from "./jobs/daily-reminder-job.ts";
+import { TrashPurgeJob } from "./jobs/trash-purge-job.ts";
 
 /**
  * Initializes and starts the Sidequest background job runner.
@@ -57,6 +58,14 @@ export const startJobRunner = async () => {
     );
 
   console.log("Daily reminder job scheduled for 8am");
+
+  // Schedule trash purge job to run at 3am
+  await Sidequest.build(TrashPurgeJob)
+    .queue("default")
+    .schedule("0 3 * * *")
+    .catch((err) => console.error("Failed to schedule trash purge job", err));
+
+  console.log("Trash purge job scheduled for 3am");
 };
 
 export { Sidequest };
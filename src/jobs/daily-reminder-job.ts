@@ -1,7 +1,12 @@
 import { Job } from "sidequest";
 import type { Appointment } from "../types/appointment.ts";
 import type { Contract } from "../types/contract.ts";
+import { canView } from "../lib/auth/permissions.ts";
 import { getAllUsers } from "../lib/auth/user.ts";
+import {
+  getAllHouseholds,
+  getHouseholdMembers,
+} from "../lib/households/index.ts";
 import { getExpiringContracts } from "../lib/contracts/index.ts";
 import { getAllAppointments } from "../lib/appointments/index.ts";
 import { getDueReminders, triggerReminder } from "../lib/reminders/index.ts";
@@ -9,6 +14,7 @@ import {
   createNotification,
   hasNotificationForSourceToday,
 } from "../lib/notifications/index.ts";
+import { eventBus } from "../lib/cqrs/index.ts";
 
 // Calculates the number of days between two dates (ignoring time)
 const daysBetween = (date1: Date, date2: Date): number => {
@@ -31,6 +37,7 @@ const formatTime = (datetimeStr: string): string => {
 // Creates a contract expiration notification for a user if one doesn't already exist today
 const createContractExpirationNotification = async (
   userId: string,
+  householdId: string,
   contract: Contract,
   daysUntilExpiry: number,
 ): Promise<boolean> => {
@@ -61,6 +68,7 @@ const createContractExpirationNotification = async (
 
   await createNotification({
     userId,
+    householdId,
     type: isExpiringSoon ? "warning" : "info",
     title,
     message,
@@ -75,6 +83,7 @@ const createContractExpirationNotification = async (
 // Creates an appointment notification for a user if one doesn't already exist today
 const createAppointmentNotification = async (
   userId: string,
+  householdId: string,
   appointment: Appointment,
   daysUntil: number,
 ): Promise<boolean> => {
@@ -107,6 +116,7 @@ const createAppointmentNotification = async (
 
   await createNotification({
     userId,
+    householdId,
     type: "info",
     title,
     message,
@@ -129,8 +139,8 @@ const createAppointmentNotification = async (
 export class DailyReminderJob extends Job {
   /**
    * Executes the daily reminder check.
-   * Processes contracts, reminders, and appointments, creating notifications for
-   * all users when items need attention.
+   * Processes each household's contracts, reminders, and appointments, creating
+   * notifications for its members when items need attention.
    */
   async run(): Promise<{
     success: boolean;
@@ -153,93 +163,144 @@ export class DailyReminderJob extends Job {
       };
     }
 
+    let contractsChecked = 0;
+    let remindersChecked = 0;
+    let appointmentsChecked = 0;
     let contractNotificationsCreated = 0;
     let reminderNotificationsCreated = 0;
     let appointmentNotificationsCreated = 0;
 
-    // Process contracts expiring within 30 days
-    const expiringContracts = await getExpiringContracts(30);
-
-    for (const contract of expiringContracts) {
-      if (!contract.contractEndDate) continue;
+    // Each household's items only notify the people in it
+    for (const household of await getAllHouseholds()) {
+      const memberIds = new Set(
+        (await getHouseholdMembers(household.id))
+          .filter((member) => !member.deactivated)
+          .map((member) => member.userId),
+      );
+      const members = users.filter((user) => memberIds.has(user.id));
+      if (members.length === 0) continue;
 
-      const endDate = new Date(contract.contractEndDate);
-      endDate.setHours(0, 0, 0, 0);
-      const daysUntilExpiry = daysBetween(today, endDate);
+      // Each kind of notification only goes to users whose role can see it
+      const financeUsers = members.filter((user) => canView(user, "finances"));
+      const reminderUsers = members.filter((user) =>
+        canView(user, "reminders"),
+      );
+      const appointmentUsers = members.filter((user) =>
+        canView(user, "appointments"),
+      );
 
-      // Only notify within 30 days
-      if (daysUntilExpiry >= 0 && daysUntilExpiry <= 30) {
-        for (const user of users) {
-          const created = await createContractExpirationNotification(
-            user.id,
-            contract,
-            daysUntilExpiry,
-          );
-          if (created) {
-            contractNotificationsCreated++;
+      const notificationsBefore =
+        contractNotificationsCreated +
+        reminderNotificationsCreated +
+        appointmentNotificationsCreated;
+
+      // Process contracts expiring within 30 days
+      const expiringContracts = await getExpiringContracts(household.id, 30);
+      contractsChecked += expiringContracts.length;
+
+      for (const contract of expiringContracts) {
+        if (!contract.contractEndDate) continue;
+
+        const endDate = new Date(contract.contractEndDate);
+        endDate.setHours(0, 0, 0, 0);
+        const daysUntilExpiry = daysBetween(today, endDate);
+
+        // Only notify within 30 days
+        if (daysUntilExpiry >= 0 && daysUntilExpiry <= 30) {
+          for (const user of financeUsers) {
+            const created = await createContractExpirationNotification(
+              user.id,
+              household.id,
+              contract,
+              daysUntilExpiry,
+            );
+            if (created) {
+              contractNotificationsCreated++;
+            }
           }
         }
       }
-    }
 
-    console.log(
-      `Checked ${expiringContracts.length} expiring contracts, created ${contractNotificationsCreated} notifications`,
-    );
-
-    // Process due reminders
-    const dueReminders = await getDueReminders();
-
-    for (const reminder of dueReminders) {
-      // Trigger the reminder for the first user (reminders are shared)
-      // The triggerReminder function creates notifications and advances the due date
-      if (users.length > 0) {
-        const triggered = await triggerReminder(reminder.id, users[0].id);
-        if (triggered) {
-          reminderNotificationsCreated++;
+      // Process due reminders
+      const dueReminders = await getDueReminders(household.id);
+      remindersChecked += dueReminders.length;
+
+      for (const reminder of dueReminders) {
+        // Trigger the reminder for the first user (reminders are shared)
+        // The triggerReminder function creates notifications and advances the due date
+        if (reminderUsers.length > 0) {
+          const triggered = await triggerReminder(
+            reminder.id,
+            household.id,
+            reminderUsers[0].id,
+          );
+          if (triggered) {
+            reminderNotificationsCreated++;
+          }
         }
       }
-    }
 
-    console.log(
-      `Checked ${dueReminders.length} due reminders, triggered ${reminderNotificationsCreated}`,
-    );
-
-    // Process appointments
-    const allAppointments = await getAllAppointments();
-
-    for (const appointment of allAppointments) {
-      const appointmentDate = new Date(appointment.datetime);
-      const appointmentDay = new Date(
-        appointmentDate.getFullYear(),
-        appointmentDate.getMonth(),
-        appointmentDate.getDate(),
-      );
-      const daysUntil = daysBetween(today, appointmentDay);
+      // Process appointments
+      const allAppointments = await getAllAppointments(household.id);
+      appointmentsChecked += allAppointments.length;
+
+      for (const appointment of allAppointments) {
+        const appointmentDate = new Date(appointment.datetime);
+        const appointmentDay = new Date(
+          appointmentDate.getFullYear(),
+          appointmentDate.getMonth(),
+          appointmentDate.getDate(),
+        );
+        const daysUntil = daysBetween(today, appointmentDay);
+
+        // Skip past appointments
+        if (daysUntil < 0) {
+          continue;
+        }
 
-      // Skip past appointments
-      if (daysUntil < 0) {
-        continue;
+        // Check if within reminder window (includes today)
+        const isWithinReminderWindow = daysUntil <= appointment.reminderDays;
+
+        if (isWithinReminderWindow) {
+          for (const user of appointmentUsers) {
+            const created = await createAppointmentNotification(
+              user.id,
+              household.id,
+              appointment,
+              daysUntil,
+            );
+            if (created) {
+              appointmentNotificationsCreated++;
+            }
+          }
+        }
       }
 
-      // Check if within reminder window (includes today)
-      const isWithinReminderWindow = daysUntil <= appointment.reminderDays;
-
-      if (isWithinReminderWindow) {
-        for (const user of users) {
-          const created = await createAppointmentNotification(
-            user.id,
-            appointment,
-            daysUntil,
-          );
-          if (created) {
-            appointmentNotificationsCreated++;
-          }
+      // Lights up the bell on open pages. Jobs run outside the web process, so
+      // this only reaches browsers when EVENT_TRANSPORT=sqlite.
+      if (
+        contractNotificationsCreated +
+          reminderNotificationsCreated +
+          appointmentNotificationsCreated >
+        notificationsBefore
+      ) {
+        for (const user of members) {
+          eventBus.publishToUser(user.id, {
+            type: "notification.updated",
+            data: { source: "dailyReminders" },
+          });
         }
       }
     }
 
     console.log(
-      `Checked ${allAppointments.length} appointments, created ${appointmentNotificationsCreated} notifications`,
+      `Checked ${contractsChecked} expiring contracts, created ${contractNotificationsCreated} notifications`,
+    );
+    console.log(
+      `Checked ${remindersChecked} due reminders, triggered ${reminderNotificationsCreated}`,
+    );
+    console.log(
+      `Checked ${appointmentsChecked} appointments, created ${appointmentNotificationsCreated} notifications`,
     );
 
     const duration = Date.now() - startTime;
@@ -248,9 +309,9 @@ export class DailyReminderJob extends Job {
     return {
       success: true,
       checked: {
-        contracts: expiringContracts.length,
-        reminders: dueReminders.length,
-        appointments: allAppointments.length,
+        contracts: contractsChecked,
+        reminders: remindersChecked,
+        appointments: appointmentsChecked,
       },
       created: {
         contracts: contractNotificationsCreated,
@@ -0,0 +1,24 @@
+import { Job } from "sidequest";
+import { purgeExpiredTrash } from "../lib/trash/index.ts";
+
+/**
+ * Trash purge job that permanently deletes items left in the trash
+ * longer than the retention period.
+ * Runs on a scheduled basis (configured in jobs.ts).
+ *
+ * This job is idempotent - items already purged are simply not found again.
+ */
+export class TrashPurgeJob extends Job {
+  /**
+   * Executes the trash purge.
+   */
+  async run(): Promise<{ success: boolean; purged: number }> {
+    console.log("Running trash purge job...");
+
+    const purged = await purgeExpiredTrash();
+
+    console.log(`Trash purge job removed ${purged} items`);
+
+    return { success: true, purged };
+  }
+}
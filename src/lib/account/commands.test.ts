@@ -0,0 +1,110 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { waitForCommand } from "../../test/commands.ts";
+import { setupTestDatabase } from "../../test/db.ts";
+import { createSession } from "../auth/session.ts";
+import { createUser, verifyUserCredentials } from "../auth/user.ts";
+import { commandStore } from "../cqrs/index.ts";
+import {
+  changePasswordCommand,
+  requestEmailChangeCommand,
+} from "./commands.ts";
+
+// Signs the user in and returns the new session's ID
+const signIn = async (userId: string) =>
+  (await createSession(userId)).split(".")[0];
+
+describe("account security commands", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+    await commandStore.start();
+  });
+
+  afterAll(() => {
+    commandStore.stop();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("checks the current password when the command runs, and never stores either password", async () => {
+    const user = await createUser("password@example.com", "old-password");
+    const sessionId = await signIn(user.id);
+
+    const wrong = await commandStore.enqueue(changePasswordCommand, user, {
+      userId: user.id,
+      currentPassword: "not-my-password",
+      newPassword: "new-password",
+      sessionId,
+    });
+    const rejected = await waitForCommand(wrong, (c) => c.status === "failed");
+    expect(rejected.lastError).toBe("Your current password is incorrect");
+
+    const right = await commandStore.enqueue(changePasswordCommand, user, {
+      userId: user.id,
+      currentPassword: "old-password",
+      newPassword: "new-password",
+      sessionId,
+    });
+    const changed = await waitForCommand(
+      right,
+      (c) => c.status === "succeeded",
+    );
+    expect(changed.data).toEqual({ userId: user.id, sessionId });
+    expect(rejected.data).toEqual({ userId: user.id, sessionId });
+    expect(
+      await verifyUserCredentials("password@example.com", "new-password"),
+    ).not.toBeNull();
+  });
+
+  it("only lets a passkey-only user set a password soon after signing in", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    const user = await createUser("passkey@example.com", null);
+    const staleSession = await signIn(user.id);
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+    const stale = await commandStore.enqueue(changePasswordCommand, user, {
+      userId: user.id,
+      currentPassword: "",
+      newPassword: "new-password",
+      sessionId: staleSession,
+    });
+    const rejected = await waitForCommand(stale, (c) => c.status === "failed");
+    expect(rejected.lastError).toMatch(/sign out and back in/);
+
+    const fresh = await commandStore.enqueue(changePasswordCommand, user, {
+      userId: user.id,
+      currentPassword: "",
+      newPassword: "new-password",
+      sessionId: await signIn(user.id),
+    });
+    await waitForCommand(fresh, (c) => c.status === "succeeded");
+    expect(
+      await verifyUserCredentials("passkey@example.com", "new-password"),
+    ).not.toBeNull();
+  });
+
+  it("doesn't accept another user's recent session", async () => {
+    const user = await createUser("victim@example.com", null);
+    const other = await createUser("other@example.com", null);
+
+    const id = await commandStore.enqueue(requestEmailChangeCommand, user, {
+      userId: user.id,
+      email: "attacker@example.com",
+      currentPassword: "",
+      sessionId: await signIn(other.id),
+    });
+
+    const command = await waitForCommand(id, (c) => c.status === "failed");
+    expect(command.lastError).toMatch(/sign out and back in/);
+  });
+});
@@ -0,0 +1,151 @@
+import type { User } from "../../types/user.ts";
+import {
+  deleteUserSessions,
+  emailExists,
+  findUserById,
+  isRecentSignIn,
+  requestEmailChange,
+  setUserPassword,
+  updateUserName,
+  userHasPassword,
+  verifyUserCredentials,
+} from "../auth/index.ts";
+import { CommandValidationError, defineCommand } from "../cqrs/index.ts";
+import { createNotification } from "../notifications/index.ts";
+
+// How recently a user who only has passkeys must have signed in to change
+// their email address or set a password
+const REAUTH_WINDOW_S = 10 * 60;
+
+type UpdateProfileInput = {
+  userId: string;
+  name: string;
+};
+
+type ChangePasswordInput = {
+  userId: string;
+  // Transient, so neither password is ever stored with the command
+  currentPassword: string;
+  newPassword: string;
+  // The session making the change. It stays signed in, and a recent sign-in
+  // on it stands in for the current password of a passkey-only user.
+  sessionId: string;
+};
+
+type RequestEmailChangeInput = {
+  userId: string;
+  email: string;
+  // Transient, as for a password change
+  currentPassword: string;
+  sessionId: string;
+};
+
+// Checks the user is who they say before an account security change: their
+// current password, or for passkey-only users a recent sign-in on the session
+// making the change, so someone holding a stolen session can't take over the
+// account
+const confirmIdentity = async (
+  user: User,
+  password: string,
+  sessionId: string,
+  passwordField: string,
+): Promise<null> => {
+  if (await userHasPassword(user.id)) {
+    if ((await verifyUserCredentials(user.email, password)) === null) {
+      throw new CommandValidationError("Your current password is incorrect", {
+        [passwordField]: ["Current password is incorrect"],
+      });
+    }
+    return null;
+  }
+
+  if (!(await isRecentSignIn(user.id, sessionId, REAUTH_WINDOW_S))) {
+    throw new CommandValidationError(
+      "For your security, sign out and back in with your passkey, then try again",
+    );
+  }
+  return null;
+};
+
+// Changes the user's display name
+export const updateProfileCommand = defineCommand({
+  type: "account.updateProfile",
+  emits: "account.profileUpdated",
+  entityKey: (data: UpdateProfileInput) => `user:${data.userId}`,
+  handler: async (user, data: UpdateProfileInput) => {
+    await updateUserName(user.id, data.name);
+    await createNotification({
+      userId: user.id,
+      type: "success",
+      title: "Profile updated",
+      message: "Your name has been saved.",
+    });
+    return { success: true };
+  },
+});
+
+// Sets a new password and signs the user out on their other devices
+// (Copenhagen Book recommendation)
+export const changePasswordCommand = defineCommand({
+  type: "account.changePassword",
+  emits: "account.passwordChanged",
+  entityKey: (data: ChangePasswordInput) => `user:${data.userId}`,
+  transient: ["currentPassword", "newPassword"],
+  validate: (user, data: ChangePasswordInput) =>
+    confirmIdentity(
+      user,
+      data.currentPassword,
+      data.sessionId,
+      "currentPassword",
+    ),
+  handler: async (user, data: ChangePasswordInput) => {
+    await setUserPassword(user.id, data.newPassword);
+    await deleteUserSessions(user.id, data.sessionId);
+    await createNotification({
+      userId: user.id,
+      type: "success",
+      title: "Password changed",
+      message: "Your password has been changed and other devices signed out.",
+    });
+    return { success: true };
+  },
+});
+
+// Sends a confirmation link to a new email address. The address on the
+// account only changes once the link has been followed.
+export const requestEmailChangeCommand = defineCommand({
+  type: "account.requestEmailChange",
+  emits: "account.emailChangeRequested",
+  entityKey: (data: RequestEmailChangeInput) => `user:${data.userId}`,
+  transient: ["currentPassword"],
+  validate: (user, data: RequestEmailChangeInput) =>
+    confirmIdentity(
+      user,
+      data.currentPassword,
+      data.sessionId,
+      "emailPassword",
+    ),
+  handler: async (user, data: RequestEmailChangeInput) => {
+    const current = await findUserById(user.id);
+    if (current?.email === data.email) {
+      throw new CommandValidationError("That's already your email address", {
+        email: ["That's already your email address"],
+      });
+    }
+    if (await emailExists(data.email)) {
+      throw new CommandValidationError(
+        "An account with this email already exists",
+        { email: ["An account with this email already exists"] },
+      );
+    }
+
+    await requestEmailChange(current ?? user, data.email);
+    await createNotification({
+      userId: user.id,
+      type: "info",
+      title: "Confirm your new email",
+      message: `We've sent a confirmation link to ${data.email}.`,
+    });
+    return { success: true };
+  },
+});
@@ -1,55 +1,564 @@
-import { createUser, emailExists } from "../../lib/auth/index.ts";
-import { createRegistrationToken } from "../../lib/auth/registration-token.ts";
-import { env } from "../../env.ts";
-import { defineCommand } from "../cqrs/index.ts";
+import {
+  countActiveAdmins,
+  createUser,
+  deleteApiTokens,
+  deleteUserSessions,
+  emailExists,
+  findUserById,
+  isAdminEmail,
+  isUserActive,
+  ROLE_LABELS,
+  setUserDeactivated,
+  updateUserName,
+  updateUserRole,
+} from "../../lib/auth/index.ts";
+import { clearLoginFailures } from "../../lib/auth/login-throttle.ts";
+import { deleteRegistrationTokens } from "../../lib/auth/registration-token.ts";
+import { setTwoFactorRequired } from "../../lib/auth/two-factor.ts";
+import type { User, UserRole } from "../../types/user.ts";
+import { retryFailedCommand } from "../cqrs/command-queue.ts";
+import {
+  CommandValidationError,
+  defineCommand,
+  eventBus,
+} from "../cqrs/index.ts";
+import {
+  addHouseholdMember,
+  createHousehold,
+  getHousehold,
+  getHouseholdMembers,
+  removeHouseholdMember,
+  renameHousehold,
+} from "../households/index.ts";
 import { createNotification } from "../notifications/index.ts";
 import { inviteUrlStore } from "./invite-url-store.ts";
+import { issueInvite, type IssuedInvite } from "./invites.ts";
+import { deleteUserAndTransferRecords } from "./users.ts";
 
-// Creates a new family member user account without a password.
+type CreateUserInput = {
+  email: string;
+  name: string;
+  // Missing from commands queued before roles were split up
+  role?: UserRole;
+  sendEmail?: boolean;
+};
+
+type RegenerateInviteInput = {
+  userId: string;
+  userName: string;
+  // Missing from commands queued before invites could be emailed
+  sendEmail?: boolean;
+};
+
+type UpdateUserInput = {
+  userId: string;
+  name: string;
+  role: UserRole;
+};
+
+type RevokeApiTokensInput = {
+  // Null revokes every user's tokens
+  userId: string | null;
+  userName: string | null;
+};
+
+type SetUserDeactivatedInput = {
+  userId: string;
+  userName: string;
+  deactivated: boolean;
+};
+
+type DeleteUserInput = {
+  userId: string;
+  userName: string;
+  transferToId: string;
+};
+
+type HouseholdMemberInput = {
+  householdId: string;
+  userId: string;
+};
+
+// Rejects changes that would leave nobody able to manage users
+const checkNotLastAdmin = async (userId: string) => {
+  const target = await findUserById(userId);
+  if (
+    target?.role === "admin" &&
+    (await isUserActive(userId)) &&
+    (await countActiveAdmins()) <= 1
+  ) {
+    throw new CommandValidationError("There must always be an active admin");
+  }
+};
+
+// Creates a new user account without a password, with the chosen role.
 // Generates a registration token so the user can set their own password.
 export const createUserCommand = defineCommand({
   type: "admin.createUser",
   emits: "admin.userCreated",
-  handler: async (user, data: { email: string; name: string }) => {
-    if (await emailExists(data.email)) {
-      throw new Error("An account with this email already exists");
+  roles: ["admin"],
+  validate: async (_user, data: CreateUserInput) =>
+    (await emailExists(data.email))
+      ? "An account with this email already exists"
+      : null,
+  handler: async (user, data: CreateUserInput) => {
+    const newUser = await createUser(
+      data.email,
+      null,
+      data.name,
+      data.role ?? "family",
+    );
+    // New users join the household the admin is looking after
+    if (user.householdId) {
+      await addHouseholdMember(user.householdId, newUser.id);
     }
-
-    const newUser = await createUser(data.email, null, data.name);
-    const token = await createRegistrationToken(newUser.id);
-    const inviteUrl = `${env.BASE_URL}/auth/register/${token}`;
+    const invite = await issueInvite(newUser, data.sendEmail ?? false);
 
     // Store invite URL so the admin UI can display it
-    inviteUrlStore.set(user.id, { userName: data.name, inviteUrl });
+    await inviteUrlStore.set(user.id, {
+      userName: data.name,
+      inviteUrl: invite.inviteUrl,
+      emailedTo: invite.emailed ? newUser.email : null,
+    });
 
     await createNotification({
       userId: user.id,
       type: "success",
       title: "User created",
-      message: `${data.name} has been added as a family member.`,
+      message: `${data.name} has been added with the ${ROLE_LABELS[newUser.role]} role.`,
     });
+    await notifyInviteEmailFailed(user.id, newUser, data.sendEmail, invite);
 
-    return { success: true, user: newUser, inviteUrl };
+    return { success: true, user: newUser, inviteUrl: invite.inviteUrl };
   },
 });
 
-// Regenerates an invite link for a user who hasn't set their password yet
+// Tells the admin when an invite they asked to email couldn't be sent
+const notifyInviteEmailFailed = async (
+  adminUserId: string,
+  invitee: User,
+  requested: boolean | undefined,
+  invite: IssuedInvite,
+) => {
+  if (!requested || invite.emailed) return;
+  await createNotification({
+    userId: adminUserId,
+    type: "warning",
+    title: "Invite email not sent",
+    message: `The invite couldn't be emailed to ${invitee.email}. Copy the link and send it yourself.`,
+  });
+};
+
+// Regenerates an invite link for a user who hasn't set their password yet,
+// optionally emailing it. The previous link stops working.
 export const regenerateInviteCommand = defineCommand({
   type: "admin.regenerateInvite",
   emits: "admin.inviteRegenerated",
-  handler: async (user, data: { userId: string; userName: string }) => {
-    const token = await createRegistrationToken(data.userId);
-    const inviteUrl = `${env.BASE_URL}/auth/register/${token}`;
+  roles: ["admin"],
+  entityKey: (data: RegenerateInviteInput) => `user:${data.userId}`,
+  handler: async (user, data: RegenerateInviteInput) => {
+    const invitee = await findUserById(data.userId);
+    if (!invitee) {
+      throw new CommandValidationError("That user no longer exists");
+    }
 
-    inviteUrlStore.set(user.id, { userName: data.userName, inviteUrl });
+    const invite = await issueInvite(invitee, data.sendEmail ?? false);
+
+    await inviteUrlStore.set(user.id, {
+      userName: data.userName,
+      inviteUrl: invite.inviteUrl,
+      emailedTo: invite.emailed ? invitee.email : null,
+    });
 
     await createNotification({
       userId: user.id,
       type: "info",
       title: "Invite link regenerated",
-      message: `A new invite link has been generated for ${data.userName}.`,
+      message: invite.emailed
+        ? `A new invite link has been emailed to ${data.userName}.`
+        : `A new invite link has been generated for ${data.userName}.`,
+    });
+    await notifyInviteEmailFailed(user.id, invitee, data.sendEmail, invite);
+
+    return { success: true, inviteUrl: invite.inviteUrl };
+  },
+});
+
+// Revokes a user's invite link so it can no longer be used to register
+export const revokeInviteCommand = defineCommand({
+  type: "admin.revokeInvite",
+  emits: "admin.inviteRevoked",
+  roles: ["admin"],
+  entityKey: (data: { userId: string }) => `user:${data.userId}`,
+  handler: async (user, data: { userId: string; userName: string }) => {
+    const revoked = await deleteRegistrationTokens(data.userId);
+
+    if (revoked) {
+      await createNotification({
+        userId: user.id,
+        type: "info",
+        title: "Invite revoked",
+        message: `The invite link for ${data.userName} no longer works.`,
+      });
+    }
+
+    return { success: true, userId: data.userId, revoked };
+  },
+});
+
+// Sets whether a family member must use two-factor authentication.
+// Users who haven't enrolled are sent to set it up on their next request.
+export const setTwoFactorRequiredCommand = defineCommand({
+  type: "admin.setTwoFactorRequired",
+  emits: "admin.twoFactorRequirementChanged",
+  roles: ["admin"],
+  entityKey: (data: { userId: string }) => `user:${data.userId}`,
+  handler: async (
+    user,
+    data: { userId: string; userName: string; required: boolean },
+  ) => {
+    await setTwoFactorRequired(data.userId, data.required);
+
+    await createNotification({
+      userId: user.id,
+      type: "info",
+      title: data.required
+        ? "Two-factor authentication required"
+        : "Two-factor authentication optional",
+      message: data.required
+        ? `${data.userName} must set up two-factor authentication.`
+        : `${data.userName} no longer has to use two-factor authentication.`,
+    });
+
+    return { success: true, userId: data.userId, required: data.required };
+  },
+});
+
+// Signs a family member out on every device, e.g. after a lost phone
+export const revokeUserSessionsCommand = defineCommand({
+  type: "admin.revokeUserSessions",
+  emits: "admin.userSessionsRevoked",
+  roles: ["admin"],
+  entityKey: (data: { userId: string }) => `user:${data.userId}`,
+  handler: async (user, data: { userId: string; userName: string }) => {
+    const count = await deleteUserSessions(data.userId);
+
+    await createNotification({
+      userId: user.id,
+      type: "info",
+      title: "Signed out everywhere",
+      message:
+        count === 1
+          ? `${data.userName} was signed out of 1 device.`
+          : `${data.userName} was signed out of ${count} devices.`,
+    });
+
+    return { success: true, userId: data.userId, count };
+  },
+});
+
+// Revokes a user's API tokens, or everyone's when no user is given, e.g.
+// after a script's token may have leaked
+export const revokeApiTokensCommand = defineCommand({
+  type: "admin.revokeApiTokens",
+  emits: "admin.apiTokensRevoked",
+  roles: ["admin"],
+  entityKey: (data: RevokeApiTokensInput) =>
+    data.userId ? `user:${data.userId}` : "api_token",
+  handler: async (user, data: RevokeApiTokensInput) => {
+    const count = await deleteApiTokens(data.userId ?? undefined);
+    const tokens = count === 1 ? "1 API token" : `${count} API tokens`;
+
+    await createNotification({
+      userId: user.id,
+      type: "info",
+      title: "API tokens revoked",
+      message: data.userId
+        ? `Revoked ${tokens} belonging to ${data.userName}.`
+        : `Revoked ${tokens} across all users.`,
+    });
+
+    return { success: true, userId: data.userId, count };
+  },
+});
+
+// Lets a locked-out address try signing in again straight away
+export const unlockLoginCommand = defineCommand({
+  type: "admin.unlockLogin",
+  emits: "admin.loginUnlocked",
+  roles: ["admin"],
+  entityKey: (data: { email: string }) => `login:${data.email}`,
+  handler: async (user, data: { email: string }) => {
+    const unlocked = await clearLoginFailures(data.email);
+
+    if (unlocked) {
+      await createNotification({
+        userId: user.id,
+        type: "info",
+        title: "Sign-in unlocked",
+        message: `${data.email} can sign in again.`,
+      });
+    }
+
+    return { success: true, email: data.email, unlocked };
+  },
+});
+
+// Changes a user's name and role
+export const updateUserCommand = defineCommand({
+  type: "admin.updateUser",
+  emits: "admin.userUpdated",
+  roles: ["admin"],
+  entityKey: (data: UpdateUserInput) => `user:${data.userId}`,
+  handler: async (user, data: UpdateUserInput) => {
+    const target = await findUserById(data.userId);
+    if (!target) {
+      throw new CommandValidationError("This user no longer exists");
+    }
+    if (target.role === "admin" && data.role !== "admin") {
+      if (isAdminEmail(target.email)) {
+        throw new CommandValidationError(
+          "The configured admin account must stay an admin",
+          { role: ["The configured admin account must stay an admin"] },
+        );
+      }
+      await checkNotLastAdmin(data.userId);
+    }
+
+    await updateUserName(data.userId, data.name);
+    await updateUserRole(data.userId, data.role);
+
+    await createNotification({
+      userId: user.id,
+      type: "success",
+      title: "User updated",
+      message: `${data.name} now has the ${ROLE_LABELS[data.role]} role.`,
+    });
+
+    return { success: true, userId: data.userId, role: data.role };
+  },
+});
+
+// Deactivates an account, signing the user out everywhere, or reactivates it.
+// Their records stay as they are either way.
+export const setUserDeactivatedCommand = defineCommand({
+  type: "admin.setUserDeactivated",
+  emits: "admin.userDeactivationChanged",
+  roles: ["admin"],
+  entityKey: (data: SetUserDeactivatedInput) => `user:${data.userId}`,
+  handler: async (user, data: SetUserDeactivatedInput) => {
+    if (data.deactivated) {
+      if (data.userId === user.id) {
+        throw new CommandValidationError("You can't deactivate yourself");
+      }
+      await checkNotLastAdmin(data.userId);
+    }
+
+    await setUserDeactivated(data.userId, data.deactivated);
+    if (data.deactivated) {
+      await deleteUserSessions(data.userId);
+    }
+
+    await createNotification({
+      userId: user.id,
+      type: "info",
+      title: data.deactivated ? "User deactivated" : "User reactivated",
+      message: data.deactivated
+        ? `${data.userName} can no longer sign in.`
+        : `${data.userName} can sign in again.`,
+    });
+
+    return {
+      success: true,
+      userId: data.userId,
+      deactivated: data.deactivated,
+    };
+  },
+});
+
+// Deletes an account after handing everything the user created to someone
+// else, since deleting the user row would otherwise cascade to their records
+export const deleteUserCommand = defineCommand({
+  type: "admin.deleteUser",
+  emits: "admin.userDeleted",
+  roles: ["admin"],
+  entityKey: (data: DeleteUserInput) => `user:${data.userId}`,
+  handler: async (user, data: DeleteUserInput) => {
+    const target = await findUserById(data.userId);
+    if (!target) {
+      throw new CommandValidationError("This user no longer exists");
+    }
+    if (data.userId === user.id) {
+      throw new CommandValidationError("You can't delete yourself");
+    }
+    if (isAdminEmail(target.email)) {
+      throw new CommandValidationError(
+        "The configured admin account can't be deleted",
+      );
+    }
+    if (
+      data.transferToId === data.userId ||
+      !(await isUserActive(data.transferToId))
+    ) {
+      throw new CommandValidationError(
+        "Choose an active user to take over their records",
+        { transferToId: ["Choose an active user"] },
+      );
+    }
+    await checkNotLastAdmin(data.userId);
+
+    await deleteUserAndTransferRecords(data.userId, data.transferToId);
+
+    await createNotification({
+      userId: user.id,
+      type: "info",
+      title: "User deleted",
+      message: `${data.userName} has been deleted and their records handed over.`,
+    });
+
+    return {
+      success: true,
+      userId: data.userId,
+      transferToId: data.transferToId,
+    };
+  },
+});
+
+// Tells a user's open pages their households have changed. Pages showing a
+// household they've been moved off follow them to their new one.
+const publishHouseholdsChanged = async (userId: string) => {
+  const account = await findUserById(userId);
+  eventBus.publishToUser(userId, {
+    type: "household.switched",
+    data: { householdId: account?.householdId ?? null },
+  });
+};
+
+// Creates a household, with the admin as its first member
+export const createHouseholdCommand = defineCommand({
+  type: "admin.createHousehold",
+  emits: "admin.householdCreated",
+  roles: ["admin"],
+  handler: async (user, data: { name: string }) => {
+    const household = await createHousehold(data.name);
+    await addHouseholdMember(household.id, user.id);
+    await publishHouseholdsChanged(user.id);
+
+    await createNotification({
+      userId: user.id,
+      type: "success",
+      title: "Household created",
+      message: `${household.name} has been added. Add the people who help care for them.`,
+    });
+
+    return { success: true, household };
+  },
+});
+
+// Renames a household
+export const renameHouseholdCommand = defineCommand({
+  type: "admin.renameHousehold",
+  emits: "admin.householdRenamed",
+  roles: ["admin"],
+  entityKey: (data: { householdId: string }) => `household:${data.householdId}`,
+  handler: async (user, data: { householdId: string; name: string }) => {
+    if (!(await renameHousehold(data.householdId, data.name))) {
+      throw new CommandValidationError("This household no longer exists");
+    }
+    for (const member of await getHouseholdMembers(data.householdId)) {
+      eventBus.publishToUser(member.userId, { type: "household.renamed" });
+    }
+
+    await createNotification({
+      userId: user.id,
+      type: "success",
+      title: "Household renamed",
+      message: `The household is now called ${data.name}.`,
+    });
+
+    return { success: true, householdId: data.householdId };
+  },
+});
+
+// Gives a user access to a household's records
+export const addHouseholdMemberCommand = defineCommand({
+  type: "admin.addHouseholdMember",
+  emits: "admin.householdMemberAdded",
+  roles: ["admin"],
+  entityKey: (data: HouseholdMemberInput) => `household:${data.householdId}`,
+  handler: async (user, data: HouseholdMemberInput) => {
+    const [household, member] = await Promise.all([
+      getHousehold(data.householdId),
+      findUserById(data.userId),
+    ]);
+    if (!household || !member) {
+      throw new CommandValidationError(
+        "That household or user no longer exists",
+      );
+    }
+
+    const added = await addHouseholdMember(data.householdId, data.userId);
+    await publishHouseholdsChanged(data.userId);
+
+    if (added) {
+      await createNotification({
+        userId: user.id,
+        type: "success",
+        title: "Member added",
+        message: `${member.name || member.email} can now see ${household.name}.`,
+      });
+    }
+
+    return { success: true, ...data, added };
+  },
+});
+
+// Takes away a user's access to a household's records. Anything they
+// created there stays.
+export const removeHouseholdMemberCommand = defineCommand({
+  type: "admin.removeHouseholdMember",
+  emits: "admin.householdMemberRemoved",
+  roles: ["admin"],
+  entityKey: (data: HouseholdMemberInput) => `household:${data.householdId}`,
+  handler: async (user, data: HouseholdMemberInput) => {
+    const [household, member] = await Promise.all([
+      getHousehold(data.householdId),
+      findUserById(data.userId),
+    ]);
+
+    const removed = await removeHouseholdMember(data.householdId, data.userId);
+    await publishHouseholdsChanged(data.userId);
+
+    if (removed && household && member) {
+      await createNotification({
+        userId: user.id,
+        type: "info",
+        title: "Member removed",
+        message: `${member.name || member.email} can no longer see ${household.name}.`,
+      });
+    }
+
+    return { success: true, ...data, removed };
+  },
+});
+
+// Puts a permanently failed command back in the queue
+export const retryCommandCommand = defineCommand({
+  type: "admin.retryCommand",
+  emits: "admin.commandRetried",
+  roles: ["admin"],
+  handler: async (user, data: { commandId: string; commandType: string }) => {
+    const success = await retryFailedCommand(data.commandId);
+
+    await createNotification({
+      userId: user.id,
+      type: success ? "info" : "warning",
+      title: success ? "Command requeued" : "Command not requeued",
+      message: success
+        ? `${data.commandType} will be retried.`
+        : `${data.commandType} is no longer in a failed state.`,
     });
 
-    return { success: true, inviteUrl };
+    return { success, commandId: data.commandId };
   },
 });
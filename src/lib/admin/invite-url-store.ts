@@ -1,23 +1,61 @@
+import { client } from "../db.ts";
+
 type InviteResult = {
   userName: string;
   inviteUrl: string;
+  // Where the link was emailed, if it was
+  emailedTo: string | null;
 };
 
-// In-memory store for the most recently generated invite URL per admin user.
-// Used to surface the invite link in the admin UI after user creation.
-class InviteUrlStore {
-  private urls = new Map<string, InviteResult>();
+// Invites are only shown straight after they're created, so anything older
+// was never picked up and is dropped
+const INVITE_RESULT_TTL_S = 10 * 60;
 
+// The most recently generated invite URL per admin user, kept in the database
+// so the process rendering the admin UI can show a link created by another
+class InviteUrlStore {
   // Stores an invite URL for an admin user
-  set(adminUserId: string, result: InviteResult): void {
-    this.urls.set(adminUserId, result);
+  async set(adminUserId: string, result: InviteResult): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await client.batch(
+      [
+        {
+          sql: `INSERT INTO invite_result (admin_user_id, user_name, invite_url, emailed_to, created_at)
+                VALUES (?1, ?2, ?3, ?4, ?5)
+                ON CONFLICT (admin_user_id) DO UPDATE SET
+                  user_name = ?2, invite_url = ?3, emailed_to = ?4, created_at = ?5`,
+          args: [
+            adminUserId,
+            result.userName,
+            result.inviteUrl,
+            result.emailedTo,
+            now,
+          ],
+        },
+        {
+          sql: "DELETE FROM invite_result WHERE created_at < ?",
+          args: [now - INVITE_RESULT_TTL_S],
+        },
+      ],
+      "write",
+    );
   }
 
   // Retrieves and clears the invite URL for an admin user (single read)
-  consume(adminUserId: string): InviteResult | null {
-    const result = this.urls.get(adminUserId) || null;
-    this.urls.delete(adminUserId);
-    return result;
+  async consume(adminUserId: string): Promise<InviteResult | null> {
+    const result = await client.execute({
+      sql: `DELETE FROM invite_result WHERE admin_user_id = ? AND created_at >= ?
+            RETURNING user_name, invite_url, emailed_to`,
+      args: [adminUserId, Math.floor(Date.now() / 1000) - INVITE_RESULT_TTL_S],
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      userName: row.user_name as string,
+      inviteUrl: row.invite_url as string,
+      emailedTo: row.emailed_to as string | null,
+    };
   }
 }
 
@@ -0,0 +1,51 @@
+import { env } from "../../env.ts";
+import type { User } from "../../types/user.ts";
+import {
+  createRegistrationToken,
+  markRegistrationTokenEmailed,
+} from "../auth/registration-token.ts";
+import { sendEmail } from "../email/index.ts";
+
+// A freshly made invite link, and whether it reached the user's inbox
+export type IssuedInvite = {
+  inviteUrl: string;
+  emailed: boolean;
+};
+
+// Emails an invite link to a new user
+const sendInviteEmail = (user: User, inviteUrl: string) =>
+  sendEmail({
+    to: user.email,
+    subject: "You've been invited to All Eyes on Mum",
+    text: [
+      `Hi ${user.name || user.email},`,
+      "",
+      "You've been given an account on All Eyes on Mum.",
+      "Use this link within the next 24 hours to set it up:",
+      "",
+      inviteUrl,
+      "",
+      "If you weren't expecting this, you can ignore this email.",
+    ].join("\n"),
+  });
+
+// Makes a new invite link for a user, replacing any earlier one, and
+// optionally emails it. A failed email isn't fatal: the admin still gets
+// the link to pass on themselves.
+export const issueInvite = async (
+  user: User,
+  byEmail: boolean,
+): Promise<IssuedInvite> => {
+  const token = await createRegistrationToken(user.id);
+  const inviteUrl = `${env.BASE_URL}/auth/register/${token}`;
+  if (!byEmail) return { inviteUrl, emailed: false };
+
+  try {
+    await sendInviteEmail(user, inviteUrl);
+    await markRegistrationTokenEmailed(user.id);
+    return { inviteUrl, emailed: true };
+  } catch (error) {
+    console.error("Failed to send invite email:", error);
+    return { inviteUrl, emailed: false };
+  }
+};
@@ -0,0 +1,49 @@
+import { client } from "../db.ts";
+
+// Columns that record who owns a household record. Their foreign keys cascade,
+// so these records must be handed to someone else before a user is deleted.
+const OWNER_COLUMNS: { table: string; column: string }[] = [
+  { table: "contract", column: "created_by" },
+  { table: "bill", column: "created_by" },
+  { table: "bill_payment", column: "paid_by" },
+  { table: "recurring_reminder", column: "created_by" },
+  { table: "appointment", column: "created_by" },
+  { table: "health_note", column: "created_by" },
+  { table: "note", column: "created_by" },
+  { table: "observation", column: "created_by" },
+];
+
+// Counts the household records a user owns, including ones in the trash
+export const countOwnedRecords = async (userId: string): Promise<number> => {
+  const counts = OWNER_COLUMNS.map(
+    ({ table, column }) =>
+      `(SELECT COUNT(*) FROM ${table} WHERE ${column} = ?)`,
+  );
+
+  const result = await client.execute({
+    sql: `SELECT ${counts.join(" + ")} as count`,
+    args: OWNER_COLUMNS.map(() => userId),
+  });
+
+  return result.rows[0].count as number;
+};
+
+// Hands every record a user owns to another user, then deletes the account.
+// Runs as one transaction, so nothing is lost if any step fails. Their
+// sessions, passkeys, notifications and queued commands go with the account;
+// the audit log keeps its history.
+export const deleteUserAndTransferRecords = async (
+  userId: string,
+  transferToId: string,
+): Promise<void> => {
+  await client.batch(
+    [
+      ...OWNER_COLUMNS.map(({ table, column }) => ({
+        sql: `UPDATE ${table} SET ${column} = ? WHERE ${column} = ?`,
+        args: [transferToId, userId],
+      })),
+      { sql: "DELETE FROM user WHERE id = ?", args: [userId] },
+    ],
+    "write",
+  );
+};
@@ -1,9 +1,12 @@
 import type { AppointmentType } from "../../types/appointment.ts";
-import { defineCommand } from "../cqrs/index.ts";
+import { editorRoles } from "../auth/permissions.ts";
+import { CommandRejectedError, defineCommand } from "../cqrs/index.ts";
 import { createNotification } from "../notifications/index.ts";
 import {
   createAppointment,
   deleteAppointment,
+  purgeAppointment,
+  restoreAppointment,
   updateAppointment,
 } from "./index.ts";
 
@@ -19,6 +22,8 @@ type CreateAppointmentInput = {
 
 type UpdateAppointmentInput = {
   id: string;
+  // updatedAt of the copy the edit was based on; stale writes are rejected
+  expectedUpdatedAt?: string;
   title?: string;
   description?: string | null;
   datetime?: string;
@@ -36,10 +41,17 @@ type DeleteAppointmentInput = {
 export const createAppointmentCommand = defineCommand({
   type: "appointment.create",
   emits: "appointment.created",
+  scope: "household",
+  roles: editorRoles("appointments"),
   handler: async (user, data: CreateAppointmentInput) => {
-    const appointment = await createAppointment(data, user.id);
+    const appointment = await createAppointment(
+      user.householdId!,
+      data,
+      user.id,
+    );
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Appointment added",
       message: `${data.title} has been scheduled.`,
@@ -52,11 +64,19 @@ export const createAppointmentCommand = defineCommand({
 export const updateAppointmentCommand = defineCommand({
   type: "appointment.update",
   emits: "appointment.updated",
+  scope: "household",
+  roles: editorRoles("appointments"),
   handler: async (user, data: UpdateAppointmentInput) => {
-    const { id, ...updateData } = data;
-    const appointment = await updateAppointment(id, updateData);
+    const { id, expectedUpdatedAt, ...updateData } = data;
+    const appointment = await updateAppointment(
+      id,
+      user.householdId!,
+      updateData,
+      expectedUpdatedAt,
+    );
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Appointment updated",
       message: `${updateData.title || "Appointment"} has been updated.`,
@@ -69,14 +89,59 @@ export const updateAppointmentCommand = defineCommand({
 export const deleteAppointmentCommand = defineCommand({
   type: "appointment.delete",
   emits: "appointment.deleted",
+  scope: "household",
+  roles: editorRoles("appointments"),
   handler: async (user, data: DeleteAppointmentInput) => {
-    const success = await deleteAppointment(data.id);
+    const success = await deleteAppointment(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Appointment deleted",
-      message: "The appointment has been removed.",
+      message: "The appointment has been moved to the trash.",
+      undoUrl: `/app/trash/appointment/${data.id}/restore?household=${user.householdId}`,
     });
     return { success, id: data.id };
   },
 });
+
+// Restores an appointment from the trash
+export const restoreAppointmentCommand = defineCommand({
+  type: "appointment.restore",
+  emits: "appointment.restored",
+  scope: "household",
+  roles: editorRoles("appointments"),
+  handler: async (user, data: { id: string }) => {
+    const success = await restoreAppointment(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That appointment isn't in the trash any more",
+      );
+    }
+    await createNotification({
+      userId: user.id,
+      householdId: user.householdId,
+      type: "success",
+      title: "Appointment restored",
+      message: "The appointment has been restored from the trash.",
+    });
+    return { success, id: data.id };
+  },
+});
+
+// Permanently deletes an appointment from the trash
+export const purgeAppointmentCommand = defineCommand({
+  type: "appointment.purge",
+  emits: "appointment.purged",
+  scope: "household",
+  roles: editorRoles("appointments"),
+  handler: async (user, data: { id: string }) => {
+    const success = await purgeAppointment(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That appointment isn't in the trash any more",
+      );
+    }
+    return { success, id: data.id };
+  },
+});
@@ -1,9 +1,8 @@
 import type { Appointment, AppointmentType } from "../../types/appointment.ts";
 import { generateSecureRandomString } from "../auth/crypto.ts";
+import { ConflictError } from "../cqrs/errors.ts";
 import { client } from "../db.ts";
 
-export { initAppointmentTables } from "./schema.ts";
-
 type CreateAppointmentData = {
   title: string;
   description?: string | null;
@@ -39,8 +38,9 @@ const rowToAppointment = (row: Record<string, unknown>): Appointment => ({
   updatedAt: row.updated_at as string,
 });
 
-// Creates a new appointment
+// Creates a new appointment in a household
 export const createAppointment = async (
+  householdId: string,
   data: CreateAppointmentData,
   userId: string,
 ): Promise<Appointment> => {
@@ -48,10 +48,11 @@ export const createAppointment = async (
   const now = new Date().toISOString();
 
   await client.execute({
-    sql: `INSERT INTO appointment (id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    sql: `INSERT INTO appointment (id, household_id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     args: [
       id,
+      householdId,
       data.title,
       data.description ?? null,
       data.datetime,
@@ -80,15 +81,16 @@ export const createAppointment = async (
   };
 };
 
-// Gets a single appointment by ID
+// Gets a single appointment by ID, if it belongs to the household
 export const getAppointment = async (
   id: string,
+  householdId: string,
 ): Promise<Appointment | null> => {
   const result = await client.execute({
     sql: `SELECT id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at
           FROM appointment
-          WHERE id = ?`,
-    args: [id],
+          WHERE id = ? AND household_id = ? AND deleted_at IS NULL`,
+    args: [id, householdId],
   });
 
   if (result.rows.length === 0) {
@@ -98,20 +100,24 @@ export const getAppointment = async (
   return rowToAppointment(result.rows[0]);
 };
 
-// Gets all appointments sorted by datetime
-export const getAllAppointments = async (): Promise<Appointment[]> => {
+// Gets a household's appointments sorted by datetime
+export const getAllAppointments = async (
+  householdId: string,
+): Promise<Appointment[]> => {
   const result = await client.execute({
     sql: `SELECT id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at
           FROM appointment
+          WHERE household_id = ? AND deleted_at IS NULL
           ORDER BY datetime ASC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToAppointment);
 };
 
-// Gets upcoming appointments within the specified number of days
+// Gets a household's upcoming appointments within the specified number of days
 export const getUpcomingAppointments = async (
+  householdId: string,
   days: number,
 ): Promise<Appointment[]> => {
   const now = new Date();
@@ -124,16 +130,17 @@ export const getUpcomingAppointments = async (
   const result = await client.execute({
     sql: `SELECT id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at
           FROM appointment
-          WHERE datetime >= ? AND datetime <= ?
+          WHERE household_id = ? AND datetime >= ? AND datetime <= ? AND deleted_at IS NULL
           ORDER BY datetime ASC`,
-    args: [nowStr, futureStr],
+    args: [householdId, nowStr, futureStr],
   });
 
   return result.rows.map(rowToAppointment);
 };
 
-// Gets past appointments with optional limit
+// Gets a household's past appointments with optional limit
 export const getPastAppointments = async (
+  householdId: string,
   limit?: number,
 ): Promise<Appointment[]> => {
   const now = new Date().toISOString();
@@ -141,15 +148,15 @@ export const getPastAppointments = async (
   const sql = limit
     ? `SELECT id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at
        FROM appointment
-       WHERE datetime < ?
+       WHERE household_id = ? AND datetime < ? AND deleted_at IS NULL
        ORDER BY datetime DESC
        LIMIT ?`
     : `SELECT id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at
        FROM appointment
-       WHERE datetime < ?
+       WHERE household_id = ? AND datetime < ? AND deleted_at IS NULL
        ORDER BY datetime DESC`;
 
-  const args = limit ? [now, limit] : [now];
+  const args = limit ? [householdId, now, limit] : [householdId, now];
 
   const result = await client.execute({ sql, args });
 
@@ -159,13 +166,20 @@ export const getPastAppointments = async (
 // Updates an appointment
 export const updateAppointment = async (
   id: string,
+  householdId: string,
   data: UpdateAppointmentData,
+  expectedUpdatedAt?: string,
 ): Promise<Appointment | null> => {
-  const existing = await getAppointment(id);
+  const existing = await getAppointment(id, householdId);
   if (!existing) {
     return null;
   }
 
+  // Reject the write if someone else saved since the client loaded it
+  if (expectedUpdatedAt && existing.updatedAt !== expectedUpdatedAt) {
+    throw new ConflictError();
+  }
+
   const now = new Date().toISOString();
   const updated = {
     title: data.title ?? existing.title,
@@ -178,10 +192,10 @@ export const updateAppointment = async (
     reminderDays: data.reminderDays ?? existing.reminderDays,
   };
 
-  await client.execute({
+  const result = await client.execute({
     sql: `UPDATE appointment
           SET title = ?, description = ?, datetime = ?, end_time = ?, location = ?, type = ?, reminder_days = ?, updated_at = ?
-          WHERE id = ?`,
+          WHERE id = ? AND updated_at = ?`,
     args: [
       updated.title,
       updated.description,
@@ -192,9 +206,15 @@ export const updateAppointment = async (
       updated.reminderDays,
       now,
       id,
+      existing.updatedAt,
     ],
   });
 
+  // Another write landed between the read above and this update
+  if (result.rowsAffected === 0) {
+    throw new ConflictError();
+  }
+
   return {
     ...existing,
     ...updated,
@@ -202,26 +222,56 @@ export const updateAppointment = async (
   };
 };
 
-// Deletes an appointment
-export const deleteAppointment = async (id: string): Promise<boolean> => {
+// Moves an appointment to the trash (soft delete)
+export const deleteAppointment = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE appointment SET deleted_at = ? WHERE id = ? AND household_id = ? AND deleted_at IS NULL",
+    args: [new Date().toISOString(), id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Restores an appointment from the trash
+export const restoreAppointment = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE appointment SET deleted_at = NULL WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Permanently deletes an appointment that is already in the trash
+export const purgeAppointment = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
   const result = await client.execute({
-    sql: "DELETE FROM appointment WHERE id = ?",
-    args: [id],
+    sql: "DELETE FROM appointment WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
   });
 
   return result.rowsAffected > 0;
 };
 
-// Gets appointments by type
+// Gets a household's appointments by type
 export const getAppointmentsByType = async (
+  householdId: string,
   type: AppointmentType,
 ): Promise<Appointment[]> => {
   const result = await client.execute({
     sql: `SELECT id, title, description, datetime, end_time, location, type, reminder_days, created_by, created_at, updated_at
           FROM appointment
-          WHERE type = ?
+          WHERE household_id = ? AND type = ? AND deleted_at IS NULL
           ORDER BY datetime ASC`,
-    args: [type],
+    args: [householdId, type],
   });
 
   return result.rows.map(rowToAppointment);
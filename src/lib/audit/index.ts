@@ -0,0 +1,224 @@
+import type { AuditEntry } from "../../types/audit.ts";
+import { generateSecureRandomString } from "../auth/crypto.ts";
+import { client } from "../db.ts";
+
+// Payload keys whose values are never written to the audit log
+const SENSITIVE_KEY_PATTERN = /password|token|secret|hash|^code$/i;
+
+type RecordAuditData = {
+  commandId: string | null;
+  commandType: string;
+  userId: string;
+  data: unknown;
+  result: unknown;
+  durationMs: number;
+  success: boolean;
+  error: string | null;
+};
+
+type AuditFilters = {
+  userId?: string;
+  entityType?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+// Converts a database row to an AuditEntry object
+const rowToAuditEntry = (row: Record<string, unknown>): AuditEntry => ({
+  id: row.id as string,
+  commandId: row.command_id as string | null,
+  commandType: row.command_type as string,
+  userId: row.user_id as string,
+  userName: (row.user_name as string | null) ?? null,
+  entityType: row.entity_type as string,
+  entityId: row.entity_id as string | null,
+  payload: JSON.parse(row.payload as string),
+  result: row.result ? JSON.parse(row.result as string) : null,
+  durationMs: row.duration_ms as number,
+  success: (row.success as number) === 1,
+  error: row.error as string | null,
+  createdAt: new Date((row.created_at as number) * 1000).toISOString(),
+});
+
+// Replaces sensitive values with a placeholder, recursively
+const sanitise = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sanitise);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        SENSITIVE_KEY_PATTERN.test(key) ? "[redacted]" : sanitise(v),
+      ]),
+    );
+  }
+  return value;
+};
+
+// Reduces a command result to its top-level fields, replacing nested
+// entities with their ID so the log records what changed without copying rows
+const summariseResult = (result: unknown): unknown => {
+  if (!result || typeof result !== "object" || Array.isArray(result)) {
+    return result ?? null;
+  }
+  return Object.fromEntries(
+    Object.entries(sanitise(result) as Record<string, unknown>).map(
+      ([key, value]) => {
+        if (value && typeof value === "object" && "id" in value) {
+          return [key, (value as { id: unknown }).id];
+        }
+        return [key, value];
+      },
+    ),
+  );
+};
+
+// Works out which entity a command touched. The entity type is the command
+// type's prefix (e.g. "contract" for "contract.update"); the ID comes from the
+// payload or, for creates, from the entity returned by the handler.
+const resolveEntity = (
+  commandType: string,
+  data: unknown,
+  result: unknown,
+): { entityType: string; entityId: string | null } => {
+  const entityType = commandType.split(".")[0];
+  const payload = (data ?? {}) as Record<string, unknown>;
+  const output = (result ?? {}) as Record<string, unknown>;
+
+  const candidates = [
+    payload.id,
+    payload[`${entityType}Id`],
+    (output[entityType] as { id?: unknown } | undefined)?.id,
+  ];
+  const entityId = candidates.find((id) => typeof id === "string") as
+    | string
+    | undefined;
+
+  return { entityType, entityId: entityId ?? null };
+};
+
+// Appends an audit record for an executed command
+export const recordAudit = async (data: RecordAuditData): Promise<void> => {
+  const id = generateSecureRandomString();
+  const now = Math.floor(Date.now() / 1000);
+  const { entityType, entityId } = resolveEntity(
+    data.commandType,
+    data.data,
+    data.result,
+  );
+
+  await client.execute({
+    sql: `INSERT INTO audit_log (id, command_id, command_type, user_id, entity_type, entity_id, payload, result, duration_ms, success, error, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      data.commandId,
+      data.commandType,
+      data.userId,
+      entityType,
+      entityId,
+      JSON.stringify(sanitise(data.data) ?? null),
+      data.success ? JSON.stringify(summariseResult(data.result)) : null,
+      Math.round(data.durationMs),
+      data.success ? 1 : 0,
+      data.error,
+      now,
+    ],
+  });
+};
+
+// Gets audit entries matching the given filters, most recent first
+export const getAuditEntries = async (
+  filters: AuditFilters = {},
+): Promise<AuditEntry[]> => {
+  const conditions: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (filters.userId) {
+    conditions.push("a.user_id = ?");
+    args.push(filters.userId);
+  }
+  if (filters.entityType) {
+    conditions.push("a.entity_type = ?");
+    args.push(filters.entityType);
+  }
+  if (filters.from) {
+    conditions.push("a.created_at >= ?");
+    args.push(Math.floor(new Date(filters.from).getTime() / 1000));
+  }
+  if (filters.to) {
+    // Inclusive of the whole "to" day
+    const end = new Date(filters.to);
+    end.setDate(end.getDate() + 1);
+    conditions.push("a.created_at < ?");
+    args.push(Math.floor(end.getTime() / 1000));
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  args.push(filters.limit ?? 200);
+
+  const result = await client.execute({
+    sql: `SELECT a.id, a.command_id, a.command_type, a.user_id, u.name as user_name, a.entity_type, a.entity_id, a.payload, a.result, a.duration_ms, a.success, a.error, a.created_at
+          FROM audit_log a
+          LEFT JOIN user u ON a.user_id = u.id
+          ${where}
+          ORDER BY a.created_at DESC, a.rowid DESC
+          LIMIT ?`,
+    args,
+  });
+
+  return result.rows.map(rowToAuditEntry);
+};
+
+// Gets the change history for a single entity, most recent first
+export const getEntityHistory = async (
+  entityType: string,
+  entityId: string,
+  limit = 20,
+): Promise<AuditEntry[]> => {
+  const result = await client.execute({
+    sql: `SELECT a.id, a.command_id, a.command_type, a.user_id, u.name as user_name, a.entity_type, a.entity_id, a.payload, a.result, a.duration_ms, a.success, a.error, a.created_at
+          FROM audit_log a
+          LEFT JOIN user u ON a.user_id = u.id
+          WHERE a.entity_type = ? AND a.entity_id = ? AND a.success = 1
+          ORDER BY a.created_at DESC, a.rowid DESC
+          LIMIT ?`,
+    args: [entityType, entityId, limit],
+  });
+
+  return result.rows.map(rowToAuditEntry);
+};
+
+// Gets the name of whoever last changed an entity since a given time, leaving
+// out one user's own changes. Used to say who saved over a stale form; null
+// if nobody else has.
+export const getLastChangedBy = async (
+  entityType: string,
+  entityId: string,
+  since: string,
+  excludeUserId: string,
+): Promise<string | null> => {
+  const sinceMs = new Date(since).getTime();
+  if (Number.isNaN(sinceMs)) return null;
+
+  const result = await client.execute({
+    sql: `SELECT u.name as user_name
+          FROM audit_log a
+          LEFT JOIN user u ON a.user_id = u.id
+          WHERE a.entity_type = ? AND a.entity_id = ? AND a.success = 1
+            AND a.created_at >= ? AND a.user_id != ?
+          ORDER BY a.created_at DESC, a.rowid DESC
+          LIMIT 1`,
+    args: [entityType, entityId, Math.floor(sinceMs / 1000), excludeUserId],
+  });
+
+  return (result.rows[0]?.user_name as string | null | undefined) ?? null;
+};
+
+// Gets the distinct entity types that appear in the log
+export const getAuditEntityTypes = async (): Promise<string[]> => {
+  const result = await client.execute(
+    "SELECT DISTINCT entity_type FROM audit_log ORDER BY entity_type",
+  );
+  return result.rows.map((row) => row.entity_type as string);
+};
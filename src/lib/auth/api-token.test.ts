@@ -0,0 +1,93 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { setupTestDatabase } from "../../test/db.ts";
+import type { User } from "../../types/user.ts";
+import { client } from "../db.ts";
+import { createApiToken, validateApiToken } from "./api-token.ts";
+import { hashSecret } from "./crypto.ts";
+import { createUser, setUserDeactivated } from "./user.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Splits a raw token into its ID and secret
+const parseToken = (rawToken: string) => {
+  const [id, secret] = rawToken.slice("aeom_".length).split(".");
+  return { id, secret };
+};
+
+describe("API tokens", () => {
+  let user: User;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    user = await createUser("tokens@example.com", null, "Tokens");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stores only a hash of the secret", async () => {
+    const rawToken = await createApiToken(user.id, "Script", ["read"], 30);
+    expect(rawToken).toMatch(/^aeom_[^.]+\.[^.]+$/);
+
+    const { id, secret } = parseToken(rawToken);
+    const result = await client.execute({
+      sql: "SELECT secret_hash FROM api_token WHERE id = ?",
+      args: [id],
+    });
+    const storedHash = Buffer.from(result.rows[0].secret_hash as ArrayBuffer);
+
+    expect(storedHash.toString()).not.toContain(secret);
+    expect(storedHash.equals(Buffer.from(await hashSecret(secret)))).toBe(true);
+  });
+
+  it("finds the token and its user", async () => {
+    const rawToken = await createApiToken(
+      user.id,
+      "Script",
+      ["read", "write"],
+      30,
+    );
+
+    const found = await validateApiToken(rawToken);
+
+    expect(found?.apiToken.id).toBe(parseToken(rawToken).id);
+    expect(found?.apiToken.scopes).toEqual(["read", "write"]);
+    expect(found?.user.id).toBe(user.id);
+  });
+
+  it("refuses a token with the wrong secret", async () => {
+    const { id, secret } = parseToken(
+      await createApiToken(user.id, "Script", ["read"], 30),
+    );
+    const wrongSecret = `${secret.slice(0, -1)}${secret.endsWith("a") ? "b" : "a"}`;
+
+    expect(await validateApiToken(`aeom_${id}.${wrongSecret}`)).toBeNull();
+  });
+
+  it("refuses tokens that aren't in our format", async () => {
+    const rawToken = await createApiToken(user.id, "Script", ["read"], 30);
+
+    expect(await validateApiToken(rawToken.slice("aeom_".length))).toBeNull();
+    expect(await validateApiToken(`${rawToken}.extra`)).toBeNull();
+    expect(await validateApiToken("aeom_.secret")).toBeNull();
+    expect(await validateApiToken("aeom_unknown.secret")).toBeNull();
+  });
+
+  it("refuses a token once it has expired", async () => {
+    const rawToken = await createApiToken(user.id, "Script", ["read"], 7);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 8 * DAY);
+
+    expect(await validateApiToken(rawToken)).toBeNull();
+  });
+
+  it("refuses the tokens of a deactivated user", async () => {
+    const other = await createUser("deactivated@example.com", null, "Gone");
+    const rawToken = await createApiToken(other.id, "Script", ["read"], 30);
+    await setUserDeactivated(other.id, true);
+
+    expect(await validateApiToken(rawToken)).toBeNull();
+  });
+});
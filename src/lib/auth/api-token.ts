@@ -0,0 +1,174 @@
+import type { ApiToken, ApiTokenScope } from "../../types/hono.ts";
+import type { User, UserRole } from "../../types/user.ts";
+import { client } from "../db.ts";
+import {
+  constantTimeEqual,
+  generateSecureRandomString,
+  hashSecret,
+} from "./crypto.ts";
+
+// Marks a string as one of our API tokens, so a leaked one is easy to spot
+const API_TOKEN_PREFIX = "aeom_";
+
+// How often a token's last use is recorded, to avoid a write per request
+const API_TOKEN_USE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Every scope, least access first
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ["read", "write"];
+
+// How long a new token may last, in days
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+
+// Maps a database row to an ApiToken
+const rowToApiToken = (row: Record<string, unknown>): ApiToken => ({
+  id: row.id as string,
+  userId: row.user_id as string,
+  name: row.name as string,
+  scopes: JSON.parse(row.scopes as string) as ApiTokenScope[],
+  createdAt: new Date((row.created_at as number) * 1000).toISOString(),
+  expiresAt: new Date((row.expires_at as number) * 1000).toISOString(),
+  lastUsedAt: row.last_used_at
+    ? new Date((row.last_used_at as number) * 1000).toISOString()
+    : null,
+});
+
+// Creates an API token for a user and returns the raw token. It is only
+// shown once: like sessions, just a hash of the secret is stored.
+export const createApiToken = async (
+  userId: string,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresInDays: number,
+): Promise<string> => {
+  const now = Date.now();
+  const id = generateSecureRandomString();
+  const secret = generateSecureRandomString();
+
+  await client.execute({
+    sql: `INSERT INTO api_token (id, user_id, name, secret_hash, scopes, created_at, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      userId,
+      name,
+      await hashSecret(secret),
+      JSON.stringify(scopes),
+      Math.floor(now / 1000),
+      Math.floor((now + expiresInDays * 24 * 60 * 60 * 1000) / 1000),
+    ],
+  });
+
+  return `${API_TOKEN_PREFIX}${id}.${secret}`;
+};
+
+// Validates a raw API token and returns it with its user if valid. Tokens of
+// deactivated users, or users who still have to set up two-factor
+// authentication, are refused.
+export const validateApiToken = async (
+  rawToken: string,
+): Promise<{ apiToken: ApiToken; user: User } | null> => {
+  if (!rawToken.startsWith(API_TOKEN_PREFIX)) return null;
+
+  const parts = rawToken.slice(API_TOKEN_PREFIX.length).split(".");
+  if (parts.length !== 2) return null;
+
+  const [tokenId, tokenSecret] = parts;
+  if (!tokenId || !tokenSecret) return null;
+
+  const result = await client.execute({
+    sql: `SELECT
+            t.id, t.user_id, t.name, t.secret_hash, t.scopes, t.created_at, t.expires_at, t.last_used_at,
+            u.email, u.name as u_name, u.role, u.current_household_id, u.created_at as u_created_at, u.updated_at,
+            u.deactivated_at,
+            u.totp_required = 1 AND u.totp_enabled_at IS NULL as must_enroll_two_factor
+          FROM api_token t
+          JOIN user u ON t.user_id = u.id
+          WHERE t.id = ?`,
+    args: [tokenId],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  const now = Date.now();
+
+  if (
+    (row.expires_at as number) < Math.floor(now / 1000) ||
+    row.deactivated_at !== null ||
+    (row.must_enroll_two_factor as number) === 1
+  ) {
+    return null;
+  }
+
+  // Verify the secret using constant-time comparison
+  const storedHash = Buffer.from(row.secret_hash as string);
+  if (!constantTimeEqual(await hashSecret(tokenSecret), storedHash)) {
+    return null;
+  }
+
+  const apiToken = rowToApiToken(row);
+  if (
+    !apiToken.lastUsedAt ||
+    now - new Date(apiToken.lastUsedAt).getTime() > API_TOKEN_USE_INTERVAL_MS
+  ) {
+    await client.execute({
+      sql: "UPDATE api_token SET last_used_at = ? WHERE id = ?",
+      args: [Math.floor(now / 1000), tokenId],
+    });
+  }
+
+  const user: User = {
+    id: row.user_id as string,
+    email: row.email as string,
+    name: row.u_name as string | null,
+    role: row.role as UserRole,
+    householdId: row.current_household_id as string | null,
+    createdAt: new Date((row.u_created_at as number) * 1000).toISOString(),
+    updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
+  };
+
+  return { apiToken, user };
+};
+
+// Checks whether a token may make a request. Anything that isn't a plain
+// read needs the write scope.
+export const apiTokenAllows = (apiToken: ApiToken, method: string): boolean =>
+  method === "GET" || method === "HEAD"
+    ? apiToken.scopes.includes("read") || apiToken.scopes.includes("write")
+    : apiToken.scopes.includes("write");
+
+// Gets a user's tokens, newest first, including expired ones so the user
+// can see why a script stopped working
+export const getUserApiTokens = async (userId: string): Promise<ApiToken[]> => {
+  const result = await client.execute({
+    sql: `SELECT id, user_id, name, scopes, created_at, expires_at, last_used_at
+          FROM api_token WHERE user_id = ? ORDER BY created_at DESC`,
+    args: [userId],
+  });
+
+  return result.rows.map(rowToApiToken);
+};
+
+// Deletes one of a user's tokens. Returns false if it wasn't theirs.
+export const deleteUserApiToken = async (
+  userId: string,
+  tokenId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "DELETE FROM api_token WHERE id = ? AND user_id = ?",
+    args: [tokenId, userId],
+  });
+  return result.rowsAffected > 0;
+};
+
+// Deletes every token of one user, or of everyone when no user is given.
+// Returns how many were deleted.
+export const deleteApiTokens = async (userId?: string): Promise<number> => {
+  const result = userId
+    ? await client.execute({
+        sql: "DELETE FROM api_token WHERE user_id = ?",
+        args: [userId],
+      })
+    : await client.execute("DELETE FROM api_token");
+  return result.rowsAffected;
+};
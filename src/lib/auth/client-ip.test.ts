@@ -0,0 +1,72 @@
+import { Hono } from "hono";
+import { afterEach, describe, expect, it } from "vitest";
+import { env } from "../../env.ts";
+import { getClientIp } from "./client-ip.ts";
+
+const app = new Hono().get("/", (c) => c.text(getClientIp(c)));
+
+const clientIp = async (headers: Record<string, string>) =>
+  (await app.request("/", { headers })).text();
+
+describe("getClientIp", () => {
+  const { CLIENT_IP_HEADER, TRUSTED_PROXY_HOPS } = env;
+
+  afterEach(() => {
+    env.CLIENT_IP_HEADER = CLIENT_IP_HEADER;
+    env.TRUSTED_PROXY_HOPS = TRUSTED_PROXY_HOPS;
+  });
+
+  it("ignores X-Forwarded-For when no proxies are trusted", async () => {
+    env.TRUSTED_PROXY_HOPS = 0;
+    expect(await clientIp({ "x-forwarded-for": "203.0.113.7" })).toBe(
+      "unknown",
+    );
+  });
+
+  it("takes the address added by the outermost trusted proxy", async () => {
+    const forwardedFor = "198.51.100.1, 203.0.113.7, 10.0.0.2";
+
+    env.TRUSTED_PROXY_HOPS = 1;
+    expect(await clientIp({ "x-forwarded-for": forwardedFor })).toBe(
+      "10.0.0.2",
+    );
+
+    env.TRUSTED_PROXY_HOPS = 2;
+    expect(await clientIp({ "x-forwarded-for": forwardedFor })).toBe(
+      "203.0.113.7",
+    );
+  });
+
+  it("doesn't believe entries a client added before the trusted proxies", async () => {
+    env.TRUSTED_PROXY_HOPS = 1;
+    expect(
+      await clientIp({ "x-forwarded-for": "1.2.3.4,  203.0.113.7 " }),
+    ).toBe("203.0.113.7");
+  });
+
+  it("uses the first entry when there are fewer than the trusted hops", async () => {
+    env.TRUSTED_PROXY_HOPS = 3;
+    expect(await clientIp({ "x-forwarded-for": "203.0.113.7" })).toBe(
+      "203.0.113.7",
+    );
+  });
+
+  it("falls back to the connection without X-Forwarded-For", async () => {
+    env.TRUSTED_PROXY_HOPS = 2;
+    expect(await clientIp({})).toBe("unknown");
+  });
+
+  it("prefers the configured client IP header", async () => {
+    env.CLIENT_IP_HEADER = "cf-connecting-ip";
+    env.TRUSTED_PROXY_HOPS = 1;
+    expect(
+      await clientIp({
+        "cf-connecting-ip": "198.51.100.9",
+        "x-forwarded-for": "203.0.113.7",
+      }),
+    ).toBe("198.51.100.9");
+    expect(await clientIp({ "x-forwarded-for": "203.0.113.7" })).toBe(
+      "203.0.113.7",
+    );
+  });
+});
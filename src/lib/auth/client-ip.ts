@@ -0,0 +1,40 @@
+import { getConnInfo } from "@hono/node-server/conninfo";
+import type { Context } from "hono";
+import { env } from "../../env.ts";
+
+// Gets the address of whatever connected to the app, which is the nearest
+// proxy when there is one. Not available when a request didn't come through
+// the Node server.
+const getSocketAddress = (c: Context): string | undefined => {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+};
+
+// Extracts the client IP from the request. Forwarding headers can be forged
+// by anyone, so they're only believed when configured:
+// - CLIENT_IP_HEADER names a header the proxy in front always sets, such as
+//   cf-connecting-ip behind Cloudflare
+// - TRUSTED_PROXY_HOPS is how many proxies append to X-Forwarded-For; the
+//   address that many entries from the end was added by the outermost one
+// Otherwise the connecting address is used.
+export const getClientIp = (c: Context): string => {
+  if (env.CLIENT_IP_HEADER) {
+    const ip = c.req.header(env.CLIENT_IP_HEADER)?.trim();
+    if (ip) return ip;
+  }
+
+  if (env.TRUSTED_PROXY_HOPS > 0) {
+    const forwarded = (c.req.header("x-forwarded-for") ?? "")
+      .split(",")
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+    if (forwarded.length > 0) {
+      return forwarded[Math.max(0, forwarded.length - env.TRUSTED_PROXY_HOPS)];
+    }
+  }
+
+  return getSocketAddress(c) ?? "unknown";
+};
@@ -0,0 +1,97 @@
+import type { User } from "../../types/user.ts";
+import { client } from "../db.ts";
+import { generateSecureRandomString, hashSecret } from "./crypto.ts";
+import { findUserById } from "./user.ts";
+
+// Token expiry: 24 hours, like invite links
+const TOKEN_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// An email change waiting for the new address to be confirmed
+export type PendingEmailChange = {
+  user: User;
+  newEmail: string;
+};
+
+// Creates a token confirming a new email address and returns the raw token.
+// Replaces any earlier pending change for that user.
+// The token is stored as a SHA-256 hash (per Copenhagen Book recommendation).
+export const createEmailChangeToken = async (
+  userId: string,
+  newEmail: string,
+): Promise<string> => {
+  await deleteEmailChangeTokens(userId);
+
+  const now = Date.now();
+  const rawToken = generateSecureRandomString();
+
+  await client.execute({
+    sql: `INSERT INTO email_change_token (id, user_id, new_email, token_hash, expires_at)
+          VALUES (?, ?, ?, ?, ?)`,
+    args: [
+      generateSecureRandomString(),
+      userId,
+      newEmail.toLowerCase(),
+      await hashSecret(rawToken),
+      Math.floor((now + TOKEN_EXPIRY_MS) / 1000),
+    ],
+  });
+
+  return rawToken;
+};
+
+// Finds the pending change for a token. When consume is true the token is
+// deleted (single-use) regardless of expiry.
+const findEmailChange = async (
+  rawToken: string,
+  consume: boolean,
+): Promise<PendingEmailChange | null> => {
+  const result = await client.execute({
+    sql: `SELECT id, user_id, new_email, expires_at FROM email_change_token WHERE token_hash = ?`,
+    args: [await hashSecret(rawToken)],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  if (consume) {
+    await client.execute({
+      sql: "DELETE FROM email_change_token WHERE id = ?",
+      args: [row.id as string],
+    });
+  }
+
+  if ((row.expires_at as number) < Math.floor(Date.now() / 1000)) return null;
+
+  const user = await findUserById(row.user_id as string);
+  return user ? { user, newEmail: row.new_email as string } : null;
+};
+
+// Validates an email change token and deletes it (single-use)
+export const consumeEmailChangeToken = (rawToken: string) =>
+  findEmailChange(rawToken, true);
+
+// Validates an email change token without consuming it (for GET requests)
+export const validateEmailChangeToken = (rawToken: string) =>
+  findEmailChange(rawToken, false);
+
+// Gets the address a user has asked to change to, if they haven't confirmed it yet
+export const getPendingEmail = async (
+  userId: string,
+): Promise<string | null> => {
+  const result = await client.execute({
+    sql: `SELECT new_email FROM email_change_token WHERE user_id = ? AND expires_at >= ?`,
+    args: [userId, Math.floor(Date.now() / 1000)],
+  });
+
+  return result.rows.length > 0 ? (result.rows[0].new_email as string) : null;
+};
+
+// Deletes all email change tokens for a user
+export const deleteEmailChangeTokens = async (
+  userId: string,
+): Promise<void> => {
+  await client.execute({
+    sql: "DELETE FROM email_change_token WHERE user_id = ?",
+    args: [userId],
+  });
+};
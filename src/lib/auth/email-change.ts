@@ -0,0 +1,80 @@
+import { env } from "../../env.ts";
+import type { User } from "../../types/user.ts";
+import { eventBus } from "../cqrs/event-bus.ts";
+import { sendEmail } from "../email/index.ts";
+import {
+  consumeEmailChangeToken,
+  createEmailChangeToken,
+  deleteEmailChangeTokens,
+} from "./email-change-token.ts";
+import { emailExists, updateUserEmail } from "./user.ts";
+
+// Outcome of following an email change link
+export type EmailChangeResult =
+  | { status: "changed"; user: User; newEmail: string }
+  | { status: "taken" }
+  | { status: "invalid" };
+
+// Emails a confirmation link to the new address. The account keeps its old
+// address until the link is used, so a typo can't lock anyone out.
+export const requestEmailChange = async (
+  user: User,
+  newEmail: string,
+): Promise<void> => {
+  const token = await createEmailChangeToken(user.id, newEmail);
+  const url = `${env.BASE_URL}/auth/verify-email/${token}`;
+
+  await sendEmail({
+    to: newEmail,
+    subject: "Confirm your new All Eyes on Mum email address",
+    text: [
+      `Hi ${user.name || user.email},`,
+      "",
+      "You asked to use this address for your All Eyes on Mum account.",
+      "Use this link within the next 24 hours to confirm it:",
+      "",
+      url,
+      "",
+      "If this wasn't you, you can ignore this email. Nothing will change.",
+    ].join("\n"),
+  });
+};
+
+// Switches the account to the new address using a confirmation token, then
+// lets the old address know in case the change wasn't the owner's doing
+export const confirmEmailChange = async (
+  rawToken: string,
+): Promise<EmailChangeResult> => {
+  const change = await consumeEmailChangeToken(rawToken);
+  if (!change) return { status: "invalid" };
+
+  // Someone may have taken the address since the change was requested
+  if (await emailExists(change.newEmail)) return { status: "taken" };
+
+  const oldEmail = change.user.email;
+  await updateUserEmail(change.user.id, change.newEmail);
+  await deleteEmailChangeTokens(change.user.id);
+
+  eventBus.publishToUser(change.user.id, {
+    type: "account.emailChanged",
+    data: { email: change.newEmail },
+  });
+
+  try {
+    await sendEmail({
+      to: oldEmail,
+      subject: "Your All Eyes on Mum email address was changed",
+      text: [
+        `Hi ${change.user.name || oldEmail},`,
+        "",
+        `Your All Eyes on Mum account now uses ${change.newEmail} instead of this address.`,
+        "",
+        "If you didn't make this change, contact your administrator straight away.",
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Failed to send email change notice:", error);
+  }
+
+  return { status: "changed", user: change.user, newEmail: change.newEmail };
+};
@@ -1,22 +1,49 @@
+export {
+  API_TOKEN_EXPIRY_DAYS,
+  API_TOKEN_SCOPES,
+  createApiToken,
+  deleteApiTokens,
+  deleteUserApiToken,
+  getUserApiTokens,
+} from "./api-token.ts";
 export { hashPassword, verifyPassword } from "./crypto.ts";
+export { confirmEmailChange, requestEmailChange } from "./email-change.ts";
+export { getPendingEmail } from "./email-change-token.ts";
 export {
   clearSessionCookie,
   getSessionToken,
+  rejectApiTokens,
   requireAuth,
+  requireHousehold,
   requireRole,
+  requireTwoFactorEnrollment,
   sessionMiddleware,
   setSessionCookie,
 } from "./middleware.ts";
-export { initAuthTables } from "./schema.ts";
+export { requestPasswordReset, resetPassword } from "./password-reset.ts";
+export {
+  canEdit,
+  canView,
+  editorRoles,
+  isReadOnlyRole,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  USER_ROLES,
+  viewerRoles,
+} from "./permissions.ts";
 export {
   createSession,
   deleteSession,
+  deleteUserSession,
   deleteUserSessions,
   extendSession,
+  getUserSessions,
+  isRecentSignIn,
   validateSessionToken,
 } from "./session.ts";
 export {
   adminExists,
+  countActiveAdmins,
   createUser,
   emailExists,
   findUserByEmail,
@@ -25,7 +52,23 @@ export {
   getAllUsersWithStatus,
   isAdminEmail,
   isRegistrationOpen,
+  isUserActive,
+  setUserDeactivated,
   setUserPassword,
+  updateUserEmail,
+  updateUserName,
+  updateUserRole,
+  userHasPassword,
   verifyUserCredentials,
 } from "./user.ts";
+export {
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  setTwoFactorRequired,
+  verifySecondFactor,
+} from "./two-factor.ts";
+export type { EmailChangeResult } from "./email-change.ts";
+export type { Area } from "./permissions.ts";
+export type { ActiveSession } from "./session.ts";
+export type { TwoFactorStatus } from "./two-factor.ts";
 export type { UserWithStatus } from "./user.ts";
@@ -0,0 +1,83 @@
+import { client } from "../db.ts";
+import { generateSecureRandomString, hashSecret } from "./crypto.ts";
+
+// Time allowed between entering the password and the code: 10 minutes
+const CHALLENGE_EXPIRY_MS = 10 * 60 * 1000;
+
+// Wrong codes allowed before the user has to start again with their password
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export type LoginChallenge = {
+  id: string;
+  userId: string;
+  attempts: number;
+};
+
+// Starts the code step of a login after the password was accepted.
+// Returns the raw token, which is kept in a cookie until the code is entered.
+export const createLoginChallenge = async (userId: string): Promise<string> => {
+  await client.execute({
+    sql: "DELETE FROM login_challenge WHERE user_id = ? OR expires_at < ?",
+    args: [userId, Math.floor(Date.now() / 1000)],
+  });
+
+  const rawToken = generateSecureRandomString();
+  await client.execute({
+    sql: `INSERT INTO login_challenge (id, user_id, token_hash, attempts, expires_at)
+          VALUES (?, ?, ?, 0, ?)`,
+    args: [
+      generateSecureRandomString(),
+      userId,
+      await hashSecret(rawToken),
+      Math.floor((Date.now() + CHALLENGE_EXPIRY_MS) / 1000),
+    ],
+  });
+
+  return rawToken;
+};
+
+// Finds an unexpired login challenge by its raw token
+export const getLoginChallenge = async (
+  rawToken: string,
+): Promise<LoginChallenge | null> => {
+  const result = await client.execute({
+    sql: `SELECT id, user_id, attempts FROM login_challenge
+          WHERE token_hash = ? AND expires_at >= ?`,
+    args: [await hashSecret(rawToken), Math.floor(Date.now() / 1000)],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    attempts: row.attempts as number,
+  };
+};
+
+// Counts a wrong code against a challenge, deleting it once it runs out of
+// attempts. Returns the attempts left.
+export const recordFailedChallengeAttempt = async (
+  challenge: LoginChallenge,
+): Promise<number> => {
+  const attempts = challenge.attempts + 1;
+  if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    await deleteLoginChallenge(challenge.id);
+    return 0;
+  }
+
+  await client.execute({
+    sql: "UPDATE login_challenge SET attempts = ? WHERE id = ?",
+    args: [attempts, challenge.id],
+  });
+  return MAX_CHALLENGE_ATTEMPTS - attempts;
+};
+
+// Deletes a login challenge once it has been completed or abandoned
+export const deleteLoginChallenge = async (id: string): Promise<void> => {
+  await client.execute({
+    sql: "DELETE FROM login_challenge WHERE id = ?",
+    args: [id],
+  });
+};
@@ -0,0 +1,129 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { setupTestDatabase } from "../../test/db.ts";
+import {
+  clearLoginFailures,
+  getLockedUntil,
+  recordLoginFailure,
+  type LoginFailureReason,
+} from "./login-throttle.ts";
+
+const START = new Date("2026-01-01T12:00:00Z").getTime();
+const MINUTE = 60 * 1000;
+
+describe("getLockedUntil", () => {
+  let email: string;
+  let now: number;
+
+  const advance = (ms: number) => {
+    now += ms;
+    vi.setSystemTime(now);
+  };
+
+  const fail = (reason: LoginFailureReason = "password") =>
+    recordLoginFailure({
+      email,
+      userId: null,
+      ip: "203.0.113.7",
+      userAgent: null,
+      reason,
+    });
+
+  // Fails enough times in a row to lock the address
+  const failUntilLocked = async () => {
+    for (let i = 0; i < 5; i++) await fail();
+  };
+
+  // Waits out the current lockout and fails once more
+  const failAfterLockout = async () => {
+    const lockedUntil = await getLockedUntil(email);
+    advance(lockedUntil!.getTime() - now);
+    await fail();
+  };
+
+  const lockedFor = async () => {
+    const lockedUntil = await getLockedUntil(email);
+    return lockedUntil ? lockedUntil.getTime() - now : null;
+  };
+
+  beforeAll(setupTestDatabase);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    now = START;
+    vi.setSystemTime(now);
+    email = `user-${crypto.randomUUID()}@example.com`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("doesn't lock an address before five failures in a row", async () => {
+    for (let i = 0; i < 4; i++) {
+      await fail();
+      expect(await getLockedUntil(email)).toBeNull();
+    }
+  });
+
+  it("locks for a minute on the fifth failure", async () => {
+    await failUntilLocked();
+    expect(await lockedFor()).toBe(MINUTE);
+
+    advance(MINUTE);
+    expect(await getLockedUntil(email)).toBeNull();
+  });
+
+  it("doubles the lockout for each further failure, up to an hour", async () => {
+    await failUntilLocked();
+
+    const lockouts = [];
+    for (let i = 0; i < 8; i++) {
+      await failAfterLockout();
+      lockouts.push(await lockedFor());
+    }
+
+    expect(lockouts).toEqual(
+      [2, 4, 8, 16, 32, 60, 60, 60].map((m) => m * MINUTE),
+    );
+  });
+
+  it("doesn't extend the lockout for attempts made while locked", async () => {
+    await failUntilLocked();
+    advance(10 * 1000);
+    await fail("locked");
+    await fail("locked");
+
+    expect(await lockedFor()).toBe(50 * 1000);
+  });
+
+  it("matches addresses whatever their case", async () => {
+    await failUntilLocked();
+    expect(await getLockedUntil(email.toUpperCase())).not.toBeNull();
+  });
+
+  it("forgets a run of failures after a day without any", async () => {
+    for (let i = 0; i < 4; i++) await fail();
+    advance(24 * 60 * MINUTE + 1000);
+    await fail();
+
+    expect(await getLockedUntil(email)).toBeNull();
+  });
+
+  it("starts again from a minute once failures are cleared", async () => {
+    await failUntilLocked();
+    await failAfterLockout();
+    expect(await clearLoginFailures(email)).toBe(true);
+    expect(await getLockedUntil(email)).toBeNull();
+
+    await failUntilLocked();
+    expect(await lockedFor()).toBe(MINUTE);
+  });
+});
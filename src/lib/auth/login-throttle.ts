@@ -0,0 +1,172 @@
+import { client } from "../db.ts";
+import { generateSecureRandomString } from "./crypto.ts";
+import { describeUserAgent } from "./user-agent.ts";
+
+// Failed sign-ins in a row before an account is locked
+const LOCKOUT_THRESHOLD = 5;
+
+// The first lockout lasts a minute and each further failure doubles it, up
+// to an hour. Slows guessing right down without shutting the family out
+// for long.
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+// A run of failures is forgotten after a day without any
+const FAILURE_RUN_RESET_MS = 24 * 60 * 60 * 1000;
+
+// How long failed sign-ins are kept for the admin view
+const FAILURE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// What went wrong: the password, the two-factor code, or the account was
+// already locked so nothing was checked
+export type LoginFailureReason = "password" | "two_factor" | "locked";
+
+// A failed sign-in, as listed for admins
+export type LoginFailure = {
+  id: string;
+  email: string;
+  userName: string | null;
+  ip: string;
+  device: string;
+  reason: LoginFailureReason;
+  createdAt: string;
+};
+
+// An email address that can't sign in for now
+export type LoginLockout = {
+  email: string;
+  failures: number;
+  lockedUntil: string;
+};
+
+// Gets when an email address can next try to sign in, or null if it can now.
+// Addresses without an account lock the same way, so the lockout doesn't
+// give away which addresses have one.
+export const getLockedUntil = async (email: string): Promise<Date | null> => {
+  const result = await client.execute({
+    sql: "SELECT locked_until FROM login_lockout WHERE email = ? AND locked_until > ?",
+    args: [email.toLowerCase(), Math.floor(Date.now() / 1000)],
+  });
+
+  return result.rows.length > 0
+    ? new Date((result.rows[0].locked_until as number) * 1000)
+    : null;
+};
+
+// Records a failed sign-in and locks the address once there have been too
+// many in a row. Attempts made while locked are logged but don't extend it.
+export const recordLoginFailure = async ({
+  email,
+  userId,
+  ip,
+  userAgent,
+  reason,
+}: {
+  email: string;
+  userId: string | null;
+  ip: string;
+  userAgent: string | null;
+  reason: LoginFailureReason;
+}): Promise<void> => {
+  const now = Date.now();
+  const normalizedEmail = email.toLowerCase();
+
+  await client.batch(
+    [
+      {
+        sql: `INSERT INTO login_failure (id, email, user_id, ip, user_agent, reason, created_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          generateSecureRandomString(),
+          normalizedEmail,
+          userId,
+          ip,
+          userAgent?.slice(0, 512) ?? null,
+          reason,
+          Math.floor(now / 1000),
+        ],
+      },
+      {
+        sql: "DELETE FROM login_failure WHERE created_at < ?",
+        args: [Math.floor((now - FAILURE_RETENTION_MS) / 1000)],
+      },
+    ],
+    "write",
+  );
+
+  if (reason === "locked") return;
+
+  const result = await client.execute({
+    sql: `INSERT INTO login_lockout (email, failures, last_failed_at) VALUES (?1, 1, ?2)
+          ON CONFLICT (email) DO UPDATE SET
+            failures = CASE WHEN last_failed_at < ?3 THEN 1 ELSE failures + 1 END,
+            last_failed_at = ?2
+          RETURNING failures`,
+    args: [
+      normalizedEmail,
+      Math.floor(now / 1000),
+      Math.floor((now - FAILURE_RUN_RESET_MS) / 1000),
+    ],
+  });
+
+  const failures = result.rows[0].failures as number;
+  if (failures < LOCKOUT_THRESHOLD) return;
+
+  const lockoutMs = Math.min(
+    LOCKOUT_BASE_MS * 2 ** (failures - LOCKOUT_THRESHOLD),
+    LOCKOUT_MAX_MS,
+  );
+  await client.execute({
+    sql: "UPDATE login_lockout SET locked_until = ? WHERE email = ?",
+    args: [Math.floor((now + lockoutMs) / 1000), normalizedEmail],
+  });
+};
+
+// Forgets an address's run of failures, e.g. after it signs in. Returns
+// whether there was one.
+export const clearLoginFailures = async (email: string): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "DELETE FROM login_lockout WHERE email = ?",
+    args: [email.toLowerCase()],
+  });
+  return result.rowsAffected > 0;
+};
+
+// Gets the most recent failed sign-ins, newest first
+export const getRecentLoginFailures = async (
+  limit = 100,
+): Promise<LoginFailure[]> => {
+  const result = await client.execute({
+    sql: `SELECT f.id, f.email, f.ip, f.user_agent, f.reason, f.created_at, u.name as user_name
+          FROM login_failure f
+          LEFT JOIN user u ON f.user_id = u.id
+          ORDER BY f.created_at DESC
+          LIMIT ?`,
+    args: [limit],
+  });
+
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    email: row.email as string,
+    userName: row.user_name as string | null,
+    ip: row.ip as string,
+    device: describeUserAgent(row.user_agent as string | null),
+    reason: row.reason as LoginFailureReason,
+    createdAt: new Date((row.created_at as number) * 1000).toISOString(),
+  }));
+};
+
+// Gets the addresses that are locked right now
+export const getLoginLockouts = async (): Promise<LoginLockout[]> => {
+  const result = await client.execute({
+    sql: `SELECT email, failures, locked_until FROM login_lockout
+          WHERE locked_until > ? ORDER BY locked_until DESC`,
+    args: [Math.floor(Date.now() / 1000)],
+  });
+
+  return result.rows.map((row) => ({
+    email: row.email as string,
+    failures: row.failures as number,
+    lockedUntil: new Date((row.locked_until as number) * 1000).toISOString(),
+  }));
+};
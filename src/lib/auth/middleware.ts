@@ -1,12 +1,29 @@
 import type { Context, MiddlewareHandler } from "hono";
 import { getCookie, setCookie, deleteCookie } from "hono/cookie";
 import type { HonoContext } from "../../types/hono.ts";
+import type { UserRole } from "../../types/user.ts";
 import { env } from "../../env.ts";
-import { validateSessionToken, extendSession } from "./session.ts";
+import { apiTokenAllows, validateApiToken } from "./api-token.ts";
+import {
+  validateSessionToken,
+  extendSession,
+  touchSession,
+} from "./session.ts";
 import { isDatastarSSERequest, redirectFragmentEvent } from "../datastar.ts";
 import { stream } from "hono/streaming";
 
 const SESSION_COOKIE_NAME = "session";
+const LOGIN_CHALLENGE_COOKIE_NAME = "login_challenge";
+const PASSKEY_CHALLENGE_COOKIE_NAME = "passkey_challenge";
+
+// How often a session's last activity is recorded, to avoid a write per request
+const SESSION_ACTIVITY_INTERVAL_MS = 5 * 60 * 1000;
+
+// Where users set up two-factor authentication
+const TWO_FACTOR_SETUP_PATH = "/app/security";
+
+// Where users who don't belong to a household yet are sent
+const NO_HOUSEHOLD_PATH = "/app/households";
 
 // Session cookie options
 const getCookieOptions = () => ({
@@ -27,16 +44,80 @@ export const clearSessionCookie = (c: Context) => {
   deleteCookie(c, SESSION_COOKIE_NAME, { path: "/" });
 };
 
+// Sets the cookie that carries a login through the two-factor step
+export const setLoginChallengeCookie = (c: Context, token: string) => {
+  setCookie(c, LOGIN_CHALLENGE_COOKIE_NAME, token, {
+    ...getCookieOptions(),
+    path: "/auth",
+    maxAge: 10 * 60, // 10 minutes
+  });
+};
+
+// Clears the login challenge cookie
+export const clearLoginChallengeCookie = (c: Context) => {
+  deleteCookie(c, LOGIN_CHALLENGE_COOKIE_NAME, { path: "/auth" });
+};
+
+// Gets the login challenge token from cookie
+export const getLoginChallengeToken = (c: Context): string | undefined => {
+  return getCookie(c, LOGIN_CHALLENGE_COOKIE_NAME);
+};
+
+// Sets the cookie that ties a passkey prompt to the challenge it was given.
+// Passkeys are registered from the app as well as the auth pages.
+export const setPasskeyChallengeCookie = (c: Context, token: string) => {
+  setCookie(c, PASSKEY_CHALLENGE_COOKIE_NAME, token, {
+    ...getCookieOptions(),
+    maxAge: 5 * 60, // 5 minutes
+  });
+};
+
+// Clears the passkey challenge cookie
+export const clearPasskeyChallengeCookie = (c: Context) => {
+  deleteCookie(c, PASSKEY_CHALLENGE_COOKIE_NAME, { path: "/" });
+};
+
+// Gets the passkey challenge token from cookie
+export const getPasskeyChallengeToken = (c: Context): string | undefined => {
+  return getCookie(c, PASSKEY_CHALLENGE_COOKIE_NAME);
+};
+
 // Gets the session token from cookie
 export const getSessionToken = (c: Context): string | undefined => {
   return getCookie(c, SESSION_COOKIE_NAME);
 };
 
-// Middleware that loads user and session from cookie
+// Gets the API token from an "Authorization: Bearer" header
+export const getBearerToken = (c: Context): string | undefined => {
+  const match = c.req.header("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+};
+
+// Middleware that loads user and session from cookie, or the user from an
+// API token. Token requests never touch cookies: they carry no session and
+// are answered with JSON errors, as scripts can't follow a login redirect.
 export const sessionMiddleware: MiddlewareHandler<HonoContext> = async (
   c,
   next,
 ) => {
+  c.set("apiToken", null);
+
+  const bearerToken = getBearerToken(c);
+  if (bearerToken) {
+    const result = await validateApiToken(bearerToken);
+    if (!result) {
+      return c.json({ error: "Invalid or expired API token" }, 401);
+    }
+    if (!apiTokenAllows(result.apiToken, c.req.method)) {
+      return c.json({ error: "This API token is read-only" }, 403);
+    }
+
+    c.set("user", result.user);
+    c.set("session", null);
+    c.set("apiToken", result.apiToken);
+    return next();
+  }
+
   const token = getSessionToken(c);
 
   if (!token) {
@@ -67,6 +148,11 @@ export const sessionMiddleware: MiddlewareHandler<HonoContext> = async (
     // Refresh cookie and extend session
     await extendSession(result.session.token);
     setSessionCookie(c, token);
+  } else if (
+    now - new Date(result.session.lastActiveAt).getTime() >
+    SESSION_ACTIVITY_INTERVAL_MS
+  ) {
+    await touchSession(result.session.token);
   }
 
   return next();
@@ -88,9 +174,61 @@ export const requireAuth: MiddlewareHandler<HonoContext> = async (c, next) => {
   return next();
 };
 
+// Middleware that sends users who must set up two-factor authentication to
+// the security page until they have. Mount after requireAuth or requireRole.
+export const requireTwoFactorEnrollment: MiddlewareHandler<
+  HonoContext
+> = async (c, next) => {
+  const session = c.get("session");
+  if (
+    session?.mustEnrollTwoFactor &&
+    !c.req.path.startsWith(TWO_FACTOR_SETUP_PATH)
+  ) {
+    if (isDatastarSSERequest(c.req)) {
+      return stream(c, async (stream) => {
+        stream.write(redirectFragmentEvent(TWO_FACTOR_SETUP_PATH));
+      });
+    }
+    return c.redirect(TWO_FACTOR_SETUP_PATH);
+  }
+
+  return next();
+};
+
+// Middleware that sends users who haven't been added to a household yet to
+// the households page, since record pages have nothing to show them
+export const requireHousehold: MiddlewareHandler<HonoContext> = async (
+  c,
+  next,
+) => {
+  if (!c.get("user")?.householdId) {
+    if (isDatastarSSERequest(c.req)) {
+      return stream(c, async (stream) => {
+        stream.write(redirectFragmentEvent(NO_HOUSEHOLD_PATH));
+      });
+    }
+    return c.redirect(NO_HOUSEHOLD_PATH);
+  }
+
+  return next();
+};
+
+// Middleware that keeps API tokens out of account and admin pages, so a
+// leaked token can't be used to take over the account or mint new tokens
+export const rejectApiTokens: MiddlewareHandler<HonoContext> = async (
+  c,
+  next,
+) => {
+  if (c.get("apiToken")) {
+    return c.json({ error: "API tokens can't be used here" }, 403);
+  }
+
+  return next();
+};
+
 // Middleware that requires a specific role
 export const requireRole = (
-  ...roles: Array<"admin" | "user">
+  ...roles: UserRole[]
 ): MiddlewareHandler<HonoContext> => {
   return async (c, next) => {
     const user = c.get("user");
@@ -0,0 +1,236 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { env } from "../../env.ts";
+import type { User } from "../../types/user.ts";
+import { client } from "../db.ts";
+import {
+  consumeWebAuthnChallenge,
+  createWebAuthnChallenge,
+} from "./webauthn-challenge.ts";
+
+const RP_NAME = "All Eyes on Mum";
+
+// Passkeys are bound to the site's hostname and origin
+const getRelyingParty = () => {
+  const url = new URL(env.BASE_URL);
+  return { id: url.hostname, origin: url.origin };
+};
+
+export type Passkey = {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+// Options for the browser, plus the token identifying the stored challenge
+export type PasskeyOptions<T> = {
+  options: T;
+  challengeToken: string;
+};
+
+// A successful passkey login. userVerified is true when the authenticator
+// checked a PIN or biometric, which makes the passkey a second factor too.
+export type PasskeyLogin = {
+  userId: string;
+  userVerified: boolean;
+};
+
+// Reads the JSON credential a browser posted back, or null if it isn't JSON
+export const parsePasskeyResponse = <T>(value: unknown): T | null => {
+  if (typeof value !== "string" || !value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+// Reads the transports (usb, internal, hybrid...) saved with a passkey
+const parseTransports = (value: unknown): string[] | undefined =>
+  typeof value === "string" ? (JSON.parse(value) as string[]) : undefined;
+
+// Gets a user's passkeys, newest first
+export const getUserPasskeys = async (userId: string): Promise<Passkey[]> => {
+  const result = await client.execute({
+    sql: `SELECT id, name, created_at, last_used_at FROM passkey
+          WHERE user_id = ? ORDER BY created_at DESC`,
+    args: [userId],
+  });
+
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    name: row.name as string,
+    createdAt: new Date((row.created_at as number) * 1000).toISOString(),
+    lastUsedAt: row.last_used_at
+      ? new Date((row.last_used_at as number) * 1000).toISOString()
+      : null,
+  }));
+};
+
+// Starts registering a passkey for a user. Passkeys the user already has are
+// excluded so the same authenticator isn't registered twice.
+export const createPasskeyRegistrationOptions = async (
+  user: User,
+): Promise<PasskeyOptions<PublicKeyCredentialCreationOptionsJSON>> => {
+  const existing = await client.execute({
+    sql: "SELECT id, transports FROM passkey WHERE user_id = ?",
+    args: [user.id],
+  });
+
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: getRelyingParty().id,
+    userName: user.email,
+    userDisplayName: user.name || user.email,
+    userID: new TextEncoder().encode(user.id),
+    attestationType: "none",
+    excludeCredentials: existing.rows.map((row) => ({
+      id: row.id as string,
+      transports: parseTransports(row.transports),
+    })),
+    authenticatorSelection: {
+      residentKey: "required",
+      userVerification: "preferred",
+    },
+  });
+
+  const challengeToken = await createWebAuthnChallenge(
+    options.challenge,
+    user.id,
+  );
+  return { options, challengeToken };
+};
+
+// Checks the browser's response to registration options and saves the new
+// passkey. Returns false if the challenge or response isn't valid.
+export const verifyPasskeyRegistration = async (
+  challengeToken: string,
+  userId: string,
+  response: RegistrationResponseJSON,
+  name: string,
+): Promise<boolean> => {
+  const challenge = await consumeWebAuthnChallenge(challengeToken);
+  if (!challenge || challenge.userId !== userId) return false;
+
+  const rp = getRelyingParty();
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.id,
+      requireUserVerification: false,
+    });
+  } catch {
+    return false;
+  }
+  if (!verification.verified) return false;
+
+  const { credential } = verification.registrationInfo;
+  const now = Math.floor(Date.now() / 1000);
+  await client.execute({
+    sql: `INSERT INTO passkey (id, user_id, name, public_key, counter, transports, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      credential.id,
+      userId,
+      name,
+      credential.publicKey,
+      credential.counter,
+      credential.transports ? JSON.stringify(credential.transports) : null,
+      now,
+    ],
+  });
+
+  return true;
+};
+
+// Starts a passkey login. No credentials are listed, so the browser offers
+// whichever passkeys it holds for this site.
+export const createPasskeyLoginOptions = async (): Promise<
+  PasskeyOptions<PublicKeyCredentialRequestOptionsJSON>
+> => {
+  const options = await generateAuthenticationOptions({
+    rpID: getRelyingParty().id,
+    userVerification: "preferred",
+  });
+
+  const challengeToken = await createWebAuthnChallenge(options.challenge, null);
+  return { options, challengeToken };
+};
+
+// Checks the browser's response to login options against the stored passkey
+// and records its use. Returns null if anything doesn't match, or the
+// account has been deactivated.
+export const verifyPasskeyLogin = async (
+  challengeToken: string,
+  response: AuthenticationResponseJSON,
+): Promise<PasskeyLogin | null> => {
+  const challenge = await consumeWebAuthnChallenge(challengeToken);
+  if (!challenge || challenge.userId !== null) return null;
+
+  const result = await client.execute({
+    sql: `SELECT passkey.id, passkey.user_id, passkey.public_key, passkey.counter, passkey.transports
+          FROM passkey JOIN user ON user.id = passkey.user_id
+          WHERE passkey.id = ? AND user.deactivated_at IS NULL`,
+    args: [response.id],
+  });
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  const rp = getRelyingParty();
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.id,
+      requireUserVerification: false,
+      credential: {
+        id: row.id as string,
+        publicKey: new Uint8Array(row.public_key as ArrayBuffer),
+        counter: row.counter as number,
+        transports: parseTransports(row.transports),
+      },
+    });
+  } catch {
+    return null;
+  }
+  if (!verification.verified) return null;
+
+  const { newCounter, userVerified } = verification.authenticationInfo;
+  await client.execute({
+    sql: "UPDATE passkey SET counter = ?, last_used_at = ? WHERE id = ?",
+    args: [newCounter, Math.floor(Date.now() / 1000), row.id],
+  });
+
+  return { userId: row.user_id as string, userVerified };
+};
+
+// Removes one of a user's passkeys, unless it's their only way to log in.
+// Returns false if nothing was removed.
+export const deletePasskey = async (
+  userId: string,
+  passkeyId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: `DELETE FROM passkey WHERE id = ? AND user_id = ?
+            AND (
+              EXISTS (SELECT 1 FROM user WHERE id = ? AND password_hash IS NOT NULL)
+              OR (SELECT COUNT(*) FROM passkey WHERE user_id = ?) > 1
+            )`,
+    args: [passkeyId, userId, userId, userId],
+  });
+  return result.rowsAffected > 0;
+};
@@ -0,0 +1,87 @@
+import type { User } from "../../types/user.ts";
+import { client } from "../db.ts";
+import { generateSecureRandomString, hashSecret } from "./crypto.ts";
+import { findUserById } from "./user.ts";
+
+// Token expiry: 1 hour, since a reset link in a mailbox grants account access
+const TOKEN_EXPIRY_MS = 60 * 60 * 1000;
+
+// Creates a password reset token for a user and returns the raw token.
+// Invalidates any existing reset tokens for that user first.
+// The token is stored as a SHA-256 hash (per Copenhagen Book recommendation).
+export const createPasswordResetToken = async (
+  userId: string,
+): Promise<string> => {
+  await deletePasswordResetTokens(userId);
+
+  const now = Date.now();
+  const id = generateSecureRandomString();
+  const rawToken = generateSecureRandomString();
+  const tokenHash = await hashSecret(rawToken);
+
+  await client.execute({
+    sql: `INSERT INTO password_reset_token (id, user_id, token_hash, expires_at)
+          VALUES (?, ?, ?, ?)`,
+    args: [id, userId, tokenHash, Math.floor((now + TOKEN_EXPIRY_MS) / 1000)],
+  });
+
+  return rawToken;
+};
+
+// Validates a password reset token and returns the associated user if valid.
+// This is a single-use operation: the token is deleted upon successful validation.
+export const consumePasswordResetToken = async (
+  rawToken: string,
+): Promise<User | null> => {
+  const tokenHash = await hashSecret(rawToken);
+  const now = Math.floor(Date.now() / 1000);
+
+  const result = await client.execute({
+    sql: `SELECT id, user_id, expires_at FROM password_reset_token WHERE token_hash = ?`,
+    args: [tokenHash],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+
+  // Delete the token (single-use) regardless of expiry
+  await client.execute({
+    sql: "DELETE FROM password_reset_token WHERE id = ?",
+    args: [row.id as string],
+  });
+
+  if ((row.expires_at as number) < now) return null;
+
+  return findUserById(row.user_id as string);
+};
+
+// Validates a password reset token without consuming it (for GET requests)
+export const validatePasswordResetToken = async (
+  rawToken: string,
+): Promise<User | null> => {
+  const tokenHash = await hashSecret(rawToken);
+  const now = Math.floor(Date.now() / 1000);
+
+  const result = await client.execute({
+    sql: `SELECT user_id, expires_at FROM password_reset_token WHERE token_hash = ?`,
+    args: [tokenHash],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  if ((row.expires_at as number) < now) return null;
+
+  return findUserById(row.user_id as string);
+};
+
+// Deletes all password reset tokens for a user
+export const deletePasswordResetTokens = async (
+  userId: string,
+): Promise<void> => {
+  await client.execute({
+    sql: "DELETE FROM password_reset_token WHERE user_id = ?",
+    args: [userId],
+  });
+};
@@ -0,0 +1,52 @@
+import { env } from "../../env.ts";
+import type { User } from "../../types/user.ts";
+import { sendEmail } from "../email/index.ts";
+import { clearLoginFailures } from "./login-throttle.ts";
+import {
+  consumePasswordResetToken,
+  createPasswordResetToken,
+} from "./password-reset-token.ts";
+import { deleteUserSessions } from "./session.ts";
+import { findUserByEmail, isUserActive, setUserPassword } from "./user.ts";
+
+// Emails a reset link if the address belongs to an account. Says nothing
+// either way, so the forgot password form can't be used to find accounts.
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await findUserByEmail(email);
+  if (!user || !(await isUserActive(user.id))) return;
+
+  const token = await createPasswordResetToken(user.id);
+  const url = `${env.BASE_URL}/auth/reset/${token}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: "Reset your All Eyes on Mum password",
+    text: [
+      `Hi ${user.name || user.email},`,
+      "",
+      "Someone asked to reset the password for your All Eyes on Mum account.",
+      "Use this link within the next hour to choose a new one:",
+      "",
+      url,
+      "",
+      "If this wasn't you, you can ignore this email. Your password won't change.",
+    ].join("\n"),
+  });
+};
+
+// Sets a new password using a reset token and signs the user out everywhere
+// (Copenhagen Book recommendation). Also lifts any sign-in lockout, as the
+// user has proved they own the address. Returns null if the token is invalid.
+export const resetPassword = async (
+  rawToken: string,
+  password: string,
+): Promise<User | null> => {
+  const user = await consumePasswordResetToken(rawToken);
+  if (!user) return null;
+
+  await setUserPassword(user.id, password);
+  await deleteUserSessions(user.id);
+  await clearLoginFailures(user.email);
+
+  return user;
+};
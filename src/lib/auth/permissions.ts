@@ -0,0 +1,61 @@
+import type { User, UserRole } from "../../types/user.ts";
+
+// Parts of the app that are shown or hidden depending on the user's role
+export type Area =
+  | "finances"
+  | "reminders"
+  | "appointments"
+  | "health"
+  | "notes"
+  | "observations";
+
+// Every role, most access first
+export const USER_ROLES: UserRole[] = ["admin", "family", "carer", "viewer"];
+
+// Display names for roles
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  family: "Family",
+  carer: "Carer",
+  viewer: "Viewer",
+};
+
+// How each role is described to the admin choosing it
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: "Sees and changes everything, and manages users",
+  family: "Sees and changes everything",
+  carer: "Appointments, notes and observations only",
+  viewer: "Sees everything but can't change anything",
+};
+
+// Roles that may see each area
+const AREA_ROLES: Record<Area, UserRole[]> = {
+  finances: ["admin", "family", "viewer"],
+  reminders: ["admin", "family", "viewer"],
+  appointments: ["admin", "family", "carer", "viewer"],
+  health: ["admin", "family", "viewer"],
+  notes: ["admin", "family", "carer", "viewer"],
+  observations: ["admin", "family", "carer", "viewer"],
+};
+
+// Viewers are read-only everywhere
+const READ_ONLY_ROLES: UserRole[] = ["viewer"];
+
+// Roles that may see an area, for requireRole on its router
+export const viewerRoles = (area: Area): UserRole[] => AREA_ROLES[area];
+
+// Roles that may change an area, for the roles of its commands
+export const editorRoles = (area: Area): UserRole[] =>
+  AREA_ROLES[area].filter((role) => !READ_ONLY_ROLES.includes(role));
+
+// Checks whether a user may see an area
+export const canView = (user: User, area: Area): boolean =>
+  viewerRoles(area).includes(user.role);
+
+// Checks whether a user may change an area
+export const canEdit = (user: User, area: Area): boolean =>
+  editorRoles(area).includes(user.role);
+
+// Checks whether a role may change anything at all
+export const isReadOnlyRole = (role: UserRole): boolean =>
+  READ_ONLY_ROLES.includes(role);
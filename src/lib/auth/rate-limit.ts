@@ -1,55 +1,62 @@
 import type { Context, Next } from "hono";
-
-type RateLimitEntry = {
-  count: number;
-  resetAt: number;
-};
+import { client } from "../db.ts";
+import { getClientIp } from "./client-ip.ts";
 
 type RateLimitOptions = {
   windowMs: number;
   maxRequests: number;
 };
 
-const store = new Map<string, RateLimitEntry>();
-
-// Periodically cleans up expired entries to prevent memory leaks
+// Periodically deletes finished windows so the table doesn't keep growing
 setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of store) {
-    if (now >= entry.resetAt) {
-      store.delete(key);
-    }
-  }
-}, 60_000);
-
-// Extracts the client IP from the request (Cloudflare -> Traefik -> app)
-// CF-Connecting-IP is set by Cloudflare to the real client address and cannot be spoofed.
-const getClientIp = (c: Context): string => {
-  return c.req.header("cf-connecting-ip") || "unknown";
+  client
+    .execute({
+      sql: "DELETE FROM rate_limit WHERE reset_at <= ?",
+      args: [Math.floor(Date.now() / 1000)],
+    })
+    .catch((error) => console.error("Failed to clean up rate limits:", error));
+}, 60_000).unref();
+
+// Counts a request against its key's window, starting a new window if the
+// last one has ended. Returns the count so far and when the window ends.
+// Kept in the database so limits survive restarts and are shared between
+// processes.
+const countRequest = async (
+  key: string,
+  windowMs: number,
+): Promise<{ count: number; resetAt: number }> => {
+  const now = Math.floor(Date.now() / 1000);
+  const result = await client.execute({
+    sql: `INSERT INTO rate_limit (key, count, reset_at) VALUES (?1, 1, ?2)
+          ON CONFLICT (key) DO UPDATE SET
+            count = CASE WHEN reset_at <= ?3 THEN 1 ELSE count + 1 END,
+            reset_at = CASE WHEN reset_at <= ?3 THEN ?2 ELSE reset_at END
+          RETURNING count, reset_at`,
+    args: [key, now + Math.ceil(windowMs / 1000), now],
+  });
+
+  const row = result.rows[0];
+  return { count: row.count as number, resetAt: row.reset_at as number };
 };
 
 // Creates a rate limiting middleware that restricts requests per IP within a time window
 export const rateLimit = ({ windowMs, maxRequests }: RateLimitOptions) => {
   return async (c: Context, next: Next) => {
     const ip = getClientIp(c);
-    const key = `${ip}:${c.req.path}`;
-    const now = Date.now();
-
-    const entry = store.get(key);
-
-    if (!entry || now >= entry.resetAt) {
-      store.set(key, { count: 1, resetAt: now + windowMs });
-      await next();
-      return;
-    }
-
-    if (entry.count >= maxRequests) {
-      const retryAfterSec = Math.ceil((entry.resetAt - now) / 1000);
+    const { count, resetAt } = await countRequest(
+      `${ip}:${c.req.path}`,
+      windowMs,
+    );
+
+    if (count > maxRequests) {
+      const retryAfterSec = Math.max(
+        1,
+        resetAt - Math.floor(Date.now() / 1000),
+      );
       c.header("Retry-After", String(retryAfterSec));
       return c.text("Too many requests. Please try again later.", 429);
     }
 
-    entry.count++;
     await next();
   };
 };
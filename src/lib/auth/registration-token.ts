@@ -1,4 +1,4 @@
-import type { User } from "../../types/user.ts";
+import type { User, UserRole } from "../../types/user.ts";
 import { client } from "../db.ts";
 import { generateSecureRandomString, hashSecret } from "./crypto.ts";
 import { findUserById } from "./user.ts";
@@ -6,6 +6,18 @@ import { findUserById } from "./user.ts";
 // Token expiry: 24 hours
 const TOKEN_EXPIRY_MS = 24 * 60 * 60 * 1000;
 
+// An invite link that hasn't been used yet, as listed for admins
+export type PendingInvite = {
+  userId: string;
+  userName: string | null;
+  email: string;
+  role: UserRole;
+  // Missing for invites made before this was recorded
+  createdAt: string | null;
+  expiresAt: string;
+  emailedAt: string | null;
+};
+
 // Creates a registration token for a user and returns the raw token.
 // Invalidates any existing tokens for that user first.
 // The token is stored as a SHA-256 hash (per Copenhagen Book recommendation).
@@ -24,9 +36,15 @@ export const createRegistrationToken = async (
   const tokenHash = await hashSecret(rawToken);
 
   await client.execute({
-    sql: `INSERT INTO registration_token (id, user_id, token_hash, expires_at)
-          VALUES (?, ?, ?, ?)`,
-    args: [id, userId, tokenHash, Math.floor((now + TOKEN_EXPIRY_MS) / 1000)],
+    sql: `INSERT INTO registration_token (id, user_id, token_hash, created_at, expires_at)
+          VALUES (?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      userId,
+      tokenHash,
+      Math.floor(now / 1000),
+      Math.floor((now + TOKEN_EXPIRY_MS) / 1000),
+    ],
   });
 
   return rawToken;
@@ -86,14 +104,49 @@ export const validateRegistrationToken = async (
   return findUserById(row.user_id as string);
 };
 
-// Deletes all registration tokens for a user
-export const deleteRegistrationTokens = async (
+// Records that a user's invite link was emailed to them
+export const markRegistrationTokenEmailed = async (
   userId: string,
 ): Promise<void> => {
   await client.execute({
+    sql: "UPDATE registration_token SET emailed_at = ? WHERE user_id = ?",
+    args: [Math.floor(Date.now() / 1000), userId],
+  });
+};
+
+// Gets every invite that hasn't been used, including expired ones so they
+// can be resent, soonest to expire first
+export const getPendingInvites = async (): Promise<PendingInvite[]> => {
+  const result = await client.execute(
+    `SELECT t.user_id, t.created_at, t.expires_at, t.emailed_at, u.name, u.email, u.role
+     FROM registration_token t
+     JOIN user u ON t.user_id = u.id
+     ORDER BY t.expires_at ASC`,
+  );
+
+  const toIso = (seconds: unknown) =>
+    seconds ? new Date((seconds as number) * 1000).toISOString() : null;
+
+  return result.rows.map((row) => ({
+    userId: row.user_id as string,
+    userName: row.name as string | null,
+    email: row.email as string,
+    role: row.role as UserRole,
+    createdAt: toIso(row.created_at),
+    expiresAt: toIso(row.expires_at)!,
+    emailedAt: toIso(row.emailed_at),
+  }));
+};
+
+// Deletes all registration tokens for a user. Returns whether there were any.
+export const deleteRegistrationTokens = async (
+  userId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
     sql: "DELETE FROM registration_token WHERE user_id = ?",
     args: [userId],
   });
+  return result.rowsAffected > 0;
 };
 
 // Cleans up expired registration tokens
@@ -1,17 +1,32 @@
-import type { User } from "../../types/user.ts";
+import type { User, UserRole } from "../../types/user.ts";
 import type { Session } from "../../types/hono.ts";
+import { eventBus } from "../cqrs/event-bus.ts";
 import { client } from "../db.ts";
 import {
   constantTimeEqual,
   generateSecureRandomString,
   hashSecret,
 } from "./crypto.ts";
+import { describeUserAgent } from "./user-agent.ts";
 
 // Session expiry: 30 days
 const SESSION_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
 
-// Creates a new session for a user, returns the token
-export const createSession = async (userId: string): Promise<string> => {
+// A signed-in device, as listed on the account security page
+export type ActiveSession = {
+  id: string;
+  device: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+};
+
+// Creates a new session for a user, returns the token. The user agent is kept
+// so the user can tell their devices apart.
+export const createSession = async (
+  userId: string,
+  userAgent: string | null = null,
+): Promise<string> => {
   const now = Date.now();
   const id = generateSecureRandomString();
   const secret = generateSecureRandomString();
@@ -19,14 +34,16 @@ export const createSession = async (userId: string): Promise<string> => {
   const token = `${id}.${secret}`;
 
   await client.execute({
-    sql: `INSERT INTO session (id, user_id, secret_hash, created_at, expires_at)
-          VALUES (?, ?, ?, ?, ?)`,
+    sql: `INSERT INTO session (id, user_id, secret_hash, created_at, last_active_at, expires_at, user_agent)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
     args: [
       id,
       userId,
       secretHash,
       Math.floor(now / 1000),
+      Math.floor(now / 1000),
       Math.floor((now + SESSION_EXPIRY_MS) / 1000),
+      userAgent?.slice(0, 512) ?? null,
     ],
   });
 
@@ -46,8 +63,10 @@ export const validateSessionToken = async (
   // Fetch session with user data
   const result = await client.execute({
     sql: `SELECT
-            s.id, s.user_id, s.secret_hash, s.created_at, s.expires_at,
-            u.id as u_id, u.email, u.name, u.role, u.created_at as u_created_at, u.updated_at
+            s.id, s.user_id, s.secret_hash, s.created_at, s.last_active_at, s.expires_at,
+            u.id as u_id, u.email, u.name, u.role, u.current_household_id, u.created_at as u_created_at, u.updated_at,
+            u.deactivated_at,
+            u.totp_required = 1 AND u.totp_enabled_at IS NULL as must_enroll_two_factor
           FROM session s
           JOIN user u ON s.user_id = u.id
           WHERE s.id = ?`,
@@ -59,8 +78,8 @@ export const validateSessionToken = async (
   const row = result.rows[0];
   const now = Math.floor(Date.now() / 1000);
 
-  // Check if session is expired
-  if ((row.expires_at as number) < now) {
+  // Check if session is expired, or the account was deactivated since
+  if ((row.expires_at as number) < now || row.deactivated_at !== null) {
     await deleteSession(sessionId);
     return null;
   }
@@ -77,13 +96,18 @@ export const validateSessionToken = async (
     token: sessionId,
     userId: row.user_id as string,
     expiresAt: new Date((row.expires_at as number) * 1000).toISOString(),
+    lastActiveAt: new Date(
+      ((row.last_active_at ?? row.created_at) as number) * 1000,
+    ).toISOString(),
+    mustEnrollTwoFactor: (row.must_enroll_two_factor as number) === 1,
   };
 
   const user: User = {
     id: row.u_id as string,
     email: row.email as string,
     name: row.name as string | null,
-    role: row.role as "admin" | "user",
+    role: row.role as UserRole,
+    householdId: row.current_household_id as string | null,
     createdAt: new Date((row.u_created_at as number) * 1000).toISOString(),
     updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
   };
@@ -91,27 +115,101 @@ export const validateSessionToken = async (
   return { session, user };
 };
 
+// Tells any open pages of the deleted sessions to go to the login page
+const announceRevoked = (sessionIds: string[]) => {
+  for (const sessionId of sessionIds) {
+    eventBus.publishToSession(sessionId, { type: "session.revoked" });
+  }
+};
+
 // Deletes a session by ID
 export const deleteSession = async (sessionId: string): Promise<void> => {
   await client.execute({
     sql: "DELETE FROM session WHERE id = ?",
     args: [sessionId],
   });
+  announceRevoked([sessionId]);
 };
 
-// Deletes all sessions for a user
-export const deleteUserSessions = async (userId: string): Promise<void> => {
-  await client.execute({
-    sql: "DELETE FROM session WHERE user_id = ?",
-    args: [userId],
+// Deletes one of a user's sessions. Returns false if it wasn't theirs.
+export const deleteUserSession = async (
+  userId: string,
+  sessionId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "DELETE FROM session WHERE id = ? AND user_id = ?",
+    args: [sessionId, userId],
+  });
+  announceRevoked(result.rowsAffected > 0 ? [sessionId] : []);
+  return result.rowsAffected > 0;
+};
+
+// Deletes all sessions for a user, optionally keeping the current one.
+// Returns how many were deleted.
+export const deleteUserSessions = async (
+  userId: string,
+  exceptSessionId?: string,
+): Promise<number> => {
+  const result = await client.execute({
+    sql: "DELETE FROM session WHERE user_id = ? AND id != ? RETURNING id",
+    args: [userId, exceptSessionId ?? ""],
+  });
+  announceRevoked(result.rows.map((row) => row.id as string));
+  return result.rows.length;
+};
+
+// Gets a user's unexpired sessions, most recently active first
+export const getUserSessions = async (
+  userId: string,
+): Promise<ActiveSession[]> => {
+  const result = await client.execute({
+    sql: `SELECT id, user_agent, created_at, last_active_at, expires_at FROM session
+          WHERE user_id = ? AND expires_at >= ?
+          ORDER BY COALESCE(last_active_at, created_at) DESC`,
+    args: [userId, Math.floor(Date.now() / 1000)],
+  });
+
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    device: describeUserAgent(row.user_agent as string | null),
+    createdAt: new Date((row.created_at as number) * 1000).toISOString(),
+    lastActiveAt: new Date(
+      ((row.last_active_at ?? row.created_at) as number) * 1000,
+    ).toISOString(),
+    expiresAt: new Date((row.expires_at as number) * 1000).toISOString(),
+  }));
+};
+
+// Checks whether a user signed in on a session within the last maxAgeSeconds
+export const isRecentSignIn = async (
+  userId: string,
+  sessionId: string,
+  maxAgeSeconds: number,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "SELECT 1 FROM session WHERE id = ? AND user_id = ? AND created_at >= ?",
+    args: [sessionId, userId, Math.floor(Date.now() / 1000) - maxAgeSeconds],
   });
+  return result.rows.length > 0;
 };
 
 // Extends session expiry (call periodically to keep session alive)
 export const extendSession = async (sessionId: string): Promise<void> => {
   const now = Date.now();
   await client.execute({
-    sql: "UPDATE session SET expires_at = ? WHERE id = ?",
-    args: [Math.floor((now + SESSION_EXPIRY_MS) / 1000), sessionId],
+    sql: "UPDATE session SET expires_at = ?, last_active_at = ? WHERE id = ?",
+    args: [
+      Math.floor((now + SESSION_EXPIRY_MS) / 1000),
+      Math.floor(now / 1000),
+      sessionId,
+    ],
+  });
+};
+
+// Records that a session was just used
+export const touchSession = async (sessionId: string): Promise<void> => {
+  await client.execute({
+    sql: "UPDATE session SET last_active_at = ? WHERE id = ?",
+    args: [Math.floor(Date.now() / 1000), sessionId],
   });
 };
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getTotpCode, getTotpStep, verifyTotpCode } from "./totp.ts";
+
+// The RFC 6238 test secret, "12345678901234567890", base32 encoded
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// A moment partway through a 30 second step
+const NOW = new Date("2026-01-01T12:00:10Z");
+
+describe("getTotpCode", () => {
+  it("matches the RFC 6238 SHA-1 test vectors", () => {
+    expect(getTotpCode(SECRET, getTotpStep(59_000))).toBe("287082");
+    expect(getTotpCode(SECRET, getTotpStep(1_111_111_109_000))).toBe("081804");
+    expect(getTotpCode(SECRET, getTotpStep(1_234_567_890_000))).toBe("005924");
+  });
+});
+
+describe("verifyTotpCode", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const step = getTotpStep(NOW.getTime());
+
+  it("accepts the current code and one step either side", () => {
+    for (const offset of [-1, 0, 1]) {
+      expect(verifyTotpCode(SECRET, getTotpCode(SECRET, step + offset))).toBe(
+        step + offset,
+      );
+    }
+  });
+
+  it("refuses codes from further away", () => {
+    expect(verifyTotpCode(SECRET, getTotpCode(SECRET, step - 2))).toBeNull();
+    expect(verifyTotpCode(SECRET, getTotpCode(SECRET, step + 2))).toBeNull();
+  });
+
+  it("refuses a code from a step that was already used", () => {
+    const code = getTotpCode(SECRET, step);
+    expect(verifyTotpCode(SECRET, code, step)).toBeNull();
+    expect(verifyTotpCode(SECRET, code, step + 1)).toBeNull();
+    expect(verifyTotpCode(SECRET, code, step - 1)).toBe(step);
+  });
+
+  it("ignores spaces in the code", () => {
+    const code = getTotpCode(SECRET, step);
+    expect(verifyTotpCode(SECRET, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(
+      step,
+    );
+  });
+
+  it("refuses anything that isn't six digits", () => {
+    const code = getTotpCode(SECRET, step);
+    expect(verifyTotpCode(SECRET, code.slice(1))).toBeNull();
+    expect(verifyTotpCode(SECRET, `${code}0`)).toBeNull();
+    expect(verifyTotpCode(SECRET, "abcdef")).toBeNull();
+  });
+});
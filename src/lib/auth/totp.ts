@@ -0,0 +1,105 @@
+import { createHmac, randomBytes } from "crypto";
+
+// RFC 4648 base32 alphabet, used by authenticator apps for secrets
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Codes change every 30 seconds and have 6 digits (RFC 6238 defaults)
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+// Steps either side of now that are accepted, to allow for clock drift
+const DRIFT_STEPS = 1;
+
+const ISSUER = "All Eyes on Mum";
+
+// Encodes bytes as unpadded base32
+const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+// Decodes base32, ignoring case, spaces and padding
+const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(output);
+};
+
+// Generates a new 160-bit TOTP secret, base32 encoded
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+// Gets the time step a moment falls in
+export const getTotpStep = (timeMs = Date.now()): number =>
+  Math.floor(timeMs / 1000 / STEP_SECONDS);
+
+// Computes the code for a secret at a time step (HOTP, RFC 4226)
+export const getTotpCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+};
+
+// Checks a code against the steps around now and returns the step it matched,
+// or null. Steps at or before lastStep are refused so a code can't be replayed.
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  lastStep: number | null = null,
+): number | null => {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = getTotpStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (lastStep !== null && step <= lastStep) continue;
+    if (getTotpCode(secret, step) === normalized) return step;
+  }
+  return null;
+};
+
+// Builds the otpauth:// URI that authenticator apps read from the QR code
+export const getTotpUri = (secret: string, email: string): string => {
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+};
+
+// Formats a secret in groups of four for typing in by hand
+export const formatTotpSecret = (secret: string): string =>
+  secret.match(/.{1,4}/g)?.join(" ") ?? secret;
@@ -0,0 +1,215 @@
+import { client } from "../db.ts";
+import {
+  constantTimeEqual,
+  generateSecureRandomString,
+  hashSecret,
+} from "./crypto.ts";
+import { generateTotpSecret, verifyTotpCode } from "./totp.ts";
+
+// Number of recovery codes issued at a time
+const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  // Secret waiting for its first code, while enrolment is in progress
+  pendingSecret: string | null;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+};
+
+// Generates a recovery code like "k7mq2-xr9tb"
+const generateRecoveryCode = (): string => {
+  const raw = generateSecureRandomString();
+  return `${raw.slice(0, 5)}-${raw.slice(5, 10)}`;
+};
+
+// Normalises a typed recovery code (case, spaces, missing dash)
+const normalizeRecoveryCode = (code: string): string => {
+  const compact = code.toLowerCase().replace(/[\s-]/g, "");
+  return `${compact.slice(0, 5)}-${compact.slice(5)}`;
+};
+
+// Gets a user's two-factor state
+export const getTwoFactorStatus = async (
+  userId: string,
+): Promise<TwoFactorStatus> => {
+  const result = await client.execute({
+    sql: `SELECT totp_secret, totp_enabled_at, totp_required,
+            (SELECT COUNT(*) FROM recovery_code r WHERE r.user_id = u.id AND r.used_at IS NULL) as codes_left
+          FROM user u WHERE id = ?`,
+    args: [userId],
+  });
+
+  const row = result.rows[0];
+  const enabledAt = (row?.totp_enabled_at as number | null) ?? null;
+  return {
+    enabled: enabledAt !== null,
+    required: (row?.totp_required as number) === 1,
+    pendingSecret:
+      enabledAt === null ? ((row?.totp_secret as string | null) ?? null) : null,
+    enabledAt: enabledAt ? new Date(enabledAt * 1000).toISOString() : null,
+    recoveryCodesLeft: (row?.codes_left as number) ?? 0,
+  };
+};
+
+// Checks whether a user has to enter a code when logging in
+export const isTwoFactorEnabled = async (userId: string): Promise<boolean> =>
+  (await getTwoFactorStatus(userId)).enabled;
+
+// Starts enrolment with a fresh secret, replacing any unconfirmed one.
+// Does nothing to a user who is already enrolled.
+export const beginTotpEnrollment = async (userId: string): Promise<string> => {
+  const secret = generateTotpSecret();
+  await client.execute({
+    sql: `UPDATE user SET totp_secret = ?, totp_last_step = NULL
+          WHERE id = ? AND totp_enabled_at IS NULL`,
+    args: [secret, userId],
+  });
+  return secret;
+};
+
+// Replaces a user's recovery codes and returns the new raw codes.
+// Only hashes are stored, so these can be shown once.
+export const regenerateRecoveryCodes = async (
+  userId: string,
+): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    generateRecoveryCode(),
+  );
+  const hashes = await Promise.all(codes.map((code) => hashSecret(code)));
+
+  await client.batch(
+    [
+      {
+        sql: "DELETE FROM recovery_code WHERE user_id = ?",
+        args: [userId],
+      },
+      ...hashes.map((hash) => ({
+        sql: `INSERT INTO recovery_code (id, user_id, code_hash, used_at)
+              VALUES (?, ?, ?, NULL)`,
+        args: [generateSecureRandomString(), userId, hash],
+      })),
+    ],
+    "write",
+  );
+
+  return codes;
+};
+
+// Finishes enrolment once the user proves their app shows the right code.
+// Returns the new recovery codes, or null if the code was wrong.
+export const confirmTotpEnrollment = async (
+  userId: string,
+  code: string,
+): Promise<string[] | null> => {
+  const status = await getTwoFactorStatus(userId);
+  if (!status.pendingSecret) return null;
+
+  const step = verifyTotpCode(status.pendingSecret, code);
+  if (step === null) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  await client.execute({
+    sql: `UPDATE user SET totp_enabled_at = ?, totp_last_step = ?, updated_at = ?
+          WHERE id = ?`,
+    args: [now, step, now, userId],
+  });
+
+  return regenerateRecoveryCodes(userId);
+};
+
+// Turns two-factor off and removes the secret and recovery codes
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+  await client.batch(
+    [
+      {
+        sql: `UPDATE user SET totp_secret = NULL, totp_enabled_at = NULL,
+                totp_last_step = NULL, updated_at = ?
+              WHERE id = ?`,
+        args: [now, userId],
+      },
+      {
+        sql: "DELETE FROM recovery_code WHERE user_id = ?",
+        args: [userId],
+      },
+    ],
+    "write",
+  );
+};
+
+// Checks a code from the user's authenticator app, recording its time step
+// so the same code can't be used again
+const verifyTotp = async (userId: string, code: string): Promise<boolean> => {
+  const result = await client.execute({
+    sql: `SELECT totp_secret, totp_last_step FROM user
+          WHERE id = ? AND totp_enabled_at IS NOT NULL`,
+    args: [userId],
+  });
+  if (result.rows.length === 0) return false;
+
+  const row = result.rows[0];
+  const step = verifyTotpCode(
+    row.totp_secret as string,
+    code,
+    row.totp_last_step as number | null,
+  );
+  if (step === null) return false;
+
+  // Only one request can move the step forward, so a code raced from two
+  // tabs still only works once
+  const updated = await client.execute({
+    sql: `UPDATE user SET totp_last_step = ?
+          WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)`,
+    args: [step, userId, step],
+  });
+  return updated.rowsAffected === 1;
+};
+
+// Checks and uses up one of the user's recovery codes
+const useRecoveryCode = async (
+  userId: string,
+  code: string,
+): Promise<boolean> => {
+  const codeHash = await hashSecret(normalizeRecoveryCode(code));
+  const result = await client.execute({
+    sql: "SELECT id, code_hash FROM recovery_code WHERE user_id = ? AND used_at IS NULL",
+    args: [userId],
+  });
+
+  const match = result.rows.find((row) =>
+    constantTimeEqual(codeHash, Buffer.from(row.code_hash as ArrayBuffer)),
+  );
+  if (!match) return false;
+
+  const updated = await client.execute({
+    sql: "UPDATE recovery_code SET used_at = ? WHERE id = ? AND used_at IS NULL",
+    args: [Math.floor(Date.now() / 1000), match.id as string],
+  });
+  return updated.rowsAffected === 1;
+};
+
+// Verifies a second factor: a 6-digit code from the authenticator app or
+// one of the user's recovery codes
+export const verifySecondFactor = async (
+  userId: string,
+  code: string,
+): Promise<boolean> => {
+  const trimmed = code.trim();
+  if (/^\d[\d\s]*$/.test(trimmed)) {
+    return verifyTotp(userId, trimmed);
+  }
+  return useRecoveryCode(userId, trimmed);
+};
+
+// Sets whether a user must enrol in two-factor authentication
+export const setTwoFactorRequired = async (
+  userId: string,
+  required: boolean,
+): Promise<void> => {
+  await client.execute({
+    sql: "UPDATE user SET totp_required = ?, updated_at = ? WHERE id = ?",
+    args: [required ? 1 : 0, Math.floor(Date.now() / 1000), userId],
+  });
+};
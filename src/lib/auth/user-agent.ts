@@ -0,0 +1,34 @@
+// Browsers to look for, most specific first: Edge and Opera also claim to be
+// Chrome, and Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+// Operating systems and devices, most specific first: iPadOS and Android both
+// mention other platforms too
+const PLATFORMS: [RegExp, string][] = [
+  [/iPad/, "iPad"],
+  [/iPhone|iPod/, "iPhone"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Windows/, "Windows"],
+  [/Macintosh|Mac OS X/, "Mac"],
+  [/Linux/, "Linux"],
+];
+
+// Describes the device behind a User-Agent header in a few words, e.g.
+// "Safari on iPhone". Only approximate, since browsers can say anything.
+export const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return "Unknown device";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? "Unknown device";
+};
@@ -1,5 +1,5 @@
 import { env } from "../../env.ts";
-import type { User } from "../../types/user.ts";
+import type { User, UserRole } from "../../types/user.ts";
 import { client } from "../db.ts";
 import {
   generateSecureRandomString,
@@ -13,7 +13,7 @@ export const createUser = async (
   email: string,
   password: string | null,
   name?: string,
-  role: "admin" | "user" = "user",
+  role: UserRole = "family",
 ): Promise<User> => {
   const now = Math.floor(Date.now() / 1000);
   const id = generateSecureRandomString();
@@ -30,12 +30,14 @@ export const createUser = async (
     email: email.toLowerCase(),
     name: name || null,
     role,
+    householdId: null,
     createdAt: new Date(now * 1000).toISOString(),
     updatedAt: new Date(now * 1000).toISOString(),
   };
 };
 
-// Sets the password for a user (used during invite-based registration)
+// Sets the password for a user (used during invite-based registration and
+// from account settings)
 export const setUserPassword = async (
   userId: string,
   password: string,
@@ -49,10 +51,90 @@ export const setUserPassword = async (
   });
 };
 
+// Checks whether a user has a password (passkey-only users don't)
+export const userHasPassword = async (userId: string): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "SELECT 1 FROM user WHERE id = ? AND password_hash IS NOT NULL",
+    args: [userId],
+  });
+  return result.rows.length > 0;
+};
+
+// Changes a user's display name
+export const updateUserName = async (
+  userId: string,
+  name: string,
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  await client.execute({
+    sql: `UPDATE user SET name = ?, updated_at = ? WHERE id = ?`,
+    args: [name, now, userId],
+  });
+};
+
+// Changes a user's role
+export const updateUserRole = async (
+  userId: string,
+  role: UserRole,
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  await client.execute({
+    sql: `UPDATE user SET role = ?, updated_at = ? WHERE id = ?`,
+    args: [role, now, userId],
+  });
+};
+
+// Deactivates or reactivates an account. Deactivated users can't sign in and
+// their sessions are rejected; their records stay as they are.
+export const setUserDeactivated = async (
+  userId: string,
+  deactivated: boolean,
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  await client.execute({
+    sql: `UPDATE user SET deactivated_at = ?, updated_at = ? WHERE id = ?`,
+    args: [deactivated ? now : null, now, userId],
+  });
+};
+
+// Checks whether an account exists and hasn't been deactivated
+export const isUserActive = async (userId: string): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "SELECT 1 FROM user WHERE id = ? AND deactivated_at IS NULL",
+    args: [userId],
+  });
+  return result.rows.length > 0;
+};
+
+// Counts admins who can still sign in, so the last one can't be removed
+export const countActiveAdmins = async (): Promise<number> => {
+  const result = await client.execute({
+    sql: "SELECT COUNT(*) as count FROM user WHERE role = 'admin' AND deactivated_at IS NULL",
+    args: [],
+  });
+  return result.rows[0].count as number;
+};
+
+// Changes a user's email address, once the new one has been confirmed
+export const updateUserEmail = async (
+  userId: string,
+  email: string,
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  await client.execute({
+    sql: `UPDATE user SET email = ?, updated_at = ? WHERE id = ?`,
+    args: [email.toLowerCase(), now, userId],
+  });
+};
+
 // Finds a user by email
 export const findUserByEmail = async (email: string): Promise<User | null> => {
   const result = await client.execute({
-    sql: "SELECT id, email, name, role, created_at, updated_at FROM user WHERE email = ?",
+    sql: "SELECT id, email, name, role, current_household_id, created_at, updated_at FROM user WHERE email = ?",
     args: [email.toLowerCase()],
   });
 
@@ -63,20 +145,22 @@ export const findUserByEmail = async (email: string): Promise<User | null> => {
     id: row.id as string,
     email: row.email as string,
     name: row.name as string | null,
-    role: row.role as "admin" | "user",
+    role: row.role as UserRole,
+    householdId: row.current_household_id as string | null,
     createdAt: new Date((row.created_at as number) * 1000).toISOString(),
     updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
   };
 };
 
 // Verifies user credentials and returns user if valid.
-// Returns null if the user has no password set (invite pending).
+// Returns null if the user has no password set (invite pending, or they
+// only use passkeys) or the account has been deactivated.
 export const verifyUserCredentials = async (
   email: string,
   password: string,
 ): Promise<User | null> => {
   const result = await client.execute({
-    sql: "SELECT id, email, name, role, password_hash, created_at, updated_at FROM user WHERE email = ?",
+    sql: "SELECT id, email, name, role, current_household_id, password_hash, deactivated_at, created_at, updated_at FROM user WHERE email = ?",
     args: [email.toLowerCase()],
   });
 
@@ -85,17 +169,19 @@ export const verifyUserCredentials = async (
   const row = result.rows[0];
   const passwordHash = row.password_hash as string | null;
 
-  // User hasn't set a password yet (invite pending)
+  // User hasn't set a password (invite pending or passkey only)
   if (!passwordHash) return null;
 
+  // Still check the password so the response takes just as long
   const valid = await verifyPassword(password, passwordHash);
-  if (!valid) return null;
+  if (!valid || row.deactivated_at !== null) return null;
 
   return {
     id: row.id as string,
     email: row.email as string,
     name: row.name as string | null,
-    role: row.role as "admin" | "user",
+    role: row.role as UserRole,
+    householdId: row.current_household_id as string | null,
     createdAt: new Date((row.created_at as number) * 1000).toISOString(),
     updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
   };
@@ -132,7 +218,7 @@ export const isAdminEmail = (email: string): boolean => {
 // Finds a user by ID
 export const findUserById = async (id: string): Promise<User | null> => {
   const result = await client.execute({
-    sql: "SELECT id, email, name, role, created_at, updated_at FROM user WHERE id = ?",
+    sql: "SELECT id, email, name, role, current_household_id, created_at, updated_at FROM user WHERE id = ?",
     args: [id],
   });
 
@@ -143,7 +229,8 @@ export const findUserById = async (id: string): Promise<User | null> => {
     id: row.id as string,
     email: row.email as string,
     name: row.name as string | null,
-    role: row.role as "admin" | "user",
+    role: row.role as UserRole,
+    householdId: row.current_household_id as string | null,
     createdAt: new Date((row.created_at as number) * 1000).toISOString(),
     updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
   };
@@ -152,7 +239,7 @@ export const findUserById = async (id: string): Promise<User | null> => {
 // Gets all users (for admin)
 export const getAllUsers = async (): Promise<User[]> => {
   const result = await client.execute({
-    sql: "SELECT id, email, name, role, created_at, updated_at FROM user ORDER BY created_at DESC",
+    sql: "SELECT id, email, name, role, current_household_id, created_at, updated_at FROM user ORDER BY created_at DESC",
     args: [],
   });
 
@@ -160,30 +247,52 @@ export const getAllUsers = async (): Promise<User[]> => {
     id: row.id as string,
     email: row.email as string,
     name: row.name as string | null,
-    role: row.role as "admin" | "user",
+    role: row.role as UserRole,
+    householdId: row.current_household_id as string | null,
     createdAt: new Date((row.created_at as number) * 1000).toISOString(),
     updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
   }));
 };
 
 export type UserWithStatus = User & {
+  deactivatedAt: string | null;
   hasPassword: boolean;
+  hasPasskey: boolean;
+  activeSessions: number;
+  activeApiTokens: number;
+  twoFactorEnabled: boolean;
+  twoFactorRequired: boolean;
 };
 
 // Gets all users with registration status (for admin user management)
 export const getAllUsersWithStatus = async (): Promise<UserWithStatus[]> => {
+  const now = Math.floor(Date.now() / 1000);
   const result = await client.execute({
-    sql: `SELECT id, email, name, role, password_hash IS NOT NULL as has_password, created_at, updated_at
+    sql: `SELECT id, email, name, role, current_household_id, password_hash IS NOT NULL as has_password,
+            EXISTS (SELECT 1 FROM passkey WHERE passkey.user_id = user.id) as has_passkey,
+            (SELECT COUNT(*) FROM session WHERE session.user_id = user.id AND session.expires_at >= ?) as active_sessions,
+            (SELECT COUNT(*) FROM api_token WHERE api_token.user_id = user.id AND api_token.expires_at >= ?) as active_api_tokens,
+            totp_enabled_at IS NOT NULL as two_factor_enabled, totp_required, deactivated_at,
+            created_at, updated_at
           FROM user ORDER BY created_at DESC`,
-    args: [],
+    args: [now, now],
   });
 
   return result.rows.map((row) => ({
     id: row.id as string,
     email: row.email as string,
     name: row.name as string | null,
-    role: row.role as "admin" | "user",
+    role: row.role as UserRole,
+    householdId: row.current_household_id as string | null,
+    deactivatedAt: row.deactivated_at
+      ? new Date((row.deactivated_at as number) * 1000).toISOString()
+      : null,
     hasPassword: (row.has_password as number) === 1,
+    hasPasskey: (row.has_passkey as number) === 1,
+    activeSessions: row.active_sessions as number,
+    activeApiTokens: row.active_api_tokens as number,
+    twoFactorEnabled: (row.two_factor_enabled as number) === 1,
+    twoFactorRequired: (row.totp_required as number) === 1,
     createdAt: new Date((row.created_at as number) * 1000).toISOString(),
     updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
   }));
@@ -0,0 +1,59 @@
+import { client } from "../db.ts";
+import { generateSecureRandomString, hashSecret } from "./crypto.ts";
+
+// Time allowed to answer the browser's passkey prompt: 5 minutes
+const CHALLENGE_EXPIRY_MS = 5 * 60 * 1000;
+
+export type WebAuthnChallenge = {
+  challenge: string;
+  userId: string | null;
+};
+
+// Stores the challenge sent with passkey options. Returns the raw token, which
+// is kept in a cookie until the browser sends back its response.
+export const createWebAuthnChallenge = async (
+  challenge: string,
+  userId: string | null,
+): Promise<string> => {
+  await client.execute({
+    sql: "DELETE FROM webauthn_challenge WHERE expires_at < ?",
+    args: [Math.floor(Date.now() / 1000)],
+  });
+
+  const rawToken = generateSecureRandomString();
+  await client.execute({
+    sql: `INSERT INTO webauthn_challenge (id, user_id, token_hash, challenge, expires_at)
+          VALUES (?, ?, ?, ?, ?)`,
+    args: [
+      generateSecureRandomString(),
+      userId,
+      await hashSecret(rawToken),
+      challenge,
+      Math.floor((Date.now() + CHALLENGE_EXPIRY_MS) / 1000),
+    ],
+  });
+
+  return rawToken;
+};
+
+// Finds and deletes a challenge by its raw token. Single-use, so a captured
+// response can't be replayed.
+export const consumeWebAuthnChallenge = async (
+  rawToken: string,
+): Promise<WebAuthnChallenge | null> => {
+  const result = await client.execute({
+    sql: `DELETE FROM webauthn_challenge WHERE token_hash = ?
+          RETURNING user_id, challenge, expires_at`,
+    args: [await hashSecret(rawToken)],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  if ((row.expires_at as number) < Math.floor(Date.now() / 1000)) return null;
+
+  return {
+    challenge: row.challenge as string,
+    userId: row.user_id as string | null,
+  };
+};
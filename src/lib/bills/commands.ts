@@ -1,7 +1,15 @@
 import type { BillCategory, BillFrequency } from "../../types/bill.ts";
-import { defineCommand } from "../cqrs/index.ts";
+import { editorRoles } from "../auth/permissions.ts";
+import { CommandRejectedError, defineCommand } from "../cqrs/index.ts";
 import { createNotification } from "../notifications/index.ts";
-import { createBill, deleteBill, markBillPaid, updateBill } from "./index.ts";
+import {
+  createBill,
+  deleteBill,
+  markBillPaid,
+  purgeBill,
+  restoreBill,
+  updateBill,
+} from "./index.ts";
 
 type CreateBillInput = {
   name: string;
@@ -38,10 +46,13 @@ type DeleteBillInput = {
 export const createBillCommand = defineCommand({
   type: "bill.create",
   emits: "bill.created",
+  scope: "household",
+  roles: editorRoles("finances"),
   handler: async (user, data: CreateBillInput) => {
-    const bill = await createBill(data, user.id);
+    const bill = await createBill(user.householdId!, data, user.id);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Bill added",
       message: `${data.name} has been added.`,
@@ -54,11 +65,14 @@ export const createBillCommand = defineCommand({
 export const updateBillCommand = defineCommand({
   type: "bill.update",
   emits: "bill.updated",
+  scope: "household",
+  roles: editorRoles("finances"),
   handler: async (user, data: UpdateBillInput) => {
     const { id, ...updateData } = data;
-    const bill = await updateBill(id, updateData);
+    const bill = await updateBill(id, user.householdId!, updateData);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Bill updated",
       message: `${updateData.name || "Bill"} has been updated.`,
@@ -71,15 +85,19 @@ export const updateBillCommand = defineCommand({
 export const markBillPaidCommand = defineCommand({
   type: "bill.markPaid",
   emits: "bill.paid",
+  scope: "household",
+  roles: editorRoles("finances"),
   handler: async (user, data: MarkBillPaidInput) => {
     const result = await markBillPaid(
       data.billId,
+      user.householdId!,
       data.amount,
       user.id,
       data.notes,
     );
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Bill paid",
       message: `Payment of ${new Intl.NumberFormat("en-GB", { style: "currency", currency: "GBP" }).format(data.amount)} recorded.`,
@@ -92,14 +110,55 @@ export const markBillPaidCommand = defineCommand({
 export const deleteBillCommand = defineCommand({
   type: "bill.delete",
   emits: "bill.deleted",
+  scope: "household",
+  roles: editorRoles("finances"),
   handler: async (user, data: DeleteBillInput) => {
-    const success = await deleteBill(data.id);
+    const success = await deleteBill(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Bill deleted",
-      message: "The bill has been removed.",
+      message: "The bill has been moved to the trash.",
+      undoUrl: `/app/trash/bill/${data.id}/restore?household=${user.householdId}`,
     });
     return { success, id: data.id };
   },
 });
+
+// Restores a bill from the trash
+export const restoreBillCommand = defineCommand({
+  type: "bill.restore",
+  emits: "bill.restored",
+  scope: "household",
+  roles: editorRoles("finances"),
+  handler: async (user, data: { id: string }) => {
+    const success = await restoreBill(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError("That bill isn't in the trash any more");
+    }
+    await createNotification({
+      userId: user.id,
+      householdId: user.householdId,
+      type: "success",
+      title: "Bill restored",
+      message: "The bill has been restored from the trash.",
+    });
+    return { success, id: data.id };
+  },
+});
+
+// Permanently deletes a bill from the trash
+export const purgeBillCommand = defineCommand({
+  type: "bill.purge",
+  emits: "bill.purged",
+  scope: "household",
+  roles: editorRoles("finances"),
+  handler: async (user, data: { id: string }) => {
+    const success = await purgeBill(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError("That bill isn't in the trash any more");
+    }
+    return { success, id: data.id };
+  },
+});
@@ -7,8 +7,6 @@ import type {
 import { generateSecureRandomString } from "../auth/crypto.ts";
 import { client } from "../db.ts";
 
-export { initBillTables } from "./schema.ts";
-
 type CreateBillData = {
   name: string;
   amount?: number | null;
@@ -80,8 +78,9 @@ export const advanceDueDate = (
   return date.toISOString().split("T")[0];
 };
 
-// Creates a new bill
+// Creates a new bill in a household
 export const createBill = async (
+  householdId: string,
   data: CreateBillData,
   userId: string,
 ): Promise<Bill> => {
@@ -89,10 +88,11 @@ export const createBill = async (
   const now = new Date().toISOString();
 
   await client.execute({
-    sql: `INSERT INTO bill (id, name, amount, frequency, due_date, category, notes, reminder_days, created_by, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    sql: `INSERT INTO bill (id, household_id, name, amount, frequency, due_date, category, notes, reminder_days, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     args: [
       id,
+      householdId,
       data.name,
       data.amount ?? null,
       data.frequency,
@@ -121,13 +121,16 @@ export const createBill = async (
   };
 };
 
-// Gets a single bill by ID
-export const getBill = async (id: string): Promise<Bill | null> => {
+// Gets a single bill by ID, if it belongs to the household
+export const getBill = async (
+  id: string,
+  householdId: string,
+): Promise<Bill | null> => {
   const result = await client.execute({
     sql: `SELECT id, name, amount, frequency, due_date, category, notes, reminder_days, created_by, created_at, updated_at
           FROM bill
-          WHERE id = ?`,
-    args: [id],
+          WHERE id = ? AND household_id = ? AND deleted_at IS NULL`,
+    args: [id, householdId],
   });
 
   if (result.rows.length === 0) {
@@ -137,20 +140,24 @@ export const getBill = async (id: string): Promise<Bill | null> => {
   return rowToBill(result.rows[0]);
 };
 
-// Gets all bills sorted by due date
-export const getAllBills = async (): Promise<Bill[]> => {
+// Gets a household's bills sorted by due date
+export const getAllBills = async (householdId: string): Promise<Bill[]> => {
   const result = await client.execute({
     sql: `SELECT id, name, amount, frequency, due_date, category, notes, reminder_days, created_by, created_at, updated_at
           FROM bill
+          WHERE household_id = ? AND deleted_at IS NULL
           ORDER BY due_date ASC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToBill);
 };
 
-// Gets bills due within the specified number of days
-export const getBillsDueSoon = async (days: number): Promise<Bill[]> => {
+// Gets a household's bills due within the specified number of days
+export const getBillsDueSoon = async (
+  householdId: string,
+  days: number,
+): Promise<Bill[]> => {
   const today = new Date();
   const futureDate = new Date(today);
   futureDate.setDate(futureDate.getDate() + days);
@@ -161,24 +168,24 @@ export const getBillsDueSoon = async (days: number): Promise<Bill[]> => {
   const result = await client.execute({
     sql: `SELECT id, name, amount, frequency, due_date, category, notes, reminder_days, created_by, created_at, updated_at
           FROM bill
-          WHERE due_date >= ? AND due_date <= ?
+          WHERE household_id = ? AND due_date >= ? AND due_date <= ? AND deleted_at IS NULL
           ORDER BY due_date ASC`,
-    args: [todayStr, futureStr],
+    args: [householdId, todayStr, futureStr],
   });
 
   return result.rows.map(rowToBill);
 };
 
-// Gets overdue bills
-export const getOverdueBills = async (): Promise<Bill[]> => {
+// Gets a household's overdue bills
+export const getOverdueBills = async (householdId: string): Promise<Bill[]> => {
   const today = new Date().toISOString().split("T")[0];
 
   const result = await client.execute({
     sql: `SELECT id, name, amount, frequency, due_date, category, notes, reminder_days, created_by, created_at, updated_at
           FROM bill
-          WHERE due_date < ?
+          WHERE household_id = ? AND due_date < ? AND deleted_at IS NULL
           ORDER BY due_date ASC`,
-    args: [today],
+    args: [householdId, today],
   });
 
   return result.rows.map(rowToBill);
@@ -187,9 +194,10 @@ export const getOverdueBills = async (): Promise<Bill[]> => {
 // Updates a bill
 export const updateBill = async (
   id: string,
+  householdId: string,
   data: UpdateBillData,
 ): Promise<Bill | null> => {
-  const existing = await getBill(id);
+  const existing = await getBill(id, householdId);
   if (!existing) {
     return null;
   }
@@ -229,11 +237,40 @@ export const updateBill = async (
   };
 };
 
-// Deletes a bill
-export const deleteBill = async (id: string): Promise<boolean> => {
+// Moves a bill to the trash (soft delete)
+export const deleteBill = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE bill SET deleted_at = ? WHERE id = ? AND household_id = ? AND deleted_at IS NULL",
+    args: [new Date().toISOString(), id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Restores a bill from the trash
+export const restoreBill = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE bill SET deleted_at = NULL WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Permanently deletes a bill that is already in the trash
+export const purgeBill = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
   const result = await client.execute({
-    sql: "DELETE FROM bill WHERE id = ?",
-    args: [id],
+    sql: "DELETE FROM bill WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
   });
 
   return result.rowsAffected > 0;
@@ -242,11 +279,12 @@ export const deleteBill = async (id: string): Promise<boolean> => {
 // Marks a bill as paid and advances the due date
 export const markBillPaid = async (
   billId: string,
+  householdId: string,
   amount: number,
   userId: string,
   notes?: string,
 ): Promise<{ payment: BillPayment; bill: Bill | null }> => {
-  const bill = await getBill(billId);
+  const bill = await getBill(billId, householdId);
   if (!bill) {
     throw new Error("Bill not found");
   }
@@ -308,16 +346,17 @@ export const getBillPayments = async (
   return result.rows.map(rowToBillPayment);
 };
 
-// Gets bills by category
+// Gets a household's bills by category
 export const getBillsByCategory = async (
+  householdId: string,
   category: BillCategory,
 ): Promise<Bill[]> => {
   const result = await client.execute({
     sql: `SELECT id, name, amount, frequency, due_date, category, notes, reminder_days, created_by, created_at, updated_at
           FROM bill
-          WHERE category = ?
+          WHERE household_id = ? AND category = ? AND deleted_at IS NULL
           ORDER BY due_date ASC`,
-    args: [category],
+    args: [householdId, category],
   });
 
   return result.rows.map(rowToBill);
@@ -1,7 +1,19 @@
 import type { ContractCategory, PaymentMethod } from "../../types/contract.ts";
-import { defineCommand } from "../cqrs/index.ts";
+import { editorRoles } from "../auth/permissions.ts";
+import {
+  CommandRejectedError,
+  CommandValidationError,
+  defineCommand,
+} from "../cqrs/index.ts";
 import { createNotification } from "../notifications/index.ts";
-import { createContract, deleteContract, updateContract } from "./index.ts";
+import {
+  createContract,
+  deleteContract,
+  getContract,
+  purgeContract,
+  restoreContract,
+  updateContract,
+} from "./index.ts";
 
 type CreateContractInput = {
   name: string;
@@ -17,6 +29,8 @@ type CreateContractInput = {
 
 type UpdateContractInput = {
   id: string;
+  // updatedAt of the copy the edit was based on; stale writes are rejected
+  expectedUpdatedAt?: string;
   name?: string;
   provider?: string | null;
   monthlyAmount?: number;
@@ -32,14 +46,30 @@ type DeleteContractInput = {
   id: string;
 };
 
+// Rejects a contract that ends before it starts
+const checkContractDates = (
+  startDate: string | null | undefined,
+  endDate: string | null | undefined,
+) => {
+  if (startDate && endDate && endDate < startDate) {
+    throw new CommandValidationError("A contract can't end before it starts", {
+      contractEndDate: ["End date must be on or after the start date"],
+    });
+  }
+};
+
 // Creates a new contract
 export const createContractCommand = defineCommand({
   type: "contract.create",
   emits: "contract.created",
+  scope: "household",
+  roles: editorRoles("finances"),
   handler: async (user, data: CreateContractInput) => {
-    const contract = await createContract(data, user.id);
+    checkContractDates(data.contractStartDate, data.contractEndDate);
+    const contract = await createContract(user.householdId!, data, user.id);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Contract added",
       message: `${data.name} has been added.`,
@@ -52,11 +82,31 @@ export const createContractCommand = defineCommand({
 export const updateContractCommand = defineCommand({
   type: "contract.update",
   emits: "contract.updated",
+  scope: "household",
+  roles: editorRoles("finances"),
   handler: async (user, data: UpdateContractInput) => {
-    const { id, ...updateData } = data;
-    const contract = await updateContract(id, updateData);
+    const { id, expectedUpdatedAt, ...updateData } = data;
+
+    // Dates left out of the update keep their saved values
+    const existing = await getContract(id, user.householdId!);
+    checkContractDates(
+      updateData.contractStartDate !== undefined
+        ? updateData.contractStartDate
+        : existing?.contractStartDate,
+      updateData.contractEndDate !== undefined
+        ? updateData.contractEndDate
+        : existing?.contractEndDate,
+    );
+
+    const contract = await updateContract(
+      id,
+      user.householdId!,
+      updateData,
+      expectedUpdatedAt,
+    );
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Contract updated",
       message: `${updateData.name || "Contract"} has been updated.`,
@@ -69,14 +119,59 @@ export const updateContractCommand = defineCommand({
 export const deleteContractCommand = defineCommand({
   type: "contract.delete",
   emits: "contract.deleted",
+  scope: "household",
+  roles: editorRoles("finances"),
   handler: async (user, data: DeleteContractInput) => {
-    const success = await deleteContract(data.id);
+    const success = await deleteContract(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Contract deleted",
-      message: "The contract has been removed.",
+      message: "The contract has been moved to the trash.",
+      undoUrl: `/app/trash/contract/${data.id}/restore?household=${user.householdId}`,
     });
     return { success, id: data.id };
   },
 });
+
+// Restores a contract from the trash
+export const restoreContractCommand = defineCommand({
+  type: "contract.restore",
+  emits: "contract.restored",
+  scope: "household",
+  roles: editorRoles("finances"),
+  handler: async (user, data: { id: string }) => {
+    const success = await restoreContract(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That contract isn't in the trash any more",
+      );
+    }
+    await createNotification({
+      userId: user.id,
+      householdId: user.householdId,
+      type: "success",
+      title: "Contract restored",
+      message: "The contract has been restored from the trash.",
+    });
+    return { success, id: data.id };
+  },
+});
+
+// Permanently deletes a contract from the trash
+export const purgeContractCommand = defineCommand({
+  type: "contract.purge",
+  emits: "contract.purged",
+  scope: "household",
+  roles: editorRoles("finances"),
+  handler: async (user, data: { id: string }) => {
+    const success = await purgeContract(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That contract isn't in the trash any more",
+      );
+    }
+    return { success, id: data.id };
+  },
+});
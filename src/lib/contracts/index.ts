@@ -4,10 +4,9 @@ import type {
   PaymentMethod,
 } from "../../types/contract.ts";
 import { generateSecureRandomString } from "../auth/crypto.ts";
+import { ConflictError } from "../cqrs/errors.ts";
 import { client } from "../db.ts";
 
-export { initContractTables } from "./schema.ts";
-
 type CreateContractData = {
   name: string;
   provider?: string | null;
@@ -49,8 +48,9 @@ const rowToContract = (row: Record<string, unknown>): Contract => ({
   updatedAt: row.updated_at as string,
 });
 
-// Creates a new contract
+// Creates a new contract in a household
 export const createContract = async (
+  householdId: string,
   data: CreateContractData,
   userId: string,
 ): Promise<Contract> => {
@@ -58,10 +58,11 @@ export const createContract = async (
   const now = new Date().toISOString();
 
   await client.execute({
-    sql: `INSERT INTO contract (id, name, provider, monthly_amount, payment_method, contract_start_date, contract_end_date, category, is_usage_based, notes, created_by, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    sql: `INSERT INTO contract (id, household_id, name, provider, monthly_amount, payment_method, contract_start_date, contract_end_date, category, is_usage_based, notes, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     args: [
       id,
+      householdId,
       data.name,
       data.provider ?? null,
       data.monthlyAmount,
@@ -94,13 +95,16 @@ export const createContract = async (
   };
 };
 
-// Gets a single contract by ID
-export const getContract = async (id: string): Promise<Contract | null> => {
+// Gets a single contract by ID, if it belongs to the household
+export const getContract = async (
+  id: string,
+  householdId: string,
+): Promise<Contract | null> => {
   const result = await client.execute({
     sql: `SELECT id, name, provider, monthly_amount, payment_method, contract_start_date, contract_end_date, category, is_usage_based, notes, created_by, created_at, updated_at
           FROM contract
-          WHERE id = ?`,
-    args: [id],
+          WHERE id = ? AND household_id = ? AND deleted_at IS NULL`,
+    args: [id, householdId],
   });
 
   if (result.rows.length === 0) {
@@ -110,35 +114,41 @@ export const getContract = async (id: string): Promise<Contract | null> => {
   return rowToContract(result.rows[0]);
 };
 
-// Gets all contracts sorted by name
-export const getAllContracts = async (): Promise<Contract[]> => {
+// Gets a household's contracts sorted by name
+export const getAllContracts = async (
+  householdId: string,
+): Promise<Contract[]> => {
   const result = await client.execute({
     sql: `SELECT id, name, provider, monthly_amount, payment_method, contract_start_date, contract_end_date, category, is_usage_based, notes, created_by, created_at, updated_at
           FROM contract
+          WHERE household_id = ? AND deleted_at IS NULL
           ORDER BY name ASC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToContract);
 };
 
-// Gets all active contracts (no end date or end date in future)
-export const getActiveContracts = async (): Promise<Contract[]> => {
+// Gets a household's active contracts (no end date or end date in future)
+export const getActiveContracts = async (
+  householdId: string,
+): Promise<Contract[]> => {
   const today = new Date().toISOString().split("T")[0];
 
   const result = await client.execute({
     sql: `SELECT id, name, provider, monthly_amount, payment_method, contract_start_date, contract_end_date, category, is_usage_based, notes, created_by, created_at, updated_at
           FROM contract
-          WHERE contract_end_date IS NULL OR contract_end_date >= ?
+          WHERE household_id = ? AND deleted_at IS NULL AND (contract_end_date IS NULL OR contract_end_date >= ?)
           ORDER BY name ASC`,
-    args: [today],
+    args: [householdId, today],
   });
 
   return result.rows.map(rowToContract);
 };
 
-// Gets contracts expiring within the specified number of days
+// Gets a household's contracts expiring within the specified number of days
 export const getExpiringContracts = async (
+  householdId: string,
   withinDays: number,
 ): Promise<Contract[]> => {
   const today = new Date();
@@ -151,38 +161,41 @@ export const getExpiringContracts = async (
   const result = await client.execute({
     sql: `SELECT id, name, provider, monthly_amount, payment_method, contract_start_date, contract_end_date, category, is_usage_based, notes, created_by, created_at, updated_at
           FROM contract
-          WHERE contract_end_date IS NOT NULL AND contract_end_date >= ? AND contract_end_date <= ?
+          WHERE household_id = ? AND contract_end_date IS NOT NULL AND contract_end_date >= ? AND contract_end_date <= ? AND deleted_at IS NULL
           ORDER BY contract_end_date ASC`,
-    args: [todayStr, futureStr],
+    args: [householdId, todayStr, futureStr],
   });
 
   return result.rows.map(rowToContract);
 };
 
-// Gets contracts by category
+// Gets a household's contracts by category
 export const getContractsByCategory = async (
+  householdId: string,
   category: ContractCategory,
 ): Promise<Contract[]> => {
   const result = await client.execute({
     sql: `SELECT id, name, provider, monthly_amount, payment_method, contract_start_date, contract_end_date, category, is_usage_based, notes, created_by, created_at, updated_at
           FROM contract
-          WHERE category = ?
+          WHERE household_id = ? AND category = ? AND deleted_at IS NULL
           ORDER BY name ASC`,
-    args: [category],
+    args: [householdId, category],
   });
 
   return result.rows.map(rowToContract);
 };
 
-// Gets total monthly expenditure for all active contracts
-export const getTotalMonthlyExpenditure = async (): Promise<number> => {
+// Gets total monthly expenditure for a household's active contracts
+export const getTotalMonthlyExpenditure = async (
+  householdId: string,
+): Promise<number> => {
   const today = new Date().toISOString().split("T")[0];
 
   const result = await client.execute({
     sql: `SELECT COALESCE(SUM(monthly_amount), 0) as total
           FROM contract
-          WHERE contract_end_date IS NULL OR contract_end_date >= ?`,
-    args: [today],
+          WHERE household_id = ? AND deleted_at IS NULL AND (contract_end_date IS NULL OR contract_end_date >= ?)`,
+    args: [householdId, today],
   });
 
   return (result.rows[0]?.total as number) || 0;
@@ -191,13 +204,20 @@ export const getTotalMonthlyExpenditure = async (): Promise<number> => {
 // Updates a contract
 export const updateContract = async (
   id: string,
+  householdId: string,
   data: UpdateContractData,
+  expectedUpdatedAt?: string,
 ): Promise<Contract | null> => {
-  const existing = await getContract(id);
+  const existing = await getContract(id, householdId);
   if (!existing) {
     return null;
   }
 
+  // Reject the write if someone else saved since the client loaded it
+  if (expectedUpdatedAt && existing.updatedAt !== expectedUpdatedAt) {
+    throw new ConflictError();
+  }
+
   const now = new Date().toISOString();
   const updated = {
     name: data.name ?? existing.name,
@@ -217,10 +237,10 @@ export const updateContract = async (
     notes: data.notes !== undefined ? data.notes : existing.notes,
   };
 
-  await client.execute({
+  const result = await client.execute({
     sql: `UPDATE contract
           SET name = ?, provider = ?, monthly_amount = ?, payment_method = ?, contract_start_date = ?, contract_end_date = ?, category = ?, is_usage_based = ?, notes = ?, updated_at = ?
-          WHERE id = ?`,
+          WHERE id = ? AND updated_at = ?`,
     args: [
       updated.name,
       updated.provider,
@@ -233,9 +253,15 @@ export const updateContract = async (
       updated.notes,
       now,
       id,
+      existing.updatedAt,
     ],
   });
 
+  // Another write landed between the read above and this update
+  if (result.rowsAffected === 0) {
+    throw new ConflictError();
+  }
+
   return {
     ...existing,
     ...updated,
@@ -243,11 +269,40 @@ export const updateContract = async (
   };
 };
 
-// Deletes a contract
-export const deleteContract = async (id: string): Promise<boolean> => {
+// Moves a contract to the trash (soft delete)
+export const deleteContract = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE contract SET deleted_at = ? WHERE id = ? AND household_id = ? AND deleted_at IS NULL",
+    args: [new Date().toISOString(), id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Restores a contract from the trash
+export const restoreContract = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE contract SET deleted_at = NULL WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Permanently deletes a contract that is already in the trash
+export const purgeContract = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
   const result = await client.execute({
-    sql: "DELETE FROM contract WHERE id = ?",
-    args: [id],
+    sql: "DELETE FROM contract WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
   });
 
   return result.rowsAffected > 0;
@@ -0,0 +1,52 @@
+import type { LatencySummary } from "../../types/command.ts";
+
+// Samples kept for percentiles; older samples are dropped
+const WINDOW_SIZE = 500;
+
+// Summarises a set of durations
+const summarise = (samples: number[]): LatencySummary => {
+  if (samples.length === 0) {
+    return { p50: 0, p95: 0, max: 0 };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (p: number) =>
+    Math.round(
+      sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))],
+    );
+
+  return { p50: at(0.5), p95: at(0.95), max: Math.round(sorted.at(-1)!) };
+};
+
+// In-memory rolling window of command wait and run times
+class CommandMetrics {
+  private waits: number[] = [];
+  private runs: number[] = [];
+  private count = 0;
+
+  // Records a processed command
+  record(waitMs: number, runMs: number): void {
+    this.waits.push(waitMs);
+    this.runs.push(runMs);
+    if (this.waits.length > WINDOW_SIZE) {
+      this.waits.shift();
+      this.runs.shift();
+    }
+    this.count++;
+  }
+
+  // Gets percentiles over the window and the total processed
+  getSummary(): {
+    processed: number;
+    wait: LatencySummary;
+    run: LatencySummary;
+  } {
+    return {
+      processed: this.count,
+      wait: summarise(this.waits),
+      run: summarise(this.runs),
+    };
+  }
+}
+
+export const commandMetrics = new CommandMetrics();
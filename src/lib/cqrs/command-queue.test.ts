@@ -0,0 +1,84 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { setupTestDatabase } from "../../test/db.ts";
+import { createUser } from "../auth/user.ts";
+import { client } from "../db.ts";
+import {
+  claimNextCommand,
+  getCommand,
+  insertCommand,
+  recordProcessorHeartbeat,
+  requeueAbandonedCommands,
+} from "./command-queue.ts";
+
+const STALE_AFTER_S = 60;
+
+describe("requeueAbandonedCommands", () => {
+  let userId: string;
+
+  // Queues a command and has the given processor claim it
+  const claimAs = async (processorId: string) => {
+    const id = await insertCommand("test.queued", userId, {});
+    expect((await claimNextCommand(processorId))?.id).toBe(id);
+    return id;
+  };
+
+  const statusOf = async (id: string) => (await getCommand(id))?.status;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    userId = (await createUser("claims@example.com", null, "Claims")).id;
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    await client.execute("DELETE FROM command");
+    await client.execute("DELETE FROM command_processor");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("leaves commands alone while the process running them heartbeats", async () => {
+    await recordProcessorHeartbeat("live");
+    const id = await claimAs("live");
+
+    vi.setSystemTime(Date.now() + STALE_AFTER_S * 1000);
+    await recordProcessorHeartbeat("live");
+    await recordProcessorHeartbeat("starting");
+
+    expect(await requeueAbandonedCommands(STALE_AFTER_S)).toBe(0);
+    expect(await statusOf(id)).toBe("running");
+  });
+
+  it("requeues commands whose process stopped heartbeating", async () => {
+    await recordProcessorHeartbeat("crashed");
+    await recordProcessorHeartbeat("live");
+    const abandoned = await claimAs("crashed");
+    const running = await claimAs("live");
+
+    vi.setSystemTime(Date.now() + (STALE_AFTER_S + 1) * 1000);
+    await recordProcessorHeartbeat("live");
+
+    expect(await requeueAbandonedCommands(STALE_AFTER_S)).toBe(1);
+    expect(await statusOf(abandoned)).toBe("pending");
+    expect(await statusOf(running)).toBe("running");
+    expect((await claimNextCommand("live"))?.id).toBe(abandoned);
+  });
+
+  it("requeues commands claimed by a process it has never heard from", async () => {
+    const id = await claimAs("unknown");
+
+    expect(await requeueAbandonedCommands(STALE_AFTER_S)).toBe(1);
+    expect(await statusOf(id)).toBe("pending");
+  });
+});
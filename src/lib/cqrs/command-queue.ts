@@ -0,0 +1,314 @@
+import type { CommandStatus, StoredCommand } from "../../types/command.ts";
+import { generateSecureRandomString } from "../auth/crypto.ts";
+import { client } from "../db.ts";
+
+// Commands still running after this long are considered stuck
+const STUCK_AFTER_S = 5 * 60;
+
+// Succeeded commands are kept this long before being purged
+const SUCCEEDED_RETENTION_S = 7 * 24 * 60 * 60;
+
+// Converts a database row to a StoredCommand object
+const rowToCommand = (row: Record<string, unknown>): StoredCommand => ({
+  id: row.id as string,
+  type: row.type as string,
+  userId: row.user_id as string,
+  connectionId: row.connection_id as string | null,
+  householdId: row.household_id as string | null,
+  entityKey: row.entity_key as string | null,
+  data: JSON.parse(row.data as string),
+  status: row.status as CommandStatus,
+  attempts: row.attempts as number,
+  lastError: row.last_error as string | null,
+  runAfter: new Date((row.run_after as number) * 1000).toISOString(),
+  createdAt: new Date((row.created_at as number) * 1000).toISOString(),
+  updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
+});
+
+type InsertCommandOptions = {
+  id?: string;
+  connectionId?: string | null;
+  householdId?: string | null;
+  entityKey?: string | null;
+  idempotencyKey?: string | null;
+  // Processor the command must run in, for commands with transient fields
+  runBy?: string | null;
+};
+
+// Inserts a new pending command and returns its ID
+export const insertCommand = async (
+  type: string,
+  userId: string,
+  data: unknown,
+  {
+    id = generateSecureRandomString(),
+    connectionId = null,
+    householdId = null,
+    entityKey = null,
+    idempotencyKey = null,
+    runBy = null,
+  }: InsertCommandOptions = {},
+): Promise<string> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  await client.execute({
+    sql: `INSERT INTO command (id, type, user_id, connection_id, household_id, entity_key, idempotency_key, run_by, data, status, attempts, last_error, run_after, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, NULL, ?, ?, ?)`,
+    args: [
+      id,
+      type,
+      userId,
+      connectionId,
+      householdId,
+      entityKey,
+      idempotencyKey,
+      runBy,
+      JSON.stringify(data ?? null),
+      now,
+      now,
+      now,
+    ],
+  });
+
+  return id;
+};
+
+// Atomically claims the oldest runnable pending command for a processor,
+// marking it as running. A command is skipped while another command for the
+// same entity is running or was queued before it, so each entity's commands
+// run one at a time, in order. Commands queued for another processor are
+// skipped unless it has stopped, when there's nothing for it to run them with.
+export const claimNextCommand = async (
+  processorId: string,
+): Promise<StoredCommand | null> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  const result = await client.execute({
+    sql: `UPDATE command
+          SET status = 'running', attempts = attempts + 1, claimed_by = ?, updated_at = ?
+          WHERE id = (
+            SELECT c.id FROM command c
+            WHERE c.status = 'pending' AND c.run_after <= ?
+              AND (c.run_by IS NULL OR c.run_by = ? OR NOT EXISTS (
+                SELECT 1 FROM command_processor p WHERE p.id = c.run_by
+              ))
+              AND (c.entity_key IS NULL OR NOT EXISTS (
+                SELECT 1 FROM command e
+                WHERE e.entity_key = c.entity_key AND e.id != c.id
+                  AND (e.status = 'running'
+                    OR (e.status = 'pending' AND (e.created_at, e.rowid) < (c.created_at, c.rowid)))
+              ))
+            ORDER BY c.created_at ASC, c.rowid ASC
+            LIMIT 1
+          )
+          RETURNING id, type, user_id, connection_id, household_id, entity_key, data, status, attempts, last_error, run_after, created_at, updated_at`,
+    args: [processorId, now, now, processorId],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  return rowToCommand(result.rows[0]);
+};
+
+// Marks a command as succeeded
+export const markCommandSucceeded = async (id: string): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+  await client.execute({
+    sql: `UPDATE command SET status = 'succeeded', last_error = NULL, updated_at = ? WHERE id = ?`,
+    args: [now, id],
+  });
+};
+
+// Puts a failed command back in the queue to be retried after a delay
+export const scheduleCommandRetry = async (
+  id: string,
+  error: string,
+  delaySeconds: number,
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+  await client.execute({
+    sql: `UPDATE command SET status = 'pending', last_error = ?, run_after = ?, updated_at = ? WHERE id = ?`,
+    args: [error, now + delaySeconds, now, id],
+  });
+};
+
+// Marks a command as permanently failed
+export const markCommandFailed = async (
+  id: string,
+  error: string,
+): Promise<void> => {
+  const now = Math.floor(Date.now() / 1000);
+  await client.execute({
+    sql: `UPDATE command SET status = 'failed', last_error = ?, updated_at = ? WHERE id = ?`,
+    args: [error, now, id],
+  });
+};
+
+// Records that a command processor is still alive
+export const recordProcessorHeartbeat = async (
+  processorId: string,
+): Promise<void> => {
+  await client.execute({
+    sql: `INSERT INTO command_processor (id, heartbeat_at) VALUES (?, ?)
+          ON CONFLICT (id) DO UPDATE SET heartbeat_at = excluded.heartbeat_at`,
+    args: [processorId, Math.floor(Date.now() / 1000)],
+  });
+};
+
+// Returns commands to the queue when the process running them has stopped
+// heartbeating (it crashed or was killed), and forgets that process. Commands
+// other live processes are running are left alone, since several processes
+// can share the queue.
+export const requeueAbandonedCommands = async (
+  staleAfterSeconds: number,
+): Promise<number> => {
+  const now = Math.floor(Date.now() / 1000);
+  const staleBefore = now - staleAfterSeconds;
+
+  const result = await client.execute({
+    sql: `UPDATE command
+          SET status = 'pending', claimed_by = NULL, run_after = ?, updated_at = ?
+          WHERE status = 'running'
+            AND (claimed_by IS NULL OR NOT EXISTS (
+              SELECT 1 FROM command_processor p
+              WHERE p.id = command.claimed_by AND p.heartbeat_at >= ?
+            ))`,
+    args: [now, now, staleBefore],
+  });
+  await client.execute({
+    sql: "DELETE FROM command_processor WHERE heartbeat_at < ?",
+    args: [staleBefore],
+  });
+
+  return result.rowsAffected;
+};
+
+// Counts pending commands that can run now and those waiting on a retry
+export const countPendingCommands = async (): Promise<{
+  queued: number;
+  delayed: number;
+}> => {
+  const now = Math.floor(Date.now() / 1000);
+  const result = await client.execute({
+    sql: `SELECT
+            COUNT(*) FILTER (WHERE run_after <= ?) as queued,
+            COUNT(*) FILTER (WHERE run_after > ?) as delayed
+          FROM command
+          WHERE status = 'pending'`,
+    args: [now, now],
+  });
+
+  return {
+    queued: Number(result.rows[0].queued),
+    delayed: Number(result.rows[0].delayed),
+  };
+};
+
+// Gets when the earliest delayed retry becomes runnable, in epoch seconds
+export const getNextRetryAt = async (): Promise<number | null> => {
+  const result = await client.execute({
+    sql: `SELECT MIN(run_after) as next FROM command WHERE status = 'pending' AND run_after > ?`,
+    args: [Math.floor(Date.now() / 1000)],
+  });
+
+  return (result.rows[0].next as number | null) ?? null;
+};
+
+// Deletes succeeded commands older than the retention period
+export const purgeSucceededCommands = async (): Promise<number> => {
+  const cutoff = Math.floor(Date.now() / 1000) - SUCCEEDED_RETENTION_S;
+  const result = await client.execute({
+    sql: `DELETE FROM command WHERE status = 'succeeded' AND updated_at < ?`,
+    args: [cutoff],
+  });
+
+  return result.rowsAffected;
+};
+
+// Finds a user's command by idempotency key, if it was queued within the window.
+// A match older than the window gives up its key so the key can be used again.
+export const findCommandByIdempotencyKey = async (
+  userId: string,
+  idempotencyKey: string,
+  windowSeconds: number,
+): Promise<StoredCommand | null> => {
+  const result = await client.execute({
+    sql: `SELECT id, type, user_id, connection_id, household_id, entity_key, data, status, attempts, last_error, run_after, created_at, updated_at
+          FROM command
+          WHERE user_id = ? AND idempotency_key = ?`,
+    args: [userId, idempotencyKey],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  const command = rowToCommand(result.rows[0]);
+  const cutoff = Date.now() - windowSeconds * 1000;
+  if (new Date(command.createdAt).getTime() >= cutoff) {
+    return command;
+  }
+
+  await client.execute({
+    sql: `UPDATE command SET idempotency_key = NULL WHERE id = ?`,
+    args: [command.id],
+  });
+  return null;
+};
+
+// Gets a single command by ID
+export const getCommand = async (id: string): Promise<StoredCommand | null> => {
+  const result = await client.execute({
+    sql: `SELECT id, type, user_id, connection_id, household_id, entity_key, data, status, attempts, last_error, run_after, created_at, updated_at
+          FROM command
+          WHERE id = ?`,
+    args: [id],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  return rowToCommand(result.rows[0]);
+};
+
+// Gets commands that have failed for good, most recent first
+export const getFailedCommands = async (
+  limit = 50,
+): Promise<StoredCommand[]> => {
+  const result = await client.execute({
+    sql: `SELECT id, type, user_id, connection_id, household_id, entity_key, data, status, attempts, last_error, run_after, created_at, updated_at
+          FROM command
+          WHERE status = 'failed'
+          ORDER BY updated_at DESC
+          LIMIT ?`,
+    args: [limit],
+  });
+
+  return result.rows.map(rowToCommand);
+};
+
+// Gets commands that are stuck running or waiting on a retry
+export const getStuckCommands = async (): Promise<StoredCommand[]> => {
+  const stuckBefore = Math.floor(Date.now() / 1000) - STUCK_AFTER_S;
+
+  const result = await client.execute({
+    sql: `SELECT id, type, user_id, connection_id, household_id, entity_key, data, status, attempts, last_error, run_after, created_at, updated_at
+          FROM command
+          WHERE (status = 'running' AND updated_at < ?)
+             OR (status = 'pending' AND attempts > 0)
+          ORDER BY created_at ASC`,
+    args: [stuckBefore],
+  });
+
+  return result.rows.map(rowToCommand);
+};
+
+// Resets a failed command so it runs again from scratch
+export const retryFailedCommand = async (id: string): Promise<boolean> => {
+  const now = Math.floor(Date.now() / 1000);
+  const result = await client.execute({
+    sql: `UPDATE command
+          SET status = 'pending', attempts = 0, run_after = ?, updated_at = ?
+          WHERE id = ? AND status = 'failed'`,
+    args: [now, now, id],
+  });
+
+  return result.rowsAffected > 0;
+};
@@ -0,0 +1,240 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { waitForCommand } from "../../test/commands.ts";
+import { setupTestDatabase } from "../../test/db.ts";
+import type { StoredCommand } from "../../types/command.ts";
+import type { User } from "../../types/user.ts";
+import { createUser } from "../auth/user.ts";
+import {
+  getCommand,
+  insertCommand,
+  recordProcessorHeartbeat,
+} from "./command-queue.ts";
+import { commandStore } from "./command-store.ts";
+import { defineCommand } from "./define.ts";
+import { CommandRejectedError } from "./errors.ts";
+
+const START = new Date("2026-01-01T12:00:00Z").getTime();
+
+// A promise the test settles by hand
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+// Seconds until a pending command's retry comes due
+const retryDelay = (command: StoredCommand) =>
+  (new Date(command.runAfter).getTime() - Date.now()) / 1000;
+
+const failingHandler = vi.fn(async () => {
+  throw new Error("Database is busy");
+});
+const failingCommand = defineCommand({
+  type: "test.failing",
+  emits: "test.failed",
+  handler: failingHandler,
+});
+
+const rejectedHandler = vi.fn(async () => {
+  throw new CommandRejectedError("That isn't allowed");
+});
+const rejectedCommand = defineCommand({
+  type: "test.rejected",
+  emits: "test.rejected",
+  handler: rejectedHandler,
+});
+
+// Records the order commands start and finish in, and can hold one open
+const log: string[] = [];
+const holds = new Map<string, ReturnType<typeof deferred>>();
+const orderedCommand = defineCommand({
+  type: "test.ordered",
+  emits: "test.ordered",
+  entityKey: (data: { entity: string; step: string }) => `test:${data.entity}`,
+  handler: async (_user, data: { entity: string; step: string }) => {
+    log.push(`start ${data.step}`);
+    await holds.get(data.step)?.promise;
+    log.push(`end ${data.step}`);
+    return {};
+  },
+});
+
+const countedHandler = vi.fn(async () => ({}));
+const countedCommand = defineCommand({
+  type: "test.counted",
+  emits: "test.counted",
+  handler: countedHandler,
+});
+
+type TransientInput = { name: string; secret: string };
+const transientValidate = vi.fn(
+  async (_user: User, _data: TransientInput) => null,
+);
+const transientHandler = vi.fn(
+  async (_user: User, _data: TransientInput) => ({}),
+);
+const transientCommand = defineCommand({
+  type: "test.transient",
+  emits: "test.transient",
+  transient: ["secret"],
+  validate: transientValidate,
+  handler: transientHandler,
+});
+
+describe("commandStore", () => {
+  let user: User;
+
+  // Submits the counted command as a form would
+  const submit = (idempotencyKey: string) =>
+    commandStore.enqueue(countedCommand, user, {}, { idempotencyKey });
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    user = await createUser("queue@example.com", null, "Queue");
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"] });
+    vi.setSystemTime(START);
+    vi.clearAllMocks();
+    log.length = 0;
+    holds.clear();
+    await commandStore.start();
+  });
+
+  afterEach(() => {
+    commandStore.stop();
+    vi.useRealTimers();
+  });
+
+  it("retries a failing command with doubling delays, then fails it for good", async () => {
+    const id = await commandStore.enqueue(failingCommand, user, {});
+
+    for (const [attempt, delay] of [5, 10, 20, 40].entries()) {
+      const command = await waitForCommand(
+        id,
+        (c) => c.status === "pending" && c.attempts === attempt + 1,
+      );
+      expect(command.lastError).toBe("Database is busy");
+      expect(retryDelay(command)).toBe(delay);
+
+      await vi.advanceTimersByTimeAsync(delay * 1000);
+    }
+
+    const command = await waitForCommand(id, (c) => c.status === "failed");
+    expect(command.attempts).toBe(5);
+    expect(command.lastError).toBe("Database is busy");
+    expect(failingHandler).toHaveBeenCalledTimes(5);
+  });
+
+  it("fails a rejected command without retrying it", async () => {
+    const id = await commandStore.enqueue(rejectedCommand, user, {});
+
+    const command = await waitForCommand(id, (c) => c.status === "failed");
+    expect(command.attempts).toBe(1);
+    expect(command.lastError).toBe("That isn't allowed");
+    expect(rejectedHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs an entity's commands one at a time, in the order they were queued", async () => {
+    holds.set("a1", deferred());
+    const a1 = await commandStore.enqueue(orderedCommand, user, {
+      entity: "a",
+      step: "a1",
+    });
+    const a2 = await commandStore.enqueue(orderedCommand, user, {
+      entity: "a",
+      step: "a2",
+    });
+    const b1 = await commandStore.enqueue(orderedCommand, user, {
+      entity: "b",
+      step: "b1",
+    });
+
+    // Another entity's command isn't held up by the first one
+    await waitForCommand(b1, (c) => c.status === "succeeded");
+    expect((await getCommand(a2))?.status).toBe("pending");
+
+    holds.get("a1")!.resolve();
+    await waitForCommand(a2, (c) => c.status === "succeeded");
+    expect((await getCommand(a1))?.status).toBe("succeeded");
+
+    const entityA = log.filter(
+      (entry) => entry.endsWith("a1") || entry.endsWith("a2"),
+    );
+    expect(entityA).toEqual(["start a1", "end a1", "start a2", "end a2"]);
+  });
+
+  it("drops a repeat submit with the same idempotency key", async () => {
+    const first = await submit("form:1");
+    const repeat = await submit("form:1");
+    const next = await submit("form:2");
+
+    expect(repeat).toBe(first);
+    expect(next).not.toBe(first);
+    await waitForCommand(first, (c) => c.status === "succeeded");
+    await waitForCommand(next, (c) => c.status === "succeeded");
+    expect(countedHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets an idempotency key be used again once its window has passed", async () => {
+    const first = await submit("form:3");
+    await waitForCommand(first, (c) => c.status === "succeeded");
+
+    vi.setSystemTime(Date.now() + 10 * 60 * 1000 + 1000);
+    const later = await submit("form:3");
+
+    expect(later).not.toBe(first);
+    await waitForCommand(later, (c) => c.status === "succeeded");
+    expect(countedHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it("hands transient fields to the command without storing them", async () => {
+    const id = await commandStore.enqueue(transientCommand, user, {
+      name: "Kept",
+      secret: "hunter22",
+    });
+
+    const command = await waitForCommand(id, (c) => c.status === "succeeded");
+    expect(command.data).toEqual({ name: "Kept" });
+    const data = { name: "Kept", secret: "hunter22" };
+    expect(transientValidate).toHaveBeenCalledWith(expect.anything(), data);
+    expect(transientHandler).toHaveBeenCalledWith(expect.anything(), data);
+  });
+
+  it("fails a command whose transient fields went with the process that queued it", async () => {
+    const id = await insertCommand(
+      "test.transient",
+      user.id,
+      { name: "Lost" },
+      { runBy: "stopped" },
+    );
+    await submit("wake:1");
+
+    const command = await waitForCommand(id, (c) => c.status === "failed");
+    expect(command.lastError).toBe("It was interrupted. Please try again.");
+    expect(transientHandler).not.toHaveBeenCalled();
+  });
+
+  it("leaves commands with transient fields to the live process that queued them", async () => {
+    await recordProcessorHeartbeat("other");
+    const id = await insertCommand(
+      "test.transient",
+      user.id,
+      { name: "Theirs" },
+      { runBy: "other" },
+    );
+    const woken = await submit("wake:2");
+
+    await waitForCommand(woken, (c) => c.status === "succeeded");
+    expect((await getCommand(id))?.status).toBe("pending");
+  });
+});
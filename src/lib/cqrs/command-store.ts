@@ -1,104 +1,706 @@
+import { env } from "../../env.ts";
+import { recordAudit } from "../audit/index.ts";
+import { generateSecureRandomString } from "../auth/crypto.ts";
+import { findUserById } from "../auth/user.ts";
+import { isHouseholdMember } from "../households/index.ts";
 import { createNotification } from "../notifications/index.ts";
+import type { CommandQueueStats, StoredCommand } from "../../types/command.ts";
 import type { User } from "../../types/user.ts";
-import type { CommandDefinition } from "./define.ts";
+import {
+  claimNextCommand,
+  countPendingCommands,
+  findCommandByIdempotencyKey,
+  getNextRetryAt,
+  insertCommand,
+  markCommandFailed,
+  markCommandSucceeded,
+  purgeSucceededCommands,
+  recordProcessorHeartbeat,
+  requeueAbandonedCommands,
+  scheduleCommandRetry,
+} from "./command-queue.ts";
+import { commandMetrics } from "./command-metrics.ts";
+import {
+  canRunCommand,
+  getCommandDefinition,
+  getEntityKey,
+  type CommandDefinition,
+} from "./define.ts";
+import {
+  CommandRejectedError,
+  CommandValidationError,
+  ConflictError,
+  ForbiddenError,
+} from "./errors.ts";
 import { eventBus } from "./event-bus.ts";
+import { isConnectionOpen } from "./connection-presence.ts";
+import { formConflictStore } from "./form-conflicts.ts";
+import { formErrorStore } from "./form-errors.ts";
+import {
+  defaultCommandMiddleware,
+  runCommandPipeline,
+  type CommandContext,
+  type CommandMiddleware,
+} from "./middleware.ts";
 
-type QueuedCommand = {
+// How long the dispatcher waits before trying again after a database error
+const ERROR_BACKOFF_MS = 1000;
+
+// Attempts before a command is marked as failed for good
+const MAX_ATTEMPTS = 5;
+
+// First retry delay; doubles with each subsequent attempt
+const RETRY_BASE_DELAY_S = 5;
+
+// Repeat submits with the same idempotency key are dropped for this long
+const IDEMPOTENCY_WINDOW_S = 10 * 60;
+
+// How often a process tells the others it's still running its commands, and
+// how long without a heartbeat before they take its commands back
+const PROCESSOR_HEARTBEAT_S = 15;
+const PROCESSOR_STALE_AFTER_S = 4 * PROCESSOR_HEARTBEAT_S;
+
+type EnqueueOptions = {
+  // Form connection (cid) that submitted the command, for inline status feedback
+  connectionId?: string;
+  // Identifies one submission; repeats within the window are dropped
+  idempotencyKey?: string;
+  // Household a household command acts on, if not the user's current one
+  // (e.g. an undo link from another household). Membership is still checked
+  // when it runs.
+  householdId?: string;
+};
+
+// A claimed command's handler, and the user it runs as
+type PreparedCommand = {
   definition: CommandDefinition<unknown, unknown>;
   user: User;
-  data: unknown;
 };
 
-// In-memory command queue with async processing
+// Status updates pushed to the submitting form connection
+type CommandStatusUpdate =
+  | "pending"
+  | "retrying"
+  | "succeeded"
+  | "failed"
+  | "conflict";
+
+// Where a command has got to, as shown in the form that submitted it
+const describeStatus = (command: StoredCommand): CommandStatusUpdate =>
+  command.status === "succeeded" || command.status === "failed"
+    ? command.status
+    : command.lastError
+      ? "retrying"
+      : "pending";
+
+// Splits off the fields a command mustn't store, for the process queuing it
+// to hold until it runs
+const splitTransient = <TData>(
+  definition: CommandDefinition<TData, unknown>,
+  data: TData,
+): { stored: TData; transient: Record<string, unknown> | null } => {
+  if (!definition.transient?.length) return { stored: data, transient: null };
+
+  const stored = { ...(data as Record<string, unknown>) };
+  const transient: Record<string, unknown> = {};
+  for (const field of definition.transient) {
+    transient[field] = stored[field];
+    delete stored[field];
+  }
+  return { stored: stored as TData, transient };
+};
+
+// SQLite-backed command queue with async processing.
+// Commands survive restarts: anything left pending is run on boot, and anything
+// left running by a process that has stopped heartbeating goes back in the
+// queue. Several processes can share the queue; each claims its own commands.
+// The dispatcher wakes on enqueue, on completion and when a retry comes due, and
+// runs up to COMMAND_CONCURRENCY commands at once. Commands for the same entity
+// run one at a time, in the order they were queued.
 class CommandStore {
-  private queue: QueuedCommand[] = [];
-  private processing = false;
+  // Marks the commands this process has claimed
+  private readonly processorId = generateSecureRandomString();
   private running = false;
+  private readonly concurrency = env.COMMAND_CONCURRENCY;
+  private active = 0;
+  private dispatching = false;
+  private dispatchAgain = false;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // When commands were enqueued by this process, for wait latency
+  private enqueuedAt = new Map<string, number>();
+  // Transient fields of commands this process has queued but not finished
+  private transientData = new Map<string, Record<string, unknown>>();
+  private middleware: CommandMiddleware[] = [...defaultCommandMiddleware];
 
-  // Enqueues a command for processing
-  enqueue<TData, TResult>(
+  // Adds middleware to the chain. It runs inside the defaults, just before the handler.
+  use(middleware: CommandMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  // Persists a command for processing and returns its ID. Household commands
+  // act on the user's current household unless another is given, even if they
+  // switch before it runs.
+  // Throws ForbiddenError if the user's role may not run the command, or it
+  // needs a household and they don't have one.
+  async enqueue<TData, TResult>(
     definition: CommandDefinition<TData, TResult>,
     user: User,
     data: TData,
-  ): void {
-    this.queue.push({
-      definition: definition as CommandDefinition<unknown, unknown>,
-      user,
-      data,
-    });
+    options: EnqueueOptions = {},
+  ): Promise<string> {
+    if (!canRunCommand(definition, user)) {
+      throw new ForbiddenError();
+    }
+    const householdId =
+      definition.scope === "household"
+        ? (options.householdId ?? user.householdId)
+        : null;
+    if (definition.scope === "household" && !householdId) {
+      throw new ForbiddenError("You haven't been added to a household yet");
+    }
+
+    const connectionId = options.connectionId || null;
+    const idempotencyKey = options.idempotencyKey || null;
+
+    if (idempotencyKey) {
+      const original = await findCommandByIdempotencyKey(
+        user.id,
+        idempotencyKey,
+        IDEMPOTENCY_WINDOW_S,
+      );
+      if (original) {
+        this.reportDuplicate(original, connectionId);
+        return original.id;
+      }
+    }
+
+    // Transient fields are kept here rather than stored, from before the
+    // insert so a dispatch already under way can't run the command without them
+    const { stored, transient } = splitTransient(definition, data);
+    const commandId = generateSecureRandomString();
+    if (transient) this.transientData.set(commandId, transient);
+
+    try {
+      await insertCommand(definition.type, user.id, stored, {
+        id: commandId,
+        connectionId,
+        householdId,
+        entityKey: getEntityKey(definition, data),
+        idempotencyKey,
+        runBy: transient ? this.processorId : null,
+      });
+    } catch (error) {
+      this.transientData.delete(commandId);
+      // A concurrent submit with the same key got in first
+      const original = idempotencyKey
+        ? await findCommandByIdempotencyKey(
+            user.id,
+            idempotencyKey,
+            IDEMPOTENCY_WINDOW_S,
+          )
+        : null;
+      if (!original) throw error;
+      this.reportDuplicate(original, connectionId);
+      return original.id;
+    }
+    this.enqueuedAt.set(commandId, Date.now());
+
+    if (connectionId) {
+      eventBus.publishToConnection(connectionId, {
+        type: "command.pending",
+        data: { commandId, error: null },
+      });
+    }
+
+    void this.dispatch();
+    return commandId;
   }
 
-  // Starts the command processor loop
-  start(): void {
+  // Requeues interrupted commands and starts the dispatcher
+  async start(): Promise<void> {
     if (this.running) return;
+
+    await recordProcessorHeartbeat(this.processorId);
+    await this.requeueAbandoned();
+    await purgeSucceededCommands();
+
     this.running = true;
-    this.processLoop();
+    this.heartbeatTimer ??= setInterval(
+      () => void this.heartbeat(),
+      PROCESSOR_HEARTBEAT_S * 1000,
+    );
+    void this.dispatch();
   }
 
-  // Stops the command processor
+  // Stops the dispatcher. Commands already running are left to finish, and
+  // the heartbeat carries on until they have.
   stop(): void {
     this.running = false;
+    this.clearWakeTimer();
+    if (this.active === 0) this.stopHeartbeat();
   }
 
-  // Main processing loop
-  private async processLoop(): Promise<void> {
-    while (this.running) {
-      if (this.queue.length > 0 && !this.processing) {
-        await this.processNext();
+  // Gets where a user's submission with the given idempotency key has got to,
+  // or null if nothing was submitted with it in the window
+  async getSubmissionStatus(
+    userId: string,
+    idempotencyKey: string,
+  ): Promise<{ status: CommandStatusUpdate; error: string | null } | null> {
+    const command = await findCommandByIdempotencyKey(
+      userId,
+      idempotencyKey,
+      IDEMPOTENCY_WINDOW_S,
+    );
+    return command
+      ? { status: describeStatus(command), error: command.lastError }
+      : null;
+  }
+
+  // Gets queue depth and recent latency
+  async getStats(): Promise<CommandQueueStats> {
+    const { queued, delayed } = await countPendingCommands();
+    return {
+      concurrency: this.concurrency,
+      running: this.active,
+      queued,
+      delayed,
+      ...commandMetrics.getSummary(),
+    };
+  }
+
+  // Claims runnable commands until the concurrency limit is reached, then
+  // sleeps until the next enqueue, completion or retry. Calls made while a
+  // dispatch is in progress make it go round again rather than overlap.
+  private async dispatch(): Promise<void> {
+    if (!this.running) return;
+    if (this.dispatching) {
+      this.dispatchAgain = true;
+      return;
+    }
+
+    this.dispatching = true;
+    try {
+      do {
+        this.dispatchAgain = false;
+        while (this.running && this.active < this.concurrency) {
+          const command = await claimNextCommand(this.processorId);
+          if (!command) break;
+
+          this.active++;
+          this.process(command)
+            .catch((error) => console.error("Command processor error:", error))
+            .finally(() => {
+              this.active--;
+              if (!this.running && this.active === 0) this.stopHeartbeat();
+              void this.dispatch();
+            });
+        }
+        await this.scheduleRetryWakeup();
+      } while (this.dispatchAgain && this.running);
+    } catch (error) {
+      console.error("Command dispatcher error:", error);
+      this.wakeAfter(ERROR_BACKOFF_MS);
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  // Tells other processes this one is still running its commands, and takes
+  // back any commands left running by a process that has stopped
+  private async heartbeat(): Promise<void> {
+    try {
+      await recordProcessorHeartbeat(this.processorId);
+      if ((await this.requeueAbandoned()) > 0) void this.dispatch();
+    } catch (error) {
+      console.error("Command processor heartbeat failed:", error);
+    }
+  }
+
+  // Requeues commands whose process stopped before finishing them
+  private async requeueAbandoned(): Promise<number> {
+    const requeued = await requeueAbandonedCommands(PROCESSOR_STALE_AFTER_S);
+    if (requeued > 0) {
+      console.log(`Requeued ${requeued} interrupted commands`);
+    }
+    return requeued;
+  }
+
+  // Stops heartbeating, once nothing is left running
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  // Wakes the dispatcher when the earliest delayed retry comes due
+  private async scheduleRetryWakeup(): Promise<void> {
+    const nextRetryAt = await getNextRetryAt();
+    if (nextRetryAt === null) {
+      this.clearWakeTimer();
+      return;
+    }
+    this.wakeAfter(nextRetryAt * 1000 - Date.now());
+  }
+
+  // Schedules a dispatch, replacing any earlier wakeup
+  private wakeAfter(delayMs: number): void {
+    this.clearWakeTimer();
+    this.wakeTimer = setTimeout(
+      () => {
+        this.wakeTimer = null;
+        void this.dispatch();
+      },
+      Math.max(0, delayMs),
+    );
+  }
+
+  // Cancels a scheduled wakeup
+  private clearWakeTimer(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+  }
+
+  // Runs a claimed command and records its outcome
+  private async process(command: StoredCommand): Promise<void> {
+    // Retries count from when their backoff ended, not from the first enqueue
+    const readyAt =
+      this.enqueuedAt.get(command.id) ?? new Date(command.runAfter).getTime();
+    this.enqueuedAt.delete(command.id);
+    const waitMs = Math.max(0, Date.now() - readyAt);
+
+    let prepared: PreparedCommand | null;
+    try {
+      prepared = await this.prepare(command);
+    } catch (error) {
+      // Nothing has run yet, so it's safe to try again later
+      await this.handleFailure(command, null, error);
+      return;
+    }
+    const transient = this.transientData.get(command.id);
+    this.transientData.delete(command.id);
+    if (!prepared) return;
+    const { definition, user } = prepared;
+
+    // Only this process ever has a command's transient fields, and only until
+    // it restarts
+    if (definition.transient?.length && !transient) {
+      const message = "It was interrupted. Please try again.";
+      await markCommandFailed(command.id, message);
+      await this.reportFailure(command, user, message);
+      return;
+    }
+    const runnable: StoredCommand = transient
+      ? { ...command, data: { ...(command.data as object), ...transient } }
+      : command;
+
+    const ctx: CommandContext = {
+      command: runnable,
+      definition,
+      user,
+      waitMs,
+      durationMs: null,
+    };
+    let result: unknown;
+    try {
+      result = await runCommandPipeline(this.middleware, ctx, () =>
+        definition.handler(user, runnable.data),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.audit(command, ctx.durationMs ?? 0, null, message);
+      if (error instanceof ConflictError) {
+        await this.handleConflict(command, user, error);
+      } else if (error instanceof CommandRejectedError) {
+        await markCommandFailed(command.id, error.message);
+        if (
+          !(error instanceof CommandValidationError) ||
+          !(await this.sendFormErrors(command, error))
+        ) {
+          await this.reportFailure(command, user, error.message);
+        }
+      } else if (
+        (await this.handleFailure(command, user, error)) &&
+        transient
+      ) {
+        this.transientData.set(command.id, transient);
       }
-      await new Promise((resolve) => setTimeout(resolve, 10));
+      return;
     }
+
+    // The handler has run, so nothing from here on may send the command
+    // round again and repeat its changes
+    await this.recordSuccess(command, definition, user, ctx, result);
   }
 
-  // Processes the next command in the queue
-  private async processNext(): Promise<void> {
-    const command = this.queue.shift();
-    if (!command) return;
+  // Looks up what a claimed command needs to run: its handler and the user it
+  // runs as. Returns null after marking it failed if it can't run at all.
+  private async prepare(
+    command: StoredCommand,
+  ): Promise<PreparedCommand | null> {
+    const definition = getCommandDefinition(command.type);
+    if (!definition) {
+      console.error(`Command ${command.type} has no registered handler`);
+      await markCommandFailed(command.id, "Unknown command type");
+      return null;
+    }
+
+    const account = await findUserById(command.userId);
+    if (!account) {
+      await markCommandFailed(command.id, "User no longer exists");
+      return null;
+    }
 
-    this.processing = true;
+    // Household commands run against the household they were submitted in,
+    // as long as the user still belongs to it
+    if (definition.scope !== "household") {
+      return { definition, user: account };
+    }
+    if (
+      !command.householdId ||
+      !(await isHouseholdMember(command.householdId, account.id))
+    ) {
+      const message = "You're no longer a member of that household";
+      await markCommandFailed(command.id, message);
+      await this.reportFailure(command, account, message);
+      return null;
+    }
+    return {
+      definition,
+      user: { ...account, householdId: command.householdId },
+    };
+  }
+
+  // Records a successful run and tells everyone who needs to know. Errors are
+  // logged rather than retried, since retrying would run the handler twice.
+  private async recordSuccess(
+    command: StoredCommand,
+    definition: CommandDefinition<unknown, unknown>,
+    user: User,
+    ctx: CommandContext,
+    result: unknown,
+  ): Promise<void> {
     try {
-      const result = await command.definition.handler(
-        command.user,
-        command.data,
+      await markCommandSucceeded(command.id);
+    } catch (error) {
+      console.error(
+        `Command ${command.type} succeeded but its status couldn't be saved:`,
+        error,
       );
+    }
+    await this.audit(command, ctx.durationMs ?? 0, result);
 
-      // Emit the command's own event
-      if (command.definition.emits) {
-        eventBus.publishToUser(command.user.id, {
-          type: command.definition.emits,
-          data: result,
-        });
+    try {
+      this.publishStatus(command, "succeeded");
+
+      // Emit the command's own event, to the whole household for shared entities
+      if (definition.emits) {
+        if (definition.scope === "household") {
+          eventBus.publishToHousehold(command.householdId!, {
+            type: definition.emits,
+            data: result,
+            userId: user.id,
+          });
+        } else {
+          eventBus.publishToUser(user.id, {
+            type: definition.emits,
+            data: result,
+          });
+        }
       }
 
       // Emit notification event so the bell SSE updates.
       // Skip if the command already emits a notification event.
-      if (!command.definition.emits.startsWith("notification.")) {
-        eventBus.publishToUser(command.user.id, {
+      if (!definition.emits.startsWith("notification.")) {
+        eventBus.publishToUser(user.id, {
           type: "notification.updated",
-          data: { commandType: command.definition.type },
+          data: { commandType: definition.type },
         });
       }
     } catch (error) {
-      console.error(`Command ${command.definition.type} failed:`, error);
-
-      // Create an error notification so the user gets feedback
-      try {
-        await createNotification({
-          userId: command.user.id,
-          type: "error",
-          title: "Action failed",
-          message: "Something went wrong. Please try again.",
-        });
-        eventBus.publishToUser(command.user.id, {
-          type: "notification.updated",
-          data: { commandType: command.definition.type },
-        });
-      } catch (notifyError) {
-        console.error("Failed to create error notification:", notifyError);
-      }
-    } finally {
-      this.processing = false;
+      console.error(`Failed to publish events for ${command.type}:`, error);
+    }
+  }
+
+  // Appends an audit record for a command run. Auditing never blocks processing.
+  private async audit(
+    command: StoredCommand,
+    durationMs: number,
+    result: unknown,
+    error: string | null = null,
+  ): Promise<void> {
+    try {
+      await recordAudit({
+        commandId: command.id,
+        commandType: command.type,
+        userId: command.userId,
+        data: command.data,
+        result,
+        durationMs,
+        success: error === null,
+        error,
+      });
+    } catch (auditError) {
+      console.error("Failed to record audit entry:", auditError);
+    }
+  }
+
+  // Schedules a retry with exponential backoff, or gives up after MAX_ATTEMPTS.
+  // Without a user (it failed before the user was loaded) nobody is told.
+  // Returns whether the command will be retried.
+  private async handleFailure(
+    command: StoredCommand,
+    user: User | null,
+    error: unknown,
+  ): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (command.attempts < MAX_ATTEMPTS) {
+      const delay = RETRY_BASE_DELAY_S * 2 ** (command.attempts - 1);
+      console.warn(
+        `Command ${command.type} failed (attempt ${command.attempts}/${MAX_ATTEMPTS}), retrying in ${delay}s:`,
+        error,
+      );
+      await scheduleCommandRetry(command.id, message, delay);
+      this.publishStatus(command, "retrying", message);
+      return true;
+    }
+
+    console.error(`Command ${command.type} failed:`, error);
+    await markCommandFailed(command.id, message);
+    if (user) {
+      await this.reportFailure(
+        command,
+        user,
+        message,
+        "Something went wrong. Please try again.",
+      );
+    }
+    return false;
+  }
+
+  // Shows a validation failure in the submitting form, under the fields it
+  // names or as a form-level error. Returns false if the form has closed.
+  private async sendFormErrors(
+    command: StoredCommand,
+    error: CommandValidationError,
+  ): Promise<boolean> {
+    if (
+      !command.connectionId ||
+      !(await isConnectionOpen(command.connectionId))
+    ) {
+      return false;
+    }
+
+    await formErrorStore.setErrors(command.connectionId, {
+      fieldErrors: error.fieldErrors ?? {},
+      formErrors: error.fieldErrors ? [] : [error.message],
+    });
+    eventBus.publishToConnection(command.connectionId, {
+      type: "form.validationError",
+    });
+    return true;
+  }
+
+  // Tells the user a command failed for good: inline if the submitting form is
+  // still open, otherwise with an error notification
+  private async reportFailure(
+    command: StoredCommand,
+    user: User,
+    message: string,
+    notificationMessage = message,
+  ): Promise<void> {
+    if (
+      command.connectionId &&
+      (await isConnectionOpen(command.connectionId))
+    ) {
+      this.publishStatus(command, "failed", message);
+      return;
     }
+
+    try {
+      await createNotification({
+        userId: user.id,
+        type: "error",
+        title: "Action failed",
+        message: notificationMessage,
+      });
+      eventBus.publishToUser(user.id, {
+        type: "notification.updated",
+        data: { commandType: command.type },
+      });
+    } catch (notifyError) {
+      console.error("Failed to create error notification:", notifyError);
+    }
+  }
+
+  // Rejects a stale write for good. Retrying would fail the same way, so the
+  // submission goes back to the form for the user to merge or overwrite.
+  private async handleConflict(
+    command: StoredCommand,
+    user: User,
+    error: ConflictError,
+  ): Promise<void> {
+    await markCommandFailed(command.id, error.message);
+
+    if (
+      command.connectionId &&
+      (await isConnectionOpen(command.connectionId))
+    ) {
+      await formConflictStore.setConflict(
+        command.connectionId,
+        command.data as Record<string, unknown>,
+      );
+      this.publishStatus(command, "conflict", error.message);
+      return;
+    }
+
+    // The form is gone, so tell the user their changes were not saved
+    try {
+      await createNotification({
+        userId: user.id,
+        type: "warning",
+        title: "Changes not saved",
+        message: `${error.message}. Open it again to review their changes.`,
+      });
+      eventBus.publishToUser(user.id, {
+        type: "notification.updated",
+        data: { commandType: command.type },
+      });
+    } catch (notifyError) {
+      console.error("Failed to create conflict notification:", notifyError);
+    }
+  }
+
+  // Answers a repeated submit with the original command's status instead of
+  // running it again
+  private reportDuplicate(
+    original: StoredCommand,
+    connectionId: string | null,
+  ): void {
+    console.log(`Dropped duplicate ${original.type} submit`);
+    if (!connectionId) return;
+
+    eventBus.publishToConnection(connectionId, {
+      type: `command.${describeStatus(original)}`,
+      data: { commandId: original.id, error: original.lastError },
+    });
+  }
+
+  // Pushes a status update to the form connection that submitted the command
+  private publishStatus(
+    command: StoredCommand,
+    status: CommandStatusUpdate,
+    error: string | null = null,
+  ): void {
+    if (!command.connectionId) return;
+    eventBus.publishToConnection(command.connectionId, {
+      type: `command.${status}`,
+      data: { commandId: command.id, error },
+    });
   }
 }
 
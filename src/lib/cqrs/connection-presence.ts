@@ -0,0 +1,87 @@
+import { env } from "../../env.ts";
+import { generateSecureRandomString } from "../auth/crypto.ts";
+import { client } from "../db.ts";
+
+// A stream that has missed this many heartbeats is treated as closed, so a
+// process that dies without closing its streams doesn't leave forms open
+const MISSED_HEARTBEATS = 3;
+
+// Form state left behind by streams that never closed cleanly is dropped
+// after a day
+const FORM_STATE_RETENTION_S = 24 * 60 * 60;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const staleBefore = () =>
+  nowSeconds() - env.SSE_HEARTBEAT_SECONDS * MISSED_HEARTBEATS;
+
+// Records a form connection's SSE stream as open, in the database so commands
+// processed anywhere can tell whether to answer in the form or with a
+// notification. Refreshed on every heartbeat until the returned function is
+// called, which marks it closed and clears the form's errors and conflict.
+// A reconnect that took over the connection ID keeps both.
+export const trackConnection = (connectionId: string): (() => void) => {
+  const streamId = generateSecureRandomString();
+
+  const touch = () =>
+    client
+      .execute({
+        sql: `INSERT INTO form_connection (id, stream_id, last_seen_at) VALUES (?1, ?2, ?3)
+              ON CONFLICT (id) DO UPDATE SET stream_id = ?2, last_seen_at = ?3`,
+        args: [connectionId, streamId, nowSeconds()],
+      })
+      .catch((error) => {
+        console.error("Failed to record open form connection:", error);
+      });
+
+  touch();
+  client
+    .batch(
+      [
+        {
+          sql: "DELETE FROM form_connection WHERE last_seen_at < ?",
+          args: [staleBefore()],
+        },
+        {
+          sql: "DELETE FROM form_state WHERE updated_at < ?",
+          args: [nowSeconds() - FORM_STATE_RETENTION_S],
+        },
+      ],
+      "write",
+    )
+    .catch((error) => {
+      console.error("Failed to prune closed form connections:", error);
+    });
+
+  const heartbeat = setInterval(touch, env.SSE_HEARTBEAT_SECONDS * 1000);
+
+  return () => {
+    clearInterval(heartbeat);
+    client
+      .execute({
+        sql: "DELETE FROM form_connection WHERE id = ? AND stream_id = ?",
+        args: [connectionId, streamId],
+      })
+      .then((result) => {
+        if (result.rowsAffected === 0) return;
+        return client.execute({
+          sql: "DELETE FROM form_state WHERE connection_id = ?",
+          args: [connectionId],
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to record closed form connection:", error);
+      });
+  };
+};
+
+// Checks whether a form connection's SSE stream is still open, in any process
+export const isConnectionOpen = async (
+  connectionId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "SELECT 1 FROM form_connection WHERE id = ? AND last_seen_at >= ?",
+    args: [connectionId, staleBefore()],
+  });
+  return result.rows.length > 0;
+};
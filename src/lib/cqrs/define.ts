@@ -1,13 +1,71 @@
-import type { User } from "../../types/user.ts";
+import type { User, UserRole } from "../../types/user.ts";
 
-// Defines the shape of a command
+// Defines the shape of a command.
+// scope controls who receives the emitted event: "user" (default) for personal
+// changes, "household" for shared entities everyone in the household should see
+// live. Household commands always run with user.householdId set to the
+// household they act on.
+// entityKey names the entity the command touches; commands with the same key run
+// in order, others run concurrently. Defaults to the type prefix plus data.id.
+// roles limits who may run the command (everyone when omitted), and validate
+// checks domain rules before the handler runs, returning an error message or
+// null (or throwing a CommandValidationError to name the fields at fault).
+// transient lists data fields, such as passwords, that are handed to validate
+// and the handler but never stored with the command. Such commands only run
+// in the process that queued them, and fail if it stops first.
 export type CommandDefinition<TData, TResult> = {
   type: string;
   emits: string;
+  scope?: "user" | "household";
+  entityKey?: (data: TData) => string | null;
+  roles?: UserRole[];
+  transient?: (keyof TData & string)[];
+  validate?: (user: User, data: TData) => Promise<string | null>;
   handler: (user: User, data: TData) => Promise<TResult>;
 };
 
-// Creates a typed command definition
+// Registry of all defined commands, keyed by type.
+// Lets persisted commands be matched back to their handler after a restart.
+const registry = new Map<string, CommandDefinition<unknown, unknown>>();
+
+// Creates a typed command definition and registers it by type
 export const defineCommand = <TData, TResult>(
   definition: CommandDefinition<TData, TResult>,
-): CommandDefinition<TData, TResult> => definition;
+): CommandDefinition<TData, TResult> => {
+  if (registry.has(definition.type)) {
+    throw new Error(`Command ${definition.type} is already defined`);
+  }
+  registry.set(
+    definition.type,
+    definition as CommandDefinition<unknown, unknown>,
+  );
+  return definition;
+};
+
+// Looks up a registered command definition by type
+export const getCommandDefinition = (
+  type: string,
+): CommandDefinition<unknown, unknown> | null => registry.get(type) || null;
+
+// Gets the entity a command touches, e.g. "contract:abc" for contract.update.
+// Falls back to the "<prefix>Id" field for commands like bill.markPaid.
+export const getEntityKey = <TData>(
+  definition: CommandDefinition<TData, unknown>,
+  data: TData,
+): string | null => {
+  if (definition.entityKey) {
+    return definition.entityKey(data);
+  }
+
+  const prefix = definition.type.split(".")[0];
+  const fields = (data ?? {}) as Record<string, unknown>;
+  const id = fields.id ?? fields[`${prefix}Id`];
+
+  return typeof id === "string" ? `${prefix}:${id}` : null;
+};
+
+// Checks whether a user's role may run a command
+export const canRunCommand = <TData, TResult>(
+  definition: CommandDefinition<TData, TResult>,
+  user: User,
+): boolean => !definition.roles || definition.roles.includes(user.role);
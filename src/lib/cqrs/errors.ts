@@ -0,0 +1,43 @@
+// Thrown for commands that can never succeed as submitted. The command store
+// fails them straight away instead of retrying, and shows the message to the user.
+export class CommandRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandRejectedError";
+  }
+}
+
+// Thrown when a user's role is not allowed to run a command
+export class ForbiddenError extends CommandRejectedError {
+  constructor(message = "You don't have permission to do that") {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
+// Thrown when a command's domain validation fails. fieldErrors, keyed by form
+// field name, are shown under those fields when the submitting form is open.
+export class CommandValidationError extends CommandRejectedError {
+  readonly fieldErrors: Record<string, string[]> | null;
+
+  constructor(
+    message: string,
+    fieldErrors: Record<string, string[]> | null = null,
+  ) {
+    super(message);
+    this.name = "CommandValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Thrown when a write was based on a stale copy of an entity, i.e. someone else
+// saved it after the client loaded it. The command store does not retry these;
+// it hands the submitted data back to the form so the user can merge or overwrite.
+export class ConflictError extends CommandRejectedError {
+  constructor(
+    message = "This was changed by someone else while you were editing",
+  ) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eventBus } from "./event-bus.ts";
+
+describe("eventBus.getMissedEvents", () => {
+  let userId: string;
+  let householdId: string;
+
+  // Publishes an event to the user's channel and returns its ID
+  const publishToUser = (type: string, to = userId) => {
+    eventBus.publishToUser(to, { type });
+    return eventBus.getLastEventId();
+  };
+
+  const missedTypes = (lastEventId: number) =>
+    eventBus
+      .getMissedEvents(userId, householdId, lastEventId)
+      ?.map((event) => (event.payload as { type: string }).type) ?? null;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    userId = crypto.randomUUID();
+    householdId = crypto.randomUUID();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("replays the user's and household's events since the given ID, oldest first", () => {
+    const seen = publishToUser("before");
+    publishToUser("mine");
+    eventBus.publishToHousehold(householdId, { type: "shared", userId: "x" });
+    publishToUser("someone else's", crypto.randomUUID());
+    eventBus.publishToHousehold(crypto.randomUUID(), {
+      type: "another household's",
+      userId: "x",
+    });
+    eventBus.publishToConnection(crypto.randomUUID(), { type: "form" });
+    publishToUser("mine again");
+
+    expect(missedTypes(seen)).toEqual(["mine", "shared", "mine again"]);
+  });
+
+  it("finds nothing missed when the client is up to date", () => {
+    const seen = publishToUser("latest");
+
+    expect(missedTypes(seen)).toEqual([]);
+  });
+
+  it("can't tell what was missed from an ID it hasn't reached", () => {
+    const latest = publishToUser("latest");
+
+    expect(missedTypes(latest + 1)).toBeNull();
+  });
+
+  it("can't tell what was missed once the buffer no longer reaches back", () => {
+    const seen = publishToUser("seen");
+    for (let i = 0; i < 101; i++) publishToUser(`event ${i}`);
+
+    expect(missedTypes(seen)).toBeNull();
+    expect(missedTypes(seen + 1)).toHaveLength(100);
+  });
+
+  it("can't tell what was missed once missed events have expired", () => {
+    const seen = publishToUser("seen");
+    publishToUser("missed");
+    vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+
+    expect(missedTypes(seen)).toBeNull();
+  });
+});
@@ -1,10 +1,70 @@
 import { EventEmitter } from "events";
+import {
+  createEventTransport,
+  type EventTransport,
+} from "./transports/index.ts";
 
-type EventHandler = (payload: unknown) => void;
+// Handlers receive the event's bus-wide ID as well as its payload
+type EventHandler = (payload: unknown, eventId: number) => void;
 
-// Simple event bus for pub/sub notifications
+// An event kept so a reconnecting stream can tell what it missed
+type BufferedEvent = {
+  id: number;
+  channel: string;
+  payload: unknown;
+  publishedAt: number;
+};
+
+// Recent events kept per channel for replay, and how long they're kept
+const REPLAY_BUFFER_SIZE = 100;
+const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+
+// Event shared with everyone in a household, tagged with the user who caused it
+type HouseholdEvent = {
+  type: string;
+  data?: unknown;
+  userId: string;
+};
+
+// Simple event bus for pub/sub notifications. Events go out through a
+// transport, which decides whether other processes see them too and gives
+// each one its ID. User and household events are buffered briefly so a stream
+// that reconnects, to this process or another, can find out what happened
+// while it was away.
 class EventBus {
   private emitter = new EventEmitter();
+  private lastEventId = 0;
+  // ID of the last event published before the transport started, which this
+  // process never saw
+  private startedAfter = 0;
+  private buffers = new Map<string, BufferedEvent[]>();
+  // Newest event ID that has fallen out of each channel's buffer
+  private droppedThrough = new Map<string, number>();
+  private transport!: EventTransport;
+
+  constructor(transport: EventTransport) {
+    this.useTransport(transport);
+  }
+
+  // Swaps the transport events are published through
+  useTransport(transport: EventTransport): void {
+    this.transport?.stop();
+    this.transport = transport;
+    transport.onMessage((channel, payload, eventId) =>
+      this.deliver(channel, payload, eventId),
+    );
+  }
+
+  // Starts receiving events published by other processes
+  async start(): Promise<void> {
+    this.startedAfter = await this.transport.start();
+    this.lastEventId = Math.max(this.lastEventId, this.startedAfter);
+  }
+
+  // Stops receiving events from other processes
+  stop(): void {
+    this.transport.stop();
+  }
 
   // Subscribes to events on a channel
   subscribe(channel: string, handler: EventHandler): () => void {
@@ -14,7 +74,65 @@ class EventBus {
 
   // Publishes event to a channel
   publish(channel: string, payload: unknown): void {
-    this.emitter.emit(channel, payload);
+    this.transport.publish(channel, payload);
+  }
+
+  // Buffers and dispatches an event from the transport
+  private deliver(channel: string, payload: unknown, id: number): void {
+    this.lastEventId = id;
+    if (channel.startsWith("household:") || channel.startsWith("user:")) {
+      this.remember({ id, channel, payload, publishedAt: Date.now() });
+    }
+    this.emitter.emit(channel, payload, id);
+  }
+
+  // Gets the ID of the most recently published event
+  getLastEventId(): number {
+    return this.lastEventId;
+  }
+
+  // Adds an event to its channel's replay buffer, dropping expired ones
+  private remember(event: BufferedEvent): void {
+    const cutoff = event.publishedAt - REPLAY_WINDOW_MS;
+    const buffer = this.buffers.get(event.channel) ?? [];
+    buffer.push(event);
+    while (
+      buffer.length > REPLAY_BUFFER_SIZE ||
+      buffer[0].publishedAt <= cutoff
+    ) {
+      this.droppedThrough.set(event.channel, buffer.shift()!.id);
+    }
+    this.buffers.set(event.channel, buffer);
+  }
+
+  // Gets the events for a user and their household published after the given
+  // ID, oldest first. Returns null when the buffers no longer reach back that
+  // far (or the ID is from before this process started, or one it hasn't
+  // reached), since the caller can't know what it missed.
+  getMissedEvents(
+    userId: string,
+    householdId: string | null,
+    lastEventId: number,
+  ): BufferedEvent[] | null {
+    if (lastEventId > this.lastEventId || lastEventId < this.startedAfter) {
+      return null;
+    }
+
+    const channels = [`user:${userId}`];
+    if (householdId) channels.push(`household:${householdId}`);
+    const cutoff = Date.now() - REPLAY_WINDOW_MS;
+    const missed: BufferedEvent[] = [];
+    for (const channel of channels) {
+      const buffer = this.buffers.get(channel) ?? [];
+      const dropped = Math.max(
+        this.droppedThrough.get(channel) ?? 0,
+        ...buffer.filter((e) => e.publishedAt <= cutoff).map((e) => e.id),
+      );
+      if (dropped > lastEventId) return null;
+      missed.push(...buffer.filter((e) => e.id > lastEventId));
+    }
+
+    return missed.sort((a, b) => a.id - b.id);
   }
 
   // Subscribes to user-scoped events
@@ -27,6 +145,16 @@ class EventBus {
     this.publish(`user:${userId}`, payload);
   }
 
+  // Subscribes to a household's events (changes to its shared entities)
+  subscribeToHousehold(householdId: string, handler: EventHandler): () => void {
+    return this.subscribe(`household:${householdId}`, handler);
+  }
+
+  // Publishes event to everyone in a household
+  publishToHousehold(householdId: string, payload: HouseholdEvent): void {
+    this.publish(`household:${householdId}`, payload);
+  }
+
   // Subscribes to session-scoped events
   subscribeToSession(sessionToken: string, handler: EventHandler): () => void {
     return this.subscribe(`session:${sessionToken}`, handler);
@@ -36,6 +164,20 @@ class EventBus {
   publishToSession(sessionToken: string, payload: unknown): void {
     this.publish(`session:${sessionToken}`, payload);
   }
+
+  // Subscribes to events for a single form connection (keyed by its cid)
+  subscribeToConnection(
+    connectionId: string,
+    handler: EventHandler,
+  ): () => void {
+    return this.subscribe(`connection:${connectionId}`, handler);
+  }
+
+  // Publishes event to a form connection's channel
+  publishToConnection(connectionId: string, payload: unknown): void {
+    this.publish(`connection:${connectionId}`, payload);
+  }
 }
 
-export const eventBus = new EventBus();
+export const eventBus = new EventBus(createEventTransport());
+export type { BufferedEvent, HouseholdEvent };
@@ -0,0 +1,116 @@
+import type { Context } from "hono";
+import { env } from "../../env.ts";
+import type { HonoContext } from "../../types/hono.ts";
+import type { User } from "../../types/user.ts";
+import {
+  heartbeatEvent,
+  redirectFragmentEvent,
+  withEventId,
+} from "../datastar.ts";
+import { eventBus } from "./event-bus.ts";
+
+// An open SSE response that resources write Datastar events to
+export type EventStream = {
+  response: Response;
+  // Writes an event tagged with the event bus ID it reflects. IDs never go
+  // backwards, so a slow render can't rewind where the client thinks it is.
+  send: (event: string, eventId: number) => Promise<void>;
+  close: () => void;
+};
+
+// Reads the ID of the last event a reconnecting client saw, if any
+export const getLastEventId = (c: Context<HonoContext>): number | null => {
+  const header = c.req.header("Last-Event-ID");
+  if (!header) return null;
+  const id = Number(header);
+  return Number.isSafeInteger(id) && id >= 0 ? id : null;
+};
+
+// Opens an SSE stream that sends keep-alive comments, so proxies with idle
+// timeouts (Cloudflare, Traefik) don't drop quiet connections
+export const openEventStream = (): EventStream => {
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  let closed = false;
+  let sentId = 0;
+
+  const write = async (chunk: string) => {
+    if (closed) return;
+    try {
+      await writer.write(encoder.encode(chunk));
+    } catch {
+      // Writer may be closed
+    }
+  };
+
+  const heartbeat = setInterval(
+    () => write(heartbeatEvent()),
+    env.SSE_HEARTBEAT_SECONDS * 1000,
+  );
+
+  const send = (event: string, eventId: number) => {
+    sentId = Math.max(sentId, eventId);
+    return write(withEventId(event, sentId));
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    writer.close().catch(() => {});
+  };
+
+  const response = new Response(readable, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Stops nginx-style proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+
+  return { response, send, close };
+};
+
+// Sends a stream's page to the login screen when its session is signed out
+// from another device. onSignOut stops any further renders. Returns the
+// unsubscribe function.
+export const redirectOnSignOut = (
+  c: Context<HonoContext>,
+  events: EventStream,
+  onSignOut: () => void,
+): (() => void) => {
+  const session = c.get("session");
+  if (!session) return () => {};
+
+  return eventBus.subscribeToSession(session.token, (payload, eventId) => {
+    if ((payload as { type: string }).type !== "session.revoked") return;
+    onSignOut();
+    events
+      .send(redirectFragmentEvent("/auth/login"), eventId)
+      .then(events.close);
+  });
+};
+
+// Sends a stream's page to the dashboard when its user switches household in
+// another tab, so they can't carry on editing the one they left without
+// noticing. onSwitch stops any further renders. Returns the unsubscribe
+// function.
+export const redirectOnHouseholdSwitch = (
+  user: User,
+  events: EventStream,
+  onSwitch: () => void,
+): (() => void) =>
+  eventBus.subscribeToUser(user.id, (payload, eventId) => {
+    const event = payload as { type: string; data?: { householdId: string } };
+    if (
+      event.type !== "household.switched" ||
+      event.data?.householdId === user.householdId
+    ) {
+      return;
+    }
+    onSwitch();
+    events.send(redirectFragmentEvent("/app"), eventId).then(events.close);
+  });
@@ -0,0 +1,48 @@
+import { client } from "../db.ts";
+
+type FormConflict = {
+  // Command data the user submitted, which was rejected as stale
+  submitted: Record<string, unknown>;
+};
+
+// Rejected stale writes keyed by connection ID, kept in the database so any
+// process can set them for a form streamed by another. Conflicts are cleared
+// when the SSE connection closes or on resubmission.
+class FormConflictStore {
+  // Stores the rejected submission for a connection
+  async setConflict(
+    connectionId: string,
+    submitted: Record<string, unknown>,
+  ): Promise<void> {
+    await client.execute({
+      sql: `INSERT INTO form_state (connection_id, conflict, updated_at) VALUES (?1, ?2, ?3)
+            ON CONFLICT (connection_id) DO UPDATE SET conflict = ?2, updated_at = ?3`,
+      args: [
+        connectionId,
+        JSON.stringify({ submitted }),
+        Math.floor(Date.now() / 1000),
+      ],
+    });
+  }
+
+  // Retrieves the rejected submission for a connection
+  async getConflict(connectionId: string): Promise<FormConflict | null> {
+    const result = await client.execute({
+      sql: "SELECT conflict FROM form_state WHERE connection_id = ?",
+      args: [connectionId],
+    });
+    const conflict = result.rows[0]?.conflict as string | null | undefined;
+    return conflict ? JSON.parse(conflict) : null;
+  }
+
+  // Clears the conflict for a connection
+  async clearConflict(connectionId: string): Promise<void> {
+    await client.execute({
+      sql: "UPDATE form_state SET conflict = NULL WHERE connection_id = ?",
+      args: [connectionId],
+    });
+  }
+}
+
+export const formConflictStore = new FormConflictStore();
+export type { FormConflict };
@@ -1,26 +1,43 @@
+import { client } from "../db.ts";
+
 type FormErrors = {
   fieldErrors: Record<string, string[] | undefined>;
   formErrors: string[];
 };
 
-// In-memory store for form validation errors keyed by connection ID.
-// Errors are cleared when the SSE connection closes or on successful submission.
+// Form validation errors keyed by connection ID, kept in the database so any
+// process can set them for a form streamed by another. Errors are cleared
+// when the SSE connection closes or on successful submission.
 class FormErrorStore {
-  private errors = new Map<string, FormErrors>();
-
   // Stores validation errors for a connection
-  setErrors(connectionId: string, errors: FormErrors): void {
-    this.errors.set(connectionId, errors);
+  async setErrors(connectionId: string, errors: FormErrors): Promise<void> {
+    await client.execute({
+      sql: `INSERT INTO form_state (connection_id, errors, updated_at) VALUES (?1, ?2, ?3)
+            ON CONFLICT (connection_id) DO UPDATE SET errors = ?2, updated_at = ?3`,
+      args: [
+        connectionId,
+        JSON.stringify(errors),
+        Math.floor(Date.now() / 1000),
+      ],
+    });
   }
 
   // Retrieves validation errors for a connection
-  getErrors(connectionId: string): FormErrors | null {
-    return this.errors.get(connectionId) || null;
+  async getErrors(connectionId: string): Promise<FormErrors | null> {
+    const result = await client.execute({
+      sql: "SELECT errors FROM form_state WHERE connection_id = ?",
+      args: [connectionId],
+    });
+    const errors = result.rows[0]?.errors as string | null | undefined;
+    return errors ? JSON.parse(errors) : null;
   }
 
   // Clears validation errors for a connection
-  clearErrors(connectionId: string): void {
-    this.errors.delete(connectionId);
+  async clearErrors(connectionId: string): Promise<void> {
+    await client.execute({
+      sql: "UPDATE form_state SET errors = NULL WHERE connection_id = ?",
+      args: [connectionId],
+    });
   }
 }
 
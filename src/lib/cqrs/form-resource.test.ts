@@ -0,0 +1,255 @@
+import { Hono } from "hono";
+import { html } from "hono/html";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { setupTestDatabase } from "../../test/db.ts";
+import type { HonoContext, Session } from "../../types/hono.ts";
+import type { User } from "../../types/user.ts";
+import { createUser } from "../auth/user.ts";
+import { markCommandSucceeded } from "./command-queue.ts";
+import { commandStore } from "./command-store.ts";
+import { defineCommand } from "./define.ts";
+import { eventBus } from "./event-bus.ts";
+import { formErrorStore } from "./form-errors.ts";
+import { createFormResource } from "./form-resource.ts";
+import { getFormIdempotencyKey } from "./handle-form-post.ts";
+
+const saveCommand = defineCommand({
+  type: "test.save",
+  emits: "test.saved",
+  handler: async () => ({}),
+});
+
+const form = createFormResource({
+  path: "/form",
+  schema: z.object({ title: z.string() }),
+  command: saveCommand,
+  eventTypes: ["test.saved"],
+  successRedirect: "/done",
+  loadState: async (_user, _c, connectionId) => ({
+    errors: await formErrorStore.getErrors(connectionId),
+  }),
+  render: ({ errors }) =>
+    html`<div id="form">Form${errors ? " has errors" : ""}</div>`,
+});
+
+// Who a request comes from: the test user's session unless it says otherwise
+type Requester = { user?: "other"; session?: string };
+
+const requesterHeaders = ({ user, session }: Requester = {}) => ({
+  "X-Test-User": user ?? "",
+  "X-Test-Session": session ?? "session",
+});
+
+// An open form stream, read as the browser would see it
+type FormStream = {
+  // Reads until the stream has sent something matching, and returns it all
+  readUntil: (pattern: RegExp) => Promise<string>;
+  close: () => void;
+};
+
+describe("createFormResource", () => {
+  let user: User;
+  let other: User;
+  let app: Hono<HonoContext>;
+  const open: FormStream[] = [];
+
+  // Connects to the form's stream, as a reconnect when lastEventId is given
+  const connect = async ({
+    lastEventId,
+    cid = crypto.randomUUID().slice(0, 8),
+    submitSeq = 0,
+    as,
+  }: {
+    lastEventId?: number;
+    cid?: string;
+    submitSeq?: number;
+    as?: Requester;
+  } = {}): Promise<FormStream> => {
+    const controller = new AbortController();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...requesterHeaders(as),
+    };
+    if (lastEventId !== undefined) {
+      headers["Last-Event-ID"] = String(lastEventId);
+    }
+    const response = await app.request("/form", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ cid, submitSeq }),
+      signal: controller.signal,
+    });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = "";
+
+    const stream: FormStream = {
+      readUntil: async (pattern) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(new Error(`Stream never sent ${pattern}: ${received}`)),
+            2000,
+          );
+        });
+        try {
+          while (!pattern.test(received)) {
+            const { value, done } = await Promise.race([
+              reader.read(),
+              timeout,
+            ]);
+            if (done) break;
+            received += decoder.decode(value);
+          }
+        } finally {
+          clearTimeout(timer);
+        }
+        return received;
+      },
+      close: () => controller.abort(),
+    };
+    open.push(stream);
+    return stream;
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    user = {
+      ...(await createUser("forms@example.com", null, "Forms")),
+      householdId: "household",
+    };
+    other = await createUser("other-forms@example.com", null, "Other");
+    app = new Hono<HonoContext>();
+    app.use(async (c, next) => {
+      c.set("user", c.req.header("X-Test-User") === "other" ? other : user);
+      c.set("session", {
+        token: c.req.header("X-Test-Session"),
+      } as Session);
+      await next();
+    });
+    app.post("/form", form.sseHandler);
+    app.post("/form/submit", form.postHandler);
+  });
+
+  afterEach(() => {
+    open.splice(0).forEach((stream) => stream.close());
+  });
+
+  it("renders the form when it first connects", async () => {
+    const stream = await connect();
+
+    expect(await stream.readUntil(/id="form"/)).not.toContain("/done");
+  });
+
+  it("follows the success redirect when the save finished while it was away", async () => {
+    const seen = eventBus.getLastEventId();
+    eventBus.publishToUser(user.id, { type: "test.saved" });
+
+    const stream = await connect({ lastEventId: seen });
+
+    const received = await stream.readUntil(/window\.location/);
+    expect(received).toContain('window.location.href = "/done"');
+    expect(received).not.toContain('id="form"');
+  });
+
+  it("stays on the form when only someone else saved while it was away", async () => {
+    const seen = eventBus.getLastEventId();
+    eventBus.publishToUser(user.id, { type: "something.else" });
+    eventBus.publishToHousehold("household", {
+      type: "test.saved",
+      userId: "someone-else",
+    });
+
+    const stream = await connect({ lastEventId: seen });
+
+    expect(await stream.readUntil(/id="form"/)).not.toContain("/done");
+  });
+
+  describe("form state", () => {
+    // Submits the form without a title, so it fails validation
+    const submitInvalid = (cid: string, as?: Requester) =>
+      app.request("/form/submit", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...requesterHeaders(as),
+        },
+        body: JSON.stringify({ cid }),
+      });
+
+    it("shows errors from the form's own submit", async () => {
+      await submitInvalid("own");
+
+      const stream = await connect({ cid: "own" });
+
+      expect(await stream.readUntil(/id="form"/)).toContain("has errors");
+    });
+
+    it("keeps another user's errors out of a form with the same cid", async () => {
+      await submitInvalid("shared", { user: "other" });
+
+      const stream = await connect({ cid: "shared" });
+
+      expect(await stream.readUntil(/id="form"/)).not.toContain("has errors");
+    });
+
+    it("keeps another session's errors out of a form with the same cid", async () => {
+      await submitInvalid("device", { session: "another-device" });
+
+      const stream = await connect({ cid: "device" });
+
+      expect(await stream.readUntil(/id="form"/)).not.toContain("has errors");
+    });
+  });
+
+  describe("reconnecting after a submit", () => {
+    const cid = "reconnect";
+
+    // Queues a submit as the form would, with its idempotency key
+    const submit = (submitSeq: number) =>
+      commandStore.enqueue(
+        saveCommand,
+        user,
+        {},
+        { idempotencyKey: getFormIdempotencyKey({ cid, submitSeq }) },
+      );
+
+    // Reads the submit counter the stream moved the form on to, if it did
+    const readSubmitSeq = (received: string): number | null => {
+      const match = received.match(/"submitSeq":(\d+)/);
+      return match ? Number(match[1]) : null;
+    };
+
+    it("moves the submit counter on when the save finished while it was away", async () => {
+      const saved = await submit(0);
+      await markCommandSucceeded(saved);
+
+      const stream = await connect({
+        lastEventId: eventBus.getLastEventId(),
+        cid,
+        submitSeq: 0,
+      });
+      const submitSeq = readSubmitSeq(await stream.readUntil(/submitSeq/));
+
+      expect(submitSeq).not.toBeNull();
+      expect(submitSeq).not.toBe(0);
+      expect(await submit(submitSeq!)).not.toBe(saved);
+    });
+
+    it("keeps the submit counter while the save is still going", async () => {
+      await submit(1);
+
+      const stream = await connect({
+        lastEventId: eventBus.getLastEventId(),
+        cid,
+        submitSeq: 1,
+      });
+      const received = await stream.readUntil(/commandStatus/);
+
+      expect(received).toContain('"commandStatus":"pending"');
+      expect(readSubmitSeq(received)).toBeNull();
+    });
+  });
+});
@@ -4,18 +4,38 @@ import type { HtmlEscapedString } from "hono/utils/html";
 import type { z } from "zod";
 import type { HonoContext } from "../../types/hono.ts";
 import type { User } from "../../types/user.ts";
-import { patchElementEvent, redirectFragmentEvent } from "../datastar.ts";
+import {
+  patchElementEvent,
+  patchSignalsEvent,
+  redirectFragmentEvent,
+} from "../datastar.ts";
 import { commandStore } from "./command-store.ts";
+import { trackConnection } from "./connection-presence.ts";
 import type { CommandDefinition } from "./define.ts";
-import { eventBus } from "./event-bus.ts";
+import { eventBus, type HouseholdEvent } from "./event-bus.ts";
+import {
+  getLastEventId,
+  openEventStream,
+  redirectOnHouseholdSwitch,
+  redirectOnSignOut,
+} from "./event-stream.ts";
+import { createRenderScheduler } from "./render-scheduler.ts";
+import { formConflictStore } from "./form-conflicts.ts";
 import { formErrorStore } from "./form-errors.ts";
+import {
+  getFormConnectionId,
+  getFormIdempotencyKey,
+} from "./handle-form-post.ts";
 import { stream } from "hono/streaming";
 
 type FormResourceOptions<TSchema extends z.ZodType, TState, TData> = {
   path: string;
   schema: TSchema;
   command: CommandDefinition<TData, unknown>;
-  data?: (parsed: z.infer<TSchema>, c: Context<HonoContext>) => TData;
+  data?: (
+    parsed: z.infer<TSchema>,
+    c: Context<HonoContext>,
+  ) => TData | Promise<TData>;
   eventTypes: string[];
   successRedirect?: string;
   errorRedirect?: string;
@@ -27,6 +47,12 @@ type FormResourceOptions<TSchema extends z.ZodType, TState, TData> = {
   render: (state: TState) => HtmlEscapedString | Promise<HtmlEscapedString>;
 };
 
+// Events published on a form connection's channel
+type ConnectionEvent = {
+  type: string;
+  data?: { commandId: string; error: string | null };
+};
+
 // Creates a form resource that manages the full lifecycle of a validated form:
 // container div (client-side cid + SSE), SSE handler, and POST handler.
 export const createFormResource = <
@@ -37,6 +63,8 @@ export const createFormResource = <
   options: FormResourceOptions<TSchema, TState, TData>,
 ) => {
   // Wraps children in a div with client-side cid signal and @post SSE init.
+  // Also renders the inline status of the last submitted command, driven by
+  // the commandStatus/commandError signals pushed over SSE.
   // Pass sseUrl to override the default path (e.g. to add query params).
   const container = (
     children: HtmlEscapedString | Promise<HtmlEscapedString>,
@@ -45,9 +73,32 @@ export const createFormResource = <
     const url = sseUrl || options.path;
     return html`
       <div
-        data-signals="{cid: crypto.randomUUID().slice(0,8)}"
+        data-signals="{cid: crypto.randomUUID().slice(0,8), submitSeq: 0, commandStatus: '', commandError: ''}"
         data-init="@post('${url}')"
       >
+        <div aria-live="polite">
+          <div
+            class="alert alert-info mb-4"
+            style="display: none"
+            data-show="$commandStatus === 'pending'"
+          >
+            Saving…
+          </div>
+          <div
+            class="alert alert-warning mb-4"
+            style="display: none"
+            data-show="$commandStatus === 'retrying'"
+          >
+            <span data-text="'Still trying to save: ' + $commandError"></span>
+          </div>
+          <div
+            class="alert alert-error mb-4"
+            style="display: none"
+            data-show="$commandStatus === 'failed'"
+          >
+            <span data-text="'Couldn’t save: ' + $commandError"></span>
+          </div>
+        </div>
         ${children}
       </div>
     `;
@@ -58,22 +109,26 @@ export const createFormResource = <
   const postHandler = async (c: Context<HonoContext>) => {
     const user = c.get("user")!;
     const body = await c.req.json();
-    const connectionId = body.cid;
+    const connectionId = getFormConnectionId(c, body.cid);
 
     const result = options.schema.safeParse(body);
     if (!result.success) {
-      formErrorStore.setErrors(connectionId, result.error.flatten());
-      eventBus.publish(`connection:${connectionId}`, {
+      await formErrorStore.setErrors(connectionId, result.error.flatten());
+      eventBus.publishToConnection(connectionId, {
         type: "form.validationError",
       });
       return c.body(null, 204);
     }
 
-    formErrorStore.clearErrors(connectionId);
+    await formErrorStore.clearErrors(connectionId);
+    await formConflictStore.clearConflict(connectionId);
     const data = options.data
-      ? options.data(result.data, c)
+      ? await options.data(result.data, c)
       : (result.data as TData);
-    commandStore.enqueue(options.command, user, data);
+    await commandStore.enqueue(options.command, user, data, {
+      connectionId,
+      idempotencyKey: getFormIdempotencyKey(body),
+    });
 
     return c.body(null, 204);
   };
@@ -89,78 +144,202 @@ export const createFormResource = <
     }
 
     const body = await c.req.json();
-    const connectionId: string = body.cid || "";
+    const connectionId = getFormConnectionId(c, body.cid);
 
-    const { readable, writable } = new TransformStream();
-    const writer = writable.getWriter();
-    const encoder = new TextEncoder();
+    const events = openEventStream();
+    const connectedAt = eventBus.getLastEventId();
 
-    const sendState = async () => {
+    // Sends the current state to the client, tagged with the event it reflects.
+    // Skipped when the HTML is the same as the last render sent.
+    let lastHtml: string | null = null;
+    const renderState = async (eventId: number) => {
       try {
         const state = await options.loadState(user, c, connectionId);
-        const rendered = await options.render(state);
-        await writer.write(encoder.encode(patchElementEvent(rendered)));
+        const rendered = (await options.render(state)).toString();
+        if (rendered === lastHtml) return;
+        lastHtml = rendered;
+        await events.send(patchElementEvent(rendered), eventId);
       } catch (error) {
         console.error("SSE render error:", error);
         if (options.errorRedirect) {
-          try {
-            await writer.write(
-              encoder.encode(redirectFragmentEvent(options.errorRedirect)),
-            );
-          } catch {
-            // Writer may be closed
-          }
+          await events.send(
+            redirectFragmentEvent(options.errorRedirect),
+            eventId,
+          );
         }
       }
     };
 
-    sendState();
+    // Bursts of events become one render, and renders never overlap
+    const renders = createRenderScheduler(renderState);
+
+    // Pushes the submitted command's status to the container's signals.
+    // An empty status hides the status line (used on success and re-validation).
+    // Once a submission has finished, the submit counter moves on so the next
+    // save gets a fresh idempotency key.
+    const sendCommandStatus = (
+      status: string,
+      error: string | null,
+      eventId: number,
+      finished = false,
+    ) =>
+      events.send(
+        patchSignalsEvent({
+          commandStatus: status,
+          commandError: error || "",
+          ...(finished ? { submitSeq: Date.now() } : {}),
+        }),
+        eventId,
+      );
+
+    const matchesEventTypes = (event: { type: string }) =>
+      options.eventTypes.some((t) => event.type.startsWith(t.replace("*", "")));
 
-    const unsubscribeUser = eventBus.subscribeToUser(user.id, (payload) => {
-      const event = payload as { type: string };
+    // Checks whether an event should send this user to the success redirect
+    const redirectsOn = (channel: string, payload: unknown) => {
+      const event = payload as HouseholdEvent;
+      if (!matchesEventTypes(event)) return false;
+      return !channel.startsWith("household:") || event.userId === user.id;
+    };
+
+    const sendRedirect = (url: string, eventId: number) => {
+      events.send(redirectFragmentEvent(url), eventId);
+    };
+
+    // Shows where the form's last submit has got to after a reconnect.
+    // Outcomes that arrived while it was disconnected went out as
+    // notifications, so a finished submit just clears the status, and the
+    // submit counter moves on so the next save isn't dropped as a repeat.
+    const resumeSubmission = async () => {
+      const idempotencyKey = getFormIdempotencyKey(body);
+      const submission = idempotencyKey
+        ? await commandStore.getSubmissionStatus(user.id, idempotencyKey)
+        : null;
       if (
-        options.eventTypes.some((t) =>
-          event.type.startsWith(t.replace("*", "")),
-        )
+        submission &&
+        submission.status !== "succeeded" &&
+        submission.status !== "failed"
       ) {
-        if (options.successRedirect) {
-          writer
-            .write(
-              encoder.encode(redirectFragmentEvent(options.successRedirect)),
-            )
-            .catch(() => {});
-          return;
-        }
-        sendState();
+        await sendCommandStatus(
+          submission.status,
+          submission.error,
+          connectedAt,
+        );
+        return;
       }
-    });
+      await sendCommandStatus("", null, connectedAt, submission !== null);
+    };
+
+    // A reconnecting form gets a fresh render, or its success redirect if the
+    // save finished while it was away
+    const lastEventId = getLastEventId(c);
+    const missed =
+      lastEventId === null
+        ? []
+        : (eventBus.getMissedEvents(user.id, user.householdId, lastEventId) ??
+          []);
+    const missedRedirect = options.successRedirect
+      ? missed.find((e) => redirectsOn(e.channel, e.payload))
+      : undefined;
+    if (options.successRedirect && missedRedirect) {
+      sendRedirect(options.successRedirect, missedRedirect.id);
+    } else {
+      // Not awaited, so nothing published meanwhile is missed
+      if (lastEventId !== null) {
+        resumeSubmission().catch((error) =>
+          console.error("Failed to resume form submission:", error),
+        );
+      }
+      renders.flush(connectedAt);
+    }
+
+    const unsubscribeUser = eventBus.subscribeToUser(
+      user.id,
+      (payload, eventId) => {
+        const event = payload as { type: string };
+        if (matchesEventTypes(event)) {
+          if (options.successRedirect) {
+            sendRedirect(options.successRedirect, eventId);
+            return;
+          }
+          renders.request(eventId);
+        }
+      },
+    );
+
+    // Shared entity changes from anyone in the household re-render the form state.
+    // Forms that redirect on success only react to the submitting user's own
+    // changes, so nobody is navigated away from a form they're filling in.
+    const householdId = user.householdId;
+    const unsubscribeHousehold = householdId
+      ? eventBus.subscribeToHousehold(householdId, (payload, eventId) => {
+          const event = payload as HouseholdEvent;
+          if (!matchesEventTypes(event)) return;
+          if (options.successRedirect) {
+            if (redirectsOn(`household:${householdId}`, event)) {
+              sendRedirect(options.successRedirect, eventId);
+            }
+            return;
+          }
+          renders.request(eventId);
+        })
+      : () => {};
 
     let unsubscribeConnection: (() => void) | undefined;
+    let untrackConnection: (() => void) | undefined;
     if (connectionId) {
-      unsubscribeConnection = eventBus.subscribe(
-        `connection:${connectionId}`,
-        () => {
-          sendState();
+      untrackConnection = trackConnection(connectionId);
+      unsubscribeConnection = eventBus.subscribeToConnection(
+        connectionId,
+        (payload, eventId) => {
+          const event = payload as ConnectionEvent;
+          // A stale write re-renders the form so it can show the conflict
+          if (event.type === "command.conflict") {
+            sendCommandStatus("", null, eventId, true);
+            renders.request(eventId);
+            return;
+          }
+          if (event.type.startsWith("command.")) {
+            const status = event.type.replace("command.", "");
+            sendCommandStatus(
+              status === "succeeded" ? "" : status,
+              event.data?.error || null,
+              eventId,
+              status === "succeeded" || status === "failed",
+            );
+            return;
+          }
+          // Validation errors can come from a handler after the command ran,
+          // so the corrected resubmit needs a fresh idempotency key
+          if (event.type === "form.validationError") {
+            sendCommandStatus("", null, eventId, true);
+          }
+          renders.request(eventId);
         },
       );
     }
 
+    // A device signed out elsewhere, or a household switch in another tab,
+    // stops updates straight away
+    const unsubscribeSession = redirectOnSignOut(c, events, renders.cancel);
+    const unsubscribeSwitch = redirectOnHouseholdSwitch(
+      user,
+      events,
+      renders.cancel,
+    );
+
     c.req.raw.signal.addEventListener("abort", () => {
       unsubscribeUser();
+      unsubscribeHousehold();
+      unsubscribeSession();
+      unsubscribeSwitch();
       unsubscribeConnection?.();
-      if (connectionId) {
-        formErrorStore.clearErrors(connectionId);
-      }
-      writer.close();
+      untrackConnection?.();
+      renders.cancel();
+      events.close();
     });
 
-    return new Response(readable, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    });
+    return events.response;
   };
 
   return { container, postHandler, sseHandler };
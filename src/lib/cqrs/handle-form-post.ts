@@ -4,38 +4,71 @@ import type { HonoContext } from "../../types/hono.ts";
 import type { CommandDefinition } from "./define.ts";
 import { commandStore } from "./command-store.ts";
 import { eventBus } from "./event-bus.ts";
+import { formConflictStore } from "./form-conflicts.ts";
 import { formErrorStore } from "./form-errors.ts";
 
 type HandleFormPostOptions<TSchema extends z.ZodType, TData> = {
   schema: TSchema;
   command: CommandDefinition<TData, unknown>;
-  data?: (parsed: z.infer<TSchema>, c: Context<HonoContext>) => TData;
+  data?: (
+    parsed: z.infer<TSchema>,
+    c: Context<HonoContext>,
+  ) => TData | Promise<TData>;
+};
+
+// Idempotency key for a form submit: the form's cid plus its submit
+// counter, which only moves on once a submission has finished (including one
+// that finished while the form was disconnected). A double tap sends the same
+// key twice, so the second submit is dropped.
+export const getFormIdempotencyKey = (body: {
+  cid?: unknown;
+  submitSeq?: unknown;
+}): string | undefined =>
+  body.cid ? `${body.cid}:${body.submitSeq ?? 0}` : undefined;
+
+// Connection ID for a form: its client-chosen cid, scoped to the signed-in
+// user and their session. Errors, conflicts, presence and connection events
+// are all keyed by it, so another account or device sending the same cid
+// can't read or overwrite them.
+export const getFormConnectionId = (
+  c: Context<HonoContext>,
+  cid: unknown,
+): string => {
+  if (!cid) return "";
+  const user = c.get("user")!;
+  const session = c.get("session")?.token ?? c.get("apiToken")?.id ?? "";
+  return `${user.id}:${session}:${cid}`;
 };
 
 // Creates a Hono handler that validates form input, stores errors via SSE on failure,
-// and enqueues a command on success. Always returns 204.
+// and enqueues a command on success, tagged with the form's connection ID so its
+// status is reported back inline. Always returns 204.
 export const handleFormPost = <TSchema extends z.ZodType, TData>(
   options: HandleFormPostOptions<TSchema, TData>,
 ) => {
   return async (c: Context<HonoContext>) => {
     const user = c.get("user")!;
     const body = await c.req.json();
-    const connectionId = body.cid;
+    const connectionId = getFormConnectionId(c, body.cid);
 
     const result = options.schema.safeParse(body);
     if (!result.success) {
-      formErrorStore.setErrors(connectionId, result.error.flatten());
-      eventBus.publish(`connection:${connectionId}`, {
+      await formErrorStore.setErrors(connectionId, result.error.flatten());
+      eventBus.publishToConnection(connectionId, {
         type: "form.validationError",
       });
       return c.body(null, 204);
     }
 
-    formErrorStore.clearErrors(connectionId);
+    await formErrorStore.clearErrors(connectionId);
+    await formConflictStore.clearConflict(connectionId);
     const data = options.data
-      ? options.data(result.data, c)
+      ? await options.data(result.data, c)
       : (result.data as TData);
-    commandStore.enqueue(options.command, user, data);
+    await commandStore.enqueue(options.command, user, data, {
+      connectionId,
+      idempotencyKey: getFormIdempotencyKey(body),
+    });
 
     return c.body(null, 204);
   };
@@ -1,7 +1,25 @@
 export { commandStore } from "./command-store.ts";
-export { defineCommand, type CommandDefinition } from "./define.ts";
-export { eventBus } from "./event-bus.ts";
+export {
+  canRunCommand,
+  defineCommand,
+  getCommandDefinition,
+  type CommandDefinition,
+} from "./define.ts";
+export {
+  CommandRejectedError,
+  CommandValidationError,
+  ConflictError,
+  ForbiddenError,
+} from "./errors.ts";
+export { eventBus, type HouseholdEvent } from "./event-bus.ts";
+export { formConflictStore, type FormConflict } from "./form-conflicts.ts";
 export { formErrorStore, type FormErrors } from "./form-errors.ts";
 export { createFormResource } from "./form-resource.ts";
 export { handleFormPost } from "./handle-form-post.ts";
+export type { CommandContext, CommandMiddleware } from "./middleware.ts";
 export { createSSEResource } from "./sse-resource.ts";
+export {
+  createMemoryTransport,
+  createSqliteTransport,
+  type EventTransport,
+} from "./transports/index.ts";
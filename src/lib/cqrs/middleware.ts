@@ -0,0 +1,143 @@
+import type { StoredCommand } from "../../types/command.ts";
+import type { User } from "../../types/user.ts";
+import { commandMetrics } from "./command-metrics.ts";
+import { canRunCommand, type CommandDefinition } from "./define.ts";
+import {
+  CommandRejectedError,
+  CommandValidationError,
+  ConflictError,
+  ForbiddenError,
+} from "./errors.ts";
+
+// State shared by the middleware running a single command
+export type CommandContext = {
+  command: StoredCommand;
+  definition: CommandDefinition<unknown, unknown>;
+  user: User;
+  // Time spent queued before the command started
+  waitMs: number;
+  // Set by the timing middleware once the command has finished
+  durationMs: number | null;
+};
+
+// Runs around a command's handler. Call next() to continue down the chain;
+// its result is the handler's result.
+export type CommandMiddleware = (
+  ctx: CommandContext,
+  next: () => Promise<unknown>,
+) => Promise<unknown>;
+
+// Runs a command through the middleware chain, outermost first
+export const runCommandPipeline = (
+  middleware: CommandMiddleware[],
+  ctx: CommandContext,
+  handler: () => Promise<unknown>,
+): Promise<unknown> => {
+  const run = (index: number): Promise<unknown> =>
+    index < middleware.length
+      ? middleware[index](ctx, () => run(index + 1))
+      : handler();
+  return run(0);
+};
+
+// Describes how a command run ended, for logs
+const getOutcome = (error: unknown): string => {
+  if (!error) return "succeeded";
+  if (error instanceof ConflictError) return "conflict";
+  if (error instanceof CommandRejectedError) return "rejected";
+  return "failed";
+};
+
+// Writes one JSON log line per command run
+export const loggingMiddleware: CommandMiddleware = async (ctx, next) => {
+  let error: unknown = null;
+  try {
+    return await next();
+  } catch (caught) {
+    error = caught;
+    throw caught;
+  } finally {
+    const line = JSON.stringify({
+      event: "command",
+      type: ctx.command.type,
+      commandId: ctx.command.id,
+      userId: ctx.user.id,
+      entityKey: ctx.command.entityKey,
+      attempt: ctx.command.attempts,
+      outcome: getOutcome(error),
+      waitMs: Math.round(ctx.waitMs),
+      durationMs: ctx.durationMs === null ? null : Math.round(ctx.durationMs),
+      error: error instanceof Error ? error.message : null,
+    });
+    if (error) {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+};
+
+// Measures how long the command took and records it for queue stats
+export const timingMiddleware: CommandMiddleware = async (ctx, next) => {
+  const startedAt = performance.now();
+  try {
+    return await next();
+  } finally {
+    ctx.durationMs = performance.now() - startedAt;
+    commandMetrics.record(ctx.waitMs, ctx.durationMs);
+  }
+};
+
+// Turns errors that retrying cannot fix into rejections, so the command
+// fails straight away with a message the user can act on
+export const errorMappingMiddleware: CommandMiddleware = async (_ctx, next) => {
+  try {
+    return await next();
+  } catch (error) {
+    if (error instanceof CommandRejectedError) {
+      throw error;
+    }
+    if (!(error instanceof Error)) {
+      throw new Error(String(error));
+    }
+
+    // Unique and foreign key violations fail the same way every time
+    const code = (error as { code?: unknown }).code;
+    if (typeof code === "string" && code.startsWith("SQLITE_CONSTRAINT")) {
+      throw new CommandValidationError(
+        "That would conflict with existing data",
+      );
+    }
+
+    throw error;
+  }
+};
+
+// Rejects commands the user's role may not run. Roles are checked again here
+// as well as on enqueue, since a user's role can change while a command waits.
+export const authorizationMiddleware: CommandMiddleware = async (ctx, next) => {
+  if (!canRunCommand(ctx.definition, ctx.user)) {
+    throw new ForbiddenError();
+  }
+  return next();
+};
+
+// Runs the command's domain validation before its handler
+export const validationMiddleware: CommandMiddleware = async (ctx, next) => {
+  if (ctx.definition.validate) {
+    const message = await ctx.definition.validate(ctx.user, ctx.command.data);
+    if (message) {
+      throw new CommandValidationError(message);
+    }
+  }
+  return next();
+};
+
+// The chain every command runs through, outermost first
+export const defaultCommandMiddleware: CommandMiddleware[] = [
+  loggingMiddleware,
+  timingMiddleware,
+  errorMappingMiddleware,
+  authorizationMiddleware,
+  validationMiddleware,
+];
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRenderScheduler } from "./render-scheduler.ts";
+
+// A render the test finishes by hand, to see what happens while it runs
+const heldRender = () => {
+  const finishes: (() => void)[] = [];
+  const render = vi.fn(
+    (_eventId: number) =>
+      new Promise<void>((resolve) => finishes.push(resolve)),
+  );
+  const finish = async () => {
+    finishes.shift()?.();
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return { render, finish };
+};
+
+describe("createRenderScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("renders a burst of requests once, 100ms after the first", async () => {
+    const render = vi.fn(async (_eventId: number) => {});
+    const renders = createRenderScheduler(render);
+
+    renders.request(1);
+    await vi.advanceTimersByTimeAsync(60);
+    renders.request(2);
+    renders.request(3);
+    await vi.advanceTimersByTimeAsync(39);
+    expect(render).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(render).toHaveBeenCalledWith(3);
+  });
+
+  it("keeps rendering every 100ms through a steady stream of requests", async () => {
+    const render = vi.fn(async (_eventId: number) => {});
+    const renders = createRenderScheduler(render);
+
+    for (let eventId = 1; eventId <= 10; eventId++) {
+      renders.request(eventId);
+      await vi.advanceTimersByTimeAsync(25);
+    }
+
+    expect(render.mock.calls.map(([eventId]) => eventId)).toEqual([4, 8]);
+  });
+
+  it("renders straight away on flush, replacing a queued render", async () => {
+    const render = vi.fn(async (_eventId: number) => {});
+    const renders = createRenderScheduler(render);
+
+    renders.request(1);
+    renders.flush(2);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(render).toHaveBeenCalledWith(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it("never overlaps renders, and catches up on requests made during one", async () => {
+    const { render, finish } = heldRender();
+    const renders = createRenderScheduler(render);
+
+    renders.flush(1);
+    await vi.advanceTimersByTimeAsync(0);
+    renders.request(2);
+    renders.flush(3);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(render).toHaveBeenCalledTimes(1);
+
+    await finish();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(render).toHaveBeenLastCalledWith(3);
+  });
+
+  it("drops queued renders once cancelled", async () => {
+    const { render, finish } = heldRender();
+    const renders = createRenderScheduler(render);
+
+    renders.flush(1);
+    await vi.advanceTimersByTimeAsync(0);
+    renders.request(2);
+    renders.cancel();
+    await finish();
+    renders.request(3);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+});
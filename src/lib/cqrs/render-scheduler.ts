@@ -0,0 +1,70 @@
+// How long a connection waits after an event for more to arrive before rendering
+const RENDER_DEBOUNCE_MS = 100;
+
+// Schedules state renders for one SSE connection
+export type RenderScheduler = {
+  // Asks for a render reflecting the given event. Bursts of requests become
+  // a single render of the latest event.
+  request: (eventId: number) => void;
+  // Renders straight away (or as soon as the current render finishes)
+  flush: (eventId: number) => void;
+  // Drops any queued render, once the connection has closed
+  cancel: () => void;
+};
+
+// Coalesces re-render requests so a burst of events (e.g. "mark all as read")
+// causes one reload rather than one per event, and renders never overlap.
+// Requests made while a render is running are queued for after it.
+export const createRenderScheduler = (
+  render: (eventId: number) => Promise<void>,
+): RenderScheduler => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let cancelled = false;
+  let pendingId: number | null = null;
+
+  const run = async () => {
+    timer = null;
+    if (running || cancelled || pendingId === null) return;
+
+    const eventId = pendingId;
+    pendingId = null;
+    running = true;
+    try {
+      await render(eventId);
+    } finally {
+      running = false;
+      if (pendingId !== null) schedule(RENDER_DEBOUNCE_MS);
+    }
+  };
+
+  // The window isn't extended by later requests, so a steady stream of
+  // events still renders every RENDER_DEBOUNCE_MS
+  const schedule = (delayMs: number) => {
+    if (cancelled || running) return;
+    if (timer && delayMs > 0) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, delayMs);
+  };
+
+  const enqueue = (eventId: number) => {
+    pendingId = Math.max(pendingId ?? 0, eventId);
+  };
+
+  return {
+    request: (eventId) => {
+      enqueue(eventId);
+      schedule(RENDER_DEBOUNCE_MS);
+    },
+    flush: (eventId) => {
+      enqueue(eventId);
+      schedule(0);
+    },
+    cancel: () => {
+      cancelled = true;
+      pendingId = null;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
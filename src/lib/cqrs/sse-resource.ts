@@ -3,7 +3,14 @@ import type { HtmlEscapedString } from "hono/utils/html";
 import type { HonoContext } from "../../types/hono.ts";
 import type { User } from "../../types/user.ts";
 import { patchElementEvent, redirectFragmentEvent } from "../datastar.ts";
-import { eventBus } from "./event-bus.ts";
+import { eventBus, type HouseholdEvent } from "./event-bus.ts";
+import {
+  getLastEventId,
+  openEventStream,
+  redirectOnHouseholdSwitch,
+  redirectOnSignOut,
+} from "./event-stream.ts";
+import { createRenderScheduler } from "./render-scheduler.ts";
 import { stream } from "hono/streaming";
 
 type SSEResourceOptions<TState> = {
@@ -26,65 +33,119 @@ export const createSSEResource = <TState>(
       });
     }
 
-    const { readable, writable } = new TransformStream();
-    const writer = writable.getWriter();
-    const encoder = new TextEncoder();
+    const events = openEventStream();
+    const connectedAt = eventBus.getLastEventId();
 
-    // Sends the current state to the client
-    const sendState = async () => {
+    // Sends the current state to the client, tagged with the event it reflects.
+    // Skipped when the HTML is the same as the last render sent.
+    let lastHtml: string | null = null;
+    const renderState = async (eventId: number) => {
       try {
         const state = await options.loadState(user, c);
-        const html = await options.render(state);
-        await writer.write(encoder.encode(patchElementEvent(html)));
+        const html = (await options.render(state)).toString();
+        if (html === lastHtml) return;
+        lastHtml = html;
+        await events.send(patchElementEvent(html), eventId);
       } catch (error) {
         console.error("SSE render error:", error);
         if (options.errorRedirect) {
-          try {
-            await writer.write(
-              encoder.encode(redirectFragmentEvent(options.errorRedirect)),
-            );
-          } catch {
-            // Writer may be closed
-          }
+          await events.send(
+            redirectFragmentEvent(options.errorRedirect),
+            eventId,
+          );
         }
       }
     };
 
-    // Sends initial state
-    sendState();
+    // Bursts of events become one render, and renders never overlap
+    const renders = createRenderScheduler(renderState);
+
+    // Checks whether an event is one this resource re-renders on
+    const matchesEventTypes = (event: { type: string }) =>
+      options.eventTypes.some((t) => event.type.startsWith(t.replace("*", "")));
+
+    // Checks whether an event should send this user to the success redirect.
+    // Only the member who made a household change is redirected.
+    const redirectsOn = (channel: string, payload: unknown) => {
+      const event = payload as HouseholdEvent;
+      if (!matchesEventTypes(event)) return false;
+      return !channel.startsWith("household:") || event.userId === user.id;
+    };
+
+    // Sends the success redirect
+    const sendRedirect = (url: string, eventId: number) => {
+      events.send(redirectFragmentEvent(url), eventId);
+    };
+
+    // Sends initial state. A reconnecting client that missed the change it
+    // was waiting on is redirected instead of shown a form it already saved.
+    const lastEventId = getLastEventId(c);
+    const missed =
+      lastEventId === null
+        ? []
+        : (eventBus.getMissedEvents(user.id, user.householdId, lastEventId) ??
+          []);
+    const missedRedirect = options.successRedirect
+      ? missed.find((e) => redirectsOn(e.channel, e.payload))
+      : undefined;
+    if (options.successRedirect && missedRedirect) {
+      sendRedirect(options.successRedirect, missedRedirect.id);
+    } else {
+      renders.flush(connectedAt);
+    }
 
     // Subscribes to user-scoped events and re-renders
-    const unsubscribeUser = eventBus.subscribeToUser(user.id, (payload) => {
-      const event = payload as { type: string };
-      if (
-        options.eventTypes.some((t) =>
-          event.type.startsWith(t.replace("*", "")),
-        )
-      ) {
-        if (options.successRedirect) {
-          writer
-            .write(
-              encoder.encode(redirectFragmentEvent(options.successRedirect)),
-            )
-            .catch(() => {});
-          return;
+    const unsubscribeUser = eventBus.subscribeToUser(
+      user.id,
+      (payload, eventId) => {
+        const event = payload as { type: string };
+        if (matchesEventTypes(event)) {
+          if (options.successRedirect) {
+            sendRedirect(options.successRedirect, eventId);
+            return;
+          }
+          renders.request(eventId);
         }
-        sendState();
-      }
-    });
+      },
+    );
+
+    // Subscribes to the household's events so shared data re-renders for
+    // everyone in it. Only the member who made the change is redirected on success.
+    const householdId = user.householdId;
+    const unsubscribeHousehold = householdId
+      ? eventBus.subscribeToHousehold(householdId, (payload, eventId) => {
+          const event = payload as HouseholdEvent;
+          if (!matchesEventTypes(event)) return;
+          if (options.successRedirect) {
+            if (redirectsOn(`household:${householdId}`, event)) {
+              sendRedirect(options.successRedirect, eventId);
+            }
+            return;
+          }
+          renders.request(eventId);
+        })
+      : () => {};
+
+    // A device signed out elsewhere stops getting updates straight away
+    const unsubscribeSession = redirectOnSignOut(c, events, renders.cancel);
+
+    // Switching household in another tab leaves this page showing the old one
+    const unsubscribeSwitch = redirectOnHouseholdSwitch(
+      user,
+      events,
+      renders.cancel,
+    );
 
     // Cleans up on close
     c.req.raw.signal.addEventListener("abort", () => {
       unsubscribeUser();
-      writer.close();
+      unsubscribeHousehold();
+      unsubscribeSession();
+      unsubscribeSwitch();
+      renders.cancel();
+      events.close();
     });
 
-    return new Response(readable, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    });
+    return events.response;
   };
 };
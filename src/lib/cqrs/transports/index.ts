@@ -0,0 +1,13 @@
+import { env } from "../../../env.ts";
+import { createMemoryTransport } from "./memory-transport.ts";
+import { createSqliteTransport } from "./sqlite-transport.ts";
+import type { EventTransport } from "./types.ts";
+
+// Creates the transport configured by EVENT_TRANSPORT
+export const createEventTransport = (): EventTransport =>
+  env.EVENT_TRANSPORT === "sqlite"
+    ? createSqliteTransport()
+    : createMemoryTransport();
+
+export { createMemoryTransport, createSqliteTransport };
+export type { EventTransport };
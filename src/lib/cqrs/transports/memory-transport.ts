@@ -0,0 +1,19 @@
+import type { EventTransport } from "./types.ts";
+
+// Delivers events within this process only. The default, for a single server.
+// Events are numbered from 1 each time the process starts.
+export const createMemoryTransport = (): EventTransport => {
+  let deliver:
+    | ((channel: string, payload: unknown, eventId: number) => void)
+    | null = null;
+  let lastEventId = 0;
+
+  return {
+    publish: (channel, payload) => deliver?.(channel, payload, ++lastEventId),
+    onMessage: (listener) => {
+      deliver = listener;
+    },
+    start: async () => 0,
+    stop: () => {},
+  };
+};
@@ -0,0 +1,118 @@
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { setupTestDatabase } from "../../../test/db.ts";
+import { client } from "../../db.ts";
+import { eventBus } from "../event-bus.ts";
+import { createSqliteTransport } from "./sqlite-transport.ts";
+import type { EventTransport } from "./types.ts";
+
+type Delivered = { channel: string; payload: unknown; eventId: number };
+
+// Waits for something a poll delivers
+const waitFor = async (
+  check: () => boolean | Promise<boolean>,
+): Promise<void> => {
+  const deadline = performance.now() + 2000;
+  while (!(await check())) {
+    if (performance.now() > deadline) throw new Error("Nothing delivered");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+// The ID event_outbox gave the newest event on a channel
+const outboxId = async (channel: string): Promise<number | null> => {
+  const result = await client.execute({
+    sql: "SELECT MAX(id) AS id FROM event_outbox WHERE channel = ?",
+    args: [channel],
+  });
+  return result.rows[0].id as number | null;
+};
+
+beforeAll(setupTestDatabase);
+
+describe("createSqliteTransport", () => {
+  const started: EventTransport[] = [];
+
+  // Starts a transport as one process would, recording what it delivers
+  const startProcess = async () => {
+    const transport = createSqliteTransport();
+    const delivered: Delivered[] = [];
+    transport.onMessage((channel, payload, eventId) =>
+      delivered.push({ channel, payload, eventId }),
+    );
+    const startedAfter = await transport.start();
+    started.push(transport);
+    return { transport, delivered, startedAfter };
+  };
+
+  afterEach(() => {
+    started.splice(0).forEach((transport) => transport.stop());
+  });
+
+  it("delivers an event to every process under its outbox row ID", async () => {
+    const a = await startProcess();
+    const b = await startProcess();
+
+    a.transport.publish("user:1", { type: "saved" });
+    await waitFor(() => a.delivered.length === 1 && b.delivered.length === 1);
+
+    const eventId = await outboxId("user:1");
+    expect(a.delivered).toEqual([
+      { channel: "user:1", payload: { type: "saved" }, eventId },
+    ]);
+    expect(b.delivered).toEqual(a.delivered);
+  });
+
+  it("delivers every process's events in ID order, its own included", async () => {
+    const a = await startProcess();
+    const b = await startProcess();
+
+    a.transport.publish("user:2", { type: "first" });
+    b.transport.publish("user:2", { type: "second" });
+    a.transport.publish("user:2", { type: "third" });
+    await waitFor(() => a.delivered.length === 3 && b.delivered.length === 3);
+
+    const ids = a.delivered.map((event) => event.eventId);
+    expect(ids).toEqual([...ids].sort((x, y) => x - y));
+    expect(b.delivered).toEqual(a.delivered);
+  });
+
+  it("starts after the newest event, without delivering older ones", async () => {
+    const a = await startProcess();
+    a.transport.publish("user:3", { type: "before" });
+    await waitFor(() => a.delivered.length === 1);
+
+    const b = await startProcess();
+
+    expect(b.startedAfter).toBe(await outboxId("user:3"));
+    a.transport.publish("user:3", { type: "after" });
+    await waitFor(() => b.delivered.length === 1);
+    expect(b.delivered[0].payload).toEqual({ type: "after" });
+  });
+});
+
+describe("eventBus with the SQLite transport", () => {
+  afterEach(() => {
+    eventBus.stop();
+  });
+
+  it("replays events for a stream that was open on another process", async () => {
+    const other = createSqliteTransport();
+    await other.start();
+    other.publish("user:4", { type: "seen" });
+    await waitFor(async () => (await outboxId("user:4")) !== null);
+    const seen = (await outboxId("user:4"))!;
+
+    eventBus.useTransport(createSqliteTransport());
+    await eventBus.start();
+    other.publish("user:4", { type: "missed" });
+    await waitFor(() => eventBus.getLastEventId() > seen);
+    other.stop();
+
+    const missed = eventBus.getMissedEvents("4", null, seen);
+    expect(missed?.map((event) => event.payload)).toEqual([{ type: "missed" }]);
+    expect(missed?.[0].id).toBe(await outboxId("user:4"));
+
+    // This process wasn't running when the stream saw anything earlier
+    expect(eventBus.getMissedEvents("4", null, seen - 1)).toBeNull();
+  });
+});
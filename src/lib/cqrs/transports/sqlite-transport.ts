@@ -0,0 +1,110 @@
+import { generateSecureRandomString } from "../../auth/crypto.ts";
+import { client } from "../../db.ts";
+import type { EventTransport } from "./types.ts";
+
+// How often other processes' events are picked up
+const POLL_INTERVAL_MS = 250;
+
+// Events are kept this long, well past any process's next poll
+const RETENTION_S = 60;
+
+// Most events delivered per poll; the rest follow on the next one
+const POLL_BATCH_SIZE = 500;
+
+// Shares events between processes using the same database, e.g. the web
+// server and Sidequest workers. Every event is written to event_outbox, and
+// each process delivers the rows in order, its own included, using the row ID
+// as the event ID. A browser that reconnects to a different process can then
+// say which events it has seen.
+export const createSqliteTransport = (): EventTransport => {
+  const origin = generateSecureRandomString();
+  let deliver:
+    | ((channel: string, payload: unknown, eventId: number) => void)
+    | null = null;
+  let lastSeenId = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+  let pollAgain = false;
+  let lastPrunedAt = 0;
+
+  // Delivers events written since the last poll. Nothing is delivered before
+  // start(). A poll asked for while one is running follows straight after it,
+  // so events are never skipped or delivered out of order.
+  const poll = async () => {
+    if (!timer) return;
+    if (polling) {
+      pollAgain = true;
+      return;
+    }
+    polling = true;
+    pollAgain = false;
+    try {
+      const result = await client.execute({
+        sql: `SELECT id, channel, payload FROM event_outbox
+              WHERE id > ? ORDER BY id LIMIT ?`,
+        args: [lastSeenId, POLL_BATCH_SIZE],
+      });
+      for (const row of result.rows) {
+        lastSeenId = row.id as number;
+        deliver?.(
+          row.channel as string,
+          JSON.parse(row.payload as string),
+          lastSeenId,
+        );
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (now - lastPrunedAt >= RETENTION_S) {
+        lastPrunedAt = now;
+        await client.execute({
+          sql: "DELETE FROM event_outbox WHERE created_at < ?",
+          args: [now - RETENTION_S],
+        });
+      }
+    } catch (error) {
+      console.error("Event outbox poll failed:", error);
+    } finally {
+      polling = false;
+      if (pollAgain) void poll();
+    }
+  };
+
+  return {
+    // Events reach this process's own subscribers on the poll straight after
+    // they're written
+    publish: (channel, payload) => {
+      client
+        .execute({
+          sql: `INSERT INTO event_outbox (channel, payload, origin, created_at)
+                VALUES (?, ?, ?, ?)`,
+          args: [
+            channel,
+            JSON.stringify(payload ?? null),
+            origin,
+            Math.floor(Date.now() / 1000),
+          ],
+        })
+        .then(() => poll())
+        .catch((error) => {
+          console.error("Failed to write event to outbox:", error);
+        });
+    },
+    onMessage: (listener) => {
+      deliver = listener;
+    },
+    // Starts from the newest row, so events from before startup aren't replayed
+    start: async () => {
+      if (timer) return lastSeenId;
+      const result = await client.execute(
+        "SELECT COALESCE(MAX(id), 0) AS id FROM event_outbox",
+      );
+      lastSeenId = result.rows[0].id as number;
+      timer = setInterval(poll, POLL_INTERVAL_MS);
+      return lastSeenId;
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+};
@@ -0,0 +1,16 @@
+// Carries events between publishers and the event bus. The transport gives
+// each event its ID and decides which processes see it; the bus buffers and
+// dispatches whatever the transport delivers.
+export type EventTransport = {
+  // Sends an event to every process, including this one
+  publish: (channel: string, payload: unknown) => void;
+  // Sets the listener that receives events from every process. Events arrive
+  // in ID order, and an event has the same ID in every process that sees it.
+  onMessage: (
+    listener: (channel: string, payload: unknown, eventId: number) => void,
+  ) => void;
+  // Starts receiving events from other processes. Resolves to the ID of the
+  // last event published before then, which this process never saw.
+  start: () => Promise<number>;
+  stop: () => void;
+};
@@ -13,13 +13,24 @@ export const isDatastarSSERequest = (req: HonoRequest) => {
 
 // Creates a patch element SSE event
 export const patchElementEvent = (
-  html: HtmlEscapedString | Promise<HtmlEscapedString>,
+  html: string | HtmlEscapedString | Promise<HtmlEscapedString>,
 ): string => {
   const htmlString = typeof html === "string" ? html : html.toString();
   const lines = htmlString.split("\n").map((line) => `data: elements ${line}`);
   return `event: datastar-patch-elements\n${lines.join("\n")}\n\n`;
 };
 
+// Tags an SSE event with an ID, which the client sends back as Last-Event-ID
+// when it reconnects
+export const withEventId = (event: string, id: number): string => {
+  return `id: ${id}\n${event}`;
+};
+
+// Creates an SSE comment, used as a keep-alive that clients ignore
+export const heartbeatEvent = (): string => {
+  return ": ping\n\n";
+};
+
 // Creates a redirect SSE event
 export const redirectFragmentEvent = (url: string): string => {
   return executeScriptEvent(`window.location.href = "${url}"`);
@@ -27,7 +38,12 @@ export const redirectFragmentEvent = (url: string): string => {
 
 // Creates a signal update SSE event
 export const setSignalEvent = (key: string, value: unknown): string => {
-  return `event: datastar-patch-signals\ndata: signals ${JSON.stringify({ [key]: value })}\n\n`;
+  return patchSignalsEvent({ [key]: value });
+};
+
+// Creates a signal update SSE event for several signals at once
+export const patchSignalsEvent = (signals: Record<string, unknown>): string => {
+  return `event: datastar-patch-signals\ndata: signals ${JSON.stringify(signals)}\n\n`;
 };
 
 // Creates an execute script SSE event
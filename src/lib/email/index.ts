@@ -0,0 +1,43 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import nodemailer from "nodemailer";
+import { env } from "../../env.ts";
+import { generateSecureRandomString } from "../auth/crypto.ts";
+
+type Email = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Where messages are written when no SMTP server is configured
+const MAIL_DIR = env.MAIL_DIR ?? `${env.DATABASE_PATH ?? "./data/"}mail/`;
+
+// Sends through SMTP when SMTP_HOST is set (MailHog works locally), otherwise
+// builds the raw message so it can be written to MAIL_DIR
+const transport = env.SMTP_HOST
+  ? nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_PORT === 465,
+      auth: env.SMTP_USER
+        ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD }
+        : undefined,
+    })
+  : nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+// Sends an email, or saves it as an .eml file when SMTP isn't configured
+export const sendEmail = async (email: Email): Promise<void> => {
+  const info = await transport.sendMail({ from: env.MAIL_FROM, ...email });
+
+  if (!env.SMTP_HOST) {
+    await mkdir(MAIL_DIR, { recursive: true });
+    const file = join(
+      MAIL_DIR,
+      `${Date.now()}-${generateSecureRandomString()}.eml`,
+    );
+    await writeFile(file, info.message as Buffer);
+    console.log(`Email to ${email.to} saved to ${file}`);
+  }
+};
@@ -1,9 +1,12 @@
 import type { HealthNoteCategory } from "../../types/health-note.ts";
-import { defineCommand } from "../cqrs/index.ts";
+import { editorRoles } from "../auth/permissions.ts";
+import { CommandRejectedError, defineCommand } from "../cqrs/index.ts";
 import { createNotification } from "../notifications/index.ts";
 import {
   createHealthNote,
   deleteHealthNote,
+  purgeHealthNote,
+  restoreHealthNote,
   updateHealthNote,
 } from "./index.ts";
 
@@ -16,6 +19,8 @@ type CreateHealthNoteInput = {
 
 type UpdateHealthNoteInput = {
   id: string;
+  // updatedAt of the copy the edit was based on; stale writes are rejected
+  expectedUpdatedAt?: string;
   title?: string;
   content?: string;
   category?: HealthNoteCategory;
@@ -30,10 +35,13 @@ type DeleteHealthNoteInput = {
 export const createHealthNoteCommand = defineCommand({
   type: "healthNote.create",
   emits: "healthNote.created",
+  scope: "household",
+  roles: editorRoles("health"),
   handler: async (user, data: CreateHealthNoteInput) => {
-    const healthNote = await createHealthNote(data, user.id);
+    const healthNote = await createHealthNote(user.householdId!, data, user.id);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Health note added",
       message: `${data.title} has been recorded.`,
@@ -46,11 +54,19 @@ export const createHealthNoteCommand = defineCommand({
 export const updateHealthNoteCommand = defineCommand({
   type: "healthNote.update",
   emits: "healthNote.updated",
+  scope: "household",
+  roles: editorRoles("health"),
   handler: async (user, data: UpdateHealthNoteInput) => {
-    const { id, ...updateData } = data;
-    const healthNote = await updateHealthNote(id, updateData);
+    const { id, expectedUpdatedAt, ...updateData } = data;
+    const healthNote = await updateHealthNote(
+      id,
+      user.householdId!,
+      updateData,
+      expectedUpdatedAt,
+    );
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Health note updated",
       message: `${updateData.title || "Health note"} has been updated.`,
@@ -63,14 +79,59 @@ export const updateHealthNoteCommand = defineCommand({
 export const deleteHealthNoteCommand = defineCommand({
   type: "healthNote.delete",
   emits: "healthNote.deleted",
+  scope: "household",
+  roles: editorRoles("health"),
   handler: async (user, data: DeleteHealthNoteInput) => {
-    const success = await deleteHealthNote(data.id);
+    const success = await deleteHealthNote(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Health note deleted",
-      message: "The health note has been removed.",
+      message: "The health note has been moved to the trash.",
+      undoUrl: `/app/trash/healthNote/${data.id}/restore?household=${user.householdId}`,
     });
     return { success, id: data.id };
   },
 });
+
+// Restores a health note from the trash
+export const restoreHealthNoteCommand = defineCommand({
+  type: "healthNote.restore",
+  emits: "healthNote.restored",
+  scope: "household",
+  roles: editorRoles("health"),
+  handler: async (user, data: { id: string }) => {
+    const success = await restoreHealthNote(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That health note isn't in the trash any more",
+      );
+    }
+    await createNotification({
+      userId: user.id,
+      householdId: user.householdId,
+      type: "success",
+      title: "Health note restored",
+      message: "The health note has been restored from the trash.",
+    });
+    return { success, id: data.id };
+  },
+});
+
+// Permanently deletes a health note from the trash
+export const purgeHealthNoteCommand = defineCommand({
+  type: "healthNote.purge",
+  emits: "healthNote.purged",
+  scope: "household",
+  roles: editorRoles("health"),
+  handler: async (user, data: { id: string }) => {
+    const success = await purgeHealthNote(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That health note isn't in the trash any more",
+      );
+    }
+    return { success, id: data.id };
+  },
+});
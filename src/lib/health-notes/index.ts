@@ -3,10 +3,9 @@ import type {
   HealthNoteCategory,
 } from "../../types/health-note.ts";
 import { generateSecureRandomString } from "../auth/crypto.ts";
+import { ConflictError } from "../cqrs/errors.ts";
 import { client } from "../db.ts";
 
-export { initHealthNoteTables } from "./schema.ts";
-
 type CreateHealthNoteData = {
   title: string;
   content: string;
@@ -33,8 +32,9 @@ const rowToHealthNote = (row: Record<string, unknown>): HealthNote => ({
   updatedAt: row.updated_at as string,
 });
 
-// Creates a new health note
+// Creates a new health note in a household
 export const createHealthNote = async (
+  householdId: string,
   data: CreateHealthNoteData,
   userId: string,
 ): Promise<HealthNote> => {
@@ -42,10 +42,11 @@ export const createHealthNote = async (
   const now = new Date().toISOString();
 
   await client.execute({
-    sql: `INSERT INTO health_note (id, title, content, category, date, created_by, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    sql: `INSERT INTO health_note (id, household_id, title, content, category, date, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     args: [
       id,
+      householdId,
       data.title,
       data.content,
       data.category,
@@ -68,13 +69,16 @@ export const createHealthNote = async (
   };
 };
 
-// Gets a single health note by ID
-export const getHealthNote = async (id: string): Promise<HealthNote | null> => {
+// Gets a single health note by ID, if it belongs to the household
+export const getHealthNote = async (
+  id: string,
+  householdId: string,
+): Promise<HealthNote | null> => {
   const result = await client.execute({
     sql: `SELECT id, title, content, category, date, created_by, created_at, updated_at
           FROM health_note
-          WHERE id = ?`,
-    args: [id],
+          WHERE id = ? AND household_id = ? AND deleted_at IS NULL`,
+    args: [id, householdId],
   });
 
   if (result.rows.length === 0) {
@@ -84,35 +88,40 @@ export const getHealthNote = async (id: string): Promise<HealthNote | null> => {
   return rowToHealthNote(result.rows[0]);
 };
 
-// Gets all health notes sorted by date descending (most recent first)
-export const getAllHealthNotes = async (): Promise<HealthNote[]> => {
+// Gets a household's health notes sorted by date descending (most recent first)
+export const getAllHealthNotes = async (
+  householdId: string,
+): Promise<HealthNote[]> => {
   const result = await client.execute({
     sql: `SELECT id, title, content, category, date, created_by, created_at, updated_at
           FROM health_note
+          WHERE household_id = ? AND deleted_at IS NULL
           ORDER BY date DESC, created_at DESC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToHealthNote);
 };
 
-// Gets health notes by category
+// Gets a household's health notes by category
 export const getHealthNotesByCategory = async (
+  householdId: string,
   category: HealthNoteCategory,
 ): Promise<HealthNote[]> => {
   const result = await client.execute({
     sql: `SELECT id, title, content, category, date, created_by, created_at, updated_at
           FROM health_note
-          WHERE category = ?
+          WHERE household_id = ? AND category = ? AND deleted_at IS NULL
           ORDER BY date DESC, created_at DESC`,
-    args: [category],
+    args: [householdId, category],
   });
 
   return result.rows.map(rowToHealthNote);
 };
 
-// Searches health notes by title and content
+// Searches a household's health notes by title and content
 export const searchHealthNotes = async (
+  householdId: string,
   query: string,
 ): Promise<HealthNote[]> => {
   const searchTerm = `%${query}%`;
@@ -120,9 +129,9 @@ export const searchHealthNotes = async (
   const result = await client.execute({
     sql: `SELECT id, title, content, category, date, created_by, created_at, updated_at
           FROM health_note
-          WHERE title LIKE ? OR content LIKE ?
+          WHERE household_id = ? AND deleted_at IS NULL AND (title LIKE ? OR content LIKE ?)
           ORDER BY date DESC, created_at DESC`,
-    args: [searchTerm, searchTerm],
+    args: [householdId, searchTerm, searchTerm],
   });
 
   return result.rows.map(rowToHealthNote);
@@ -131,13 +140,20 @@ export const searchHealthNotes = async (
 // Updates a health note
 export const updateHealthNote = async (
   id: string,
+  householdId: string,
   data: UpdateHealthNoteData,
+  expectedUpdatedAt?: string,
 ): Promise<HealthNote | null> => {
-  const existing = await getHealthNote(id);
+  const existing = await getHealthNote(id, householdId);
   if (!existing) {
     return null;
   }
 
+  // Reject the write if someone else saved since the client loaded it
+  if (expectedUpdatedAt && existing.updatedAt !== expectedUpdatedAt) {
+    throw new ConflictError();
+  }
+
   const now = new Date().toISOString();
   const updated = {
     title: data.title ?? existing.title,
@@ -146,10 +162,10 @@ export const updateHealthNote = async (
     date: data.date ?? existing.date,
   };
 
-  await client.execute({
+  const result = await client.execute({
     sql: `UPDATE health_note
           SET title = ?, content = ?, category = ?, date = ?, updated_at = ?
-          WHERE id = ?`,
+          WHERE id = ? AND updated_at = ?`,
     args: [
       updated.title,
       updated.content,
@@ -157,9 +173,15 @@ export const updateHealthNote = async (
       updated.date,
       now,
       id,
+      existing.updatedAt,
     ],
   });
 
+  // Another write landed between the read above and this update
+  if (result.rowsAffected === 0) {
+    throw new ConflictError();
+  }
+
   return {
     ...existing,
     ...updated,
@@ -167,11 +189,40 @@ export const updateHealthNote = async (
   };
 };
 
-// Deletes a health note
-export const deleteHealthNote = async (id: string): Promise<boolean> => {
+// Moves a health note to the trash (soft delete)
+export const deleteHealthNote = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE health_note SET deleted_at = ? WHERE id = ? AND household_id = ? AND deleted_at IS NULL",
+    args: [new Date().toISOString(), id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Restores a health note from the trash
+export const restoreHealthNote = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE health_note SET deleted_at = NULL WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Permanently deletes a health note that is already in the trash
+export const purgeHealthNote = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
   const result = await client.execute({
-    sql: "DELETE FROM health_note WHERE id = ?",
-    args: [id],
+    sql: "DELETE FROM health_note WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
   });
 
   return result.rowsAffected > 0;
@@ -0,0 +1,17 @@
+import { CommandValidationError, defineCommand } from "../cqrs/index.ts";
+import { setCurrentHousehold } from "./index.ts";
+
+// Switches the household the app shows the user. Open pages follow along
+// when they see the household.switched event.
+export const switchHouseholdCommand = defineCommand({
+  type: "household.switch",
+  emits: "household.switched",
+  entityKey: (data: { userId: string; householdId: string }) =>
+    `user:${data.userId}`,
+  handler: async (user, data: { userId: string; householdId: string }) => {
+    if (!(await setCurrentHousehold(user.id, data.householdId))) {
+      throw new CommandValidationError("You're not a member of that household");
+    }
+    return { householdId: data.householdId };
+  },
+});
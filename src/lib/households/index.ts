@@ -0,0 +1,201 @@
+import type { Household, HouseholdMember } from "../../types/household.ts";
+import type { UserRole } from "../../types/user.ts";
+import { generateSecureRandomString } from "../auth/crypto.ts";
+import { client } from "../db.ts";
+
+// Converts a database row to a Household object
+const rowToHousehold = (row: Record<string, unknown>): Household => ({
+  id: row.id as string,
+  name: row.name as string,
+  createdAt: new Date((row.created_at as number) * 1000).toISOString(),
+  updatedAt: new Date((row.updated_at as number) * 1000).toISOString(),
+});
+
+// Creates a household with nobody in it yet
+export const createHousehold = async (name: string): Promise<Household> => {
+  const id = generateSecureRandomString();
+  const now = Math.floor(Date.now() / 1000);
+
+  await client.execute({
+    sql: "INSERT INTO household (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)",
+    args: [id, name, now, now],
+  });
+
+  return {
+    id,
+    name,
+    createdAt: new Date(now * 1000).toISOString(),
+    updatedAt: new Date(now * 1000).toISOString(),
+  };
+};
+
+// Renames a household. Returns whether it exists.
+export const renameHousehold = async (
+  id: string,
+  name: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE household SET name = ?, updated_at = ? WHERE id = ?",
+    args: [name, Math.floor(Date.now() / 1000), id],
+  });
+  return result.rowsAffected > 0;
+};
+
+// Gets a single household by ID
+export const getHousehold = async (id: string): Promise<Household | null> => {
+  const result = await client.execute({
+    sql: "SELECT id, name, created_at, updated_at FROM household WHERE id = ?",
+    args: [id],
+  });
+
+  return result.rows.length > 0 ? rowToHousehold(result.rows[0]) : null;
+};
+
+// Gets every household, by name
+export const getAllHouseholds = async (): Promise<Household[]> => {
+  const result = await client.execute(
+    "SELECT id, name, created_at, updated_at FROM household ORDER BY name COLLATE NOCASE",
+  );
+
+  return result.rows.map(rowToHousehold);
+};
+
+// Gets the households a user belongs to, by name
+export const getUserHouseholds = async (
+  userId: string,
+): Promise<Household[]> => {
+  const result = await client.execute({
+    sql: `SELECT h.id, h.name, h.created_at, h.updated_at
+          FROM household h
+          JOIN household_member m ON m.household_id = h.id
+          WHERE m.user_id = ?
+          ORDER BY h.name COLLATE NOCASE`,
+    args: [userId],
+  });
+
+  return result.rows.map(rowToHousehold);
+};
+
+// Checks whether a user belongs to a household
+export const isHouseholdMember = async (
+  householdId: string,
+  userId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "SELECT 1 FROM household_member WHERE household_id = ? AND user_id = ?",
+    args: [householdId, userId],
+  });
+  return result.rows.length > 0;
+};
+
+// Gets everyone in a household, by name
+export const getHouseholdMembers = async (
+  householdId: string,
+): Promise<HouseholdMember[]> => {
+  const result = await client.execute({
+    sql: `SELECT u.id, u.email, u.name, u.role, u.deactivated_at, m.created_at
+          FROM household_member m
+          JOIN user u ON m.user_id = u.id
+          WHERE m.household_id = ?
+          ORDER BY COALESCE(u.name, u.email) COLLATE NOCASE`,
+    args: [householdId],
+  });
+
+  return result.rows.map((row) => ({
+    userId: row.id as string,
+    email: row.email as string,
+    name: row.name as string | null,
+    role: row.role as UserRole,
+    deactivated: row.deactivated_at !== null,
+    joinedAt: new Date((row.created_at as number) * 1000).toISOString(),
+  }));
+};
+
+// Adds a user to a household. It becomes their current household if they
+// didn't have one. Returns whether they weren't a member already.
+export const addHouseholdMember = async (
+  householdId: string,
+  userId: string,
+): Promise<boolean> => {
+  const [inserted] = await client.batch(
+    [
+      {
+        sql: `INSERT INTO household_member (household_id, user_id, created_at) VALUES (?, ?, ?)
+              ON CONFLICT DO NOTHING`,
+        args: [householdId, userId, Math.floor(Date.now() / 1000)],
+      },
+      {
+        sql: "UPDATE user SET current_household_id = ? WHERE id = ? AND current_household_id IS NULL",
+        args: [householdId, userId],
+      },
+    ],
+    "write",
+  );
+  return inserted.rowsAffected > 0;
+};
+
+// Adds a user to every household, e.g. the first admin
+export const addToAllHouseholds = async (userId: string): Promise<void> => {
+  await client.batch(
+    [
+      {
+        sql: `INSERT INTO household_member (household_id, user_id, created_at)
+              SELECT id, ?, ? FROM household WHERE true
+              ON CONFLICT DO NOTHING`,
+        args: [userId, Math.floor(Date.now() / 1000)],
+      },
+      {
+        sql: `UPDATE user SET current_household_id = (
+                SELECT household_id FROM household_member m
+                JOIN household h ON m.household_id = h.id
+                WHERE m.user_id = ?1 ORDER BY h.name COLLATE NOCASE LIMIT 1
+              )
+              WHERE id = ?1 AND current_household_id IS NULL`,
+        args: [userId],
+      },
+    ],
+    "write",
+  );
+};
+
+// Removes a user from a household. If it was their current household they
+// move to another of theirs, or to none. Returns whether they were a member.
+export const removeHouseholdMember = async (
+  householdId: string,
+  userId: string,
+): Promise<boolean> => {
+  const [deleted] = await client.batch(
+    [
+      {
+        sql: "DELETE FROM household_member WHERE household_id = ? AND user_id = ?",
+        args: [householdId, userId],
+      },
+      {
+        sql: `UPDATE user SET current_household_id = (
+                SELECT household_id FROM household_member m
+                JOIN household h ON m.household_id = h.id
+                WHERE m.user_id = ?2 ORDER BY h.name COLLATE NOCASE LIMIT 1
+              )
+              WHERE id = ?2 AND current_household_id = ?1`,
+        args: [householdId, userId],
+      },
+    ],
+    "write",
+  );
+  return deleted.rowsAffected > 0;
+};
+
+// Switches the household the app shows a user. Returns false if they
+// don't belong to it.
+export const setCurrentHousehold = async (
+  userId: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: `UPDATE user SET current_household_id = ?1
+          WHERE id = ?2
+            AND EXISTS (SELECT 1 FROM household_member WHERE household_id = ?1 AND user_id = ?2)`,
+    args: [householdId, userId],
+  });
+  return result.rowsAffected > 0;
+};
@@ -0,0 +1,188 @@
+import { createHash } from "crypto";
+import type { Migration, MigrationStatus } from "../../types/migration.ts";
+import { client } from "../db.ts";
+import { getLegacyUpgradeStatements } from "./legacy.ts";
+import { migrations } from "./versions/index.ts";
+
+export { migrations } from "./versions/index.ts";
+
+type AppliedMigration = {
+  name: string;
+  checksum: string;
+  appliedAt: number;
+};
+
+// A migration planned or applied by runMigrations
+export type MigrationRun = {
+  version: number;
+  name: string;
+  statements: string[];
+};
+
+// Thrown when applied migrations no longer match the code
+export class MigrationDriftError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationDriftError";
+  }
+}
+
+// Hashes a migration's statements so later edits can be detected
+export const getMigrationChecksum = (migration: Migration): string =>
+  createHash("sha256").update(migration.statements.join("\n;\n")).digest("hex");
+
+// Formats a version number for display (1 -> "0001")
+export const formatVersion = (version: number): string =>
+  String(version).padStart(4, "0");
+
+// Creates the table that records applied migrations
+const initMigrationTable = async () => {
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER NOT NULL PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    ) STRICT
+  `);
+};
+
+// Gets applied migrations keyed by version, without creating the table
+const getAppliedMigrations = async (): Promise<
+  Map<number, AppliedMigration>
+> => {
+  const table = await client.execute(
+    `SELECT name FROM sqlite_master WHERE type='table' AND name='schema_migrations'`,
+  );
+  if (table.rows.length === 0) {
+    return new Map();
+  }
+
+  const result = await client.execute(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version",
+  );
+
+  return new Map(
+    result.rows.map((row) => [
+      row.version as number,
+      {
+        name: row.name as string,
+        checksum: row.checksum as string,
+        appliedAt: row.applied_at as number,
+      },
+    ]),
+  );
+};
+
+// Gets the state of every known and applied migration, in version order
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  const applied = await getAppliedMigrations();
+
+  const known: MigrationStatus[] = migrations.map((migration) => {
+    const record = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !record
+        ? "pending"
+        : record.checksum === getMigrationChecksum(migration)
+          ? "applied"
+          : "modified",
+      appliedAt: record
+        ? new Date(record.appliedAt * 1000).toISOString()
+        : null,
+    };
+  });
+
+  const missing: MigrationStatus[] = [...applied]
+    .filter(([version]) => !migrations.some((m) => m.version === version))
+    .map(([version, record]) => ({
+      version,
+      name: record.name,
+      state: "missing",
+      appliedAt: new Date(record.appliedAt * 1000).toISOString(),
+    }));
+
+  return [...known, ...missing].sort((a, b) => a.version - b.version);
+};
+
+// Throws if an applied migration was edited or removed since it ran
+const verifyMigrations = (status: MigrationStatus[]) => {
+  const drifted = status.filter(
+    (s) => s.state === "modified" || s.state === "missing",
+  );
+  if (drifted.length === 0) {
+    return;
+  }
+
+  const details = drifted
+    .map((s) => `${formatVersion(s.version)} ${s.name} (${s.state})`)
+    .join(", ");
+  throw new MigrationDriftError(
+    `Applied migrations do not match the code: ${details}`,
+  );
+};
+
+// Applies pending migrations in version order, each in its own transaction.
+// With dryRun, returns what would run without changing the database.
+export const runMigrations = async ({
+  dryRun = false,
+}: { dryRun?: boolean } = {}): Promise<MigrationRun[]> => {
+  const status = await getMigrationStatus();
+  verifyMigrations(status);
+
+  const pending = migrations.filter((migration) =>
+    status.some(
+      (s) => s.version === migration.version && s.state === "pending",
+    ),
+  );
+  if (pending.length === 0) {
+    return [];
+  }
+
+  if (!dryRun) {
+    await initMigrationTable();
+  }
+
+  const runs: MigrationRun[] = [];
+  for (const migration of pending) {
+    // Databases created before versioned migrations need catching up first
+    const statements =
+      migration.version === 1
+        ? [...(await getLegacyUpgradeStatements()), ...migration.statements]
+        : migration.statements;
+
+    runs.push({ version: migration.version, name: migration.name, statements });
+    if (dryRun) {
+      continue;
+    }
+
+    // Foreign keys are off so tables can be rebuilt without cascading deletes
+    await client.execute("PRAGMA foreign_keys = OFF");
+    try {
+      await client.batch(
+        [
+          ...statements,
+          {
+            sql: "INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)",
+            args: [
+              migration.version,
+              migration.name,
+              getMigrationChecksum(migration),
+              Math.floor(Date.now() / 1000),
+            ],
+          },
+        ],
+        "write",
+      );
+    } finally {
+      await client.execute("PRAGMA foreign_keys = ON");
+    }
+
+    console.log(
+      `Applied migration ${formatVersion(migration.version)} ${migration.name}`,
+    );
+  }
+
+  return runs;
+};
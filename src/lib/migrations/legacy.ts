@@ -0,0 +1,65 @@
+import { client } from "../db.ts";
+
+// Columns the old init functions added to existing tables with ALTER TABLE
+const LEGACY_COLUMNS: { table: string; column: string; definition: string }[] =
+  [
+    { table: "notification", column: "source_type", definition: "TEXT" },
+    { table: "notification", column: "source_id", definition: "TEXT" },
+    { table: "notification", column: "undo_url", definition: "TEXT" },
+    { table: "command", column: "connection_id", definition: "TEXT" },
+    ...[
+      "bill",
+      "contract",
+      "recurring_reminder",
+      "appointment",
+      "health_note",
+      "note",
+      "observation",
+    ].map((table) => ({ table, column: "deleted_at", definition: "TEXT" })),
+  ];
+
+// Gets the column names of a table (empty if the table does not exist)
+const getColumns = async (table: string): Promise<Set<string>> => {
+  const result = await client.execute(`PRAGMA table_info(${table})`);
+  return new Set(result.rows.map((row) => row.name as string));
+};
+
+// Gets the statements that bring a database created before versioned
+// migrations up to the baseline schema. Empty for new databases.
+export const getLegacyUpgradeStatements = async (): Promise<string[]> => {
+  const statements: string[] = [];
+
+  // password_hash used to be NOT NULL; SQLite can only change that by
+  // recreating the table
+  const userTable = await client.execute(
+    `SELECT sql FROM sqlite_master WHERE type='table' AND name='user'`,
+  );
+  const userSql = userTable.rows[0]?.sql as string | undefined;
+  if (userSql?.includes("password_hash TEXT NOT NULL")) {
+    statements.push(
+      `CREATE TABLE user_new (
+        id TEXT NOT NULL PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT,
+        password_hash TEXT,
+        role TEXT NOT NULL DEFAULT 'user',
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      ) STRICT`,
+      `INSERT INTO user_new SELECT * FROM user`,
+      `DROP TABLE user`,
+      `ALTER TABLE user_new RENAME TO user`,
+    );
+  }
+
+  for (const { table, column, definition } of LEGACY_COLUMNS) {
+    const columns = await getColumns(table);
+    if (columns.size > 0 && !columns.has(column)) {
+      statements.push(
+        `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+
+  return statements;
+};
@@ -0,0 +1,242 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Every table as it stood before versioned migrations. Statements use
+// IF NOT EXISTS so databases created by the old init functions adopt it cleanly.
+export const baseline: Migration = {
+  version: 1,
+  name: "baseline",
+  statements: [
+    // User table (password_hash is nullable for invite-based registration)
+    `CREATE TABLE IF NOT EXISTS user (
+      id TEXT NOT NULL PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      name TEXT,
+      password_hash TEXT,
+      role TEXT NOT NULL DEFAULT 'user',
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_user_email ON user(email)`,
+
+    // Session table - stores hashed secret for security
+    `CREATE TABLE IF NOT EXISTS session (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      secret_hash BLOB NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_session_user_id ON session(user_id)`,
+
+    // Registration token table - stores SHA-256 hashed tokens for invite-based registration
+    `CREATE TABLE IF NOT EXISTS registration_token (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      token_hash BLOB NOT NULL,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_registration_token_user_id ON registration_token(user_id)`,
+
+    // Notification table
+    `CREATE TABLE IF NOT EXISTS notification (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      title TEXT,
+      message TEXT NOT NULL,
+      action_url TEXT,
+      read INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      source_type TEXT,
+      source_id TEXT,
+      undo_url TEXT,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_notification_user_id ON notification(user_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_notification_unread ON notification(user_id, read) WHERE read = 0`,
+    `CREATE INDEX IF NOT EXISTS idx_notification_source ON notification(user_id, source_type, source_id, created_at)`,
+
+    // Bill and bill_payment tables (legacy, kept for migration)
+    `CREATE TABLE IF NOT EXISTS bill (
+      id TEXT NOT NULL PRIMARY KEY,
+      name TEXT NOT NULL,
+      amount REAL,
+      frequency TEXT NOT NULL,
+      due_date TEXT NOT NULL,
+      category TEXT NOT NULL,
+      notes TEXT,
+      reminder_days INTEGER NOT NULL DEFAULT 7,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      deleted_at TEXT,
+      FOREIGN KEY (created_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE TABLE IF NOT EXISTS bill_payment (
+      id TEXT NOT NULL PRIMARY KEY,
+      bill_id TEXT NOT NULL,
+      amount REAL NOT NULL,
+      paid_at TEXT NOT NULL,
+      paid_by TEXT NOT NULL,
+      notes TEXT,
+      FOREIGN KEY (bill_id) REFERENCES bill(id) ON DELETE CASCADE,
+      FOREIGN KEY (paid_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_bill_due_date ON bill(due_date)`,
+    `CREATE INDEX IF NOT EXISTS idx_bill_payment_bill_id ON bill_payment(bill_id)`,
+
+    // Contract table
+    `CREATE TABLE IF NOT EXISTS contract (
+      id TEXT NOT NULL PRIMARY KEY,
+      name TEXT NOT NULL,
+      provider TEXT,
+      monthly_amount REAL NOT NULL,
+      payment_method TEXT NOT NULL DEFAULT 'direct_debit',
+      contract_start_date TEXT,
+      contract_end_date TEXT,
+      category TEXT NOT NULL,
+      is_usage_based INTEGER NOT NULL DEFAULT 0,
+      notes TEXT,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      deleted_at TEXT,
+      FOREIGN KEY (created_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_contract_end_date ON contract(contract_end_date)`,
+    `CREATE INDEX IF NOT EXISTS idx_contract_category ON contract(category)`,
+
+    // Recurring reminder table
+    `CREATE TABLE IF NOT EXISTS recurring_reminder (
+      id TEXT NOT NULL PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      frequency TEXT NOT NULL,
+      next_due TEXT NOT NULL,
+      linked_entity_type TEXT,
+      linked_entity_id TEXT,
+      is_active INTEGER NOT NULL DEFAULT 1,
+      last_triggered TEXT,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      deleted_at TEXT,
+      FOREIGN KEY (created_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_reminder_next_due ON recurring_reminder(next_due)`,
+    `CREATE INDEX IF NOT EXISTS idx_reminder_linked_entity ON recurring_reminder(linked_entity_type, linked_entity_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_reminder_active ON recurring_reminder(is_active)`,
+
+    // Appointment table
+    `CREATE TABLE IF NOT EXISTS appointment (
+      id TEXT NOT NULL PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      datetime TEXT NOT NULL,
+      end_time TEXT,
+      location TEXT,
+      type TEXT NOT NULL,
+      reminder_days INTEGER NOT NULL DEFAULT 1,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      deleted_at TEXT,
+      FOREIGN KEY (created_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_appointment_datetime ON appointment(datetime)`,
+    `CREATE INDEX IF NOT EXISTS idx_appointment_type ON appointment(type)`,
+
+    // Health note table
+    `CREATE TABLE IF NOT EXISTS health_note (
+      id TEXT NOT NULL PRIMARY KEY,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      category TEXT NOT NULL,
+      date TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      deleted_at TEXT,
+      FOREIGN KEY (created_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_health_note_date ON health_note(date)`,
+    `CREATE INDEX IF NOT EXISTS idx_health_note_category ON health_note(category)`,
+
+    // Note table
+    `CREATE TABLE IF NOT EXISTS note (
+      id TEXT NOT NULL PRIMARY KEY,
+      content TEXT NOT NULL,
+      resolved INTEGER NOT NULL DEFAULT 0,
+      resolved_at TEXT,
+      resolved_by TEXT,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      deleted_at TEXT,
+      FOREIGN KEY (resolved_by) REFERENCES user(id) ON DELETE SET NULL,
+      FOREIGN KEY (created_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_note_resolved ON note(resolved)`,
+    `CREATE INDEX IF NOT EXISTS idx_note_created_at ON note(created_at)`,
+
+    // Observation table
+    `CREATE TABLE IF NOT EXISTS observation (
+      id TEXT NOT NULL PRIMARY KEY,
+      content TEXT NOT NULL,
+      category TEXT NOT NULL,
+      observed_at TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      deleted_at TEXT,
+      FOREIGN KEY (created_by) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_observation_observed_at ON observation(observed_at)`,
+    `CREATE INDEX IF NOT EXISTS idx_observation_category ON observation(category)`,
+
+    // Durable command queue table
+    `CREATE TABLE IF NOT EXISTS command (
+      id TEXT NOT NULL PRIMARY KEY,
+      type TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      connection_id TEXT,
+      data TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      run_after INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_command_status_run_after ON command(status, run_after)`,
+
+    // Append-only audit log. user_id has no foreign key so history outlives
+    // the account that made it.
+    `CREATE TABLE IF NOT EXISTS audit_log (
+      id TEXT NOT NULL PRIMARY KEY,
+      command_id TEXT,
+      command_type TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT,
+      payload TEXT NOT NULL,
+      result TEXT,
+      duration_ms INTEGER NOT NULL,
+      success INTEGER NOT NULL,
+      error TEXT,
+      created_at INTEGER NOT NULL
+    ) STRICT`,
+    `CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at)`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON audit_log(user_id, created_at)`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at)`,
+  ],
+};
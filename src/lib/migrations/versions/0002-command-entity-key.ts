@@ -0,0 +1,12 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Commands record the entity they touch so the dispatcher can run commands for
+// different entities concurrently while keeping each entity's commands in order
+export const commandEntityKey: Migration = {
+  version: 2,
+  name: "command_entity_key",
+  statements: [
+    `ALTER TABLE command ADD COLUMN entity_key TEXT`,
+    `CREATE INDEX IF NOT EXISTS idx_command_entity_key ON command(entity_key, status)`,
+  ],
+};
@@ -0,0 +1,12 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Form submits carry an idempotency key so a double tap enqueues one command.
+// The unique index catches two submits racing each other.
+export const commandIdempotencyKey: Migration = {
+  version: 3,
+  name: "command_idempotency_key",
+  statements: [
+    `ALTER TABLE command ADD COLUMN idempotency_key TEXT`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS idx_command_idempotency_key ON command(user_id, idempotency_key) WHERE idempotency_key IS NOT NULL`,
+  ],
+};
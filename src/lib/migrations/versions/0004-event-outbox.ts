@@ -0,0 +1,18 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Events written by one process for the others to pick up when the event bus
+// uses the SQLite transport. Rows only live long enough to be polled.
+export const eventOutbox: Migration = {
+  version: 4,
+  name: "event_outbox",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS event_outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      channel TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      origin TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_event_outbox_created_at ON event_outbox(created_at)`,
+  ],
+};
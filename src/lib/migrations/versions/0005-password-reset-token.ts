@@ -0,0 +1,18 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// One-time tokens emailed to users who forgot their password, stored hashed
+// like registration tokens
+export const passwordResetToken: Migration = {
+  version: 5,
+  name: "password_reset_token",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS password_reset_token (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      token_hash BLOB NOT NULL,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_password_reset_token_user_id ON password_reset_token(user_id)`,
+  ],
+};
@@ -0,0 +1,34 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// TOTP two-factor authentication. totp_secret is set when enrolment starts and
+// totp_enabled_at once the user has confirmed a code. totp_last_step stops a
+// code being used twice. Admins can require enrolment with totp_required.
+// A login challenge holds the half-finished login between the password and
+// code steps.
+export const twoFactor: Migration = {
+  version: 6,
+  name: "two_factor",
+  statements: [
+    `ALTER TABLE user ADD COLUMN totp_secret TEXT`,
+    `ALTER TABLE user ADD COLUMN totp_enabled_at INTEGER`,
+    `ALTER TABLE user ADD COLUMN totp_last_step INTEGER`,
+    `ALTER TABLE user ADD COLUMN totp_required INTEGER NOT NULL DEFAULT 0`,
+    `CREATE TABLE IF NOT EXISTS recovery_code (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      code_hash BLOB NOT NULL,
+      used_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_recovery_code_user_id ON recovery_code(user_id)`,
+    `CREATE TABLE IF NOT EXISTS login_challenge (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      token_hash BLOB NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_login_challenge_user_id ON login_challenge(user_id)`,
+  ],
+};
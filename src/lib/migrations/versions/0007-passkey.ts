@@ -0,0 +1,32 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// WebAuthn passkeys, which can stand in for a password. id is the credential
+// ID the authenticator assigned (base64url). A WebAuthn challenge holds the
+// random challenge between handing out options and checking the response;
+// user_id is set when registering a passkey for a known user.
+export const passkey: Migration = {
+  version: 7,
+  name: "passkey",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS passkey (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      public_key BLOB NOT NULL,
+      counter INTEGER NOT NULL DEFAULT 0,
+      transports TEXT,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_passkey_user_id ON passkey(user_id)`,
+    `CREATE TABLE IF NOT EXISTS webauthn_challenge (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT,
+      token_hash BLOB NOT NULL,
+      challenge TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+  ],
+};
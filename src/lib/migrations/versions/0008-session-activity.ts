@@ -0,0 +1,13 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Details shown on the active sessions page: when a session was last used and
+// the browser that created it. Existing sessions count as active since login.
+export const sessionActivity: Migration = {
+  version: 8,
+  name: "session_activity",
+  statements: [
+    `ALTER TABLE session ADD COLUMN last_active_at INTEGER`,
+    `ALTER TABLE session ADD COLUMN user_agent TEXT`,
+    `UPDATE session SET last_active_at = created_at`,
+  ],
+};
@@ -0,0 +1,19 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// One-time tokens emailed to a new address to confirm an email change. The
+// user row keeps the old address until the link is used.
+export const emailChangeToken: Migration = {
+  version: 9,
+  name: "email_change_token",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS email_change_token (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      new_email TEXT NOT NULL,
+      token_hash BLOB NOT NULL,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_email_change_token_user_id ON email_change_token(user_id)`,
+  ],
+};
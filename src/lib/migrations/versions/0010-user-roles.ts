@@ -0,0 +1,10 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Splits the old "user" role into family, carer and viewer. Existing
+// non-admin accounts keep full access as family members. The column default
+// can't change without rebuilding the table, so createUser always sets a role.
+export const userRoles: Migration = {
+  version: 10,
+  name: "user_roles",
+  statements: [`UPDATE user SET role = 'family' WHERE role = 'user'`],
+};
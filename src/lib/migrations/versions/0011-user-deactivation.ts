@@ -0,0 +1,9 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// When an admin deactivated an account. Deactivated users keep their data
+// but can't sign in, and their sessions stop working.
+export const userDeactivation: Migration = {
+  version: 11,
+  name: "user_deactivation",
+  statements: [`ALTER TABLE user ADD COLUMN deactivated_at INTEGER`],
+};
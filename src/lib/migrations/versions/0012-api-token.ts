@@ -0,0 +1,22 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Personal API tokens for scripts and other non-browser clients. Like
+// sessions, only a hash of the secret is stored.
+export const apiToken: Migration = {
+  version: 12,
+  name: "api_token",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS api_token (
+      id TEXT NOT NULL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      secret_hash BLOB NOT NULL,
+      scopes TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_api_token_user_id ON api_token(user_id)`,
+  ],
+};
@@ -0,0 +1,12 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Records when an invite was made and whether it was emailed, so admins can
+// see which invites are outstanding
+export const inviteEmail: Migration = {
+  version: 13,
+  name: "invite_email",
+  statements: [
+    `ALTER TABLE registration_token ADD COLUMN created_at INTEGER`,
+    `ALTER TABLE registration_token ADD COLUMN emailed_at INTEGER`,
+  ],
+};
@@ -0,0 +1,37 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Rate limit counters and failed sign-ins, kept in the database so they
+// survive restarts and are shared by every process
+export const loginThrottling: Migration = {
+  version: 14,
+  name: "login_throttling",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS rate_limit (
+      key TEXT NOT NULL PRIMARY KEY,
+      count INTEGER NOT NULL,
+      reset_at INTEGER NOT NULL
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_rate_limit_reset_at ON rate_limit(reset_at)`,
+
+    // Every failed sign-in, for the admin view
+    `CREATE TABLE IF NOT EXISTS login_failure (
+      id TEXT NOT NULL PRIMARY KEY,
+      email TEXT NOT NULL,
+      user_id TEXT,
+      ip TEXT NOT NULL,
+      user_agent TEXT,
+      reason TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE SET NULL
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_login_failure_created_at ON login_failure(created_at)`,
+
+    // Failures in a row per email address, and how long it's locked for
+    `CREATE TABLE IF NOT EXISTS login_lockout (
+      email TEXT NOT NULL PRIMARY KEY,
+      failures INTEGER NOT NULL,
+      last_failed_at INTEGER NOT NULL,
+      locked_until INTEGER
+    ) STRICT`,
+  ],
+};
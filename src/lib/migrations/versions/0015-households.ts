@@ -0,0 +1,59 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Tables that hold records belonging to one household
+const HOUSEHOLD_TABLES = [
+  "contract",
+  "bill",
+  "recurring_reminder",
+  "appointment",
+  "health_note",
+  "note",
+  "observation",
+];
+
+// Households (one per person being cared for) and who can see each one.
+// Everything that existed before belongs to a first household that every
+// user joins. A user's current household is the one the app shows them.
+export const households: Migration = {
+  version: 15,
+  name: "households",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS household (
+      id TEXT NOT NULL PRIMARY KEY,
+      name TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    ) STRICT`,
+    `CREATE TABLE IF NOT EXISTS household_member (
+      household_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (household_id, user_id),
+      FOREIGN KEY (household_id) REFERENCES household(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_household_member_user_id ON household_member(user_id)`,
+
+    `INSERT INTO household (id, name, created_at, updated_at)
+      VALUES ('default', 'Mum', unixepoch(), unixepoch())`,
+    `INSERT INTO household_member (household_id, user_id, created_at)
+      SELECT 'default', id, unixepoch() FROM user`,
+    `ALTER TABLE user ADD COLUMN current_household_id TEXT REFERENCES household(id) ON DELETE SET NULL`,
+    `UPDATE user SET current_household_id = 'default'`,
+
+    ...HOUSEHOLD_TABLES.flatMap((table) => [
+      `ALTER TABLE ${table} ADD COLUMN household_id TEXT REFERENCES household(id) ON DELETE CASCADE`,
+      `UPDATE ${table} SET household_id = 'default'`,
+      `CREATE INDEX IF NOT EXISTS idx_${table}_household_id ON ${table}(household_id)`,
+    ]),
+
+    // Notifications about a household's records belong to it. The rest
+    // (account and security messages) are shown whichever one is open.
+    `ALTER TABLE notification ADD COLUMN household_id TEXT REFERENCES household(id) ON DELETE CASCADE`,
+    `UPDATE notification SET household_id = 'default' WHERE source_type IS NOT NULL`,
+
+    // The household a queued command acts on, fixed when it was submitted
+    `ALTER TABLE command ADD COLUMN household_id TEXT`,
+    `UPDATE command SET household_id = 'default' WHERE status IN ('pending', 'running')`,
+  ],
+};
@@ -0,0 +1,37 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Which form streams are open and what their forms are showing, kept in the
+// database so a command processed by one process can reach a form whose
+// stream is held by another
+export const formState: Migration = {
+  version: 16,
+  name: "form_state",
+  statements: [
+    // Open form streams, refreshed on every heartbeat
+    `CREATE TABLE IF NOT EXISTS form_connection (
+      id TEXT NOT NULL PRIMARY KEY,
+      stream_id TEXT NOT NULL,
+      last_seen_at INTEGER NOT NULL
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_form_connection_last_seen_at ON form_connection(last_seen_at)`,
+
+    // Validation errors and rejected stale writes per form connection
+    `CREATE TABLE IF NOT EXISTS form_state (
+      connection_id TEXT NOT NULL PRIMARY KEY,
+      errors TEXT,
+      conflict TEXT,
+      updated_at INTEGER NOT NULL
+    ) STRICT`,
+    `CREATE INDEX IF NOT EXISTS idx_form_state_updated_at ON form_state(updated_at)`,
+
+    // The last invite each admin created, until their page has shown it
+    `CREATE TABLE IF NOT EXISTS invite_result (
+      admin_user_id TEXT NOT NULL PRIMARY KEY,
+      user_name TEXT NOT NULL,
+      invite_url TEXT NOT NULL,
+      emailed_to TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (admin_user_id) REFERENCES user(id) ON DELETE CASCADE
+    ) STRICT`,
+  ],
+};
@@ -0,0 +1,16 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Processes sharing the command queue record which of them claimed each
+// command and heartbeat while they're alive, so a process starting up only
+// takes back commands whose process has stopped
+export const commandClaims: Migration = {
+  version: 17,
+  name: "command_claims",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS command_processor (
+      id TEXT NOT NULL PRIMARY KEY,
+      heartbeat_at INTEGER NOT NULL
+    ) STRICT`,
+    `ALTER TABLE command ADD COLUMN claimed_by TEXT`,
+  ],
+};
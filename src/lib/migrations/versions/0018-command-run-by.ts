@@ -0,0 +1,14 @@
+import type { Migration } from "../../../types/migration.ts";
+
+// Commands with transient fields (e.g. passwords, which are never stored) can
+// only run in the process that queued them, since no other process has them
+export const commandRunBy: Migration = {
+  version: 18,
+  name: "command_run_by",
+  statements: [
+    `ALTER TABLE command ADD COLUMN run_by TEXT`,
+    // Password changes used to store the new password's hash
+    `UPDATE command SET data = json_remove(data, '$.passwordHash')
+     WHERE type = 'account.changePassword'`,
+  ],
+};
@@ -0,0 +1,42 @@
+import type { Migration } from "../../../types/migration.ts";
+import { baseline } from "./0001-baseline.ts";
+import { commandEntityKey } from "./0002-command-entity-key.ts";
+import { commandIdempotencyKey } from "./0003-command-idempotency-key.ts";
+import { eventOutbox } from "./0004-event-outbox.ts";
+import { passwordResetToken } from "./0005-password-reset-token.ts";
+import { twoFactor } from "./0006-two-factor.ts";
+import { passkey } from "./0007-passkey.ts";
+import { sessionActivity } from "./0008-session-activity.ts";
+import { emailChangeToken } from "./0009-email-change-token.ts";
+import { userRoles } from "./0010-user-roles.ts";
+import { userDeactivation } from "./0011-user-deactivation.ts";
+import { apiToken } from "./0012-api-token.ts";
+import { inviteEmail } from "./0013-invite-email.ts";
+import { loginThrottling } from "./0014-login-throttling.ts";
+import { households } from "./0015-households.ts";
+import { formState } from "./0016-form-state.ts";
+import { commandClaims } from "./0017-command-claims.ts";
+import { commandRunBy } from "./0018-command-run-by.ts";
+
+// All migrations, in version order. Never edit or reorder an applied
+// migration: add a new one instead.
+export const migrations: Migration[] = [
+  baseline,
+  commandEntityKey,
+  commandIdempotencyKey,
+  eventOutbox,
+  passwordResetToken,
+  twoFactor,
+  passkey,
+  sessionActivity,
+  emailChangeToken,
+  userRoles,
+  userDeactivation,
+  apiToken,
+  inviteEmail,
+  loginThrottling,
+  households,
+  formState,
+  commandClaims,
+  commandRunBy,
+];
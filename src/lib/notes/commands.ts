@@ -1,6 +1,14 @@
-import { defineCommand } from "../cqrs/index.ts";
+import { editorRoles } from "../auth/permissions.ts";
+import { CommandRejectedError, defineCommand } from "../cqrs/index.ts";
 import { createNotification } from "../notifications/index.ts";
-import { createNote, deleteNote, resolveNote, unresolveNote } from "./index.ts";
+import {
+  createNote,
+  deleteNote,
+  purgeNote,
+  resolveNote,
+  restoreNote,
+  unresolveNote,
+} from "./index.ts";
 
 type CreateNoteInput = {
   content: string;
@@ -22,10 +30,13 @@ type DeleteNoteInput = {
 export const createNoteCommand = defineCommand({
   type: "note.create",
   emits: "note.created",
+  scope: "household",
+  roles: editorRoles("notes"),
   handler: async (user, data: CreateNoteInput) => {
-    const note = await createNote(data.content, user.id);
+    const note = await createNote(user.householdId!, data.content, user.id);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Note added",
       message: "A new note has been created.",
@@ -38,10 +49,13 @@ export const createNoteCommand = defineCommand({
 export const resolveNoteCommand = defineCommand({
   type: "note.resolve",
   emits: "note.resolved",
+  scope: "household",
+  roles: editorRoles("notes"),
   handler: async (user, data: ResolveNoteInput) => {
-    const note = await resolveNote(data.id, user.id);
+    const note = await resolveNote(data.id, user.householdId!, user.id);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Note resolved",
       message: "The note has been marked as resolved.",
@@ -54,10 +68,13 @@ export const resolveNoteCommand = defineCommand({
 export const unresolveNoteCommand = defineCommand({
   type: "note.unresolve",
   emits: "note.unresolved",
+  scope: "household",
+  roles: editorRoles("notes"),
   handler: async (user, data: UnresolveNoteInput) => {
-    const note = await unresolveNote(data.id);
+    const note = await unresolveNote(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Note reopened",
       message: "The note has been marked as unresolved.",
@@ -70,14 +87,55 @@ export const unresolveNoteCommand = defineCommand({
 export const deleteNoteCommand = defineCommand({
   type: "note.delete",
   emits: "note.deleted",
+  scope: "household",
+  roles: editorRoles("notes"),
   handler: async (user, data: DeleteNoteInput) => {
-    const success = await deleteNote(data.id);
+    const success = await deleteNote(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Note deleted",
-      message: "The note has been removed.",
+      message: "The note has been moved to the trash.",
+      undoUrl: `/app/trash/note/${data.id}/restore?household=${user.householdId}`,
     });
     return { success, id: data.id };
   },
 });
+
+// Restores a note from the trash
+export const restoreNoteCommand = defineCommand({
+  type: "note.restore",
+  emits: "note.restored",
+  scope: "household",
+  roles: editorRoles("notes"),
+  handler: async (user, data: { id: string }) => {
+    const success = await restoreNote(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError("That note isn't in the trash any more");
+    }
+    await createNotification({
+      userId: user.id,
+      householdId: user.householdId,
+      type: "success",
+      title: "Note restored",
+      message: "The note has been restored from the trash.",
+    });
+    return { success, id: data.id };
+  },
+});
+
+// Permanently deletes a note from the trash
+export const purgeNoteCommand = defineCommand({
+  type: "note.purge",
+  emits: "note.purged",
+  scope: "household",
+  roles: editorRoles("notes"),
+  handler: async (user, data: { id: string }) => {
+    const success = await purgeNote(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError("That note isn't in the trash any more");
+    }
+    return { success, id: data.id };
+  },
+});
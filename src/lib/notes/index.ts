@@ -2,8 +2,6 @@ import type { Note } from "../../types/note.ts";
 import { generateSecureRandomString } from "../auth/crypto.ts";
 import { client } from "../db.ts";
 
-export { initNoteTables } from "./schema.ts";
-
 // Converts a database row to a Note object
 const rowToNote = (row: Record<string, unknown>): Note => ({
   id: row.id as string,
@@ -15,8 +13,9 @@ const rowToNote = (row: Record<string, unknown>): Note => ({
   createdAt: row.created_at as string,
 });
 
-// Creates a new note
+// Creates a new note in a household
 export const createNote = async (
+  householdId: string,
   content: string,
   userId: string,
 ): Promise<Note> => {
@@ -24,9 +23,9 @@ export const createNote = async (
   const now = new Date().toISOString();
 
   await client.execute({
-    sql: `INSERT INTO note (id, content, resolved, created_by, created_at)
-          VALUES (?, ?, 0, ?, ?)`,
-    args: [id, content, userId, now],
+    sql: `INSERT INTO note (id, household_id, content, resolved, created_by, created_at)
+          VALUES (?, ?, ?, 0, ?, ?)`,
+    args: [id, householdId, content, userId, now],
   });
 
   return {
@@ -40,13 +39,16 @@ export const createNote = async (
   };
 };
 
-// Gets a single note by ID
-export const getNote = async (id: string): Promise<Note | null> => {
+// Gets a single note by ID, if it belongs to the household
+export const getNote = async (
+  id: string,
+  householdId: string,
+): Promise<Note | null> => {
   const result = await client.execute({
     sql: `SELECT id, content, resolved, resolved_at, resolved_by, created_by, created_at
           FROM note
-          WHERE id = ?`,
-    args: [id],
+          WHERE id = ? AND household_id = ? AND deleted_at IS NULL`,
+    args: [id, householdId],
   });
 
   if (result.rows.length === 0) {
@@ -56,45 +58,49 @@ export const getNote = async (id: string): Promise<Note | null> => {
   return rowToNote(result.rows[0]);
 };
 
-// Gets all notes sorted by createdAt descending (most recent first)
-export const getAllNotes = async (): Promise<Note[]> => {
+// Gets a household's notes sorted by createdAt descending (most recent first)
+export const getAllNotes = async (householdId: string): Promise<Note[]> => {
   const result = await client.execute({
     sql: `SELECT id, content, resolved, resolved_at, resolved_by, created_by, created_at
           FROM note
+          WHERE household_id = ? AND deleted_at IS NULL
           ORDER BY created_at DESC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToNote);
 };
 
-// Gets active (unresolved) notes sorted by createdAt descending
-export const getActiveNotes = async (): Promise<Note[]> => {
+// Gets a household's active (unresolved) notes sorted by createdAt descending
+export const getActiveNotes = async (householdId: string): Promise<Note[]> => {
   const result = await client.execute({
     sql: `SELECT id, content, resolved, resolved_at, resolved_by, created_by, created_at
           FROM note
-          WHERE resolved = 0
+          WHERE household_id = ? AND resolved = 0 AND deleted_at IS NULL
           ORDER BY created_at DESC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToNote);
 };
 
-// Gets resolved notes with optional limit
-export const getResolvedNotes = async (limit?: number): Promise<Note[]> => {
+// Gets a household's resolved notes with optional limit
+export const getResolvedNotes = async (
+  householdId: string,
+  limit?: number,
+): Promise<Note[]> => {
   const sql = limit
     ? `SELECT id, content, resolved, resolved_at, resolved_by, created_by, created_at
        FROM note
-       WHERE resolved = 1
+       WHERE household_id = ? AND resolved = 1 AND deleted_at IS NULL
        ORDER BY resolved_at DESC
        LIMIT ?`
     : `SELECT id, content, resolved, resolved_at, resolved_by, created_by, created_at
        FROM note
-       WHERE resolved = 1
+       WHERE household_id = ? AND resolved = 1 AND deleted_at IS NULL
        ORDER BY resolved_at DESC`;
 
-  const args = limit ? [limit] : [];
+  const args = limit ? [householdId, limit] : [householdId];
 
   const result = await client.execute({ sql, args });
 
@@ -104,9 +110,10 @@ export const getResolvedNotes = async (limit?: number): Promise<Note[]> => {
 // Marks a note as resolved
 export const resolveNote = async (
   id: string,
+  householdId: string,
   userId: string,
 ): Promise<Note | null> => {
-  const existing = await getNote(id);
+  const existing = await getNote(id, householdId);
   if (!existing) {
     return null;
   }
@@ -129,8 +136,11 @@ export const resolveNote = async (
 };
 
 // Marks a note as unresolved (undo resolve)
-export const unresolveNote = async (id: string): Promise<Note | null> => {
-  const existing = await getNote(id);
+export const unresolveNote = async (
+  id: string,
+  householdId: string,
+): Promise<Note | null> => {
+  const existing = await getNote(id, householdId);
   if (!existing) {
     return null;
   }
@@ -150,11 +160,40 @@ export const unresolveNote = async (id: string): Promise<Note | null> => {
   };
 };
 
-// Deletes a note
-export const deleteNote = async (id: string): Promise<boolean> => {
+// Moves a note to the trash (soft delete)
+export const deleteNote = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
   const result = await client.execute({
-    sql: "DELETE FROM note WHERE id = ?",
-    args: [id],
+    sql: "UPDATE note SET deleted_at = ? WHERE id = ? AND household_id = ? AND deleted_at IS NULL",
+    args: [new Date().toISOString(), id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Restores a note from the trash
+export const restoreNote = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE note SET deleted_at = NULL WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Permanently deletes a note that is already in the trash
+export const purgeNote = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "DELETE FROM note WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
   });
 
   return result.rowsAffected > 0;
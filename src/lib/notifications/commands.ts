@@ -6,22 +6,30 @@ import {
   markAsRead,
 } from "./index.ts";
 
+// Keeps each user's notification actions in order (e.g. mark read, then clear all)
+const inboxKey = (data: { userId: string }) => `notifications:${data.userId}`;
+
 // Marks a single notification as read
 export const markNotificationReadCommand = defineCommand({
   type: "notification.markRead",
   emits: "notification.updated",
+  entityKey: inboxKey,
   handler: async (_user, data: { notificationId: string; userId: string }) => {
     const success = await markAsRead(data.notificationId, data.userId);
     return { success, notificationId: data.notificationId };
   },
 });
 
-// Marks all notifications as read for a user
+// Marks all of a user's notifications for a household as read
 export const markAllNotificationsReadCommand = defineCommand({
   type: "notification.markAllRead",
   emits: "notification.updated",
-  handler: async (_user, data: { userId: string }) => {
-    const count = await markAllAsRead(data.userId);
+  entityKey: inboxKey,
+  handler: async (
+    _user,
+    data: { userId: string; householdId: string | null },
+  ) => {
+    const count = await markAllAsRead(data.userId, data.householdId);
     return { success: true, count };
   },
 });
@@ -30,18 +38,23 @@ export const markAllNotificationsReadCommand = defineCommand({
 export const dismissNotificationCommand = defineCommand({
   type: "notification.dismiss",
   emits: "notification.updated",
+  entityKey: inboxKey,
   handler: async (_user, data: { notificationId: string; userId: string }) => {
     const success = await dismissNotification(data.notificationId, data.userId);
     return { success, notificationId: data.notificationId };
   },
 });
 
-// Clears all notifications for a user
+// Clears all of a user's notifications for a household
 export const clearAllNotificationsCommand = defineCommand({
   type: "notification.clearAll",
   emits: "notification.updated",
-  handler: async (_user, data: { userId: string }) => {
-    const count = await clearAllNotifications(data.userId);
+  entityKey: inboxKey,
+  handler: async (
+    _user,
+    data: { userId: string; householdId: string | null },
+  ) => {
+    const count = await clearAllNotifications(data.userId, data.householdId);
     return { success: true, count };
   },
 });
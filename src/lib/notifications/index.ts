@@ -6,18 +6,30 @@ import type {
 import { generateSecureRandomString } from "../auth/crypto.ts";
 import { client } from "../db.ts";
 
-export { initNotificationTable } from "./schema.ts";
+// How long the Undo action is offered on a notification
+const UNDO_WINDOW_S = 5 * 60;
 
 type CreateNotificationData = {
   userId: string;
+  // The household it's about. Notifications without one show in every household.
+  householdId?: string | null;
   type: NotificationType;
   title?: string;
   message: string;
   actionUrl?: string;
   sourceType?: NotificationSourceType;
   sourceId?: string;
+  undoUrl?: string;
 };
 
+// Matches notifications shown while a household is open: its own, and those
+// that aren't about any household
+const IN_HOUSEHOLD = "(household_id IS NULL OR household_id = ?)";
+
+// Whether a notification created at the given time can still be undone
+const withinUndoWindow = (createdAt: number): boolean =>
+  createdAt > Math.floor(Date.now() / 1000) - UNDO_WINDOW_S;
+
 // Converts a database row to a Notification object
 const rowToNotification = (row: Record<string, unknown>): Notification => ({
   id: row.id as string,
@@ -30,6 +42,10 @@ const rowToNotification = (row: Record<string, unknown>): Notification => ({
   createdAt: new Date((row.created_at as number) * 1000).toISOString(),
   sourceType: row.source_type as NotificationSourceType | null,
   sourceId: row.source_id as string | null,
+  undoUrl:
+    row.undo_url && withinUndoWindow(row.created_at as number)
+      ? (row.undo_url as string)
+      : null,
 });
 
 // Creates a new notification for a user
@@ -40,11 +56,12 @@ export const createNotification = async (
   const now = Math.floor(Date.now() / 1000);
 
   await client.execute({
-    sql: `INSERT INTO notification (id, user_id, type, title, message, action_url, read, created_at, source_type, source_id)
-          VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?, ?)`,
+    sql: `INSERT INTO notification (id, user_id, household_id, type, title, message, action_url, read, created_at, source_type, source_id, undo_url)
+          VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)`,
     args: [
       id,
       data.userId,
+      data.householdId || null,
       data.type,
       data.title || null,
       data.message,
@@ -52,6 +69,7 @@ export const createNotification = async (
       now,
       data.sourceType || null,
       data.sourceId || null,
+      data.undoUrl || null,
     ],
   });
 
@@ -66,46 +84,52 @@ export const createNotification = async (
     createdAt: new Date(now * 1000).toISOString(),
     sourceType: data.sourceType || null,
     sourceId: data.sourceId || null,
+    undoUrl: data.undoUrl || null,
   };
 };
 
-// Gets unread notifications for a user
+// Gets a user's unread notifications for a household
 export const getUnreadNotifications = async (
   userId: string,
+  householdId: string | null,
 ): Promise<Notification[]> => {
   const result = await client.execute({
-    sql: `SELECT id, user_id, type, title, message, action_url, read, created_at, source_type, source_id
+    sql: `SELECT id, user_id, type, title, message, action_url, read, created_at, source_type, source_id, undo_url
           FROM notification
-          WHERE user_id = ? AND read = 0
+          WHERE user_id = ? AND ${IN_HOUSEHOLD} AND read = 0
           ORDER BY created_at DESC`,
-    args: [userId],
+    args: [userId, householdId],
   });
 
   return result.rows.map(rowToNotification);
 };
 
-// Gets recent notifications for a user with optional limit
+// Gets a user's recent notifications for a household with optional limit
 export const getNotifications = async (
   userId: string,
+  householdId: string | null,
   limit = 20,
 ): Promise<Notification[]> => {
   const result = await client.execute({
-    sql: `SELECT id, user_id, type, title, message, action_url, read, created_at, source_type, source_id
+    sql: `SELECT id, user_id, type, title, message, action_url, read, created_at, source_type, source_id, undo_url
           FROM notification
-          WHERE user_id = ?
+          WHERE user_id = ? AND ${IN_HOUSEHOLD}
           ORDER BY created_at DESC
           LIMIT ?`,
-    args: [userId, limit],
+    args: [userId, householdId, limit],
   });
 
   return result.rows.map(rowToNotification);
 };
 
-// Gets the count of unread notifications for a user
-export const getUnreadCount = async (userId: string): Promise<number> => {
+// Gets the count of a user's unread notifications for a household
+export const getUnreadCount = async (
+  userId: string,
+  householdId: string | null,
+): Promise<number> => {
   const result = await client.execute({
-    sql: "SELECT COUNT(*) as count FROM notification WHERE user_id = ? AND read = 0",
-    args: [userId],
+    sql: `SELECT COUNT(*) as count FROM notification WHERE user_id = ? AND ${IN_HOUSEHOLD} AND read = 0`,
+    args: [userId, householdId],
   });
 
   return (result.rows[0]?.count as number) || 0;
@@ -124,11 +148,14 @@ export const markAsRead = async (
   return result.rowsAffected > 0;
 };
 
-// Marks all notifications as read for a user
-export const markAllAsRead = async (userId: string): Promise<number> => {
+// Marks all of a user's notifications for a household as read
+export const markAllAsRead = async (
+  userId: string,
+  householdId: string | null,
+): Promise<number> => {
   const result = await client.execute({
-    sql: "UPDATE notification SET read = 1 WHERE user_id = ? AND read = 0",
-    args: [userId],
+    sql: `UPDATE notification SET read = 1 WHERE user_id = ? AND ${IN_HOUSEHOLD} AND read = 0`,
+    args: [userId, householdId],
   });
 
   return result.rowsAffected;
@@ -147,13 +174,14 @@ export const dismissNotification = async (
   return result.rowsAffected > 0;
 };
 
-// Clears all notifications for a user
+// Clears all of a user's notifications for a household
 export const clearAllNotifications = async (
   userId: string,
+  householdId: string | null,
 ): Promise<number> => {
   const result = await client.execute({
-    sql: "DELETE FROM notification WHERE user_id = ?",
-    args: [userId],
+    sql: `DELETE FROM notification WHERE user_id = ? AND ${IN_HOUSEHOLD}`,
+    args: [userId, householdId],
   });
 
   return result.rowsAffected;
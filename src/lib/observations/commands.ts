@@ -1,7 +1,13 @@
 import type { ObservationCategory } from "../../types/observation.ts";
-import { defineCommand } from "../cqrs/index.ts";
+import { editorRoles } from "../auth/permissions.ts";
+import { CommandRejectedError, defineCommand } from "../cqrs/index.ts";
 import { createNotification } from "../notifications/index.ts";
-import { createObservation, deleteObservation } from "./index.ts";
+import {
+  createObservation,
+  deleteObservation,
+  purgeObservation,
+  restoreObservation,
+} from "./index.ts";
 
 type CreateObservationInput = {
   content: string;
@@ -17,10 +23,17 @@ type DeleteObservationInput = {
 export const createObservationCommand = defineCommand({
   type: "observation.create",
   emits: "observation.created",
+  scope: "household",
+  roles: editorRoles("observations"),
   handler: async (user, data: CreateObservationInput) => {
-    const observation = await createObservation(data, user.id);
+    const observation = await createObservation(
+      user.householdId!,
+      data,
+      user.id,
+    );
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Observation recorded",
       message: "A new observation has been added.",
@@ -33,14 +46,59 @@ export const createObservationCommand = defineCommand({
 export const deleteObservationCommand = defineCommand({
   type: "observation.delete",
   emits: "observation.deleted",
+  scope: "household",
+  roles: editorRoles("observations"),
   handler: async (user, data: DeleteObservationInput) => {
-    const success = await deleteObservation(data.id);
+    const success = await deleteObservation(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Observation deleted",
-      message: "The observation has been removed.",
+      message: "The observation has been moved to the trash.",
+      undoUrl: `/app/trash/observation/${data.id}/restore?household=${user.householdId}`,
     });
     return { success, id: data.id };
   },
 });
+
+// Restores an observation from the trash
+export const restoreObservationCommand = defineCommand({
+  type: "observation.restore",
+  emits: "observation.restored",
+  scope: "household",
+  roles: editorRoles("observations"),
+  handler: async (user, data: { id: string }) => {
+    const success = await restoreObservation(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That observation isn't in the trash any more",
+      );
+    }
+    await createNotification({
+      userId: user.id,
+      householdId: user.householdId,
+      type: "success",
+      title: "Observation restored",
+      message: "The observation has been restored from the trash.",
+    });
+    return { success, id: data.id };
+  },
+});
+
+// Permanently deletes an observation from the trash
+export const purgeObservationCommand = defineCommand({
+  type: "observation.purge",
+  emits: "observation.purged",
+  scope: "household",
+  roles: editorRoles("observations"),
+  handler: async (user, data: { id: string }) => {
+    const success = await purgeObservation(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That observation isn't in the trash any more",
+      );
+    }
+    return { success, id: data.id };
+  },
+});
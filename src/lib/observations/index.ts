@@ -5,8 +5,6 @@ import type {
 import { generateSecureRandomString } from "../auth/crypto.ts";
 import { client } from "../db.ts";
 
-export { initObservationTables } from "./schema.ts";
-
 // Converts a database row to an Observation object
 const rowToObservation = (row: Record<string, unknown>): Observation => ({
   id: row.id as string,
@@ -23,8 +21,9 @@ type CreateObservationData = {
   observedAt: string;
 };
 
-// Creates a new observation
+// Creates a new observation in a household
 export const createObservation = async (
+  householdId: string,
   data: CreateObservationData,
   userId: string,
 ): Promise<Observation> => {
@@ -32,9 +31,17 @@ export const createObservation = async (
   const now = new Date().toISOString();
 
   await client.execute({
-    sql: `INSERT INTO observation (id, content, category, observed_at, created_by, created_at)
-          VALUES (?, ?, ?, ?, ?, ?)`,
-    args: [id, data.content, data.category, data.observedAt, userId, now],
+    sql: `INSERT INTO observation (id, household_id, content, category, observed_at, created_by, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      householdId,
+      data.content,
+      data.category,
+      data.observedAt,
+      userId,
+      now,
+    ],
   });
 
   return {
@@ -47,15 +54,16 @@ export const createObservation = async (
   };
 };
 
-// Gets a single observation by ID
+// Gets a single observation by ID, if it belongs to the household
 export const getObservation = async (
   id: string,
+  householdId: string,
 ): Promise<Observation | null> => {
   const result = await client.execute({
     sql: `SELECT id, content, category, observed_at, created_by, created_at
           FROM observation
-          WHERE id = ?`,
-    args: [id],
+          WHERE id = ? AND household_id = ? AND deleted_at IS NULL`,
+    args: [id, householdId],
   });
 
   if (result.rows.length === 0) {
@@ -65,69 +73,104 @@ export const getObservation = async (
   return rowToObservation(result.rows[0]);
 };
 
-// Gets all observations sorted by observedAt descending (most recent first)
-export const getAllObservations = async (): Promise<Observation[]> => {
+// Gets a household's observations sorted by observedAt descending (most recent first)
+export const getAllObservations = async (
+  householdId: string,
+): Promise<Observation[]> => {
   const result = await client.execute({
     sql: `SELECT id, content, category, observed_at, created_by, created_at
           FROM observation
+          WHERE household_id = ? AND deleted_at IS NULL
           ORDER BY observed_at DESC, created_at DESC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToObservation);
 };
 
-// Gets observations by category
+// Gets a household's observations by category
 export const getObservationsByCategory = async (
+  householdId: string,
   category: ObservationCategory,
 ): Promise<Observation[]> => {
   const result = await client.execute({
     sql: `SELECT id, content, category, observed_at, created_by, created_at
           FROM observation
-          WHERE category = ?
+          WHERE household_id = ? AND category = ? AND deleted_at IS NULL
           ORDER BY observed_at DESC, created_at DESC`,
-    args: [category],
+    args: [householdId, category],
   });
 
   return result.rows.map(rowToObservation);
 };
 
-// Gets observations within a date range
+// Gets a household's observations within a date range
 export const getObservationsByDateRange = async (
+  householdId: string,
   startDate: string,
   endDate: string,
 ): Promise<Observation[]> => {
   const result = await client.execute({
     sql: `SELECT id, content, category, observed_at, created_by, created_at
           FROM observation
-          WHERE observed_at >= ? AND observed_at <= ?
+          WHERE household_id = ? AND observed_at >= ? AND observed_at <= ? AND deleted_at IS NULL
           ORDER BY observed_at DESC, created_at DESC`,
-    args: [startDate, endDate],
+    args: [householdId, startDate, endDate],
   });
 
   return result.rows.map(rowToObservation);
 };
 
-// Searches observations by content
+// Searches a household's observations by content
 export const searchObservations = async (
+  householdId: string,
   query: string,
 ): Promise<Observation[]> => {
   const result = await client.execute({
     sql: `SELECT id, content, category, observed_at, created_by, created_at
           FROM observation
-          WHERE content LIKE ?
+          WHERE household_id = ? AND content LIKE ? AND deleted_at IS NULL
           ORDER BY observed_at DESC, created_at DESC`,
-    args: [`%${query}%`],
+    args: [householdId, `%${query}%`],
   });
 
   return result.rows.map(rowToObservation);
 };
 
-// Deletes an observation
-export const deleteObservation = async (id: string): Promise<boolean> => {
+// Moves an observation to the trash (soft delete)
+export const deleteObservation = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE observation SET deleted_at = ? WHERE id = ? AND household_id = ? AND deleted_at IS NULL",
+    args: [new Date().toISOString(), id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Restores an observation from the trash
+export const restoreObservation = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE observation SET deleted_at = NULL WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Permanently deletes an observation that is already in the trash
+export const purgeObservation = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
   const result = await client.execute({
-    sql: "DELETE FROM observation WHERE id = ?",
-    args: [id],
+    sql: "DELETE FROM observation WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
   });
 
   return result.rowsAffected > 0;
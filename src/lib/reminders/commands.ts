@@ -2,12 +2,21 @@ import type {
   LinkedEntityType,
   ReminderFrequency,
 } from "../../types/reminder.ts";
-import { defineCommand } from "../cqrs/index.ts";
+import { editorRoles } from "../auth/permissions.ts";
+import { getContract } from "../contracts/index.ts";
+import {
+  CommandRejectedError,
+  CommandValidationError,
+  defineCommand,
+} from "../cqrs/index.ts";
 import { createNotification } from "../notifications/index.ts";
 import {
   createReminder,
   deleteReminder,
+  getReminder,
   pauseReminder,
+  purgeReminder,
+  restoreReminder,
   resumeReminder,
   triggerReminder,
   updateReminder,
@@ -24,6 +33,8 @@ type CreateReminderInput = {
 
 type UpdateReminderInput = {
   id: string;
+  // updatedAt of the copy the edit was based on; stale writes are rejected
+  expectedUpdatedAt?: string;
   title?: string;
   description?: string | null;
   frequency?: ReminderFrequency;
@@ -41,14 +52,38 @@ type DeleteReminderInput = {
   id: string;
 };
 
+// Rejects a link to an entity that no longer exists (e.g. a contract moved to
+// the trash while the reminder form was open)
+const checkLinkedEntity = async (
+  householdId: string,
+  linkedEntityType: LinkedEntityType | undefined,
+  linkedEntityId: string | null | undefined,
+) => {
+  if (linkedEntityType === "contract" && linkedEntityId) {
+    if (!(await getContract(linkedEntityId, householdId))) {
+      throw new CommandValidationError("The linked contract no longer exists", {
+        linkedEntityId: ["The linked contract has been deleted"],
+      });
+    }
+  }
+};
+
 // Creates a new reminder
 export const createReminderCommand = defineCommand({
   type: "reminder.create",
   emits: "reminder.created",
+  scope: "household",
+  roles: editorRoles("reminders"),
   handler: async (user, data: CreateReminderInput) => {
-    const reminder = await createReminder(data, user.id);
+    await checkLinkedEntity(
+      user.householdId!,
+      data.linkedEntityType,
+      data.linkedEntityId,
+    );
+    const reminder = await createReminder(user.householdId!, data, user.id);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Reminder created",
       message: `${data.title} has been added.`,
@@ -61,11 +96,34 @@ export const createReminderCommand = defineCommand({
 export const updateReminderCommand = defineCommand({
   type: "reminder.update",
   emits: "reminder.updated",
+  scope: "household",
+  roles: editorRoles("reminders"),
   handler: async (user, data: UpdateReminderInput) => {
-    const { id, ...updateData } = data;
-    const reminder = await updateReminder(id, updateData);
+    const { id, expectedUpdatedAt, ...updateData } = data;
+
+    // Only a changed link is checked, so a reminder whose contract was deleted
+    // can still be edited
+    const existing = await getReminder(id, user.householdId!);
+    if (
+      updateData.linkedEntityId &&
+      updateData.linkedEntityId !== existing?.linkedEntityId
+    ) {
+      await checkLinkedEntity(
+        user.householdId!,
+        updateData.linkedEntityType,
+        updateData.linkedEntityId,
+      );
+    }
+
+    const reminder = await updateReminder(
+      id,
+      user.householdId!,
+      updateData,
+      expectedUpdatedAt,
+    );
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Reminder updated",
       message: `${updateData.title || "Reminder"} has been updated.`,
@@ -79,8 +137,10 @@ export const updateReminderCommand = defineCommand({
 export const triggerReminderCommand = defineCommand({
   type: "reminder.trigger",
   emits: "reminder.triggered",
+  scope: "household",
+  roles: editorRoles("reminders"),
   handler: async (user, data: TriggerReminderInput) => {
-    const reminder = await triggerReminder(data.id, user.id);
+    const reminder = await triggerReminder(data.id, user.householdId!, user.id);
     return { success: !!reminder, reminder };
   },
 });
@@ -89,10 +149,13 @@ export const triggerReminderCommand = defineCommand({
 export const pauseReminderCommand = defineCommand({
   type: "reminder.pause",
   emits: "reminder.paused",
+  scope: "household",
+  roles: editorRoles("reminders"),
   handler: async (user, data: { id: string }) => {
-    const reminder = await pauseReminder(data.id);
+    const reminder = await pauseReminder(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Reminder paused",
       message: `${reminder?.title || "Reminder"} has been paused.`,
@@ -105,10 +168,13 @@ export const pauseReminderCommand = defineCommand({
 export const resumeReminderCommand = defineCommand({
   type: "reminder.resume",
   emits: "reminder.resumed",
+  scope: "household",
+  roles: editorRoles("reminders"),
   handler: async (user, data: { id: string }) => {
-    const reminder = await resumeReminder(data.id);
+    const reminder = await resumeReminder(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "success",
       title: "Reminder resumed",
       message: `${reminder?.title || "Reminder"} has been resumed.`,
@@ -121,14 +187,59 @@ export const resumeReminderCommand = defineCommand({
 export const deleteReminderCommand = defineCommand({
   type: "reminder.delete",
   emits: "reminder.deleted",
+  scope: "household",
+  roles: editorRoles("reminders"),
   handler: async (user, data: DeleteReminderInput) => {
-    const success = await deleteReminder(data.id);
+    const success = await deleteReminder(data.id, user.householdId!);
     await createNotification({
       userId: user.id,
+      householdId: user.householdId,
       type: "info",
       title: "Reminder deleted",
-      message: "The reminder has been removed.",
+      message: "The reminder has been moved to the trash.",
+      undoUrl: `/app/trash/reminder/${data.id}/restore?household=${user.householdId}`,
     });
     return { success, id: data.id };
   },
 });
+
+// Restores a reminder from the trash
+export const restoreReminderCommand = defineCommand({
+  type: "reminder.restore",
+  emits: "reminder.restored",
+  scope: "household",
+  roles: editorRoles("reminders"),
+  handler: async (user, data: { id: string }) => {
+    const success = await restoreReminder(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That reminder isn't in the trash any more",
+      );
+    }
+    await createNotification({
+      userId: user.id,
+      householdId: user.householdId,
+      type: "success",
+      title: "Reminder restored",
+      message: "The reminder has been restored from the trash.",
+    });
+    return { success, id: data.id };
+  },
+});
+
+// Permanently deletes a reminder from the trash
+export const purgeReminderCommand = defineCommand({
+  type: "reminder.purge",
+  emits: "reminder.purged",
+  scope: "household",
+  roles: editorRoles("reminders"),
+  handler: async (user, data: { id: string }) => {
+    const success = await purgeReminder(data.id, user.householdId!);
+    if (!success) {
+      throw new CommandRejectedError(
+        "That reminder isn't in the trash any more",
+      );
+    }
+    return { success, id: data.id };
+  },
+});
@@ -4,11 +4,10 @@ import type {
   ReminderFrequency,
 } from "../../types/reminder.ts";
 import { generateSecureRandomString } from "../auth/crypto.ts";
+import { ConflictError } from "../cqrs/errors.ts";
 import { client } from "../db.ts";
 import { createNotification } from "../notifications/index.ts";
 
-export { initReminderTables } from "./schema.ts";
-
 type CreateReminderData = {
   title: string;
   description?: string | null;
@@ -73,8 +72,9 @@ export const advanceNextDue = (
   return date.toISOString().split("T")[0];
 };
 
-// Creates a new reminder
+// Creates a new reminder in a household
 export const createReminder = async (
+  householdId: string,
   data: CreateReminderData,
   userId: string,
 ): Promise<RecurringReminder> => {
@@ -82,10 +82,11 @@ export const createReminder = async (
   const now = new Date().toISOString();
 
   await client.execute({
-    sql: `INSERT INTO recurring_reminder (id, title, description, frequency, next_due, linked_entity_type, linked_entity_id, is_active, last_triggered, created_by, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, 1, NULL, ?, ?, ?)`,
+    sql: `INSERT INTO recurring_reminder (id, household_id, title, description, frequency, next_due, linked_entity_type, linked_entity_id, is_active, last_triggered, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, NULL, ?, ?, ?)`,
     args: [
       id,
+      householdId,
       data.title,
       data.description ?? null,
       data.frequency,
@@ -114,15 +115,16 @@ export const createReminder = async (
   };
 };
 
-// Gets a single reminder by ID
+// Gets a single reminder by ID, if it belongs to the household
 export const getReminder = async (
   id: string,
+  householdId: string,
 ): Promise<RecurringReminder | null> => {
   const result = await client.execute({
     sql: `SELECT id, title, description, frequency, next_due, linked_entity_type, linked_entity_id, is_active, last_triggered, created_by, created_at, updated_at
           FROM recurring_reminder
-          WHERE id = ?`,
-    args: [id],
+          WHERE id = ? AND household_id = ? AND deleted_at IS NULL`,
+    args: [id, householdId],
   });
 
   if (result.rows.length === 0) {
@@ -132,57 +134,65 @@ export const getReminder = async (
   return rowToReminder(result.rows[0]);
 };
 
-// Gets all reminders sorted by next due date
-export const getAllReminders = async (): Promise<RecurringReminder[]> => {
+// Gets a household's reminders sorted by next due date
+export const getAllReminders = async (
+  householdId: string,
+): Promise<RecurringReminder[]> => {
   const result = await client.execute({
     sql: `SELECT id, title, description, frequency, next_due, linked_entity_type, linked_entity_id, is_active, last_triggered, created_by, created_at, updated_at
           FROM recurring_reminder
+          WHERE household_id = ? AND deleted_at IS NULL
           ORDER BY next_due ASC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToReminder);
 };
 
-// Gets all active reminders sorted by next due date
-export const getActiveReminders = async (): Promise<RecurringReminder[]> => {
+// Gets a household's active reminders sorted by next due date
+export const getActiveReminders = async (
+  householdId: string,
+): Promise<RecurringReminder[]> => {
   const result = await client.execute({
     sql: `SELECT id, title, description, frequency, next_due, linked_entity_type, linked_entity_id, is_active, last_triggered, created_by, created_at, updated_at
           FROM recurring_reminder
-          WHERE is_active = 1
+          WHERE household_id = ? AND is_active = 1 AND deleted_at IS NULL
           ORDER BY next_due ASC`,
-    args: [],
+    args: [householdId],
   });
 
   return result.rows.map(rowToReminder);
 };
 
-// Gets reminders that are due (nextDue <= today and isActive)
-export const getDueReminders = async (): Promise<RecurringReminder[]> => {
+// Gets a household's reminders that are due (nextDue <= today and isActive)
+export const getDueReminders = async (
+  householdId: string,
+): Promise<RecurringReminder[]> => {
   const today = new Date().toISOString().split("T")[0];
 
   const result = await client.execute({
     sql: `SELECT id, title, description, frequency, next_due, linked_entity_type, linked_entity_id, is_active, last_triggered, created_by, created_at, updated_at
           FROM recurring_reminder
-          WHERE is_active = 1 AND next_due <= ?
+          WHERE household_id = ? AND is_active = 1 AND next_due <= ? AND deleted_at IS NULL
           ORDER BY next_due ASC`,
-    args: [today],
+    args: [householdId, today],
   });
 
   return result.rows.map(rowToReminder);
 };
 
-// Gets reminders linked to a specific entity
+// Gets a household's reminders linked to a specific entity
 export const getRemindersByLinkedEntity = async (
+  householdId: string,
   entityType: string,
   entityId: string,
 ): Promise<RecurringReminder[]> => {
   const result = await client.execute({
     sql: `SELECT id, title, description, frequency, next_due, linked_entity_type, linked_entity_id, is_active, last_triggered, created_by, created_at, updated_at
           FROM recurring_reminder
-          WHERE linked_entity_type = ? AND linked_entity_id = ?
+          WHERE household_id = ? AND linked_entity_type = ? AND linked_entity_id = ? AND deleted_at IS NULL
           ORDER BY next_due ASC`,
-    args: [entityType, entityId],
+    args: [householdId, entityType, entityId],
   });
 
   return result.rows.map(rowToReminder);
@@ -191,13 +201,20 @@ export const getRemindersByLinkedEntity = async (
 // Updates a reminder
 export const updateReminder = async (
   id: string,
+  householdId: string,
   data: UpdateReminderData,
+  expectedUpdatedAt?: string,
 ): Promise<RecurringReminder | null> => {
-  const existing = await getReminder(id);
+  const existing = await getReminder(id, householdId);
   if (!existing) {
     return null;
   }
 
+  // Reject the write if someone else saved since the client loaded it
+  if (expectedUpdatedAt && existing.updatedAt !== expectedUpdatedAt) {
+    throw new ConflictError();
+  }
+
   const now = new Date().toISOString();
   const updated = {
     title: data.title ?? existing.title,
@@ -216,10 +233,10 @@ export const updateReminder = async (
     isActive: data.isActive ?? existing.isActive,
   };
 
-  await client.execute({
+  const result = await client.execute({
     sql: `UPDATE recurring_reminder
           SET title = ?, description = ?, frequency = ?, next_due = ?, linked_entity_type = ?, linked_entity_id = ?, is_active = ?, updated_at = ?
-          WHERE id = ?`,
+          WHERE id = ? AND updated_at = ?`,
     args: [
       updated.title,
       updated.description,
@@ -230,9 +247,15 @@ export const updateReminder = async (
       updated.isActive ? 1 : 0,
       now,
       id,
+      existing.updatedAt,
     ],
   });
 
+  // Another write landed between the read above and this update
+  if (result.rowsAffected === 0) {
+    throw new ConflictError();
+  }
+
   return {
     ...existing,
     ...updated,
@@ -243,9 +266,10 @@ export const updateReminder = async (
 // Triggers a reminder: creates notification and advances nextDue based on frequency
 export const triggerReminder = async (
   id: string,
+  householdId: string,
   userId: string,
 ): Promise<RecurringReminder | null> => {
-  const reminder = await getReminder(id);
+  const reminder = await getReminder(id, householdId);
   if (!reminder) {
     return null;
   }
@@ -256,6 +280,7 @@ export const triggerReminder = async (
   // Create notification for the user
   await createNotification({
     userId,
+    householdId,
     type: "info",
     title: "Reminder",
     message: reminder.title,
@@ -303,22 +328,53 @@ export const triggerReminder = async (
 // Pauses a reminder
 export const pauseReminder = async (
   id: string,
+  householdId: string,
 ): Promise<RecurringReminder | null> => {
-  return updateReminder(id, { isActive: false });
+  return updateReminder(id, householdId, { isActive: false });
 };
 
 // Resumes a reminder
 export const resumeReminder = async (
   id: string,
+  householdId: string,
 ): Promise<RecurringReminder | null> => {
-  return updateReminder(id, { isActive: true });
+  return updateReminder(id, householdId, { isActive: true });
 };
 
-// Deletes a reminder
-export const deleteReminder = async (id: string): Promise<boolean> => {
+// Moves a reminder to the trash (soft delete)
+export const deleteReminder = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE recurring_reminder SET deleted_at = ? WHERE id = ? AND household_id = ? AND deleted_at IS NULL",
+    args: [new Date().toISOString(), id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Restores a reminder from the trash
+export const restoreReminder = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const result = await client.execute({
+    sql: "UPDATE recurring_reminder SET deleted_at = NULL WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
+  });
+
+  return result.rowsAffected > 0;
+};
+
+// Permanently deletes a reminder that is already in the trash
+export const purgeReminder = async (
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
   const result = await client.execute({
-    sql: "DELETE FROM recurring_reminder WHERE id = ?",
-    args: [id],
+    sql: "DELETE FROM recurring_reminder WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL",
+    args: [id, householdId],
   });
 
   return result.rowsAffected > 0;
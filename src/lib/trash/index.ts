@@ -0,0 +1,81 @@
+import type { TrashEntityType, TrashItem } from "../../types/trash.ts";
+import { client } from "../db.ts";
+
+// Items stay in the trash this long before being purged automatically
+export const TRASH_RETENTION_DAYS = 30;
+
+// Soft-deletable tables, with the column used to label items in the trash
+const TRASH_SOURCES: Record<
+  TrashEntityType,
+  { table: string; labelColumn: string }
+> = {
+  contract: { table: "contract", labelColumn: "name" },
+  appointment: { table: "appointment", labelColumn: "title" },
+  healthNote: { table: "health_note", labelColumn: "title" },
+  note: { table: "note", labelColumn: "content" },
+  observation: { table: "observation", labelColumn: "content" },
+  reminder: { table: "recurring_reminder", labelColumn: "title" },
+  bill: { table: "bill", labelColumn: "name" },
+};
+
+// Checks whether a string is a known trash entity type
+export const isTrashEntityType = (value: string): value is TrashEntityType =>
+  value in TRASH_SOURCES;
+
+// Gets everything in a household's trash across all entity types, most
+// recently deleted first
+export const getTrashItems = async (
+  householdId: string,
+): Promise<TrashItem[]> => {
+  const selects = Object.entries(TRASH_SOURCES).map(
+    ([entityType, { table, labelColumn }]) =>
+      `SELECT '${entityType}' as entity_type, id, ${labelColumn} as label, deleted_at
+       FROM ${table}
+       WHERE household_id = ?1 AND deleted_at IS NOT NULL`,
+  );
+
+  const result = await client.execute({
+    sql: `${selects.join(" UNION ALL ")} ORDER BY deleted_at DESC`,
+    args: [householdId],
+  });
+
+  return result.rows.map((row) => ({
+    entityType: row.entity_type as TrashEntityType,
+    id: row.id as string,
+    label: row.label as string,
+    deletedAt: row.deleted_at as string,
+  }));
+};
+
+// Checks whether an item is in a household's trash
+export const isInTrash = async (
+  entityType: TrashEntityType,
+  id: string,
+  householdId: string,
+): Promise<boolean> => {
+  const { table } = TRASH_SOURCES[entityType];
+  const result = await client.execute({
+    sql: `SELECT 1 FROM ${table} WHERE id = ? AND household_id = ? AND deleted_at IS NOT NULL`,
+    args: [id, householdId],
+  });
+  return result.rows.length > 0;
+};
+
+// Permanently deletes trashed items older than the retention period
+export const purgeExpiredTrash = async (
+  retentionDays = TRASH_RETENTION_DAYS,
+): Promise<number> => {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - retentionDays);
+
+  let purged = 0;
+  for (const { table } of Object.values(TRASH_SOURCES)) {
+    const result = await client.execute({
+      sql: `DELETE FROM ${table} WHERE deleted_at IS NOT NULL AND deleted_at < ?`,
+      args: [cutoff.toISOString()],
+    });
+    purged += result.rowsAffected;
+  }
+
+  return purged;
+};
@@ -0,0 +1,56 @@
+import { initDatabase } from "./lib/db.ts";
+import {
+  formatVersion,
+  getMigrationStatus,
+  runMigrations,
+} from "./lib/migrations/index.ts";
+
+// Database migration command
+//   migrate.ts            apply pending migrations
+//   migrate.ts --dry-run  print pending migrations without applying them
+//   migrate.ts status     list applied and pending migrations
+const main = async () => {
+  const args = process.argv.slice(2);
+  await initDatabase();
+
+  if (args.includes("status")) {
+    const status = await getMigrationStatus();
+    for (const migration of status) {
+      console.log(
+        [
+          formatVersion(migration.version),
+          migration.name.padEnd(24),
+          migration.state.padEnd(8),
+          migration.appliedAt ?? "",
+        ].join("  "),
+      );
+    }
+    if (status.some((s) => s.state === "modified" || s.state === "missing")) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const dryRun = args.includes("--dry-run");
+  const runs = await runMigrations({ dryRun });
+
+  if (runs.length === 0) {
+    console.log("Database is up to date");
+    return;
+  }
+
+  if (dryRun) {
+    for (const run of runs) {
+      console.log(`-- ${formatVersion(run.version)} ${run.name}`);
+      for (const statement of run.statements) {
+        console.log(`${statement};\n`);
+      }
+    }
+    console.log(`${runs.length} migration(s) pending`);
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -4,39 +4,91 @@ import { Sidequest } from "sidequest";
 import { z } from "zod";
 import { DailyReminderJob } from "../../jobs/daily-reminder-job.ts";
 import {
+  addHouseholdMemberCommand,
+  createHouseholdCommand,
   createUserCommand,
+  deleteUserCommand,
   regenerateInviteCommand,
+  removeHouseholdMemberCommand,
+  renameHouseholdCommand,
+  retryCommandCommand,
+  revokeApiTokensCommand,
+  revokeInviteCommand,
+  revokeUserSessionsCommand,
+  setTwoFactorRequiredCommand,
+  setUserDeactivatedCommand,
+  unlockLoginCommand,
+  updateUserCommand,
 } from "../../lib/admin/commands.ts";
 import type { InviteResult } from "../../lib/admin/invite-url-store.ts";
 import { inviteUrlStore } from "../../lib/admin/invite-url-store.ts";
+import { countOwnedRecords } from "../../lib/admin/users.ts";
+import { getAuditEntityTypes, getAuditEntries } from "../../lib/audit/index.ts";
 import {
+  findUserById,
+  getAllUsers,
   getAllUsersWithStatus,
+  rejectApiTokens,
   requireRole,
+  requireTwoFactorEnrollment,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  USER_ROLES,
   type UserWithStatus,
 } from "../../lib/auth/index.ts";
+import {
+  getLoginLockouts,
+  getRecentLoginFailures,
+  type LoginFailure,
+  type LoginFailureReason,
+  type LoginLockout,
+} from "../../lib/auth/login-throttle.ts";
+import {
+  getPendingInvites,
+  type PendingInvite,
+} from "../../lib/auth/registration-token.ts";
+import {
+  getCommand,
+  getFailedCommands,
+  getStuckCommands,
+} from "../../lib/cqrs/command-queue.ts";
 import {
   commandStore,
   createFormResource,
+  createSSEResource,
   formErrorStore,
+  handleFormPost,
 } from "../../lib/cqrs/index.ts";
 import type { FormErrors } from "../../lib/cqrs/form-errors.ts";
+import {
+  getAllHouseholds,
+  getHousehold,
+  getHouseholdMembers,
+} from "../../lib/households/index.ts";
 import {
   getNotifications,
   getUnreadCount,
 } from "../../lib/notifications/index.ts";
+import type { AuditEntry } from "../../types/audit.ts";
+import type { CommandQueueStats, StoredCommand } from "../../types/command.ts";
 import type { HonoContext } from "../../types/hono.ts";
+import type { Household, HouseholdMember } from "../../types/household.ts";
 import { Button, Card, FormField, PageHeader } from "../../ui/index.ts";
 import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const adminRouter = new Hono<HonoContext>();
 
 // Require admin role for all admin routes
+adminRouter.use("*", rejectApiTokens);
 adminRouter.use("*", requireRole("admin"));
+adminRouter.use("*", requireTwoFactorEnrollment);
 
 // Validation schema for creating users (no password - users set it via invite link)
 const createUserSchema = z.object({
   email: z.string().email("Invalid email address"),
   name: z.string().min(1, "Name is required"),
+  role: z.enum(["admin", "family", "carer", "viewer"]).default("family"),
+  sendEmail: z.boolean().default(false),
 });
 
 // Renders the users table with registration status
@@ -49,6 +101,8 @@ const UsersTable = ({ users }: { users: UserWithStatus[] }) => html`
           <th>Email</th>
           <th>Role</th>
           <th>Status</th>
+          <th>Two-Factor</th>
+          <th>Sessions</th>
           <th>Created</th>
           <th></th>
         </tr>
@@ -65,26 +119,68 @@ const UsersTable = ({ users }: { users: UserWithStatus[] }) => html`
                     ? "badge-primary"
                     : "badge-ghost"}"
                 >
-                  ${user.role}
+                  ${ROLE_LABELS[user.role]}
                 </span>
               </td>
               <td>
-                ${user.hasPassword
-                  ? html`<span class="badge badge-success">Active</span>`
-                  : html`<span class="badge badge-warning">Pending</span>`}
+                ${user.deactivatedAt
+                  ? html`<span class="badge badge-error">Deactivated</span>`
+                  : user.hasPassword || user.hasPasskey
+                    ? html`<span class="badge badge-success">Active</span>`
+                    : html`<a href="/admin/invites" class="badge badge-warning"
+                        >Pending</a
+                      >`}
+              </td>
+              <td>
+                <div class="flex items-center gap-2">
+                  ${user.twoFactorEnabled
+                    ? html`<span class="badge badge-success">On</span>`
+                    : html`<span class="badge badge-ghost">Off</span>`}
+                  ${user.twoFactorRequired
+                    ? html`<span class="badge badge-outline">Required</span>`
+                    : ""}
+                  <button
+                    class="btn btn-xs btn-ghost"
+                    data-on:click="@post('/admin/users/${user.id}/two-factor/${user.twoFactorRequired
+                      ? "optional"
+                      : "required"}')"
+                  >
+                    ${user.twoFactorRequired ? "Make optional" : "Require"}
+                  </button>
+                </div>
+              </td>
+              <td>
+                <div class="flex items-center gap-2">
+                  ${user.activeSessions}
+                  ${user.activeSessions > 0
+                    ? html`
+                        <button
+                          class="btn btn-xs btn-ghost"
+                          data-on:click="@post('/admin/users/${user.id}/sessions/revoke')"
+                        >
+                          Sign out everywhere
+                        </button>
+                      `
+                    : ""}
+                </div>
               </td>
               <td>${new Date(user.createdAt).toLocaleDateString()}</td>
               <td>
-                ${!user.hasPassword
-                  ? html`
-                      <button
-                        class="btn btn-xs btn-outline"
-                        data-on:click="@post('/admin/users/${user.id}/invite')"
-                      >
-                        Generate Invite Link
-                      </button>
-                    `
-                  : ""}
+                <div class="flex items-center gap-2 justify-end">
+                  ${!user.hasPassword && !user.hasPasskey
+                    ? html`
+                        <button
+                          class="btn btn-xs btn-outline"
+                          data-on:click="@post('/admin/users/${user.id}/invite')"
+                        >
+                          Generate Invite Link
+                        </button>
+                      `
+                    : ""}
+                  <a href="/admin/users/${user.id}" class="btn btn-xs btn-ghost"
+                    >Manage</a
+                  >
+                </div>
               </td>
             </tr>
           `,
@@ -94,6 +190,43 @@ const UsersTable = ({ users }: { users: UserWithStatus[] }) => html`
   </div>
 `;
 
+// Count of active API tokens with a button to revoke them
+const ApiTokensCard = ({
+  count,
+  action,
+  confirmText,
+  description,
+}: {
+  count: number;
+  action: string;
+  confirmText: string;
+  description: string;
+}) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">
+          API Tokens <span class="badge badge-ghost">${count}</span>
+        </h2>
+        <p class="text-base-content/70">
+          ${description} Revoking stops any script using them straight away.
+        </p>
+        ${count > 0
+          ? html`
+              <div>
+                <button
+                  class="btn btn-secondary"
+                  data-on:click="confirm('${confirmText}') && @post('${action}')"
+                >
+                  Revoke All
+                </button>
+              </div>
+            `
+          : ""}
+      </div>
+    `,
+  });
+
 // Create user form component (no password field — users set it via invite link)
 const CreateUserForm = ({ errors }: { errors: FormErrors | null }) => html`
   ${errors?.formErrors?.length
@@ -104,6 +237,8 @@ const CreateUserForm = ({ errors }: { errors: FormErrors | null }) => html`
     data-signals="${JSON.stringify({
       name: "",
       email: "",
+      role: "family",
+      sendEmail: false,
     })}"
     class="space-y-4"
   >
@@ -137,8 +272,39 @@ const CreateUserForm = ({ errors }: { errors: FormErrors | null }) => html`
         />
       `,
     })}
+    ${FormField({
+      label: "Role",
+      htmlFor: "role",
+      error: errors?.fieldErrors?.role?.[0],
+      children: html`
+        <select
+          id="role"
+          name="role"
+          class="select select-bordered w-full"
+          data-bind="role"
+        >
+          ${USER_ROLES.map(
+            (role) => html`
+              <option value="${role}">
+                ${ROLE_LABELS[role]} - ${ROLE_DESCRIPTIONS[role]}
+              </option>
+            `,
+          )}
+        </select>
+      `,
+    })}
+    <label class="label cursor-pointer justify-start gap-3">
+      <input
+        type="checkbox"
+        id="sendEmail"
+        class="checkbox"
+        data-bind="sendEmail"
+      />
+      <span class="label-text">Email the invite link to them</span>
+    </label>
     <p class="text-base-content/60 text-sm">
       An invite link will be generated for the user to set their own password.
+      They'll join the household you're looking at.
     </p>
     <div class="form-control mt-4">
       ${Button({
@@ -171,7 +337,12 @@ const InviteLinkAlert = ({
       <code class="text-xs bg-base-100 px-2 py-1 rounded break-all select-all"
         >${inviteResult.inviteUrl}</code
       >
-      <p class="text-xs mt-1 opacity-70">This link expires in 24 hours.</p>
+      <p class="text-xs mt-1 opacity-70">
+        This link expires in 24
+        hours.${inviteResult.emailedTo
+          ? ` It has also been emailed to ${inviteResult.emailedTo}.`
+          : ""}
+      </p>
     </div>
   </div>
 `;
@@ -208,6 +379,16 @@ const renderAdminUsersContent = (state: AdminUsersPageState) => html`
           </div>
         `,
       })}
+
+      <!-- API tokens across all users -->
+      <div class="max-w-md">
+        ${ApiTokensCard({
+          count: state.users.reduce((sum, u) => sum + u.activeApiTokens, 0),
+          action: "/admin/api-tokens/revoke",
+          confirmText: "Revoke every user's API tokens?",
+          description: "Active API tokens across all users.",
+        })}
+      </div>
     </div>
   </div>
 `;
@@ -220,8 +401,8 @@ const loadAdminUsersState = async (
   const users = await getAllUsersWithStatus();
   return {
     users,
-    formErrors: formErrorStore.getErrors(connectionId),
-    inviteResult: inviteUrlStore.consume(adminUserId),
+    formErrors: await formErrorStore.getErrors(connectionId),
+    inviteResult: await inviteUrlStore.consume(adminUserId),
   };
 };
 
@@ -244,8 +425,8 @@ adminRouter.get("/users", async (c) => {
 
   const [state, notifications, unreadCount] = await Promise.all([
     loadAdminUsersState("", user.id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -268,26 +449,1651 @@ adminRouter.get("/users", async (c) => {
 // Create user handler
 adminRouter.post("/users/create", adminUsersForm.postHandler);
 
-// Regenerate invite link for a pending user
-adminRouter.post("/users/:id/invite", async (c) => {
+// Finds a user who hasn't finished registering yet
+const findPendingUser = async (userId: string) => {
+  const users = await getAllUsersWithStatus();
+  const targetUser = users.find((u) => u.id === userId);
+  return targetUser && !targetUser.hasPassword && !targetUser.hasPasskey
+    ? targetUser
+    : null;
+};
+
+// Regenerate invite link for a pending user, and email it when asked to
+adminRouter.post("/users/:id/invite/:delivery{link|email}?", async (c) => {
+  const user = c.get("user")!;
+  const userId = c.req.param("id");
+
+  const targetUser = await findPendingUser(userId);
+  if (!targetUser) {
+    return c.body(null, 204);
+  }
+
+  await commandStore.enqueue(regenerateInviteCommand, user, {
+    userId,
+    userName: targetUser.name || targetUser.email,
+    sendEmail: c.req.param("delivery") === "email",
+  });
+
+  return c.body(null, 204);
+});
+
+// Revoke a pending user's invite link
+adminRouter.post("/users/:id/invite/revoke", async (c) => {
+  const user = c.get("user")!;
+  const userId = c.req.param("id");
+
+  const targetUser = await findPendingUser(userId);
+  if (!targetUser) {
+    return c.body(null, 204);
+  }
+
+  await commandStore.enqueue(revokeInviteCommand, user, {
+    userId,
+    userName: targetUser.name || targetUser.email,
+  });
+
+  return c.body(null, 204);
+});
+
+// Requires two-factor authentication for a user, or makes it optional again
+adminRouter.post("/users/:id/two-factor/:requirement", async (c) => {
+  const user = c.get("user")!;
+  const userId = c.req.param("id");
+  const requirement = c.req.param("requirement");
+  if (requirement !== "required" && requirement !== "optional") {
+    return c.body(null, 204);
+  }
+
+  const users = await getAllUsersWithStatus();
+  const targetUser = users.find((u) => u.id === userId);
+  if (!targetUser) {
+    return c.body(null, 204);
+  }
+
+  await commandStore.enqueue(setTwoFactorRequiredCommand, user, {
+    userId,
+    userName: targetUser.name || targetUser.email,
+    required: requirement === "required",
+  });
+
+  return c.body(null, 204);
+});
+
+// Signs a user out on every device
+adminRouter.post("/users/:id/sessions/revoke", async (c) => {
+  const user = c.get("user")!;
+  const userId = c.req.param("id");
+
+  const users = await getAllUsersWithStatus();
+  const targetUser = users.find((u) => u.id === userId);
+  if (!targetUser) {
+    return c.body(null, 204);
+  }
+
+  await commandStore.enqueue(revokeUserSessionsCommand, user, {
+    userId,
+    userName: targetUser.name || targetUser.email,
+  });
+
+  return c.body(null, 204);
+});
+
+// Revokes a user's API tokens
+adminRouter.post("/users/:id/api-tokens/revoke", async (c) => {
   const user = c.get("user")!;
   const userId = c.req.param("id");
 
-  // Find the user to get their name
   const users = await getAllUsersWithStatus();
   const targetUser = users.find((u) => u.id === userId);
-  if (!targetUser || targetUser.hasPassword) {
+  if (!targetUser) {
+    return c.body(null, 204);
+  }
+
+  await commandStore.enqueue(revokeApiTokensCommand, user, {
+    userId,
+    userName: targetUser.name || targetUser.email,
+  });
+
+  return c.body(null, 204);
+});
+
+// Revokes every user's API tokens
+adminRouter.post("/api-tokens/revoke", async (c) => {
+  await commandStore.enqueue(revokeApiTokensCommand, c.get("user")!, {
+    userId: null,
+    userName: null,
+  });
+
+  return c.body(null, 204);
+});
+
+// Edit user form validation schema
+const editUserSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  role: z.enum(["admin", "family", "carer", "viewer"]),
+});
+
+// Delete user form validation schema
+const deleteUserSchema = z.object({
+  transferToId: z.string().min(1, "Choose who takes over their records"),
+});
+
+// User detail page state type
+type AdminUserPageState = {
+  user: UserWithStatus;
+  isSelf: boolean;
+  // Active users who could take over this user's records
+  others: UserWithStatus[];
+  ownedRecords: number;
+  formErrors: FormErrors | null;
+};
+
+// Form to change a user's name and role
+const EditUserForm = ({
+  user,
+  errors,
+}: {
+  user: UserWithStatus;
+  errors: FormErrors | null;
+}) => html`
+  <form
+    data-on:submit="@post('/admin/users/${user.id}/update')"
+    data-signals="${JSON.stringify({
+      name: user.name ?? "",
+      role: user.role,
+    })}"
+    class="space-y-4"
+  >
+    ${FormField({
+      label: "Name",
+      htmlFor: "name",
+      error: errors?.fieldErrors?.name?.[0],
+      children: html`
+        <input
+          type="text"
+          id="name"
+          name="name"
+          class="input input-bordered w-full"
+          data-bind="name"
+          required
+        />
+      `,
+    })}
+    ${FormField({
+      label: "Role",
+      htmlFor: "role",
+      error: errors?.fieldErrors?.role?.[0],
+      children: html`
+        <select
+          id="role"
+          name="role"
+          class="select select-bordered w-full"
+          data-bind="role"
+        >
+          ${USER_ROLES.map(
+            (role) => html`
+              <option value="${role}">
+                ${ROLE_LABELS[role]} - ${ROLE_DESCRIPTIONS[role]}
+              </option>
+            `,
+          )}
+        </select>
+      `,
+    })}
+    ${Button({ children: "Save Changes", type: "submit" })}
+  </form>
+`;
+
+// Deactivate or reactivate button, with what it means for the user
+const AccountStatusCard = ({ user }: { user: UserWithStatus }) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Account Status</h2>
+        ${user.deactivatedAt
+          ? html`
+              <p class="text-base-content/70">
+                Deactivated on
+                ${new Date(user.deactivatedAt).toLocaleDateString()}. They can't
+                sign in until the account is reactivated.
+              </p>
+              <div>
+                <button
+                  class="btn btn-primary"
+                  data-on:click="@post('/admin/users/${user.id}/reactivate')"
+                >
+                  Reactivate
+                </button>
+              </div>
+            `
+          : html`
+              <p class="text-base-content/70">
+                Deactivating signs them out everywhere and stops them signing
+                in. Everything they added stays.
+              </p>
+              <div>
+                <button
+                  class="btn btn-secondary"
+                  data-on:click="confirm('Deactivate this account? They will be signed out straight away.') && @post('/admin/users/${user.id}/deactivate')"
+                >
+                  Deactivate
+                </button>
+              </div>
+            `}
+      </div>
+    `,
+  });
+
+// Delete form, asking who should take over the user's records
+const DeleteUserCard = ({
+  user,
+  others,
+  ownedRecords,
+  errors,
+}: {
+  user: UserWithStatus;
+  others: UserWithStatus[];
+  ownedRecords: number;
+  errors: FormErrors | null;
+}) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Delete User</h2>
+        <p class="text-base-content/70">
+          ${ownedRecords === 1
+            ? "They created 1 record."
+            : `They created ${ownedRecords} records.`}
+          Choose who takes them over, so nothing is lost when the account is
+          deleted.
+        </p>
+        <form
+          data-on:submit="confirm('Delete this account for good? This cannot be undone.') && @post('/admin/users/${user.id}/delete')"
+          data-signals="${JSON.stringify({ transferToId: "" })}"
+          class="space-y-4"
+        >
+          ${FormField({
+            label: "Hand records to",
+            htmlFor: "transferToId",
+            error: errors?.fieldErrors?.transferToId?.[0],
+            children: html`
+              <select
+                id="transferToId"
+                name="transferToId"
+                class="select select-bordered w-full"
+                data-bind="transferToId"
+                required
+              >
+                <option value="">Choose a user</option>
+                ${others.map(
+                  (other) => html`
+                    <option value="${other.id}">
+                      ${other.name || other.email}
+                    </option>
+                  `,
+                )}
+              </select>
+            `,
+          })}
+          ${Button({
+            children: "Delete User",
+            type: "submit",
+            variant: "error",
+          })}
+        </form>
+      </div>
+    `,
+  });
+
+// User detail content renderer (used by both GET and SSE)
+const renderAdminUserContent = (state: AdminUserPageState) => html`
+  <div id="admin-user-content" class="max-w-xl space-y-6">
+    ${state.formErrors?.formErrors?.length
+      ? html`<div class="alert alert-error">
+          ${state.formErrors.formErrors[0]}
+        </div>`
+      : ""}
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Details</h2>
+          <p class="text-base-content/70">${state.user.email}</p>
+          ${EditUserForm({ user: state.user, errors: state.formErrors })}
+        </div>
+      `,
+    })}
+    ${ApiTokensCard({
+      count: state.user.activeApiTokens,
+      action: `/admin/users/${state.user.id}/api-tokens/revoke`,
+      confirmText: "Revoke all of this user's API tokens?",
+      description: "Tokens this user created for scripts and other apps.",
+    })}
+    ${state.isSelf
+      ? ""
+      : html`
+          ${AccountStatusCard({ user: state.user })}
+          ${DeleteUserCard({
+            user: state.user,
+            others: state.others,
+            ownedRecords: state.ownedRecords,
+            errors: state.formErrors,
+          })}
+        `}
+  </div>
+`;
+
+// Loads a user's detail page state. Throws once the user has been deleted,
+// which sends open pages back to the users list.
+const loadAdminUserState = async (
+  adminUserId: string,
+  userId: string,
+  connectionId: string,
+): Promise<AdminUserPageState> => {
+  const [users, ownedRecords] = await Promise.all([
+    getAllUsersWithStatus(),
+    countOwnedRecords(userId),
+  ]);
+  const user = users.find((u) => u.id === userId);
+  if (!user) throw new Error("User not found");
+
+  return {
+    user,
+    isSelf: user.id === adminUserId,
+    others: users.filter((u) => u.id !== userId && !u.deactivatedAt),
+    ownedRecords,
+    formErrors: await formErrorStore.getErrors(connectionId),
+  };
+};
+
+// User detail form resource (the details form posts through it)
+const adminUserForm = createFormResource({
+  path: "",
+  schema: editUserSchema,
+  command: updateUserCommand,
+  data: (parsed, c) => ({ userId: c.req.param("id"), ...parsed }),
+  eventTypes: ["admin.*"],
+  errorRedirect: "/admin/users",
+  loadState: (user, c, cid) =>
+    loadAdminUserState(user.id, c.req.param("id"), cid),
+  render: renderAdminUserContent,
+});
+
+// User detail page
+adminRouter.get("/users/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+
+  let state: AdminUserPageState;
+  try {
+    state = await loadAdminUserState(user.id, id, "");
+  } catch {
+    return c.redirect("/admin/users");
+  }
+
+  const [notifications, unreadCount] = await Promise.all([
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  const userName = state.user.name || state.user.email;
+  return c.html(
+    AppLayout({
+      title: `${userName} - All Eyes on Mum`,
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        <div class="mb-6">
+          ${Button({
+            href: "/admin/users",
+            variant: "ghost",
+            children: "Back to Users",
+          })}
+        </div>
+        ${PageHeader({
+          title: userName,
+          description: "Change their details, or remove their access",
+        })}
+        ${adminUserForm.container(
+          renderAdminUserContent(state),
+          `/admin/users/${id}/sse`,
+        )}
+      `,
+    }),
+  );
+});
+
+// User detail SSE endpoint
+adminRouter.post("/users/:id/sse", adminUserForm.sseHandler);
+
+// Update a user's name and role
+adminRouter.post("/users/:id/update", adminUserForm.postHandler);
+
+// Deactivates a user, or reactivates them
+adminRouter.post("/users/:id/:status{deactivate|reactivate}", async (c) => {
+  const user = c.get("user")!;
+  const userId = c.req.param("id");
+
+  const targetUser = await findUserById(userId);
+  if (!targetUser) {
     return c.body(null, 204);
   }
 
-  commandStore.enqueue(regenerateInviteCommand, user, {
+  await commandStore.enqueue(setUserDeactivatedCommand, user, {
     userId,
     userName: targetUser.name || targetUser.email,
+    deactivated: c.req.param("status") === "deactivate",
   });
 
   return c.body(null, 204);
 });
 
+// Deletes a user, handing their records to another user
+adminRouter.post(
+  "/users/:id/delete",
+  handleFormPost({
+    schema: deleteUserSchema,
+    command: deleteUserCommand,
+    data: async (parsed, c) => {
+      const userId = c.req.param("id");
+      const targetUser = await findUserById(userId);
+      return {
+        userId,
+        userName: targetUser?.name || targetUser?.email || "The user",
+        transferToId: parsed.transferToId,
+      };
+    },
+  }),
+);
+
+// Invites page state type
+type AdminInvitesPageState = {
+  invites: PendingInvite[];
+  inviteResult: InviteResult | null;
+};
+
+// Describes how long an invite has left, e.g. "5h 20m left"
+const formatTimeLeft = (expiresAt: string): string => {
+  const minutes = Math.floor(
+    (new Date(expiresAt).getTime() - Date.now()) / (60 * 1000),
+  );
+
+  if (minutes < 0) return "Expired";
+  if (minutes < 60) return `${minutes}m left`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+};
+
+// Renders outstanding invites, with resend and revoke actions
+const InvitesTable = ({ invites }: { invites: PendingInvite[] }) => html`
+  <div class="overflow-x-auto">
+    <table class="table">
+      <thead>
+        <tr>
+          <th>Name</th>
+          <th>Email</th>
+          <th>Role</th>
+          <th>Sent</th>
+          <th>Expires</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${invites.map((invite) => {
+          const expired = new Date(invite.expiresAt) < new Date();
+          return html`
+            <tr>
+              <td>${invite.userName || "-"}</td>
+              <td>${invite.email}</td>
+              <td>${ROLE_LABELS[invite.role]}</td>
+              <td>
+                ${invite.createdAt
+                  ? new Date(invite.createdAt).toLocaleString()
+                  : "-"}
+                ${invite.emailedAt
+                  ? html`<span class="badge badge-ghost badge-sm"
+                      >Emailed</span
+                    >`
+                  : ""}
+              </td>
+              <td>
+                <span
+                  class="badge ${expired ? "badge-error" : "badge-warning"}"
+                  title="${new Date(invite.expiresAt).toLocaleString()}"
+                >
+                  ${formatTimeLeft(invite.expiresAt)}
+                </span>
+              </td>
+              <td>
+                <div class="flex items-center gap-2 justify-end">
+                  <button
+                    class="btn btn-xs btn-outline"
+                    data-on:click="@post('/admin/users/${invite.userId}/invite/email')"
+                  >
+                    Email New Link
+                  </button>
+                  <button
+                    class="btn btn-xs btn-ghost"
+                    data-on:click="@post('/admin/users/${invite.userId}/invite')"
+                  >
+                    New Link
+                  </button>
+                  ${expired
+                    ? ""
+                    : html`
+                        <button
+                          class="btn btn-xs btn-ghost text-error"
+                          data-on:click="confirm('Revoke this invite? The link will stop working.') && @post('/admin/users/${invite.userId}/invite/revoke')"
+                        >
+                          Revoke
+                        </button>
+                      `}
+                </div>
+              </td>
+            </tr>
+          `;
+        })}
+      </tbody>
+    </table>
+  </div>
+`;
+
+// Admin invites content renderer (used by both GET and SSE)
+const renderAdminInvitesContent = (state: AdminInvitesPageState) => html`
+  <div id="admin-invites-content">
+    ${state.inviteResult
+      ? InviteLinkAlert({ inviteResult: state.inviteResult })
+      : ""}
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Outstanding Invites</h2>
+          <p class="text-base-content/70">
+            Each invite link works once, for 24 hours. Making a new link stops
+            the old one working.
+          </p>
+          ${state.invites.length > 0
+            ? InvitesTable({ invites: state.invites })
+            : html`<p class="text-base-content/60">
+                Everyone invited has signed up.
+              </p>`}
+        </div>
+      `,
+    })}
+  </div>
+`;
+
+// Loads invites page state
+const loadAdminInvitesState = async (
+  adminUserId: string,
+): Promise<AdminInvitesPageState> => ({
+  invites: await getPendingInvites(),
+  inviteResult: await inviteUrlStore.consume(adminUserId),
+});
+
+// Invites page
+adminRouter.get("/invites", async (c) => {
+  const user = c.get("user")!;
+
+  const [state, notifications, unreadCount] = await Promise.all([
+    loadAdminInvitesState(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Invites - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Invites",
+          description: "Invite links that haven't been used yet",
+        })}
+        <div data-init="@get('/admin/invites/sse')">
+          ${renderAdminInvitesContent(state)}
+        </div>
+      `,
+    }),
+  );
+});
+
+// Invites SSE endpoint
+adminRouter.get(
+  "/invites/sse",
+  createSSEResource({
+    loadState: (user) => loadAdminInvitesState(user.id),
+    render: renderAdminInvitesContent,
+    eventTypes: ["admin.*"],
+  }),
+);
+
+// Validation schema for naming a household
+const householdSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+// Add member form validation schema
+const addHouseholdMemberSchema = z.object({
+  userId: z.string().min(1, "Choose someone to add"),
+});
+
+// Households page state type
+type AdminHouseholdsPageState = {
+  households: { household: Household; members: HouseholdMember[] }[];
+  formErrors: FormErrors | null;
+};
+
+// Form to add a household
+const CreateHouseholdForm = ({ errors }: { errors: FormErrors | null }) => html`
+  ${errors?.formErrors?.length
+    ? html`<div class="alert alert-error mb-4">${errors.formErrors[0]}</div>`
+    : ""}
+  <form
+    data-on:submit="@post('/admin/households/create')"
+    data-signals="${JSON.stringify({ name: "" })}"
+    class="space-y-4"
+  >
+    ${FormField({
+      label: "Who is being cared for?",
+      htmlFor: "name",
+      error: errors?.fieldErrors?.name?.[0],
+      children: html`
+        <input
+          type="text"
+          id="name"
+          name="name"
+          class="input input-bordered w-full"
+          placeholder="e.g. Dad"
+          data-bind="name"
+          required
+        />
+      `,
+    })}
+    <p class="text-base-content/60 text-sm">
+      You'll be added to it. Add everyone else who helps from its page.
+    </p>
+    ${Button({ children: "Add Household", type: "submit", variant: "primary" })}
+  </form>
+`;
+
+// Admin households content renderer (used by both GET and SSE)
+const renderAdminHouseholdsContent = (state: AdminHouseholdsPageState) => html`
+  <div id="admin-households-content" class="space-y-6">
+    <div class="max-w-md">
+      ${Card({
+        children: html`
+          <div class="card-body">
+            <h2 class="card-title">Add Household</h2>
+            ${CreateHouseholdForm({ errors: state.formErrors })}
+          </div>
+        `,
+      })}
+    </div>
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Households</h2>
+          <div class="overflow-x-auto">
+            <table class="table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Members</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                ${state.households.map(
+                  ({ household, members }) => html`
+                    <tr>
+                      <td>${household.name}</td>
+                      <td>
+                        ${members.length > 0
+                          ? members.map((m) => m.name || m.email).join(", ")
+                          : html`<span class="text-base-content/60"
+                              >Nobody yet</span
+                            >`}
+                      </td>
+                      <td>
+                        <a
+                          href="/admin/households/${household.id}"
+                          class="btn btn-ghost btn-xs"
+                          >Manage</a
+                        >
+                      </td>
+                    </tr>
+                  `,
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      `,
+    })}
+  </div>
+`;
+
+// Loads households page state
+const loadAdminHouseholdsState = async (
+  connectionId: string,
+): Promise<AdminHouseholdsPageState> => {
+  const households = await getAllHouseholds();
+  return {
+    households: await Promise.all(
+      households.map(async (household) => ({
+        household,
+        members: await getHouseholdMembers(household.id),
+      })),
+    ),
+    formErrors: await formErrorStore.getErrors(connectionId),
+  };
+};
+
+// Admin households form resource
+const adminHouseholdsForm = createFormResource({
+  path: "/admin/households/sse",
+  schema: householdSchema,
+  command: createHouseholdCommand,
+  eventTypes: ["admin.*"],
+  loadState: (_user, _c, cid) => loadAdminHouseholdsState(cid),
+  render: renderAdminHouseholdsContent,
+});
+
+// Admin households SSE endpoint
+adminRouter.post("/households/sse", adminHouseholdsForm.sseHandler);
+
+// Households page
+adminRouter.get("/households", async (c) => {
+  const user = c.get("user")!;
+
+  const [state, notifications, unreadCount] = await Promise.all([
+    loadAdminHouseholdsState(""),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Households - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Households",
+          description:
+            "Everyone the family cares for, and who can see each one",
+        })}
+        ${adminHouseholdsForm.container(renderAdminHouseholdsContent(state))}
+      `,
+    }),
+  );
+});
+
+// Create household handler
+adminRouter.post("/households/create", adminHouseholdsForm.postHandler);
+
+// Household detail page state type
+type AdminHouseholdPageState = {
+  household: Household;
+  members: HouseholdMember[];
+  // Users who aren't members yet
+  others: UserWithStatus[];
+  formErrors: FormErrors | null;
+};
+
+// Household members, with a button to remove each one
+const HouseholdMembersTable = ({
+  household,
+  members,
+}: {
+  household: Household;
+  members: HouseholdMember[];
+}) => html`
+  <div class="overflow-x-auto">
+    <table class="table">
+      <thead>
+        <tr>
+          <th>Name</th>
+          <th>Role</th>
+          <th>Joined</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${members.map(
+          (member) => html`
+            <tr>
+              <td>
+                ${member.name || member.email}
+                ${member.deactivated
+                  ? html`<span class="badge badge-error badge-sm ml-1"
+                      >Deactivated</span
+                    >`
+                  : ""}
+              </td>
+              <td>${ROLE_LABELS[member.role]}</td>
+              <td>${new Date(member.joinedAt).toLocaleDateString()}</td>
+              <td>
+                <button
+                  type="button"
+                  class="btn btn-ghost btn-xs text-error"
+                  data-on:click="confirm('Remove them from this household? They keep their account.') && @post('/admin/households/${household.id}/members/${member.userId}/remove')"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          `,
+        )}
+      </tbody>
+    </table>
+  </div>
+`;
+
+// Household detail content renderer (used by both GET and SSE)
+const renderAdminHouseholdContent = (state: AdminHouseholdPageState) => html`
+  <div id="admin-household-content" class="max-w-xl space-y-6">
+    ${state.formErrors?.formErrors?.length
+      ? html`<div class="alert alert-error">
+          ${state.formErrors.formErrors[0]}
+        </div>`
+      : ""}
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Name</h2>
+          <form
+            data-on:submit="@post('/admin/households/${state.household
+              .id}/rename')"
+            data-signals="${JSON.stringify({ name: state.household.name })}"
+            class="space-y-4"
+          >
+            ${FormField({
+              label: "Name",
+              htmlFor: "name",
+              error: state.formErrors?.fieldErrors?.name?.[0],
+              children: html`
+                <input
+                  type="text"
+                  id="name"
+                  name="name"
+                  class="input input-bordered w-full"
+                  data-bind="name"
+                  required
+                />
+              `,
+            })}
+            ${Button({ children: "Save Changes", type: "submit" })}
+          </form>
+        </div>
+      `,
+    })}
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Members</h2>
+          ${state.members.length > 0
+            ? HouseholdMembersTable(state)
+            : html`<p class="text-base-content/60">Nobody yet</p>`}
+          ${state.others.length > 0
+            ? html`
+                <form
+                  data-on:submit="@post('/admin/households/${state.household
+                    .id}/members/add')"
+                  data-signals="${JSON.stringify({ userId: "" })}"
+                  class="space-y-4 mt-4"
+                >
+                  ${FormField({
+                    label: "Add someone",
+                    htmlFor: "userId",
+                    error: state.formErrors?.fieldErrors?.userId?.[0],
+                    children: html`
+                      <select
+                        id="userId"
+                        name="userId"
+                        class="select select-bordered w-full"
+                        data-bind="userId"
+                        required
+                      >
+                        <option value="">Choose a user</option>
+                        ${state.others.map(
+                          (other) => html`
+                            <option value="${other.id}">
+                              ${other.name || other.email}
+                            </option>
+                          `,
+                        )}
+                      </select>
+                    `,
+                  })}
+                  ${Button({ children: "Add Member", type: "submit" })}
+                </form>
+              `
+            : ""}
+        </div>
+      `,
+    })}
+  </div>
+`;
+
+// Loads a household's detail page state. Throws once the household is gone,
+// which sends open pages back to the households list.
+const loadAdminHouseholdState = async (
+  householdId: string,
+  connectionId: string,
+): Promise<AdminHouseholdPageState> => {
+  const [household, members, users] = await Promise.all([
+    getHousehold(householdId),
+    getHouseholdMembers(householdId),
+    getAllUsersWithStatus(),
+  ]);
+  if (!household) throw new Error("Household not found");
+
+  const memberIds = new Set(members.map((m) => m.userId));
+  return {
+    household,
+    members,
+    others: users.filter((u) => !memberIds.has(u.id) && !u.deactivatedAt),
+    formErrors: await formErrorStore.getErrors(connectionId),
+  };
+};
+
+// Household detail form resource (the name form posts through it)
+const adminHouseholdForm = createFormResource({
+  path: "",
+  schema: householdSchema,
+  command: renameHouseholdCommand,
+  data: (parsed, c) => ({ householdId: c.req.param("id"), ...parsed }),
+  eventTypes: ["admin.*"],
+  errorRedirect: "/admin/households",
+  loadState: (_user, c, cid) => loadAdminHouseholdState(c.req.param("id"), cid),
+  render: renderAdminHouseholdContent,
+});
+
+// Household detail page
+adminRouter.get("/households/:id", async (c) => {
+  const user = c.get("user")!;
+  const id = c.req.param("id");
+
+  let state: AdminHouseholdPageState;
+  try {
+    state = await loadAdminHouseholdState(id, "");
+  } catch {
+    return c.redirect("/admin/households");
+  }
+
+  const [notifications, unreadCount] = await Promise.all([
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: `${state.household.name} - All Eyes on Mum`,
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        <div class="mb-6">
+          ${Button({
+            href: "/admin/households",
+            variant: "ghost",
+            children: "Back to Households",
+          })}
+        </div>
+        ${PageHeader({
+          title: state.household.name,
+          description: "Choose who can see this household's records",
+        })}
+        ${adminHouseholdForm.container(
+          renderAdminHouseholdContent(state),
+          `/admin/households/${id}/sse`,
+        )}
+      `,
+    }),
+  );
+});
+
+// Household detail SSE endpoint
+adminRouter.post("/households/:id/sse", adminHouseholdForm.sseHandler);
+
+// Rename a household
+adminRouter.post("/households/:id/rename", adminHouseholdForm.postHandler);
+
+// Adds a user to a household
+adminRouter.post(
+  "/households/:id/members/add",
+  handleFormPost({
+    schema: addHouseholdMemberSchema,
+    command: addHouseholdMemberCommand,
+    data: (parsed, c) => ({
+      householdId: c.req.param("id"),
+      userId: parsed.userId,
+    }),
+  }),
+);
+
+// Removes a user from a household
+adminRouter.post("/households/:id/members/:userId/remove", async (c) => {
+  await commandStore.enqueue(removeHouseholdMemberCommand, c.get("user")!, {
+    householdId: c.req.param("id"),
+    userId: c.req.param("userId"),
+  });
+
+  return c.body(null, 204);
+});
+
+// Failed sign-ins page state type
+type AdminLoginsPageState = {
+  lockouts: LoginLockout[];
+  failures: LoginFailure[];
+};
+
+// What each failure reason means
+const LOGIN_FAILURE_LABELS: Record<LoginFailureReason, string> = {
+  password: "Wrong password",
+  two_factor: "Wrong two-factor code",
+  locked: "Tried while locked",
+};
+
+// Renders the addresses that are locked out, with an unlock action
+const LockoutsTable = ({ lockouts }: { lockouts: LoginLockout[] }) => html`
+  <div class="overflow-x-auto">
+    <table class="table">
+      <thead>
+        <tr>
+          <th>Email</th>
+          <th>Failures in a row</th>
+          <th>Locked until</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${lockouts.map(
+          (lockout) => html`
+            <tr>
+              <td>${lockout.email}</td>
+              <td>${lockout.failures}</td>
+              <td>${new Date(lockout.lockedUntil).toLocaleString()}</td>
+              <td class="text-right">
+                <button
+                  class="btn btn-xs btn-outline"
+                  data-on:click="@post('/admin/logins/${encodeURIComponent(
+                    lockout.email,
+                  )}/unlock')"
+                >
+                  Unlock
+                </button>
+              </td>
+            </tr>
+          `,
+        )}
+      </tbody>
+    </table>
+  </div>
+`;
+
+// Renders recent failed sign-ins
+const LoginFailuresTable = ({ failures }: { failures: LoginFailure[] }) => html`
+  <div class="overflow-x-auto">
+    <table class="table table-sm">
+      <thead>
+        <tr>
+          <th>Time</th>
+          <th>Email</th>
+          <th>Reason</th>
+          <th>IP address</th>
+          <th>Device</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${failures.map(
+          (failure) => html`
+            <tr>
+              <td class="whitespace-nowrap">
+                ${new Date(failure.createdAt).toLocaleString()}
+              </td>
+              <td>
+                ${failure.email}
+                ${failure.userName
+                  ? html`<span class="text-base-content/60"
+                      >(${failure.userName})</span
+                    >`
+                  : html`<span class="badge badge-ghost badge-sm"
+                      >No account</span
+                    >`}
+              </td>
+              <td>${LOGIN_FAILURE_LABELS[failure.reason]}</td>
+              <td class="font-mono text-xs">${failure.ip}</td>
+              <td>${failure.device}</td>
+            </tr>
+          `,
+        )}
+      </tbody>
+    </table>
+  </div>
+`;
+
+// Failed sign-ins content renderer (used by both GET and SSE)
+const renderAdminLoginsContent = (state: AdminLoginsPageState) => html`
+  <div id="admin-logins-content" class="space-y-6">
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Locked Out</h2>
+          <p class="text-base-content/70">
+            After 5 failed sign-ins in a row an address is locked for a minute,
+            doubling with each further failure up to an hour. Passkeys and
+            password resets still work.
+          </p>
+          ${state.lockouts.length > 0
+            ? LockoutsTable({ lockouts: state.lockouts })
+            : html`<p class="text-base-content/60">Nobody is locked out.</p>`}
+        </div>
+      `,
+    })}
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Recent Failures</h2>
+          ${state.failures.length > 0
+            ? LoginFailuresTable({ failures: state.failures })
+            : html`<p class="text-base-content/60">
+                No failed sign-ins in the last 30 days.
+              </p>`}
+        </div>
+      `,
+    })}
+  </div>
+`;
+
+// Loads failed sign-ins page state
+const loadAdminLoginsState = async (): Promise<AdminLoginsPageState> => {
+  const [lockouts, failures] = await Promise.all([
+    getLoginLockouts(),
+    getRecentLoginFailures(),
+  ]);
+  return { lockouts, failures };
+};
+
+// Failed sign-ins page
+adminRouter.get("/logins", async (c) => {
+  const user = c.get("user")!;
+
+  const [state, notifications, unreadCount] = await Promise.all([
+    loadAdminLoginsState(),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Failed Sign-ins - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Failed Sign-ins",
+          description: "Wrong passwords and codes, and who is locked out",
+        })}
+        <div data-init="@get('/admin/logins/sse')">
+          ${renderAdminLoginsContent(state)}
+        </div>
+      `,
+    }),
+  );
+});
+
+// Failed sign-ins SSE endpoint
+adminRouter.get(
+  "/logins/sse",
+  createSSEResource({
+    loadState: loadAdminLoginsState,
+    render: renderAdminLoginsContent,
+    eventTypes: ["admin.*"],
+  }),
+);
+
+// Unlock a locked-out address
+adminRouter.post("/logins/:email/unlock", async (c) => {
+  await commandStore.enqueue(unlockLoginCommand, c.get("user")!, {
+    email: c.req.param("email"),
+  });
+
+  return c.body(null, 204);
+});
+
+// Command queue page state type
+type AdminCommandsPageState = {
+  stats: CommandQueueStats;
+  stuck: StoredCommand[];
+  failed: StoredCommand[];
+  userNames: Record<string, string>;
+};
+
+// Renders a table of queued commands, with a retry action for failed ones
+const CommandsTable = ({
+  commands,
+  userNames,
+}: {
+  commands: StoredCommand[];
+  userNames: Record<string, string>;
+}) => html`
+  <div class="overflow-x-auto">
+    <table class="table table-sm">
+      <thead>
+        <tr>
+          <th>Command</th>
+          <th>User</th>
+          <th>Status</th>
+          <th>Attempts</th>
+          <th>Last Error</th>
+          <th>Queued</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${commands.map(
+          (command) => html`
+            <tr>
+              <td><code class="text-xs">${command.type}</code></td>
+              <td>${userNames[command.userId] || command.userId}</td>
+              <td>
+                <span
+                  class="badge ${command.status === "failed"
+                    ? "badge-error"
+                    : "badge-warning"}"
+                >
+                  ${command.status}
+                </span>
+              </td>
+              <td>${command.attempts}</td>
+              <td class="max-w-xs truncate" title="${command.lastError || ""}">
+                ${command.lastError || "-"}
+              </td>
+              <td>${new Date(command.createdAt).toLocaleString("en-GB")}</td>
+              <td>
+                ${command.status === "failed"
+                  ? html`
+                      <button
+                        class="btn btn-xs btn-outline"
+                        data-on:click="@post('/admin/commands/${command.id}/retry')"
+                      >
+                        Retry
+                      </button>
+                    `
+                  : ""}
+              </td>
+            </tr>
+          `,
+        )}
+      </tbody>
+    </table>
+  </div>
+`;
+
+// Renders queue depth and recent latency
+const QueueStats = ({ stats }: { stats: CommandQueueStats }) => html`
+  <div class="stats stats-vertical md:stats-horizontal shadow w-full">
+    <div class="stat">
+      <div class="stat-title">Running</div>
+      <div class="stat-value">${stats.running}/${stats.concurrency}</div>
+      <div class="stat-desc">${stats.processed} processed since start</div>
+    </div>
+    <div class="stat">
+      <div class="stat-title">Queued</div>
+      <div class="stat-value">${stats.queued}</div>
+      <div class="stat-desc">${stats.delayed} waiting on a retry</div>
+    </div>
+    <div class="stat">
+      <div class="stat-title">Wait (p50 / p95)</div>
+      <div class="stat-value text-lg">
+        ${stats.wait.p50}ms / ${stats.wait.p95}ms
+      </div>
+      <div class="stat-desc">Longest ${stats.wait.max}ms</div>
+    </div>
+    <div class="stat">
+      <div class="stat-title">Run time (p50 / p95)</div>
+      <div class="stat-value text-lg">
+        ${stats.run.p50}ms / ${stats.run.p95}ms
+      </div>
+      <div class="stat-desc">Longest ${stats.run.max}ms</div>
+    </div>
+  </div>
+`;
+
+// Admin command queue content renderer (used by both GET and SSE)
+const renderAdminCommandsContent = (state: AdminCommandsPageState) => html`
+  <div id="admin-commands-content" class="space-y-6">
+    ${QueueStats({ stats: state.stats })}
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Stuck or Retrying</h2>
+          <p class="text-sm text-base-content/60">
+            Commands waiting on a retry, or running for more than five minutes.
+          </p>
+          ${state.stuck.length > 0
+            ? CommandsTable({
+                commands: state.stuck,
+                userNames: state.userNames,
+              })
+            : html`<p class="text-base-content/60">Nothing stuck</p>`}
+        </div>
+      `,
+    })}
+    ${Card({
+      children: html`
+        <div class="card-body">
+          <h2 class="card-title">Failed</h2>
+          <p class="text-sm text-base-content/60">
+            Commands that ran out of retries. Retrying runs them again from
+            scratch.
+          </p>
+          ${state.failed.length > 0
+            ? CommandsTable({
+                commands: state.failed,
+                userNames: state.userNames,
+              })
+            : html`<p class="text-base-content/60">No failed commands</p>`}
+        </div>
+      `,
+    })}
+  </div>
+`;
+
+// Loads command queue page state
+const loadAdminCommandsState = async (): Promise<AdminCommandsPageState> => {
+  const [stats, stuck, failed, users] = await Promise.all([
+    commandStore.getStats(),
+    getStuckCommands(),
+    getFailedCommands(),
+    getAllUsers(),
+  ]);
+  return {
+    stats,
+    stuck,
+    failed,
+    userNames: Object.fromEntries(
+      users.map((user) => [user.id, user.name || user.email]),
+    ),
+  };
+};
+
+// Command queue page
+adminRouter.get("/commands", async (c) => {
+  const user = c.get("user")!;
+
+  const [state, notifications, unreadCount] = await Promise.all([
+    loadAdminCommandsState(),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Command Queue - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Command Queue",
+          description:
+            "Queue depth and latency, and commands that are stuck or have failed for good",
+        })}
+        <div data-init="@get('/admin/commands/sse')">
+          ${renderAdminCommandsContent(state)}
+        </div>
+      `,
+    }),
+  );
+});
+
+// Command queue SSE endpoint
+adminRouter.get(
+  "/commands/sse",
+  createSSEResource({
+    loadState: loadAdminCommandsState,
+    render: renderAdminCommandsContent,
+    eventTypes: ["admin.*"],
+  }),
+);
+
+// Requeue a failed command
+adminRouter.post("/commands/:id/retry", async (c) => {
+  const user = c.get("user")!;
+  const commandId = c.req.param("id");
+
+  const command = await getCommand(commandId);
+  if (!command || command.status !== "failed") {
+    return c.body(null, 204);
+  }
+
+  await commandStore.enqueue(retryCommandCommand, user, {
+    commandId,
+    commandType: command.type,
+  });
+
+  return c.body(null, 204);
+});
+
+// Audit log filters, taken from the query string
+type AuditFilters = {
+  userId: string;
+  entityType: string;
+  from: string;
+  to: string;
+};
+
+// Renders the audit log filter form (plain GET so filters are bookmarkable)
+const AuditFilterForm = ({
+  filters,
+  users,
+  entityTypes,
+}: {
+  filters: AuditFilters;
+  users: { id: string; name: string }[];
+  entityTypes: string[];
+}) => html`
+  <form method="get" action="/admin/audit" class="card-body">
+    <div class="grid grid-cols-1 md:grid-cols-4 gap-4">
+      ${FormField({
+        label: "User",
+        htmlFor: "userId",
+        children: html`
+          <select id="userId" name="userId" class="select select-bordered">
+            <option value="">All users</option>
+            ${users.map(
+              (user) => html`
+                <option
+                  value="${user.id}"
+                  ${filters.userId === user.id ? "selected" : ""}
+                >
+                  ${user.name}
+                </option>
+              `,
+            )}
+          </select>
+        `,
+      })}
+      ${FormField({
+        label: "Entity type",
+        htmlFor: "entityType",
+        children: html`
+          <select
+            id="entityType"
+            name="entityType"
+            class="select select-bordered"
+          >
+            <option value="">All types</option>
+            ${entityTypes.map(
+              (type) => html`
+                <option
+                  value="${type}"
+                  ${filters.entityType === type ? "selected" : ""}
+                >
+                  ${type}
+                </option>
+              `,
+            )}
+          </select>
+        `,
+      })}
+      ${FormField({
+        label: "From",
+        htmlFor: "from",
+        children: html`
+          <input
+            type="date"
+            id="from"
+            name="from"
+            value="${filters.from}"
+            class="input input-bordered"
+          />
+        `,
+      })}
+      ${FormField({
+        label: "To",
+        htmlFor: "to",
+        children: html`
+          <input
+            type="date"
+            id="to"
+            name="to"
+            value="${filters.to}"
+            class="input input-bordered"
+          />
+        `,
+      })}
+    </div>
+    <div class="card-actions justify-end mt-4">
+      <a href="/admin/audit" class="btn btn-ghost">Clear</a>
+      ${Button({ type: "submit", children: "Filter" })}
+    </div>
+  </form>
+`;
+
+// Renders audit log entries
+const AuditTable = ({ entries }: { entries: AuditEntry[] }) => html`
+  <div class="overflow-x-auto">
+    <table class="table table-sm">
+      <thead>
+        <tr>
+          <th>When</th>
+          <th>User</th>
+          <th>Command</th>
+          <th>Entity</th>
+          <th>Payload</th>
+          <th>Duration</th>
+          <th>Outcome</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${entries.map(
+          (entry) => html`
+            <tr>
+              <td class="whitespace-nowrap">
+                ${new Date(entry.createdAt).toLocaleString("en-GB")}
+              </td>
+              <td>${entry.userName || entry.userId}</td>
+              <td><code class="text-xs">${entry.commandType}</code></td>
+              <td>
+                ${entry.entityType}
+                ${entry.entityId
+                  ? html`<code class="text-xs">${entry.entityId}</code>`
+                  : ""}
+              </td>
+              <td class="max-w-xs">
+                <details>
+                  <summary class="cursor-pointer text-xs">View</summary>
+                  <pre class="text-xs whitespace-pre-wrap">
+${JSON.stringify(entry.payload, null, 2)}</pre
+                  >
+                  ${entry.result
+                    ? html`<pre class="text-xs whitespace-pre-wrap">
+${JSON.stringify(entry.result, null, 2)}</pre
+                      >`
+                    : ""}
+                </details>
+              </td>
+              <td>${entry.durationMs}ms</td>
+              <td>
+                ${entry.success
+                  ? html`<span class="badge badge-success">ok</span>`
+                  : html`<span
+                      class="badge badge-error"
+                      title="${entry.error || ""}"
+                      >failed</span
+                    >`}
+              </td>
+            </tr>
+          `,
+        )}
+      </tbody>
+    </table>
+  </div>
+`;
+
+// Audit log page
+adminRouter.get("/audit", async (c) => {
+  const user = c.get("user")!;
+  const filters: AuditFilters = {
+    userId: c.req.query("userId") || "",
+    entityType: c.req.query("entityType") || "",
+    from: c.req.query("from") || "",
+    to: c.req.query("to") || "",
+  };
+
+  const [entries, entityTypes, users, notifications, unreadCount] =
+    await Promise.all([
+      getAuditEntries(filters),
+      getAuditEntityTypes(),
+      getAllUsers(),
+      getNotifications(user.id, user.householdId, 5),
+      getUnreadCount(user.id, user.householdId),
+    ]);
+
+  return c.html(
+    AppLayout({
+      title: "Audit Log - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Audit Log",
+          description: "Every command run, who ran it and what it changed",
+        })}
+        <div class="space-y-6">
+          ${Card({
+            children: AuditFilterForm({
+              filters,
+              users: users.map((u) => ({ id: u.id, name: u.name || u.email })),
+              entityTypes,
+            }),
+          })}
+          ${Card({
+            children: html`
+              <div class="card-body">
+                ${entries.length > 0
+                  ? AuditTable({ entries })
+                  : html`<p class="text-base-content/60">
+                      No matching entries
+                    </p>`}
+              </div>
+            `,
+          })}
+        </div>
+      `,
+    }),
+  );
+});
+
 // Manually trigger the daily reminder job for testing
 adminRouter.post("/jobs/run-reminders", async (c) => {
   try {
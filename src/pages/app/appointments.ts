@@ -12,10 +12,18 @@ import {
   getPastAppointments,
   getUpcomingAppointments,
 } from "../../lib/appointments/index.ts";
+import { getEntityHistory, getLastChangedBy } from "../../lib/audit/index.ts";
+import {
+  canEdit,
+  editorRoles,
+  requireRole,
+  viewerRoles,
+} from "../../lib/auth/index.ts";
 import {
   commandStore,
   createFormResource,
   createSSEResource,
+  formConflictStore,
   formErrorStore,
   handleFormPost,
 } from "../../lib/cqrs/index.ts";
@@ -25,12 +33,26 @@ import {
   getUnreadCount,
 } from "../../lib/notifications/index.ts";
 import type { Appointment, AppointmentType } from "../../types/appointment.ts";
+import type { AuditEntry } from "../../types/audit.ts";
 import type { HonoContext } from "../../types/hono.ts";
-import { Button, Card, FormField, PageHeader } from "../../ui/index.ts";
+import {
+  AuditHistory,
+  Button,
+  Card,
+  ConflictNotice,
+  FormField,
+  PageHeader,
+} from "../../ui/index.ts";
 import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const appointmentsRouter = new Hono<HonoContext>();
 
+// Only roles that may see appointments can open these pages
+appointmentsRouter.use("*", requireRole(...viewerRoles("appointments")));
+
+// Viewers can see appointments but not add, change or delete them
+const requireEditor = requireRole(...editorRoles("appointments"));
+
 // Appointment form validation schema
 const appointmentFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -56,6 +78,10 @@ const appointmentFormSchema = z.object({
       const num = parseInt(val, 10);
       return isNaN(num) ? 1 : num;
     }),
+  expectedUpdatedAt: z
+    .string()
+    .optional()
+    .transform((val) => val || undefined),
 });
 
 // Type display labels
@@ -215,6 +241,34 @@ const AppointmentsList = (
   `;
 };
 
+// Form field labels, keyed by signal name (used to describe edit conflicts)
+const APPOINTMENT_FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  type: "Type",
+  datetime: "Date & Time",
+  endTime: "End Time",
+  location: "Location",
+  reminderDays: "Reminder Days Before",
+  description: "Description",
+};
+
+// Maps an appointment to the appointment form's signal values
+const appointmentFormSignals = (
+  appointment?: Appointment,
+): Record<string, string> => ({
+  title: appointment?.title || "",
+  description: appointment?.description || "",
+  datetime: appointment?.datetime
+    ? formatDateTimeForInput(appointment.datetime)
+    : "",
+  endTime: appointment?.endTime
+    ? formatDateTimeForInput(appointment.endTime)
+    : "",
+  location: appointment?.location || "",
+  type: appointment?.type || "other",
+  reminderDays: appointment?.reminderDays?.toString() || "1",
+});
+
 // Renders the appointment form (create/edit)
 const AppointmentForm = (props: {
   appointment?: Appointment;
@@ -231,17 +285,8 @@ const AppointmentForm = (props: {
     <form
       data-on:submit="@post('${action}')"
       data-signals="${JSON.stringify({
-        title: appointment?.title || "",
-        description: appointment?.description || "",
-        datetime: appointment?.datetime
-          ? formatDateTimeForInput(appointment.datetime)
-          : "",
-        endTime: appointment?.endTime
-          ? formatDateTimeForInput(appointment.endTime)
-          : "",
-        location: appointment?.location || "",
-        type: appointment?.type || "other",
-        reminderDays: appointment?.reminderDays?.toString() || "1",
+        ...appointmentFormSignals(appointment),
+        expectedUpdatedAt: appointment?.updatedAt || "",
       })}"
     >
       <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -415,6 +460,8 @@ type AppointmentsPageState = {
 
 type AppointmentDetailPageState = {
   appointment: Appointment;
+  history: AuditEntry[];
+  canEdit: boolean;
 };
 
 // Appointments list content renderer
@@ -538,10 +585,10 @@ appointmentsRouter.get("/", async (c) => {
   const user = c.get("user")!;
   const [upcomingAppointments, pastAppointments, notifications, unreadCount] =
     await Promise.all([
-      getUpcomingAppointments(30),
-      getPastAppointments(10),
-      getNotifications(user.id, 5),
-      getUnreadCount(user.id),
+      getUpcomingAppointments(user.householdId!, 30),
+      getPastAppointments(user.householdId!, 10),
+      getNotifications(user.id, user.householdId, 5),
+      getUnreadCount(user.id, user.householdId),
     ]);
 
   return c.html(
@@ -555,12 +602,14 @@ appointmentsRouter.get("/", async (c) => {
           title: "Appointments",
           description: "Track where Mum needs to be and when",
         })}
-        <div class="mb-6">
-          ${Button({
-            href: "/app/appointments/new",
-            children: "Add Appointment",
-          })}
-        </div>
+        ${canEdit(user, "appointments")
+          ? html`<div class="mb-6">
+              ${Button({
+                href: "/app/appointments/new",
+                children: "Add Appointment",
+              })}
+            </div>`
+          : ""}
         <div data-init="@get('/app/appointments/sse')">
           ${renderAppointmentsContent({
             upcomingAppointments,
@@ -576,10 +625,10 @@ appointmentsRouter.get("/", async (c) => {
 appointmentsRouter.get(
   "/sse",
   createSSEResource({
-    loadState: async (): Promise<AppointmentsPageState> => {
+    loadState: async (user): Promise<AppointmentsPageState> => {
       const [upcomingAppointments, pastAppointments] = await Promise.all([
-        getUpcomingAppointments(30),
-        getPastAppointments(10),
+        getUpcomingAppointments(user.householdId!, 30),
+        getPastAppointments(user.householdId!, 10),
       ]);
       return { upcomingAppointments, pastAppointments };
     },
@@ -594,6 +643,11 @@ type AppointmentFormPageState = {
   action: string;
   submitLabel: string;
   formErrors: FormErrors | null;
+  conflict?: {
+    changedBy: string | null;
+    mine: Record<string, string>;
+    theirs: Record<string, string>;
+  } | null;
 };
 
 // Appointment form content renderer (used by SSE for create/edit pages)
@@ -602,6 +656,13 @@ const renderAppointmentFormContent = (state: AppointmentFormPageState) => html`
     ${Card({
       children: html`
         <div class="card-body">
+          ${state.conflict && state.appointment
+            ? ConflictNotice({
+                ...state.conflict,
+                labels: APPOINTMENT_FIELD_LABELS,
+                discardHref: `/app/appointments/${state.appointment.id}/edit`,
+              })
+            : ""}
           ${AppointmentForm({
             appointment: state.appointment,
             action: state.action,
@@ -626,27 +687,54 @@ const appointmentFormResource = createFormResource({
   }),
   eventTypes: ["appointment.*"],
   successRedirect: "/app/appointments",
-  loadState: async (_user, c, cid) => {
+  loadState: async (user, c, cid) => {
     const editId = c.req.query("editId");
-    const appointment = editId ? await getAppointment(editId) : undefined;
+    const current = editId
+      ? await getAppointment(editId, user.householdId!)
+      : null;
+    const conflict = current ? await formConflictStore.getConflict(cid) : null;
+
+    // After a stale write, show the user's submission on top of the newer version
+    const appointment =
+      current && conflict
+        ? ({ ...current, ...conflict.submitted } as Appointment)
+        : current;
+
     return {
       appointment: appointment || undefined,
       action: editId ? `/app/appointments/${editId}` : "/app/appointments",
       submitLabel: editId ? "Save Changes" : "Add Appointment",
-      formErrors: formErrorStore.getErrors(cid),
+      formErrors: await formErrorStore.getErrors(cid),
+      conflict:
+        current && conflict
+          ? {
+              changedBy: await getLastChangedBy(
+                "appointment",
+                current.id,
+                String(conflict.submitted.expectedUpdatedAt ?? ""),
+                user.id,
+              ),
+              mine: appointmentFormSignals(appointment || undefined),
+              theirs: appointmentFormSignals(current),
+            }
+          : null,
     };
   },
   render: renderAppointmentFormContent,
 });
 
-appointmentsRouter.post("/form/sse", appointmentFormResource.sseHandler);
+appointmentsRouter.post(
+  "/form/sse",
+  requireEditor,
+  appointmentFormResource.sseHandler,
+);
 
 // New appointment page
-appointmentsRouter.get("/new", async (c) => {
+appointmentsRouter.get("/new", requireEditor, async (c) => {
   const user = c.get("user")!;
   const [notifications, unreadCount] = await Promise.all([
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -673,7 +761,11 @@ appointmentsRouter.get("/new", async (c) => {
 });
 
 // Create appointment
-appointmentsRouter.post("/", appointmentFormResource.postHandler);
+appointmentsRouter.post(
+  "/",
+  requireEditor,
+  appointmentFormResource.postHandler,
+);
 
 // Appointment detail content renderer
 const renderAppointmentDetailContent = (state: AppointmentDetailPageState) => {
@@ -771,28 +863,31 @@ const renderAppointmentDetailContent = (state: AppointmentDetailPageState) => {
                     </div>
                   `
                 : ""}
+              ${state.canEdit
+                ? html`
+                    <div class="divider"></div>
 
-              <div class="divider"></div>
-
-              <div class="flex gap-2">
-                <a
-                  href="/app/appointments/${appointment.id}/edit"
-                  class="btn btn-ghost"
-                  >Edit</a
-                >
-                <button
-                  type="button"
-                  class="btn btn-ghost btn-error"
-                  onclick="document.getElementById('delete-modal').showModal()"
-                >
-                  Delete
-                </button>
-              </div>
+                    <div class="flex gap-2">
+                      <a
+                        href="/app/appointments/${appointment.id}/edit"
+                        class="btn btn-ghost"
+                        >Edit</a
+                      >
+                      <button
+                        type="button"
+                        class="btn btn-ghost btn-error"
+                        onclick="document.getElementById('delete-modal').showModal()"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  `
+                : ""}
             </div>
           </div>
         </div>
 
-        <div>
+        <div class="space-y-4">
           <div class="card bg-base-100 shadow-xl">
             <div class="card-body">
               <h3 class="card-title text-base">Details</h3>
@@ -812,10 +907,11 @@ const renderAppointmentDetailContent = (state: AppointmentDetailPageState) => {
               </dl>
             </div>
           </div>
+          ${AuditHistory({ entries: state.history })}
         </div>
       </div>
 
-      ${DeleteConfirmModal(appointment)}
+      ${state.canEdit ? DeleteConfirmModal(appointment) : ""}
     </div>
   `;
 };
@@ -825,10 +921,11 @@ appointmentsRouter.get("/:id", async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  const [appointment, notifications, unreadCount] = await Promise.all([
-    getAppointment(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+  const [appointment, history, notifications, unreadCount] = await Promise.all([
+    getAppointment(id, user.householdId!),
+    getEntityHistory("appointment", id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!appointment) {
@@ -869,6 +966,8 @@ appointmentsRouter.get("/:id", async (c) => {
         <div data-init="@get('/app/appointments/${id}/sse')">
           ${renderAppointmentDetailContent({
             appointment,
+            history,
+            canEdit: canEdit(user, "appointments"),
           })}
         </div>
       `,
@@ -881,12 +980,15 @@ appointmentsRouter.get("/:id/sse", async (c) => {
   const id = c.req.param("id");
 
   return createSSEResource({
-    loadState: async (): Promise<AppointmentDetailPageState> => {
-      const appointment = await getAppointment(id);
+    loadState: async (user): Promise<AppointmentDetailPageState> => {
+      const [appointment, history] = await Promise.all([
+        getAppointment(id, user.householdId!),
+        getEntityHistory("appointment", id),
+      ]);
       if (!appointment) {
         throw new Error("Appointment not found");
       }
-      return { appointment };
+      return { appointment, history, canEdit: canEdit(user, "appointments") };
     },
     render: renderAppointmentDetailContent,
     eventTypes: ["appointment.*"],
@@ -895,14 +997,14 @@ appointmentsRouter.get("/:id/sse", async (c) => {
 });
 
 // Edit appointment page
-appointmentsRouter.get("/:id/edit", async (c) => {
+appointmentsRouter.get("/:id/edit", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
   const [appointment, notifications, unreadCount] = await Promise.all([
-    getAppointment(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getAppointment(id, user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!appointment) {
@@ -937,6 +1039,7 @@ appointmentsRouter.get("/:id/edit", async (c) => {
 // Update appointment
 appointmentsRouter.post(
   "/:id",
+  requireEditor,
   handleFormPost({
     schema: appointmentFormSchema,
     command: updateAppointmentCommand,
@@ -950,11 +1053,11 @@ appointmentsRouter.post(
 );
 
 // Delete appointment
-appointmentsRouter.post("/:id/delete", async (c) => {
+appointmentsRouter.post("/:id/delete", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(deleteAppointmentCommand, user, { id });
+  await commandStore.enqueue(deleteAppointmentCommand, user, { id });
 
   return c.body(null, 204);
 });
@@ -1,6 +1,12 @@
 import { Hono } from "hono";
 import { html } from "hono/html";
 import { z } from "zod";
+import {
+  canEdit,
+  editorRoles,
+  requireRole,
+  viewerRoles,
+} from "../../lib/auth/index.ts";
 import {
   createBillCommand,
   deleteBillCommand,
@@ -36,6 +42,12 @@ import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const billsRouter = new Hono<HonoContext>();
 
+// Only roles that may see bills can open these pages
+billsRouter.use("*", requireRole(...viewerRoles("finances")));
+
+// Viewers can see bills but not add, change or delete them
+const requireEditor = requireRole(...editorRoles("finances"));
+
 // Bill form validation schema
 const billFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -511,6 +523,7 @@ type BillDetailPageState = {
   bill: Bill;
   payments: BillPayment[];
   formErrors: FormErrors | null;
+  canEdit: boolean;
 };
 
 // Bills list content renderer
@@ -526,9 +539,9 @@ const renderBillsContent = (state: BillsPageState) => html`
 billsRouter.get("/", async (c) => {
   const user = c.get("user")!;
   const [bills, notifications, unreadCount] = await Promise.all([
-    getAllBills(),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getAllBills(user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -542,9 +555,11 @@ billsRouter.get("/", async (c) => {
           title: "Bills & Renewals",
           description: "Track what's owed and when it's due",
         })}
-        <div class="mb-6">
-          ${Button({ href: "/app/bills/new", children: "Add Bill" })}
-        </div>
+        ${canEdit(user, "finances")
+          ? html`<div class="mb-6">
+              ${Button({ href: "/app/bills/new", children: "Add Bill" })}
+            </div>`
+          : ""}
         <div data-init="@get('/app/bills/sse')">
           ${renderBillsContent({ bills })}
         </div>
@@ -557,8 +572,8 @@ billsRouter.get("/", async (c) => {
 billsRouter.get(
   "/sse",
   createSSEResource({
-    loadState: async (): Promise<BillsPageState> => {
-      const bills = await getAllBills();
+    loadState: async (user): Promise<BillsPageState> => {
+      const bills = await getAllBills(user.householdId!);
       return { bills };
     },
     render: renderBillsContent,
@@ -599,27 +614,27 @@ const billFormResource = createFormResource({
   command: createBillCommand,
   eventTypes: ["bill.*"],
   successRedirect: "/app/bills",
-  loadState: async (_user, c, cid) => {
+  loadState: async (user, c, cid) => {
     const editId = c.req.query("editId");
-    const bill = editId ? await getBill(editId) : undefined;
+    const bill = editId ? await getBill(editId, user.householdId!) : undefined;
     return {
       bill: bill || undefined,
       action: editId ? `/app/bills/${editId}` : "/app/bills",
       submitLabel: editId ? "Save Changes" : "Add Bill",
-      formErrors: formErrorStore.getErrors(cid),
+      formErrors: await formErrorStore.getErrors(cid),
     };
   },
   render: renderBillFormContent,
 });
 
-billsRouter.post("/form/sse", billFormResource.sseHandler);
+billsRouter.post("/form/sse", requireEditor, billFormResource.sseHandler);
 
 // New bill page
-billsRouter.get("/new", async (c) => {
+billsRouter.get("/new", requireEditor, async (c) => {
   const user = c.get("user")!;
   const [notifications, unreadCount] = await Promise.all([
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -646,7 +661,7 @@ billsRouter.get("/new", async (c) => {
 });
 
 // Create bill
-billsRouter.post("/", billFormResource.postHandler);
+billsRouter.post("/", requireEditor, billFormResource.postHandler);
 
 // Bill detail content renderer
 const renderBillDetailContent = (state: BillDetailPageState) => {
@@ -706,21 +721,24 @@ const renderBillDetailContent = (state: BillDetailPageState) => {
                     </div>
                   `
                 : ""}
+              ${state.canEdit
+                ? html`
+                    <div class="divider"></div>
 
-              <div class="divider"></div>
-
-              <div class="flex gap-2">
-                <a href="/app/bills/${bill.id}/edit" class="btn btn-ghost"
-                  >Edit</a
-                >
-                <button
-                  type="button"
-                  class="btn btn-ghost btn-error"
-                  onclick="document.getElementById('delete-modal').showModal()"
-                >
-                  Delete
-                </button>
-              </div>
+                    <div class="flex gap-2">
+                      <a href="/app/bills/${bill.id}/edit" class="btn btn-ghost"
+                        >Edit</a
+                      >
+                      <button
+                        type="button"
+                        class="btn btn-ghost btn-error"
+                        onclick="document.getElementById('delete-modal').showModal()"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  `
+                : ""}
             </div>
           </div>
 
@@ -732,24 +750,28 @@ const renderBillDetailContent = (state: BillDetailPageState) => {
           </div>
         </div>
 
-        <div>
-          <div class="card bg-base-100 shadow-xl">
-            <div class="card-body">
-              <h3 class="card-title">Record Payment</h3>
-              <p class="text-sm text-base-content/60 mb-4">
-                Mark this bill as paid. The due date will automatically advance
-                based on the frequency.
-              </p>
-              ${PaymentForm({
-                bill,
-                errors: state.formErrors,
-              })}
-            </div>
-          </div>
-        </div>
+        ${state.canEdit
+          ? html`
+              <div>
+                <div class="card bg-base-100 shadow-xl">
+                  <div class="card-body">
+                    <h3 class="card-title">Record Payment</h3>
+                    <p class="text-sm text-base-content/60 mb-4">
+                      Mark this bill as paid. The due date will automatically
+                      advance based on the frequency.
+                    </p>
+                    ${PaymentForm({
+                      bill,
+                      errors: state.formErrors,
+                    })}
+                  </div>
+                </div>
+              </div>
+            `
+          : ""}
       </div>
 
-      ${DeleteConfirmModal(bill)}
+      ${state.canEdit ? DeleteConfirmModal(bill) : ""}
     </div>
   `;
 };
@@ -766,12 +788,17 @@ const billDetailResource = createFormResource({
   }),
   eventTypes: ["bill.*", "notification.*"],
   errorRedirect: "/app/bills",
-  loadState: async (_user, c, cid) => {
+  loadState: async (user, c, cid) => {
     const id = c.req.param("id");
-    const bill = await getBill(id);
+    const bill = await getBill(id, user.householdId!);
     if (!bill) throw new Error("Bill not found");
     const payments = await getBillPayments(id);
-    return { bill, payments, formErrors: formErrorStore.getErrors(cid) };
+    return {
+      bill,
+      payments,
+      formErrors: await formErrorStore.getErrors(cid),
+      canEdit: canEdit(user, "finances"),
+    };
   },
   render: renderBillDetailContent,
 });
@@ -782,9 +809,9 @@ billsRouter.get("/:id", async (c) => {
   const id = c.req.param("id");
 
   const [bill, notifications, unreadCount] = await Promise.all([
-    getBill(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getBill(id, user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!bill) {
@@ -825,7 +852,12 @@ billsRouter.get("/:id", async (c) => {
           })}
         </div>
         ${billDetailResource.container(
-          renderBillDetailContent({ bill, payments, formErrors: null }),
+          renderBillDetailContent({
+            bill,
+            payments,
+            formErrors: null,
+            canEdit: canEdit(user, "finances"),
+          }),
           `/app/bills/${id}/sse`,
         )}
       `,
@@ -837,14 +869,14 @@ billsRouter.get("/:id", async (c) => {
 billsRouter.post("/:id/sse", billDetailResource.sseHandler);
 
 // Edit bill page
-billsRouter.get("/:id/edit", async (c) => {
+billsRouter.get("/:id/edit", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
   const [bill, notifications, unreadCount] = await Promise.all([
-    getBill(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getBill(id, user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!bill) {
@@ -879,6 +911,7 @@ billsRouter.get("/:id/edit", async (c) => {
 // Update bill
 billsRouter.post(
   "/:id",
+  requireEditor,
   handleFormPost({
     schema: billFormSchema,
     command: updateBillCommand,
@@ -887,14 +920,14 @@ billsRouter.post(
 );
 
 // Mark bill as paid
-billsRouter.post("/:id/pay", billDetailResource.postHandler);
+billsRouter.post("/:id/pay", requireEditor, billDetailResource.postHandler);
 
 // Delete bill
-billsRouter.post("/:id/delete", async (c) => {
+billsRouter.post("/:id/delete", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(deleteBillCommand, user, { id });
+  await commandStore.enqueue(deleteBillCommand, user, { id });
 
   return c.body(null, 204);
 });
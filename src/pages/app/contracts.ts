@@ -1,11 +1,18 @@
 import { Hono } from "hono";
 import { html } from "hono/html";
 import { z } from "zod";
+import {
+  canEdit,
+  editorRoles,
+  requireRole,
+  viewerRoles,
+} from "../../lib/auth/index.ts";
 import {
   createContractCommand,
   deleteContractCommand,
   updateContractCommand,
 } from "../../lib/contracts/commands.ts";
+import { getEntityHistory, getLastChangedBy } from "../../lib/audit/index.ts";
 import {
   getAllContracts,
   getContract,
@@ -15,6 +22,7 @@ import {
   commandStore,
   createFormResource,
   createSSEResource,
+  formConflictStore,
   formErrorStore,
   handleFormPost,
 } from "../../lib/cqrs/index.ts";
@@ -23,17 +31,31 @@ import {
   getNotifications,
   getUnreadCount,
 } from "../../lib/notifications/index.ts";
+import type { AuditEntry } from "../../types/audit.ts";
 import type {
   Contract,
   ContractCategory,
   PaymentMethod,
 } from "../../types/contract.ts";
 import type { HonoContext } from "../../types/hono.ts";
-import { Button, Card, FormField, PageHeader } from "../../ui/index.ts";
+import {
+  AuditHistory,
+  Button,
+  Card,
+  ConflictNotice,
+  FormField,
+  PageHeader,
+} from "../../ui/index.ts";
 import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const contractsRouter = new Hono<HonoContext>();
 
+// Only roles that may see contracts can open these pages
+contractsRouter.use("*", requireRole(...viewerRoles("finances")));
+
+// Viewers can see contracts but not add, change or delete them
+const requireEditor = requireRole(...editorRoles("finances"));
+
 // Contract form validation schema
 const contractFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -73,6 +95,10 @@ const contractFormSchema = z.object({
     .string()
     .optional()
     .transform((val) => val || null),
+  expectedUpdatedAt: z
+    .string()
+    .optional()
+    .transform((val) => val || undefined),
 });
 
 // Category display labels
@@ -232,6 +258,32 @@ const ContractsTable = (contracts: Contract[]) => {
   `;
 };
 
+// Form field labels, keyed by signal name (used to describe edit conflicts)
+const CONTRACT_FIELD_LABELS: Record<string, string> = {
+  name: "Contract Name",
+  provider: "Provider",
+  monthlyAmount: "Monthly Amount",
+  paymentMethod: "Payment Method",
+  category: "Category",
+  contractStartDate: "Contract Start Date",
+  contractEndDate: "Contract End Date",
+  isUsageBased: "Usage-based",
+  notes: "Notes",
+};
+
+// Maps a contract to the contract form's signal values
+const contractFormSignals = (contract?: Contract): Record<string, string> => ({
+  name: contract?.name || "",
+  provider: contract?.provider || "",
+  monthlyAmount: contract?.monthlyAmount?.toString() || "",
+  paymentMethod: contract?.paymentMethod || "direct_debit",
+  contractStartDate: contract?.contractStartDate || "",
+  contractEndDate: contract?.contractEndDate || "",
+  category: contract?.category || "other",
+  isUsageBased: contract?.isUsageBased ? "true" : "false",
+  notes: contract?.notes || "",
+});
+
 // Renders the contract form (create/edit)
 const ContractForm = (props: {
   contract?: Contract;
@@ -248,15 +300,8 @@ const ContractForm = (props: {
     <form
       data-on:submit="@post('${action}')"
       data-signals="${JSON.stringify({
-        name: contract?.name || "",
-        provider: contract?.provider || "",
-        monthlyAmount: contract?.monthlyAmount?.toString() || "",
-        paymentMethod: contract?.paymentMethod || "direct_debit",
-        contractStartDate: contract?.contractStartDate || "",
-        contractEndDate: contract?.contractEndDate || "",
-        category: contract?.category || "other",
-        isUsageBased: contract?.isUsageBased ? "true" : "false",
-        notes: contract?.notes || "",
+        ...contractFormSignals(contract),
+        expectedUpdatedAt: contract?.updatedAt || "",
       })}"
     >
       <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -473,6 +518,9 @@ type ContractsPageState = {
 
 type ContractDetailPageState = {
   contract: Contract;
+  history: AuditEntry[];
+  canEdit: boolean;
+  canAddReminder: boolean;
 };
 
 // Contracts list content renderer
@@ -498,10 +546,10 @@ contractsRouter.get("/", async (c) => {
   const user = c.get("user")!;
   const [contracts, totalMonthly, notifications, unreadCount] =
     await Promise.all([
-      getAllContracts(),
-      getTotalMonthlyExpenditure(),
-      getNotifications(user.id, 5),
-      getUnreadCount(user.id),
+      getAllContracts(user.householdId!),
+      getTotalMonthlyExpenditure(user.householdId!),
+      getNotifications(user.id, user.householdId, 5),
+      getUnreadCount(user.id, user.householdId),
     ]);
 
   return c.html(
@@ -515,9 +563,14 @@ contractsRouter.get("/", async (c) => {
           title: "Contracts",
           description: "Track monthly expenditure and contract renewals",
         })}
-        <div class="mb-6">
-          ${Button({ href: "/app/contracts/new", children: "Add Contract" })}
-        </div>
+        ${canEdit(user, "finances")
+          ? html`<div class="mb-6">
+              ${Button({
+                href: "/app/contracts/new",
+                children: "Add Contract",
+              })}
+            </div>`
+          : ""}
         <div data-init="@get('/app/contracts/sse')">
           ${renderContractsContent({ contracts, totalMonthly })}
         </div>
@@ -530,10 +583,10 @@ contractsRouter.get("/", async (c) => {
 contractsRouter.get(
   "/sse",
   createSSEResource({
-    loadState: async (): Promise<ContractsPageState> => {
+    loadState: async (user): Promise<ContractsPageState> => {
       const [contracts, totalMonthly] = await Promise.all([
-        getAllContracts(),
-        getTotalMonthlyExpenditure(),
+        getAllContracts(user.householdId!),
+        getTotalMonthlyExpenditure(user.householdId!),
       ]);
       return { contracts, totalMonthly };
     },
@@ -548,6 +601,11 @@ type ContractFormPageState = {
   action: string;
   submitLabel: string;
   formErrors: FormErrors | null;
+  conflict?: {
+    changedBy: string | null;
+    mine: Record<string, string>;
+    theirs: Record<string, string>;
+  } | null;
 };
 
 // Contract form content renderer (used by SSE for create/edit pages)
@@ -556,6 +614,13 @@ const renderContractFormContent = (state: ContractFormPageState) => html`
     ${Card({
       children: html`
         <div class="card-body">
+          ${state.conflict && state.contract
+            ? ConflictNotice({
+                ...state.conflict,
+                labels: CONTRACT_FIELD_LABELS,
+                discardHref: `/app/contracts/${state.contract.id}/edit`,
+              })
+            : ""}
           ${ContractForm({
             contract: state.contract,
             action: state.action,
@@ -575,28 +640,55 @@ const contractFormResource = createFormResource({
   command: createContractCommand,
   eventTypes: ["contract.*"],
   successRedirect: "/app/contracts",
-  loadState: async (_user, c, cid) => {
+  loadState: async (user, c, cid) => {
     const editId = c.req.query("editId");
-    const contract = editId ? await getContract(editId) : undefined;
+    const current = editId
+      ? await getContract(editId, user.householdId!)
+      : null;
+    const conflict = current ? await formConflictStore.getConflict(cid) : null;
+
+    // After a stale write, show the user's submission on top of the newer version
+    const contract =
+      current && conflict
+        ? ({ ...current, ...conflict.submitted } as Contract)
+        : current;
+
     return {
       contract: contract || undefined,
       action: editId ? `/app/contracts/${editId}` : "/app/contracts",
       submitLabel: editId ? "Save Changes" : "Add Contract",
-      formErrors: formErrorStore.getErrors(cid),
+      formErrors: await formErrorStore.getErrors(cid),
+      conflict:
+        current && conflict
+          ? {
+              changedBy: await getLastChangedBy(
+                "contract",
+                current.id,
+                String(conflict.submitted.expectedUpdatedAt ?? ""),
+                user.id,
+              ),
+              mine: contractFormSignals(contract || undefined),
+              theirs: contractFormSignals(current),
+            }
+          : null,
     };
   },
   render: renderContractFormContent,
 });
 
 // Contract form SSE endpoint
-contractsRouter.post("/form/sse", contractFormResource.sseHandler);
+contractsRouter.post(
+  "/form/sse",
+  requireEditor,
+  contractFormResource.sseHandler,
+);
 
 // New contract page
-contractsRouter.get("/new", async (c) => {
+contractsRouter.get("/new", requireEditor, async (c) => {
   const user = c.get("user")!;
   const [notifications, unreadCount] = await Promise.all([
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -623,7 +715,7 @@ contractsRouter.get("/new", async (c) => {
 });
 
 // Create contract
-contractsRouter.post("/", contractFormResource.postHandler);
+contractsRouter.post("/", requireEditor, contractFormResource.postHandler);
 
 // Contract detail content renderer
 const renderContractDetailContent = (state: ContractDetailPageState) => {
@@ -703,29 +795,32 @@ const renderContractDetailContent = (state: ContractDetailPageState) => {
                     </div>
                   `
                 : ""}
+              ${state.canEdit
+                ? html`
+                    <div class="divider"></div>
 
-              <div class="divider"></div>
-
-              <div class="flex gap-2">
-                <a
-                  href="/app/contracts/${contract.id}/edit"
-                  class="btn btn-ghost"
-                  >Edit</a
-                >
-                <button
-                  type="button"
-                  class="btn btn-ghost btn-error"
-                  onclick="document.getElementById('delete-modal').showModal()"
-                >
-                  Delete
-                </button>
-              </div>
+                    <div class="flex gap-2">
+                      <a
+                        href="/app/contracts/${contract.id}/edit"
+                        class="btn btn-ghost"
+                        >Edit</a
+                      >
+                      <button
+                        type="button"
+                        class="btn btn-ghost btn-error"
+                        onclick="document.getElementById('delete-modal').showModal()"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  `
+                : ""}
             </div>
           </div>
         </div>
 
-        <div>
-          ${contract.isUsageBased
+        <div class="space-y-4">
+          ${state.canAddReminder && contract.isUsageBased
             ? html`
                 <div class="card bg-base-100 shadow-xl">
                   <div class="card-body">
@@ -746,9 +841,9 @@ const renderContractDetailContent = (state: ContractDetailPageState) => {
                 </div>
               `
             : ""}
-          ${contract.contractEndDate
+          ${state.canAddReminder && contract.contractEndDate
             ? html`
-                <div class="card bg-base-100 shadow-xl mt-4">
+                <div class="card bg-base-100 shadow-xl">
                   <div class="card-body">
                     <h3 class="card-title">Contract Renewal</h3>
                     <p class="text-sm text-base-content/60">
@@ -766,10 +861,11 @@ const renderContractDetailContent = (state: ContractDetailPageState) => {
                 </div>
               `
             : ""}
+          ${AuditHistory({ entries: state.history })}
         </div>
       </div>
 
-      ${DeleteConfirmModal(contract)}
+      ${state.canEdit ? DeleteConfirmModal(contract) : ""}
     </div>
   `;
 };
@@ -779,10 +875,11 @@ contractsRouter.get("/:id", async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  const [contract, notifications, unreadCount] = await Promise.all([
-    getContract(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+  const [contract, history, notifications, unreadCount] = await Promise.all([
+    getContract(id, user.householdId!),
+    getEntityHistory("contract", id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!contract) {
@@ -823,6 +920,9 @@ contractsRouter.get("/:id", async (c) => {
         <div data-init="@get('/app/contracts/${id}/sse')">
           ${renderContractDetailContent({
             contract,
+            history,
+            canEdit: canEdit(user, "finances"),
+            canAddReminder: canEdit(user, "reminders"),
           })}
         </div>
       `,
@@ -835,12 +935,20 @@ contractsRouter.get("/:id/sse", async (c) => {
   const id = c.req.param("id");
 
   return createSSEResource({
-    loadState: async (): Promise<ContractDetailPageState> => {
-      const contract = await getContract(id);
+    loadState: async (user): Promise<ContractDetailPageState> => {
+      const [contract, history] = await Promise.all([
+        getContract(id, user.householdId!),
+        getEntityHistory("contract", id),
+      ]);
       if (!contract) {
         throw new Error("Contract not found");
       }
-      return { contract };
+      return {
+        contract,
+        history,
+        canEdit: canEdit(user, "finances"),
+        canAddReminder: canEdit(user, "reminders"),
+      };
     },
     render: renderContractDetailContent,
     eventTypes: ["contract.*"],
@@ -849,14 +957,14 @@ contractsRouter.get("/:id/sse", async (c) => {
 });
 
 // Edit contract page
-contractsRouter.get("/:id/edit", async (c) => {
+contractsRouter.get("/:id/edit", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
   const [contract, notifications, unreadCount] = await Promise.all([
-    getContract(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getContract(id, user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!contract) {
@@ -891,6 +999,7 @@ contractsRouter.get("/:id/edit", async (c) => {
 // Update contract
 contractsRouter.post(
   "/:id",
+  requireEditor,
   handleFormPost({
     schema: contractFormSchema,
     command: updateContractCommand,
@@ -899,11 +1008,11 @@ contractsRouter.post(
 );
 
 // Delete contract
-contractsRouter.post("/:id/delete", async (c) => {
+contractsRouter.post("/:id/delete", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(deleteContractCommand, user, { id });
+  await commandStore.enqueue(deleteContractCommand, user, { id });
 
   return c.body(null, 204);
 });
@@ -1,6 +1,12 @@
 import { Hono } from "hono";
 import { html } from "hono/html";
 import { z } from "zod";
+import {
+  canEdit,
+  editorRoles,
+  requireRole,
+  viewerRoles,
+} from "../../lib/auth/index.ts";
 import {
   createHealthNoteCommand,
   deleteHealthNoteCommand,
@@ -12,10 +18,12 @@ import {
   getHealthNotesByCategory,
   searchHealthNotes,
 } from "../../lib/health-notes/index.ts";
+import { getEntityHistory, getLastChangedBy } from "../../lib/audit/index.ts";
 import {
   commandStore,
   createFormResource,
   createSSEResource,
+  formConflictStore,
   formErrorStore,
   handleFormPost,
 } from "../../lib/cqrs/index.ts";
@@ -24,22 +32,40 @@ import {
   getNotifications,
   getUnreadCount,
 } from "../../lib/notifications/index.ts";
+import type { AuditEntry } from "../../types/audit.ts";
 import type {
   HealthNote,
   HealthNoteCategory,
 } from "../../types/health-note.ts";
 import type { HonoContext } from "../../types/hono.ts";
-import { Button, Card, FormField, PageHeader } from "../../ui/index.ts";
+import {
+  AuditHistory,
+  Button,
+  Card,
+  ConflictNotice,
+  FormField,
+  PageHeader,
+} from "../../ui/index.ts";
 import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const healthRouter = new Hono<HonoContext>();
 
+// Only roles that may see health notes can open these pages
+healthRouter.use("*", requireRole(...viewerRoles("health")));
+
+// Viewers can see health notes but not add, change or delete them
+const requireEditor = requireRole(...editorRoles("health"));
+
 // Health note form validation schema
 const healthNoteFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
   content: z.string().min(1, "Content is required"),
   category: z.enum(["medication", "gp-visit", "hospital", "general"]),
   date: z.string().min(1, "Date is required"),
+  expectedUpdatedAt: z
+    .string()
+    .optional()
+    .transform((val) => val || undefined),
 });
 
 // Category display labels
@@ -262,6 +288,22 @@ const SearchBox = (query: string) => html`
   </div>
 `;
 
+// Form field labels, keyed by signal name (used to describe edit conflicts)
+const HEALTH_NOTE_FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  date: "Date",
+  category: "Category",
+  content: "Content",
+};
+
+// Maps a health note to the health note form's signal values
+const healthNoteFormSignals = (note?: HealthNote): Record<string, string> => ({
+  title: note?.title || "",
+  content: note?.content || "",
+  category: note?.category || "general",
+  date: note?.date || "",
+});
+
 // Renders the health note form (create/edit)
 const HealthNoteForm = (props: {
   note?: HealthNote;
@@ -279,10 +321,9 @@ const HealthNoteForm = (props: {
     <form
       data-on:submit="@post('${action}')"
       data-signals="${JSON.stringify({
-        title: note?.title || "",
-        content: note?.content || "",
-        category: note?.category || "general",
+        ...healthNoteFormSignals(note),
         date: note?.date || today,
+        expectedUpdatedAt: note?.updatedAt || "",
       })}"
     >
       <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -411,6 +452,8 @@ type HealthPageState = {
 
 type HealthNoteDetailPageState = {
   note: HealthNote;
+  history: AuditEntry[];
+  canEdit: boolean;
 };
 
 // Health notes list content renderer
@@ -459,16 +502,16 @@ healthRouter.get("/", async (c) => {
 
   let notes: HealthNote[];
   if (searchQuery) {
-    notes = await searchHealthNotes(searchQuery);
+    notes = await searchHealthNotes(user.householdId!, searchQuery);
   } else if (category) {
-    notes = await getHealthNotesByCategory(category);
+    notes = await getHealthNotesByCategory(user.householdId!, category);
   } else {
-    notes = await getAllHealthNotes();
+    notes = await getAllHealthNotes(user.householdId!);
   }
 
   const [notifications, unreadCount] = await Promise.all([
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -482,9 +525,11 @@ healthRouter.get("/", async (c) => {
           title: "Health Notes",
           description: "A private record of health-related information",
         })}
-        <div class="mb-6">
-          ${Button({ href: "/app/health/new", children: "Add Note" })}
-        </div>
+        ${canEdit(user, "health")
+          ? html`<div class="mb-6">
+              ${Button({ href: "/app/health/new", children: "Add Note" })}
+            </div>`
+          : ""}
         <div
           data-init="@get('/app/health/sse?category=${category ||
           ""}&search=${encodeURIComponent(searchQuery)}')"
@@ -506,14 +551,14 @@ healthRouter.get("/sse", async (c) => {
   const searchQuery = c.req.query("search") || "";
 
   return createSSEResource({
-    loadState: async (): Promise<HealthPageState> => {
+    loadState: async (user): Promise<HealthPageState> => {
       let notes: HealthNote[];
       if (searchQuery) {
-        notes = await searchHealthNotes(searchQuery);
+        notes = await searchHealthNotes(user.householdId!, searchQuery);
       } else if (category) {
-        notes = await getHealthNotesByCategory(category);
+        notes = await getHealthNotesByCategory(user.householdId!, category);
       } else {
-        notes = await getAllHealthNotes();
+        notes = await getAllHealthNotes(user.householdId!);
       }
       return { notes, category: category || null, searchQuery };
     },
@@ -528,6 +573,11 @@ type HealthNoteFormPageState = {
   action: string;
   submitLabel: string;
   formErrors: FormErrors | null;
+  conflict?: {
+    changedBy: string | null;
+    mine: Record<string, string>;
+    theirs: Record<string, string>;
+  } | null;
 };
 
 // Health note form content renderer (used by SSE for create/edit pages)
@@ -536,6 +586,13 @@ const renderHealthNoteFormContent = (state: HealthNoteFormPageState) => html`
     ${Card({
       children: html`
         <div class="card-body">
+          ${state.conflict && state.note
+            ? ConflictNotice({
+                ...state.conflict,
+                labels: HEALTH_NOTE_FIELD_LABELS,
+                discardHref: `/app/health/${state.note.id}/edit`,
+              })
+            : ""}
           ${HealthNoteForm({
             note: state.note,
             action: state.action,
@@ -555,27 +612,54 @@ const healthNoteFormResource = createFormResource({
   command: createHealthNoteCommand,
   eventTypes: ["healthNote.*"],
   successRedirect: "/app/health",
-  loadState: async (_user, c, cid) => {
+  loadState: async (user, c, cid) => {
     const editId = c.req.query("editId");
-    const note = editId ? await getHealthNote(editId) : undefined;
+    const current = editId
+      ? await getHealthNote(editId, user.householdId!)
+      : null;
+    const conflict = current ? await formConflictStore.getConflict(cid) : null;
+
+    // After a stale write, show the user's submission on top of the newer version
+    const note =
+      current && conflict
+        ? ({ ...current, ...conflict.submitted } as HealthNote)
+        : current;
+
     return {
       note: note || undefined,
       action: editId ? `/app/health/${editId}` : "/app/health",
       submitLabel: editId ? "Save Changes" : "Add Note",
-      formErrors: formErrorStore.getErrors(cid),
+      formErrors: await formErrorStore.getErrors(cid),
+      conflict:
+        current && conflict
+          ? {
+              changedBy: await getLastChangedBy(
+                "healthNote",
+                current.id,
+                String(conflict.submitted.expectedUpdatedAt ?? ""),
+                user.id,
+              ),
+              mine: healthNoteFormSignals(note || undefined),
+              theirs: healthNoteFormSignals(current),
+            }
+          : null,
     };
   },
   render: renderHealthNoteFormContent,
 });
 
-healthRouter.post("/form/sse", healthNoteFormResource.sseHandler);
+healthRouter.post(
+  "/form/sse",
+  requireEditor,
+  healthNoteFormResource.sseHandler,
+);
 
 // New health note page
-healthRouter.get("/new", async (c) => {
+healthRouter.get("/new", requireEditor, async (c) => {
   const user = c.get("user")!;
   const [notifications, unreadCount] = await Promise.all([
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -603,7 +687,7 @@ healthRouter.get("/new", async (c) => {
 });
 
 // Create health note
-healthRouter.post("/", healthNoteFormResource.postHandler);
+healthRouter.post("/", requireEditor, healthNoteFormResource.postHandler);
 
 // Health note detail content renderer
 const renderHealthNoteDetailContent = (state: HealthNoteDetailPageState) => {
@@ -636,20 +720,26 @@ const renderHealthNoteDetailContent = (state: HealthNoteDetailPageState) => {
                 <p class="whitespace-pre-wrap">${note.content}</p>
               </div>
 
-              <div class="divider"></div>
-
-              <div class="flex gap-2">
-                <a href="/app/health/${note.id}/edit" class="btn btn-ghost"
-                  >Edit</a
-                >
-                <button
-                  type="button"
-                  class="btn btn-ghost btn-error"
-                  onclick="document.getElementById('delete-modal').showModal()"
-                >
-                  Delete
-                </button>
-              </div>
+              ${state.canEdit
+                ? html`
+                    <div class="divider"></div>
+
+                    <div class="flex gap-2">
+                      <a
+                        href="/app/health/${note.id}/edit"
+                        class="btn btn-ghost"
+                        >Edit</a
+                      >
+                      <button
+                        type="button"
+                        class="btn btn-ghost btn-error"
+                        onclick="document.getElementById('delete-modal').showModal()"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  `
+                : ""}
             </div>
           </div>
         </div>
@@ -704,10 +794,12 @@ const renderHealthNoteDetailContent = (state: HealthNoteDetailPageState) => {
               </div>
             </div>
           </div>
+
+          <div class="mt-4">${AuditHistory({ entries: state.history })}</div>
         </div>
       </div>
 
-      ${DeleteConfirmModal(note)}
+      ${state.canEdit ? DeleteConfirmModal(note) : ""}
     </div>
   `;
 };
@@ -717,10 +809,11 @@ healthRouter.get("/:id", async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  const [note, notifications, unreadCount] = await Promise.all([
-    getHealthNote(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+  const [note, history, notifications, unreadCount] = await Promise.all([
+    getHealthNote(id, user.householdId!),
+    getEntityHistory("healthNote", id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!note) {
@@ -761,6 +854,8 @@ healthRouter.get("/:id", async (c) => {
         <div data-init="@get('/app/health/${id}/sse')">
           ${renderHealthNoteDetailContent({
             note,
+            history,
+            canEdit: canEdit(user, "health"),
           })}
         </div>
       `,
@@ -773,10 +868,13 @@ healthRouter.get("/:id/sse", async (c) => {
   const id = c.req.param("id");
 
   return createSSEResource({
-    loadState: async (): Promise<HealthNoteDetailPageState> => {
-      const note = await getHealthNote(id);
+    loadState: async (user): Promise<HealthNoteDetailPageState> => {
+      const [note, history] = await Promise.all([
+        getHealthNote(id, user.householdId!),
+        getEntityHistory("healthNote", id),
+      ]);
       if (!note) throw new Error("Health note not found");
-      return { note };
+      return { note, history, canEdit: canEdit(user, "health") };
     },
     render: renderHealthNoteDetailContent,
     eventTypes: ["healthNote.*"],
@@ -785,14 +883,14 @@ healthRouter.get("/:id/sse", async (c) => {
 });
 
 // Edit health note page
-healthRouter.get("/:id/edit", async (c) => {
+healthRouter.get("/:id/edit", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
   const [note, notifications, unreadCount] = await Promise.all([
-    getHealthNote(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getHealthNote(id, user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!note) {
@@ -827,6 +925,7 @@ healthRouter.get("/:id/edit", async (c) => {
 // Update health note
 healthRouter.post(
   "/:id",
+  requireEditor,
   handleFormPost({
     schema: healthNoteFormSchema,
     command: updateHealthNoteCommand,
@@ -835,11 +934,11 @@ healthRouter.post(
 );
 
 // Delete health note
-healthRouter.post("/:id/delete", async (c) => {
+healthRouter.post("/:id/delete", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(deleteHealthNoteCommand, user, { id });
+  await commandStore.enqueue(deleteHealthNoteCommand, user, { id });
 
   return c.body(null, 204);
 });
@@ -0,0 +1,137 @@
+import { Hono } from "hono";
+import { html } from "hono/html";
+import { commandStore, createSSEResource } from "../../lib/cqrs/index.ts";
+import { switchHouseholdCommand } from "../../lib/households/commands.ts";
+import { getUserHouseholds } from "../../lib/households/index.ts";
+import {
+  getNotifications,
+  getUnreadCount,
+} from "../../lib/notifications/index.ts";
+import type { HonoContext } from "../../types/hono.ts";
+import type { Household } from "../../types/household.ts";
+import type { User } from "../../types/user.ts";
+import { Card, PageHeader } from "../../ui/index.ts";
+import { AppLayout, HouseholdSwitcher } from "../../ui/layouts/index.ts";
+
+export const householdsRouter = new Hono<HonoContext>();
+
+// Page state type
+type HouseholdsPageState = {
+  households: Household[];
+  currentId: string | null;
+};
+
+// Households content renderer (used by both GET and SSE)
+const renderHouseholdsContent = (state: HouseholdsPageState) => html`
+  <div id="households-content" class="max-w-xl">
+    ${Card({
+      children: html`
+        <div class="card-body">
+          ${state.households.length > 0
+            ? html`
+                <ul class="divide-y divide-base-300">
+                  ${state.households.map(
+                    (household) => html`
+                      <li class="py-3 flex items-center justify-between gap-4">
+                        <span class="font-medium">${household.name}</span>
+                        ${household.id === state.currentId
+                          ? html`<span class="badge badge-primary"
+                              >Current</span
+                            >`
+                          : html`
+                              <button
+                                type="button"
+                                class="btn btn-sm"
+                                data-on:click="@post('/app/households/${household.id}/switch')"
+                              >
+                                Switch
+                              </button>
+                            `}
+                      </li>
+                    `,
+                  )}
+                </ul>
+              `
+            : html`
+                <p class="text-base-content/60">
+                  You haven't been added to a household yet. Ask an admin to add
+                  you to one.
+                </p>
+              `}
+        </div>
+      `,
+    })}
+  </div>
+`;
+
+// Loads households page state
+const loadHouseholdsState = async (
+  user: User,
+): Promise<HouseholdsPageState> => ({
+  households: await getUserHouseholds(user.id),
+  currentId: user.householdId,
+});
+
+// Households page, where users without one end up
+householdsRouter.get("/", async (c) => {
+  const user = c.get("user")!;
+
+  const [state, notifications, unreadCount] = await Promise.all([
+    loadHouseholdsState(user),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Households - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Households",
+          description: "Everyone you help care for",
+        })}
+        <div data-init="@get('/app/households/sse')">
+          ${renderHouseholdsContent(state)}
+        </div>
+      `,
+    }),
+  );
+});
+
+// Households SSE endpoint
+householdsRouter.get(
+  "/sse",
+  createSSEResource({
+    loadState: loadHouseholdsState,
+    render: renderHouseholdsContent,
+    eventTypes: ["household.*"],
+  }),
+);
+
+// SSE endpoint for the household switcher in the header (global, all pages)
+householdsRouter.get(
+  "/switcher",
+  createSSEResource({
+    loadState: async (user) => ({
+      households: await getUserHouseholds(user.id),
+      currentId: user.householdId,
+    }),
+    render: (state) => HouseholdSwitcher(state.households, state.currentId),
+    eventTypes: ["household.*"],
+  }),
+);
+
+// Switches the household the app shows
+householdsRouter.post("/:id/switch", async (c) => {
+  const user = c.get("user")!;
+
+  await commandStore.enqueue(switchHouseholdCommand, user, {
+    userId: user.id,
+    householdId: c.req.param("id"),
+  });
+
+  return c.body(null, 204);
+});
@@ -1,6 +1,7 @@
 import { Hono } from "hono";
 import { html } from "hono/html";
 import { getUpcomingAppointments } from "../../lib/appointments/index.ts";
+import { canEdit, canView } from "../../lib/auth/index.ts";
 import {
   getExpiringContracts,
   getTotalMonthlyExpenditure,
@@ -23,22 +24,68 @@ import type {
   ObservationCategory,
 } from "../../types/observation.ts";
 import type { RecurringReminder } from "../../types/reminder.ts";
+import type { User } from "../../types/user.ts";
 import { Card, PageHeader } from "../../ui/index.ts";
 import { AppLayout } from "../../ui/layouts/index.ts";
 import { appointmentsRouter } from "./appointments.ts";
 import { contractsRouter } from "./contracts.ts";
 import { healthRouter } from "./health.ts";
+import { householdsRouter } from "./households.ts";
 import { notesRouter } from "./notes.ts";
 import { notificationsRouter } from "./notifications.ts";
 import { observationsRouter } from "./observations.ts";
 import { remindersRouter } from "./reminders.ts";
-import { requireAuth } from "../../lib/auth/middleware.ts";
+import { securityRouter } from "./security.ts";
+import { settingsRouter } from "./settings.ts";
+import { tokensRouter } from "./tokens.ts";
+import { trashRouter } from "./trash.ts";
+import {
+  rejectApiTokens,
+  requireAuth,
+  requireHousehold,
+  requireTwoFactorEnrollment,
+} from "../../lib/auth/middleware.ts";
 
 export const appRouter = new Hono<HonoContext>();
 
 // Auth guard middleware
 appRouter.use("*", requireAuth);
 
+// Users required to set up two-factor can only reach the security page
+appRouter.use("*", requireTwoFactorEnrollment);
+
+// Account pages are for people, not API tokens
+appRouter.use("/security/*", rejectApiTokens);
+appRouter.use("/settings/*", rejectApiTokens);
+appRouter.use("/tokens/*", rejectApiTokens);
+
+// Record pages show the current household, so need one to show
+for (const path of [
+  "/",
+  "/sse",
+  "/notes/*",
+  "/contracts/*",
+  "/reminders/*",
+  "/appointments/*",
+  "/health/*",
+  "/observations/*",
+  "/trash/*",
+]) {
+  appRouter.use(path, requireHousehold);
+}
+
+// Mount account security router
+appRouter.route("/security", securityRouter);
+
+// Mount account settings router
+appRouter.route("/settings", settingsRouter);
+
+// Mount API tokens router
+appRouter.route("/tokens", tokensRouter);
+
+// Mount households router
+appRouter.route("/households", householdsRouter);
+
 // Mount notifications router
 appRouter.route("/notifications", notificationsRouter);
 
@@ -60,14 +107,18 @@ appRouter.route("/notes", notesRouter);
 // Mount observations router
 appRouter.route("/observations", observationsRouter);
 
-// Dashboard state type
+// Mount trash router
+appRouter.route("/trash", trashRouter);
+
+// Dashboard state type. Widgets for areas the user's role can't see are null.
 type DashboardState = {
-  expiringContracts: Contract[];
+  expiringContracts: Contract[] | null;
   totalMonthlyExpenditure: number;
-  dueReminders: RecurringReminder[];
+  dueReminders: RecurringReminder[] | null;
   upcomingAppointments: Appointment[];
   recentNotes: Note[];
   recentObservations: Observation[];
+  canAddNote: boolean;
 };
 
 // Formats a date for display
@@ -154,7 +205,10 @@ const OBSERVATION_CATEGORY_LABELS: Record<ObservationCategory, string> = {
 };
 
 // Dashboard state loader
-const loadDashboardState = async (): Promise<DashboardState> => {
+const loadDashboardState = async (user: User): Promise<DashboardState> => {
+  const showFinances = canView(user, "finances");
+  const showReminders = canView(user, "reminders");
+  const householdId = user.householdId!;
   const [
     expiringContracts,
     totalMonthlyExpenditure,
@@ -163,12 +217,12 @@ const loadDashboardState = async (): Promise<DashboardState> => {
     allNotes,
     allObservations,
   ] = await Promise.all([
-    getExpiringContracts(30),
-    getTotalMonthlyExpenditure(),
-    getDueReminders(),
-    getUpcomingAppointments(7),
-    getActiveNotes(),
-    getAllObservations(),
+    showFinances ? getExpiringContracts(householdId, 30) : null,
+    showFinances ? getTotalMonthlyExpenditure(householdId) : 0,
+    showReminders ? getDueReminders(householdId) : null,
+    getUpcomingAppointments(householdId, 7),
+    getActiveNotes(householdId),
+    getAllObservations(householdId),
   ]);
 
   return {
@@ -178,6 +232,7 @@ const loadDashboardState = async (): Promise<DashboardState> => {
     upcomingAppointments,
     recentNotes: allNotes.slice(0, 5),
     recentObservations: allObservations.slice(0, 3),
+    canAddNote: canEdit(user, "notes"),
   };
 };
 
@@ -443,7 +498,7 @@ const UpcomingAppointmentsWidget = (appointments: Appointment[]) => {
 };
 
 // Renders the recent notes widget with quick-add form
-const RecentNotesWidget = (notes: Note[]) => {
+const RecentNotesWidget = (notes: Note[], canAdd: boolean) => {
   return Card({
     children: html`
       <div class="card-body">
@@ -470,27 +525,35 @@ const RecentNotesWidget = (notes: Note[]) => {
         </div>
 
         <!-- Quick add form -->
-        <form
-          class="mb-3"
-          data-on:submit="@post('/app/notes/quick-add')"
-          data-signals="${JSON.stringify({ quickNoteContent: "" })}"
-        >
-          <div class="join w-full">
-            <label for="quick-note-input" class="sr-only">Quick note</label>
-            <input
-              type="text"
-              id="quick-note-input"
-              class="input input-bordered join-item flex-1 input-sm"
-              placeholder="Add a quick note..."
-              data-bind="quickNoteContent"
-              autocomplete="off"
-            />
-            <button type="submit" class="btn btn-primary btn-sm join-item">
-              Add
-            </button>
-          </div>
-        </form>
-
+        ${canAdd
+          ? html`
+              <form
+                class="mb-3"
+                data-on:submit="@post('/app/notes/quick-add')"
+                data-signals="${JSON.stringify({ quickNoteContent: "" })}"
+              >
+                <div class="join w-full">
+                  <label for="quick-note-input" class="sr-only"
+                    >Quick note</label
+                  >
+                  <input
+                    type="text"
+                    id="quick-note-input"
+                    class="input input-bordered join-item flex-1 input-sm"
+                    placeholder="Add a quick note..."
+                    data-bind="quickNoteContent"
+                    autocomplete="off"
+                  />
+                  <button
+                    type="submit"
+                    class="btn btn-primary btn-sm join-item"
+                  >
+                    Add
+                  </button>
+                </div>
+              </form>
+            `
+          : ""}
         ${notes.length === 0
           ? html`
               <div class="text-center py-4">
@@ -598,21 +661,25 @@ const renderDashboardContent = (state: DashboardState) => html`
   <div id="dashboard-content">
     <div class="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
       <!-- Contracts Overview - top left -->
-      <div>
-        ${ContractsWidget(
-          state.expiringContracts,
-          state.totalMonthlyExpenditure,
-        )}
-      </div>
+      ${state.expiringContracts
+        ? html`<div>
+            ${ContractsWidget(
+              state.expiringContracts,
+              state.totalMonthlyExpenditure,
+            )}
+          </div>`
+        : ""}
 
       <!-- Due Reminders - top middle -->
-      <div>${DueRemindersWidget(state.dueReminders)}</div>
+      ${state.dueReminders
+        ? html`<div>${DueRemindersWidget(state.dueReminders)}</div>`
+        : ""}
 
       <!-- Upcoming Appointments - top right -->
       <div>${UpcomingAppointmentsWidget(state.upcomingAppointments)}</div>
 
       <!-- Recent Notes - bottom left -->
-      <div>${RecentNotesWidget(state.recentNotes)}</div>
+      <div>${RecentNotesWidget(state.recentNotes, state.canAddNote)}</div>
 
       <!-- Recent Observations - bottom right -->
       <div>${RecentObservationsWidget(state.recentObservations)}</div>
@@ -624,9 +691,9 @@ const renderDashboardContent = (state: DashboardState) => html`
 appRouter.get("/", async (c) => {
   const user = c.get("user")!;
   const [state, notifications, unreadCount] = await Promise.all([
-    loadDashboardState(),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    loadDashboardState(user),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -672,7 +739,7 @@ appRouter.post("/notes/quick-add", async (c) => {
     return c.body(null, 204);
   }
 
-  commandStore.enqueue(createNoteCommand, user, { content });
+  await commandStore.enqueue(createNoteCommand, user, { content });
 
   return c.body(null, 204);
 });
@@ -1,7 +1,13 @@
 import { Hono } from "hono";
 import { html } from "hono/html";
 import { z } from "zod";
-import { findUserById } from "../../lib/auth/index.ts";
+import {
+  canEdit,
+  editorRoles,
+  findUserById,
+  requireRole,
+  viewerRoles,
+} from "../../lib/auth/index.ts";
 import {
   commandStore,
   createFormResource,
@@ -27,6 +33,12 @@ import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const notesRouter = new Hono<HonoContext>();
 
+// Only roles that may see notes can open these pages
+notesRouter.use("*", requireRole(...viewerRoles("notes")));
+
+// Viewers can see notes but not add, change or delete them
+const requireEditor = requireRole(...editorRoles("notes"));
+
 // Note form validation schema
 const noteFormSchema = z.object({
   content: z.string().min(1, "Note content is required"),
@@ -172,7 +184,7 @@ const QuickAddForm = ({ errors }: { errors: FormErrors | null }) => html`
 `;
 
 // Renders a single note item
-const NoteItem = (note: NoteWithAuthor) => {
+const NoteItem = (note: NoteWithAuthor, canEdit: boolean) => {
   return html`
     <div
       class="${`flex items-start gap-3 p-4 bg-base-100 rounded-lg border ${note.resolved ? "opacity-60 border-base-300" : "border-base-200 shadow-sm"}`}"
@@ -188,40 +200,66 @@ const NoteItem = (note: NoteWithAuthor) => {
             : ""}
         </p>
       </div>
-      <div class="flex items-center gap-1 shrink-0">
-        ${note.resolved
-          ? html`
-              <button
-                type="button"
-                class="btn btn-ghost btn-sm btn-circle"
-                aria-label="Mark as unresolved"
-                title="Undo resolve"
-                data-on:click="@post('/app/notes/${note.id}/unresolve')"
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  class="h-5 w-5"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  aria-hidden="true"
-                >
-                  <path
-                    stroke-linecap="round"
-                    stroke-linejoin="round"
-                    stroke-width="2"
-                    d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
-                  />
-                </svg>
-              </button>
-            `
-          : html`
+      ${canEdit
+        ? html`
+            <div class="flex items-center gap-1 shrink-0">
+              ${note.resolved
+                ? html`
+                    <button
+                      type="button"
+                      class="btn btn-ghost btn-sm btn-circle"
+                      aria-label="Mark as unresolved"
+                      title="Undo resolve"
+                      data-on:click="@post('/app/notes/${note.id}/unresolve')"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        class="h-5 w-5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        aria-hidden="true"
+                      >
+                        <path
+                          stroke-linecap="round"
+                          stroke-linejoin="round"
+                          stroke-width="2"
+                          d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                        />
+                      </svg>
+                    </button>
+                  `
+                : html`
+                    <button
+                      type="button"
+                      class="btn btn-ghost btn-sm btn-circle text-success"
+                      aria-label="Mark as resolved"
+                      title="Resolve"
+                      data-on:click="@post('/app/notes/${note.id}/resolve')"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        class="h-5 w-5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        aria-hidden="true"
+                      >
+                        <path
+                          stroke-linecap="round"
+                          stroke-linejoin="round"
+                          stroke-width="2"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                    </button>
+                  `}
               <button
                 type="button"
-                class="btn btn-ghost btn-sm btn-circle text-success"
-                aria-label="Mark as resolved"
-                title="Resolve"
-                data-on:click="@post('/app/notes/${note.id}/resolve')"
+                class="btn btn-ghost btn-sm btn-circle text-error"
+                aria-label="Delete note"
+                title="Delete"
+                data-on:click="@post('/app/notes/${note.id}/delete')"
               >
                 <svg
                   xmlns="http://www.w3.org/2000/svg"
@@ -235,41 +273,19 @@ const NoteItem = (note: NoteWithAuthor) => {
                     stroke-linecap="round"
                     stroke-linejoin="round"
                     stroke-width="2"
-                    d="M5 13l4 4L19 7"
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
                   />
                 </svg>
               </button>
-            `}
-        <button
-          type="button"
-          class="btn btn-ghost btn-sm btn-circle text-error"
-          aria-label="Delete note"
-          title="Delete"
-          data-on:click="@post('/app/notes/${note.id}/delete')"
-        >
-          <svg
-            xmlns="http://www.w3.org/2000/svg"
-            class="h-5 w-5"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-            aria-hidden="true"
-          >
-            <path
-              stroke-linecap="round"
-              stroke-linejoin="round"
-              stroke-width="2"
-              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-            />
-          </svg>
-        </button>
-      </div>
+            </div>
+          `
+        : ""}
     </div>
   `;
 };
 
 // Renders a grouped list of active notes
-const ActiveNotesList = (notes: NoteWithAuthor[]) => {
+const ActiveNotesList = (notes: NoteWithAuthor[], canEdit: boolean) => {
   if (notes.length === 0) {
     return html`
       <div class="text-center py-8 text-base-content/50">
@@ -289,7 +305,11 @@ const ActiveNotesList = (notes: NoteWithAuthor[]) => {
           />
         </svg>
         <p>No active notes</p>
-        <p class="text-sm mt-1">Add a quick note above to get started.</p>
+        ${canEdit
+          ? html`<p class="text-sm mt-1">
+              Add a quick note above to get started.
+            </p>`
+          : ""}
       </div>
     `;
   }
@@ -307,7 +327,9 @@ const ActiveNotesList = (notes: NoteWithAuthor[]) => {
             <h3 class="text-sm font-medium text-base-content/60 mb-2">
               ${dateLabel}
             </h3>
-            <div class="space-y-2">${groupNotes.map(NoteItem)}</div>
+            <div class="space-y-2">
+              ${groupNotes.map((note) => NoteItem(note, canEdit))}
+            </div>
           </div>
         `;
       })}
@@ -316,7 +338,7 @@ const ActiveNotesList = (notes: NoteWithAuthor[]) => {
 };
 
 // Renders the resolved notes section (collapsible)
-const ResolvedNotesSection = (notes: NoteWithAuthor[]) => {
+const ResolvedNotesSection = (notes: NoteWithAuthor[], canEdit: boolean) => {
   if (notes.length === 0) {
     return "";
   }
@@ -335,7 +357,9 @@ const ResolvedNotesSection = (notes: NoteWithAuthor[]) => {
         Resolved notes (${notes.length})
       </label>
       <div class="collapse-content">
-        <div class="space-y-2 pt-2">${notes.map(NoteItem)}</div>
+        <div class="space-y-2 pt-2">
+          ${notes.map((note) => NoteItem(note, canEdit))}
+        </div>
       </div>
     </div>
   `;
@@ -346,14 +370,17 @@ type NotesPageState = {
   activeNotes: NoteWithAuthor[];
   resolvedNotes: NoteWithAuthor[];
   formErrors: FormErrors | null;
+  canEdit: boolean;
 };
 
 // Notes content renderer
 const renderNotesContent = (state: NotesPageState) => html`
   <div id="notes-content">
-    ${QuickAddForm({
-      errors: state.formErrors,
-    })}
+    ${state.canEdit
+      ? QuickAddForm({
+          errors: state.formErrors,
+        })
+      : ""}
     ${Card({
       children: html`
         <div class="card-body">
@@ -376,8 +403,8 @@ const renderNotesContent = (state: NotesPageState) => html`
             <h2 class="card-title">Active Notes</h2>
           </div>
 
-          ${ActiveNotesList(state.activeNotes)}
-          ${ResolvedNotesSection(state.resolvedNotes)}
+          ${ActiveNotesList(state.activeNotes, state.canEdit)}
+          ${ResolvedNotesSection(state.resolvedNotes, state.canEdit)}
         </div>
       `,
     })}
@@ -386,11 +413,13 @@ const renderNotesContent = (state: NotesPageState) => html`
 
 // Loads page state
 const loadNotesPageState = async (
+  user: User,
   connectionId: string,
 ): Promise<NotesPageState> => {
+  const householdId = user.householdId!;
   const [activeNotes, resolvedNotes] = await Promise.all([
-    getActiveNotes(),
-    getResolvedNotes(20),
+    getActiveNotes(householdId),
+    getResolvedNotes(householdId, 20),
   ]);
 
   const [activeWithAuthors, resolvedWithAuthors] = await Promise.all([
@@ -401,7 +430,8 @@ const loadNotesPageState = async (
   return {
     activeNotes: activeWithAuthors,
     resolvedNotes: resolvedWithAuthors,
-    formErrors: formErrorStore.getErrors(connectionId),
+    formErrors: await formErrorStore.getErrors(connectionId),
+    canEdit: canEdit(user, "notes"),
   };
 };
 
@@ -409,9 +439,9 @@ const loadNotesPageState = async (
 notesRouter.get("/", async (c) => {
   const user = c.get("user")!;
   const [state, notifications, unreadCount] = await Promise.all([
-    loadNotesPageState(""),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    loadNotesPageState(user, ""),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   return c.html(
@@ -438,7 +468,7 @@ const notesForm = createFormResource({
   schema: noteFormSchema,
   command: createNoteCommand,
   eventTypes: ["note.*", "notification.*"],
-  loadState: (_user, _c, cid) => loadNotesPageState(cid),
+  loadState: (user, _c, cid) => loadNotesPageState(user, cid),
   render: renderNotesContent,
 });
 
@@ -446,34 +476,34 @@ const notesForm = createFormResource({
 notesRouter.post("/sse", notesForm.sseHandler);
 
 // Create note
-notesRouter.post("/", notesForm.postHandler);
+notesRouter.post("/", requireEditor, notesForm.postHandler);
 
 // Resolve note
-notesRouter.post("/:id/resolve", async (c) => {
+notesRouter.post("/:id/resolve", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(resolveNoteCommand, user, { id });
+  await commandStore.enqueue(resolveNoteCommand, user, { id });
 
   return c.body(null, 204);
 });
 
 // Unresolve note
-notesRouter.post("/:id/unresolve", async (c) => {
+notesRouter.post("/:id/unresolve", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(unresolveNoteCommand, user, { id });
+  await commandStore.enqueue(unresolveNoteCommand, user, { id });
 
   return c.body(null, 204);
 });
 
 // Delete note
-notesRouter.post("/:id/delete", async (c) => {
+notesRouter.post("/:id/delete", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(deleteNoteCommand, user, { id });
+  await commandStore.enqueue(deleteNoteCommand, user, { id });
 
   return c.body(null, 204);
 });
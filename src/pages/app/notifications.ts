@@ -125,6 +125,15 @@ const NotificationListItem = (notification: Notification) => html`
               >View</a
             >`
           : ""}
+        ${notification.undoUrl
+          ? html`<button
+              type="button"
+              class="text-xs link link-primary"
+              data-on:click="@post('${notification.undoUrl}')"
+            >
+              Undo
+            </button>`
+          : ""}
       </div>
     </div>
     <div class="flex items-center gap-1 shrink-0">
@@ -254,9 +263,9 @@ notificationsRouter.get("/", async (c) => {
   const user = c.get("user")!;
 
   const [notifications, unreadCount, headerNotifications] = await Promise.all([
-    getNotifications(user.id, 50),
-    getUnreadCount(user.id),
-    getNotifications(user.id, 5),
+    getNotifications(user.id, user.householdId, 50),
+    getUnreadCount(user.id, user.householdId),
+    getNotifications(user.id, user.householdId, 5),
   ]);
 
   return c.html(
@@ -284,8 +293,8 @@ notificationsRouter.get(
   createSSEResource({
     loadState: async (user) => {
       const [notifications, unreadCount] = await Promise.all([
-        getNotifications(user.id, 5),
-        getUnreadCount(user.id),
+        getNotifications(user.id, user.householdId, 5),
+        getUnreadCount(user.id, user.householdId),
       ]);
       return { notifications, unreadCount };
     },
@@ -300,8 +309,8 @@ notificationsRouter.get(
   createSSEResource({
     loadState: async (user) => {
       const [notifications, unreadCount] = await Promise.all([
-        getNotifications(user.id, 50),
-        getUnreadCount(user.id),
+        getNotifications(user.id, user.householdId, 50),
+        getUnreadCount(user.id, user.householdId),
       ]);
       return { notifications, unreadCount };
     },
@@ -315,7 +324,7 @@ notificationsRouter.post("/:id/read", async (c) => {
   const user = c.get("user")!;
   const notificationId = c.req.param("id");
 
-  commandStore.enqueue(markNotificationReadCommand, user, {
+  await commandStore.enqueue(markNotificationReadCommand, user, {
     notificationId,
     userId: user.id,
   });
@@ -327,8 +336,9 @@ notificationsRouter.post("/:id/read", async (c) => {
 notificationsRouter.post("/read-all", async (c) => {
   const user = c.get("user")!;
 
-  commandStore.enqueue(markAllNotificationsReadCommand, user, {
+  await commandStore.enqueue(markAllNotificationsReadCommand, user, {
     userId: user.id,
+    householdId: user.householdId,
   });
 
   return c.body(null, 204);
@@ -339,7 +349,7 @@ notificationsRouter.post("/:id/dismiss", async (c) => {
   const user = c.get("user")!;
   const notificationId = c.req.param("id");
 
-  commandStore.enqueue(dismissNotificationCommand, user, {
+  await commandStore.enqueue(dismissNotificationCommand, user, {
     notificationId,
     userId: user.id,
   });
@@ -351,8 +361,9 @@ notificationsRouter.post("/:id/dismiss", async (c) => {
 notificationsRouter.post("/clear-all", async (c) => {
   const user = c.get("user")!;
 
-  commandStore.enqueue(clearAllNotificationsCommand, user, {
+  await commandStore.enqueue(clearAllNotificationsCommand, user, {
     userId: user.id,
+    householdId: user.householdId,
   });
 
   return c.body(null, 204);
@@ -1,7 +1,13 @@
 import { Hono } from "hono";
 import { html } from "hono/html";
 import { z } from "zod";
-import { findUserById } from "../../lib/auth/index.ts";
+import {
+  canEdit,
+  editorRoles,
+  findUserById,
+  requireRole,
+  viewerRoles,
+} from "../../lib/auth/index.ts";
 import {
   commandStore,
   createFormResource,
@@ -32,6 +38,12 @@ import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const observationsRouter = new Hono<HonoContext>();
 
+// Only roles that may see observations can open these pages
+observationsRouter.use("*", requireRole(...viewerRoles("observations")));
+
+// Viewers can see observations but not add, change or delete them
+const requireEditor = requireRole(...editorRoles("observations"));
+
 // Observation form validation schema
 const observationFormSchema = z.object({
   content: z.string().min(1, "Observation content is required"),
@@ -297,7 +309,10 @@ const CategoryBadge = (category: ObservationCategory) => html`
 `;
 
 // Renders a single observation item
-const ObservationItem = (observation: ObservationWithAuthor) => html`
+const ObservationItem = (
+  observation: ObservationWithAuthor,
+  canEdit: boolean,
+) => html`
   <article
     class="flex gap-4 p-4 bg-base-100 rounded-lg border border-base-200 shadow-sm"
   >
@@ -318,31 +333,35 @@ const ObservationItem = (observation: ObservationWithAuthor) => html`
         <span>${formatDateDisplay(observation.observedAt)}</span>
       </div>
     </div>
-    <div class="shrink-0">
-      <button
-        type="button"
-        class="btn btn-ghost btn-sm btn-circle text-error"
-        aria-label="Delete observation"
-        title="Delete"
-        data-on:click="@post('/app/observations/${observation.id}/delete')"
-      >
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          class="h-5 w-5"
-          fill="none"
-          viewBox="0 0 24 24"
-          stroke="currentColor"
-          aria-hidden="true"
-        >
-          <path
-            stroke-linecap="round"
-            stroke-linejoin="round"
-            stroke-width="2"
-            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-          />
-        </svg>
-      </button>
-    </div>
+    ${canEdit
+      ? html`
+          <div class="shrink-0">
+            <button
+              type="button"
+              class="btn btn-ghost btn-sm btn-circle text-error"
+              aria-label="Delete observation"
+              title="Delete"
+              data-on:click="@post('/app/observations/${observation.id}/delete')"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                class="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                aria-hidden="true"
+              >
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width="2"
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
+          </div>
+        `
+      : ""}
   </article>
 `;
 
@@ -437,7 +456,10 @@ const FilterBar = (
 `;
 
 // Renders the observations timeline
-const ObservationsTimeline = (observations: ObservationWithAuthor[]) => {
+const ObservationsTimeline = (
+  observations: ObservationWithAuthor[],
+  canEdit: boolean,
+) => {
   if (observations.length === 0) {
     return EmptyState();
   }
@@ -473,7 +495,9 @@ const ObservationsTimeline = (observations: ObservationWithAuthor[]) => {
               ${dateLabel}
             </h3>
             <div class="space-y-3">
-              ${groupObservations.map(ObservationItem)}
+              ${groupObservations.map((observation) =>
+                ObservationItem(observation, canEdit),
+              )}
             </div>
           </section>
         `;
@@ -488,6 +512,7 @@ type ObservationsPageState = {
   activeCategory: ObservationCategory | null;
   searchQuery: string;
   formErrors: FormErrors | null;
+  canEdit: boolean;
 };
 
 // Observations content renderer
@@ -496,9 +521,11 @@ const renderObservationsContent = (state: ObservationsPageState) => html`
     id="observations-content"
     data-signals="${JSON.stringify({ searchQuery: state.searchQuery })}"
   >
-    ${AddObservationForm({
-      errors: state.formErrors,
-    })}
+    ${state.canEdit
+      ? AddObservationForm({
+          errors: state.formErrors,
+        })
+      : ""}
     ${Card({
       children: html`
         <div class="card-body">
@@ -532,7 +559,7 @@ const renderObservationsContent = (state: ObservationsPageState) => html`
           </h2>
 
           ${FilterBar(state.activeCategory, state.searchQuery)}
-          ${ObservationsTimeline(state.observations)}
+          ${ObservationsTimeline(state.observations, state.canEdit)}
         </div>
       `,
     })}
@@ -541,18 +568,20 @@ const renderObservationsContent = (state: ObservationsPageState) => html`
 
 // Loads page state
 const loadObservationsPageState = async (
+  user: User,
   category: ObservationCategory | null,
   query: string,
   connectionId: string,
 ): Promise<ObservationsPageState> => {
+  const householdId = user.householdId!;
   let observations: Observation[];
 
   if (query) {
-    observations = await searchObservations(query);
+    observations = await searchObservations(householdId, query);
   } else if (category) {
-    observations = await getObservationsByCategory(category);
+    observations = await getObservationsByCategory(householdId, category);
   } else {
-    observations = await getAllObservations();
+    observations = await getAllObservations(householdId);
   }
 
   const observationsWithAuthors =
@@ -562,7 +591,8 @@ const loadObservationsPageState = async (
     observations: observationsWithAuthors,
     activeCategory: category,
     searchQuery: query,
-    formErrors: formErrorStore.getErrors(connectionId),
+    formErrors: await formErrorStore.getErrors(connectionId),
+    canEdit: canEdit(user, "observations"),
   };
 };
 
@@ -584,9 +614,9 @@ const observationsForm = createFormResource({
   schema: observationFormSchema,
   command: createObservationCommand,
   eventTypes: ["observation.*", "notification.*"],
-  loadState: (_user, c, cid) => {
+  loadState: (user, c, cid) => {
     const { category, search } = parseQueryParams(c);
-    return loadObservationsPageState(category, search, cid);
+    return loadObservationsPageState(user, category, search, cid);
   },
   render: renderObservationsContent,
 });
@@ -597,9 +627,9 @@ observationsRouter.get("/", async (c) => {
   const { category, search } = parseQueryParams(c);
 
   const [state, notifications, unreadCount] = await Promise.all([
-    loadObservationsPageState(category, search, ""),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    loadObservationsPageState(user, category, search, ""),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   // Build SSE URL query params
@@ -632,7 +662,7 @@ observationsRouter.get("/", async (c) => {
 observationsRouter.post("/sse", observationsForm.sseHandler);
 
 // Create observation
-observationsRouter.post("/", observationsForm.postHandler);
+observationsRouter.post("/", requireEditor, observationsForm.postHandler);
 
 // Search observations (updates URL with search query)
 observationsRouter.post("/search", async (c) => {
@@ -646,11 +676,11 @@ observationsRouter.post("/search", async (c) => {
 });
 
 // Delete observation
-observationsRouter.post("/:id/delete", async (c) => {
+observationsRouter.post("/:id/delete", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(deleteObservationCommand, user, { id });
+  await commandStore.enqueue(deleteObservationCommand, user, { id });
 
   return c.body(null, 204);
 });
@@ -1,11 +1,19 @@
 import { Hono } from "hono";
 import { html } from "hono/html";
 import { z } from "zod";
+import { getEntityHistory, getLastChangedBy } from "../../lib/audit/index.ts";
+import {
+  canEdit,
+  editorRoles,
+  requireRole,
+  viewerRoles,
+} from "../../lib/auth/index.ts";
 import { getContract } from "../../lib/contracts/index.ts";
 import {
   commandStore,
   createFormResource,
   createSSEResource,
+  formConflictStore,
   formErrorStore,
   handleFormPost,
 } from "../../lib/cqrs/index.ts";
@@ -23,6 +31,7 @@ import {
   updateReminderCommand,
 } from "../../lib/reminders/commands.ts";
 import { getAllReminders, getReminder } from "../../lib/reminders/index.ts";
+import type { AuditEntry } from "../../types/audit.ts";
 import type { Contract } from "../../types/contract.ts";
 import type { HonoContext } from "../../types/hono.ts";
 import type {
@@ -30,11 +39,24 @@ import type {
   RecurringReminder,
   ReminderFrequency,
 } from "../../types/reminder.ts";
-import { Button, Card, FormField, PageHeader } from "../../ui/index.ts";
+import {
+  AuditHistory,
+  Button,
+  Card,
+  ConflictNotice,
+  FormField,
+  PageHeader,
+} from "../../ui/index.ts";
 import { AppLayout } from "../../ui/layouts/index.ts";
 
 export const remindersRouter = new Hono<HonoContext>();
 
+// Only roles that may see reminders can open these pages
+remindersRouter.use("*", requireRole(...viewerRoles("reminders")));
+
+// Viewers can see reminders but not add, change or delete them
+const requireEditor = requireRole(...editorRoles("reminders"));
+
 // Reminder form validation schema
 const reminderFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -52,6 +74,10 @@ const reminderFormSchema = z.object({
     (val) => (val === "" ? undefined : val),
     z.string().nullable().optional(),
   ),
+  expectedUpdatedAt: z
+    .string()
+    .optional()
+    .transform((val) => val || undefined),
 });
 
 // Frequency display labels
@@ -108,6 +134,7 @@ const formatDate = (dateStr: string | null): string => {
 const ReminderRow = (
   reminder: RecurringReminder,
   linkedContract: Contract | null,
+  canEdit: boolean,
 ) => {
   const status = getReminderStatus(reminder.nextDue, reminder.isActive);
 
@@ -144,7 +171,7 @@ const ReminderRow = (
       <td><span class="badge ${status.class}">${status.label}</span></td>
       <td>
         <div class="flex gap-1">
-          ${reminder.isActive
+          ${canEdit && reminder.isActive
             ? html`
                 <button
                   type="button"
@@ -169,6 +196,7 @@ const ReminderRow = (
 const RemindersTable = (
   reminders: RecurringReminder[],
   contractsMap: Map<string, Contract>,
+  canEdit: boolean,
 ) => {
   if (reminders.length === 0) {
     return html`
@@ -218,6 +246,7 @@ const RemindersTable = (
               r.linkedEntityId
                 ? contractsMap.get(r.linkedEntityId) || null
                 : null,
+              canEdit,
             ),
           )}
         </tbody>
@@ -226,6 +255,26 @@ const RemindersTable = (
   `;
 };
 
+// Form field labels, keyed by signal name (used to describe edit conflicts)
+const REMINDER_FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  frequency: "Frequency",
+  nextDue: "Next Due Date",
+  description: "Description",
+};
+
+// Maps a reminder to the reminder form's signal values
+const reminderFormSignals = (
+  reminder?: RecurringReminder,
+): Record<string, string> => ({
+  title: reminder?.title || "",
+  description: reminder?.description || "",
+  frequency: reminder?.frequency || "monthly",
+  nextDue: reminder?.nextDue || "",
+  linkedEntityType: reminder?.linkedEntityType || "",
+  linkedEntityId: reminder?.linkedEntityId || "",
+});
+
 // Renders the reminder form (create/edit)
 const ReminderForm = (props: {
   reminder?: RecurringReminder;
@@ -247,14 +296,13 @@ const ReminderForm = (props: {
     <form
       data-on:submit="@post('${action}')"
       data-signals="${JSON.stringify({
+        ...reminderFormSignals(reminder),
         title: reminder?.title || prefill?.title || "",
-        description: reminder?.description || "",
-        frequency: reminder?.frequency || "monthly",
-        nextDue: reminder?.nextDue || "",
         linkedEntityType:
           reminder?.linkedEntityType || prefill?.linkedEntityType || "",
         linkedEntityId:
           reminder?.linkedEntityId || prefill?.linkedEntityId || "",
+        expectedUpdatedAt: reminder?.updatedAt || "",
       })}"
     >
       <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -335,6 +383,11 @@ const ReminderForm = (props: {
           data-bind="linkedEntityType"
         />
         <input type="hidden" name="linkedEntityId" data-bind="linkedEntityId" />
+        ${errors?.fieldErrors?.linkedEntityId?.[0]
+          ? html`<p class="md:col-span-2 text-sm text-error">
+              ${errors.fieldErrors.linkedEntityId[0]}
+            </p>`
+          : ""}
       </div>
 
       <div class="mt-6 flex gap-2">
@@ -389,15 +442,19 @@ const DeleteConfirmModal = (reminder: RecurringReminder) => {
 type RemindersPageState = {
   reminders: RecurringReminder[];
   contractsMap: Map<string, Contract>;
+  canEdit: boolean;
 };
 
 type ReminderDetailPageState = {
   reminder: RecurringReminder;
   linkedContract: Contract | null;
+  history: AuditEntry[];
+  canEdit: boolean;
 };
 
 // Loads contracts for linked reminders
 const loadLinkedContracts = async (
+  householdId: string,
   reminders: RecurringReminder[],
 ): Promise<Map<string, Contract>> => {
   const contractIds = new Set<string>();
@@ -409,7 +466,7 @@ const loadLinkedContracts = async (
 
   const contractsMap = new Map<string, Contract>();
   for (const id of contractIds) {
-    const contract = await getContract(id);
+    const contract = await getContract(id, householdId);
     if (contract) {
       contractsMap.set(id, contract);
     }
@@ -423,7 +480,7 @@ const renderRemindersContent = (state: RemindersPageState) => html`
   <div id="reminders-content">
     <div class="card bg-base-100 shadow-xl">
       <div class="card-body">
-        ${RemindersTable(state.reminders, state.contractsMap)}
+        ${RemindersTable(state.reminders, state.contractsMap, state.canEdit)}
       </div>
     </div>
   </div>
@@ -433,12 +490,12 @@ const renderRemindersContent = (state: RemindersPageState) => html`
 remindersRouter.get("/", async (c) => {
   const user = c.get("user")!;
   const [reminders, notifications, unreadCount] = await Promise.all([
-    getAllReminders(),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getAllReminders(user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
-  const contractsMap = await loadLinkedContracts(reminders);
+  const contractsMap = await loadLinkedContracts(user.householdId!, reminders);
 
   return c.html(
     AppLayout({
@@ -451,11 +508,20 @@ remindersRouter.get("/", async (c) => {
           title: "Reminders",
           description: "Recurring tasks and periodic checks",
         })}
-        <div class="mb-6">
-          ${Button({ href: "/app/reminders/new", children: "Add Reminder" })}
-        </div>
+        ${canEdit(user, "reminders")
+          ? html`<div class="mb-6">
+              ${Button({
+                href: "/app/reminders/new",
+                children: "Add Reminder",
+              })}
+            </div>`
+          : ""}
         <div data-init="@get('/app/reminders/sse')">
-          ${renderRemindersContent({ reminders, contractsMap })}
+          ${renderRemindersContent({
+            reminders,
+            contractsMap,
+            canEdit: canEdit(user, "reminders"),
+          })}
         </div>
       `,
     }),
@@ -466,10 +532,17 @@ remindersRouter.get("/", async (c) => {
 remindersRouter.get(
   "/sse",
   createSSEResource({
-    loadState: async (): Promise<RemindersPageState> => {
-      const reminders = await getAllReminders();
-      const contractsMap = await loadLinkedContracts(reminders);
-      return { reminders, contractsMap };
+    loadState: async (user): Promise<RemindersPageState> => {
+      const reminders = await getAllReminders(user.householdId!);
+      const contractsMap = await loadLinkedContracts(
+        user.householdId!,
+        reminders,
+      );
+      return {
+        reminders,
+        contractsMap,
+        canEdit: canEdit(user, "reminders"),
+      };
     },
     render: renderRemindersContent,
     eventTypes: ["reminder.*", "contract.*"],
@@ -487,6 +560,11 @@ type ReminderFormPageState = {
     linkedEntityType?: string;
     linkedEntityId?: string;
   };
+  conflict?: {
+    changedBy: string | null;
+    mine: Record<string, string>;
+    theirs: Record<string, string>;
+  } | null;
 };
 
 // Reminder form content renderer (used by SSE for create/edit pages)
@@ -495,6 +573,13 @@ const renderReminderFormContent = (state: ReminderFormPageState) => html`
     ${Card({
       children: html`
         <div class="card-body">
+          ${state.conflict && state.reminder
+            ? ConflictNotice({
+                ...state.conflict,
+                labels: REMINDER_FIELD_LABELS,
+                discardHref: `/app/reminders/${state.reminder.id}/edit`,
+              })
+            : ""}
           ${ReminderForm({
             reminder: state.reminder,
             action: state.action,
@@ -515,9 +600,18 @@ const reminderFormResource = createFormResource({
   command: createReminderCommand,
   eventTypes: ["reminder.*"],
   successRedirect: "/app/reminders",
-  loadState: async (_user, c, cid) => {
+  loadState: async (user, c, cid) => {
     const editId = c.req.query("editId");
-    const reminder = editId ? await getReminder(editId) : undefined;
+    const current = editId
+      ? await getReminder(editId, user.householdId!)
+      : null;
+    const conflict = current ? await formConflictStore.getConflict(cid) : null;
+
+    // After a stale write, show the user's submission on top of the newer version
+    const reminder =
+      current && conflict
+        ? ({ ...current, ...conflict.submitted } as RecurringReminder)
+        : current;
     const prefillTitle = c.req.query("prefillTitle") || undefined;
     const prefillLinkedEntityType =
       c.req.query("prefillLinkedEntityType") || undefined;
@@ -527,7 +621,7 @@ const reminderFormResource = createFormResource({
       reminder: reminder || undefined,
       action: editId ? `/app/reminders/${editId}` : "/app/reminders",
       submitLabel: editId ? "Save Changes" : "Add Reminder",
-      formErrors: formErrorStore.getErrors(cid),
+      formErrors: await formErrorStore.getErrors(cid),
       prefill:
         !editId &&
         (prefillTitle || prefillLinkedEntityType || prefillLinkedEntityId)
@@ -537,20 +631,37 @@ const reminderFormResource = createFormResource({
               linkedEntityId: prefillLinkedEntityId,
             }
           : undefined,
+      conflict:
+        current && conflict
+          ? {
+              changedBy: await getLastChangedBy(
+                "reminder",
+                current.id,
+                String(conflict.submitted.expectedUpdatedAt ?? ""),
+                user.id,
+              ),
+              mine: reminderFormSignals(reminder || undefined),
+              theirs: reminderFormSignals(current),
+            }
+          : null,
     };
   },
   render: renderReminderFormContent,
 });
 
 // Reminder form SSE endpoint (shared by create and edit pages)
-remindersRouter.post("/form/sse", reminderFormResource.sseHandler);
+remindersRouter.post(
+  "/form/sse",
+  requireEditor,
+  reminderFormResource.sseHandler,
+);
 
 // New reminder page
-remindersRouter.get("/new", async (c) => {
+remindersRouter.get("/new", requireEditor, async (c) => {
   const user = c.get("user")!;
   const [notifications, unreadCount] = await Promise.all([
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   // Check for prefill from query params (when creating from contract page)
@@ -590,7 +701,7 @@ remindersRouter.get("/new", async (c) => {
 });
 
 // Create reminder
-remindersRouter.post("/", reminderFormResource.postHandler);
+remindersRouter.post("/", requireEditor, reminderFormResource.postHandler);
 
 // Reminder detail content renderer
 const renderReminderDetailContent = (state: ReminderDetailPageState) => {
@@ -658,53 +769,57 @@ const renderReminderDetailContent = (state: ReminderDetailPageState) => {
                   : ""}
               </dl>
 
-              <div class="divider"></div>
-
-              <div class="flex flex-wrap gap-2">
-                ${reminder.isActive
-                  ? html`
-                      <button
-                        type="button"
-                        class="btn btn-primary"
-                        data-on:click="@post('/app/reminders/${reminder.id}/trigger')"
-                      >
-                        Mark as Done
-                      </button>
-                      <button
-                        type="button"
+              ${state.canEdit
+                ? html`
+                    <div class="divider"></div>
+
+                    <div class="flex flex-wrap gap-2">
+                      ${reminder.isActive
+                        ? html`
+                            <button
+                              type="button"
+                              class="btn btn-primary"
+                              data-on:click="@post('/app/reminders/${reminder.id}/trigger')"
+                            >
+                              Mark as Done
+                            </button>
+                            <button
+                              type="button"
+                              class="btn btn-ghost"
+                              data-on:click="@post('/app/reminders/${reminder.id}/pause')"
+                            >
+                              Pause
+                            </button>
+                          `
+                        : html`
+                            <button
+                              type="button"
+                              class="btn btn-primary"
+                              data-on:click="@post('/app/reminders/${reminder.id}/resume')"
+                            >
+                              Resume
+                            </button>
+                          `}
+                      <a
+                        href="/app/reminders/${reminder.id}/edit"
                         class="btn btn-ghost"
-                        data-on:click="@post('/app/reminders/${reminder.id}/pause')"
+                        >Edit</a
                       >
-                        Pause
-                      </button>
-                    `
-                  : html`
                       <button
                         type="button"
-                        class="btn btn-primary"
-                        data-on:click="@post('/app/reminders/${reminder.id}/resume')"
+                        class="btn btn-ghost btn-error"
+                        onclick="document.getElementById('delete-modal').showModal()"
                       >
-                        Resume
+                        Delete
                       </button>
-                    `}
-                <a
-                  href="/app/reminders/${reminder.id}/edit"
-                  class="btn btn-ghost"
-                  >Edit</a
-                >
-                <button
-                  type="button"
-                  class="btn btn-ghost btn-error"
-                  onclick="document.getElementById('delete-modal').showModal()"
-                >
-                  Delete
-                </button>
-              </div>
+                    </div>
+                  `
+                : ""}
             </div>
           </div>
         </div>
 
-        <div>
+        <div class="space-y-4">
           <div class="card bg-base-100 shadow-xl">
             <div class="card-body">
               <h3 class="card-title">About Reminders</h3>
@@ -717,10 +832,11 @@ const renderReminderDetailContent = (state: ReminderDetailPageState) => {
               </p>
             </div>
           </div>
+          ${AuditHistory({ entries: state.history })}
         </div>
       </div>
 
-      ${DeleteConfirmModal(reminder)}
+      ${state.canEdit ? DeleteConfirmModal(reminder) : ""}
     </div>
   `;
 };
@@ -730,10 +846,11 @@ remindersRouter.get("/:id", async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  const [reminder, notifications, unreadCount] = await Promise.all([
-    getReminder(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+  const [reminder, history, notifications, unreadCount] = await Promise.all([
+    getReminder(id, user.householdId!),
+    getEntityHistory("reminder", id),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!reminder) {
@@ -742,7 +859,10 @@ remindersRouter.get("/:id", async (c) => {
 
   let linkedContract: Contract | null = null;
   if (reminder.linkedEntityType === "contract" && reminder.linkedEntityId) {
-    linkedContract = await getContract(reminder.linkedEntityId);
+    linkedContract = await getContract(
+      reminder.linkedEntityId,
+      user.householdId!,
+    );
   }
 
   return c.html(
@@ -780,6 +900,8 @@ remindersRouter.get("/:id", async (c) => {
           ${renderReminderDetailContent({
             reminder,
             linkedContract,
+            history,
+            canEdit: canEdit(user, "reminders"),
           })}
         </div>
       `,
@@ -791,21 +913,29 @@ remindersRouter.get("/:id", async (c) => {
 remindersRouter.get(
   "/:id/sse",
   createSSEResource({
-    loadState: async (_user, c): Promise<ReminderDetailPageState> => {
+    loadState: async (user, c): Promise<ReminderDetailPageState> => {
       const id = c.req.param("id");
-      const reminder = await getReminder(id);
+      const [reminder, history] = await Promise.all([
+        getReminder(id, user.householdId!),
+        getEntityHistory("reminder", id),
+      ]);
       if (!reminder) {
         throw new Error("Reminder not found");
       }
 
       let linkedContract: Contract | null = null;
       if (reminder.linkedEntityType === "contract" && reminder.linkedEntityId) {
-        linkedContract = await getContract(reminder.linkedEntityId);
+        linkedContract = await getContract(
+          reminder.linkedEntityId,
+          user.householdId!,
+        );
       }
 
       return {
         reminder,
         linkedContract,
+        history,
+        canEdit: canEdit(user, "reminders"),
       };
     },
     render: renderReminderDetailContent,
@@ -815,14 +945,14 @@ remindersRouter.get(
 );
 
 // Edit reminder page
-remindersRouter.get("/:id/edit", async (c) => {
+remindersRouter.get("/:id/edit", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
   const [reminder, notifications, unreadCount] = await Promise.all([
-    getReminder(id),
-    getNotifications(user.id, 5),
-    getUnreadCount(user.id),
+    getReminder(id, user.householdId!),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
   ]);
 
   if (!reminder) {
@@ -857,6 +987,7 @@ remindersRouter.get("/:id/edit", async (c) => {
 // Update reminder
 remindersRouter.post(
   "/:id",
+  requireEditor,
   handleFormPost({
     schema: reminderFormSchema,
     command: updateReminderCommand,
@@ -865,41 +996,41 @@ remindersRouter.post(
 );
 
 // Trigger reminder (mark as done)
-remindersRouter.post("/:id/trigger", async (c) => {
+remindersRouter.post("/:id/trigger", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(triggerReminderCommand, user, { id });
+  await commandStore.enqueue(triggerReminderCommand, user, { id });
 
   return c.body(null, 204);
 });
 
 // Pause reminder
-remindersRouter.post("/:id/pause", async (c) => {
+remindersRouter.post("/:id/pause", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(pauseReminderCommand, user, { id });
+  await commandStore.enqueue(pauseReminderCommand, user, { id });
 
   return c.body(null, 204);
 });
 
 // Resume reminder
-remindersRouter.post("/:id/resume", async (c) => {
+remindersRouter.post("/:id/resume", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(resumeReminderCommand, user, { id });
+  await commandStore.enqueue(resumeReminderCommand, user, { id });
 
   return c.body(null, 204);
 });
 
 // Delete reminder
-remindersRouter.post("/:id/delete", async (c) => {
+remindersRouter.post("/:id/delete", requireEditor, async (c) => {
   const user = c.get("user")!;
   const id = c.req.param("id");
 
-  commandStore.enqueue(deleteReminderCommand, user, { id });
+  await commandStore.enqueue(deleteReminderCommand, user, { id });
 
   return c.body(null, 204);
 });
@@ -0,0 +1,629 @@
+import type { RegistrationResponseJSON } from "@simplewebauthn/server";
+import { Hono, type Context } from "hono";
+import { html, raw } from "hono/html";
+import type { HtmlEscapedString } from "hono/utils/html";
+import QRCode from "qrcode";
+import { z } from "zod";
+import {
+  deleteUserSession,
+  deleteUserSessions,
+  getTwoFactorStatus,
+  getUserSessions,
+  verifySecondFactor,
+  type ActiveSession,
+  type TwoFactorStatus,
+} from "../../lib/auth/index.ts";
+import {
+  clearPasskeyChallengeCookie,
+  clearSessionCookie,
+  getPasskeyChallengeToken,
+  setPasskeyChallengeCookie,
+} from "../../lib/auth/middleware.ts";
+import {
+  createPasskeyRegistrationOptions,
+  deletePasskey,
+  getUserPasskeys,
+  parsePasskeyResponse,
+  verifyPasskeyRegistration,
+  type Passkey,
+} from "../../lib/auth/passkey.ts";
+import { rateLimit } from "../../lib/auth/rate-limit.ts";
+import { formatTotpSecret, getTotpUri } from "../../lib/auth/totp.ts";
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "../../lib/auth/two-factor.ts";
+import {
+  getNotifications,
+  getUnreadCount,
+} from "../../lib/notifications/index.ts";
+import type { HonoContext } from "../../types/hono.ts";
+import type { User } from "../../types/user.ts";
+import {
+  Alert,
+  Button,
+  Card,
+  FormField,
+  PageHeader,
+  PasskeyForm,
+} from "../../ui/index.ts";
+import { AppLayout } from "../../ui/layouts/index.ts";
+
+export const securityRouter = new Hono<HonoContext>();
+
+// Limits guessing on the forms that take an authenticator code
+const codeRateLimit = rateLimit({ windowMs: 15 * 60 * 1000, maxRequests: 10 });
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, "Enter the code from your app"),
+});
+
+const passkeyNameSchema = z.string().trim().min(1).max(100).catch("Passkey");
+
+// Renders a page in the app layout
+const renderPage = async (
+  c: Context<HonoContext>,
+  user: User,
+  children: HtmlEscapedString | Promise<HtmlEscapedString>,
+) => {
+  const [notifications, unreadCount] = await Promise.all([
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Account Security - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Account Security",
+          description: "Choose how you sign in and protect your account",
+        })}
+        <div class="max-w-xl space-y-6">${children}</div>
+      `,
+    }),
+  );
+};
+
+// Field for a code from the authenticator app (or a recovery code)
+const CodeField = ({
+  label = "Code from your app",
+  error,
+}: {
+  label?: string;
+  error?: string;
+}) =>
+  FormField({
+    label,
+    htmlFor: "code",
+    error,
+    children: html`
+      <input
+        type="text"
+        id="code"
+        name="code"
+        class="input input-bordered w-full"
+        required
+        autocomplete="one-time-code"
+        spellcheck="false"
+      />
+    `,
+  });
+
+// Lists the devices signed in to the account, with sign-out actions
+const SessionList = ({
+  sessions,
+  currentSessionId,
+}: {
+  sessions: ActiveSession[];
+  currentSessionId: string;
+}) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Signed-in devices</h2>
+        <p class="text-base-content/70">
+          If you don't recognise a device, or lost one, sign it out.
+        </p>
+        <ul class="divide-y divide-base-200 my-2">
+          ${sessions.map(
+            (session) => html`
+              <li class="flex items-center justify-between gap-4 py-2">
+                <div>
+                  <div class="font-medium">
+                    ${session.device}
+                    ${session.id === currentSessionId
+                      ? html`<span class="badge badge-primary badge-sm ml-1"
+                          >This device</span
+                        >`
+                      : ""}
+                  </div>
+                  <div class="text-sm text-base-content/60">
+                    Signed in
+                    ${new Date(session.createdAt).toLocaleDateString()} · Last
+                    active ${new Date(session.lastActiveAt).toLocaleString()} ·
+                    Expires ${new Date(session.expiresAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <form
+                  method="POST"
+                  action="/app/security/sessions/${session.id}/revoke"
+                >
+                  ${Button({
+                    children: "Sign Out",
+                    type: "submit",
+                    variant: "ghost",
+                    size: "sm",
+                  })}
+                </form>
+              </li>
+            `,
+          )}
+        </ul>
+        ${sessions.length > 1
+          ? html`
+              <form method="POST" action="/app/security/sessions/revoke-others">
+                ${Button({
+                  children: "Sign Out Everywhere Else",
+                  type: "submit",
+                  variant: "secondary",
+                })}
+              </form>
+            `
+          : ""}
+      </div>
+    `,
+  });
+
+// Lists the user's passkeys, with a form to add one
+const PasskeyList = ({ passkeys }: { passkeys: Passkey[] }) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Passkeys</h2>
+        <p class="text-base-content/70">
+          Sign in with your fingerprint, face or phone screen lock instead of
+          typing a password.
+        </p>
+        ${passkeys.length > 0
+          ? html`
+              <ul class="divide-y divide-base-200 my-2">
+                ${passkeys.map(
+                  (passkey) => html`
+                    <li class="flex items-center justify-between gap-4 py-2">
+                      <div>
+                        <div class="font-medium">${passkey.name}</div>
+                        <div class="text-sm text-base-content/60">
+                          Added
+                          ${new Date(passkey.createdAt).toLocaleDateString()}
+                          ${passkey.lastUsedAt
+                            ? html`· Last used
+                              ${new Date(
+                                passkey.lastUsedAt,
+                              ).toLocaleDateString()}`
+                            : ""}
+                        </div>
+                      </div>
+                      <form
+                        method="POST"
+                        action="/app/security/passkeys/${passkey.id}/delete"
+                      >
+                        ${Button({
+                          children: "Remove",
+                          type: "submit",
+                          variant: "ghost",
+                          size: "sm",
+                        })}
+                      </form>
+                    </li>
+                  `,
+                )}
+              </ul>
+            `
+          : ""}
+        <div class="mt-2">
+          ${PasskeyForm({
+            mode: "register",
+            action: "/app/security/passkeys",
+            optionsUrl: "/app/security/passkeys/options",
+            label: "Add a Passkey",
+            children: FormField({
+              label: "Name",
+              htmlFor: "passkeyName",
+              children: html`
+                <input
+                  type="text"
+                  id="passkeyName"
+                  name="name"
+                  class="input input-bordered w-full"
+                  placeholder="e.g. My phone"
+                  maxlength="100"
+                />
+              `,
+            }),
+          })}
+        </div>
+      </div>
+    `,
+  });
+
+// Shows the current two-factor state and the actions available
+const TwoFactorOverview = ({ status }: { status: TwoFactorStatus }) => html`
+  ${status.required && !status.enabled
+    ? Alert({
+        type: "warning",
+        title: "Two-factor authentication required. ",
+        message:
+          "Your administrator requires it for your account. Set it up to continue using the app.",
+      })
+    : ""}
+  ${Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">
+          Two-factor authentication
+          ${status.enabled
+            ? html`<span class="badge badge-success">On</span>`
+            : html`<span class="badge badge-ghost">Off</span>`}
+        </h2>
+        ${status.enabled
+          ? html`
+              <p class="text-base-content/70">
+                You'll be asked for a code from your authenticator app when you
+                log in. ${status.recoveryCodesLeft} recovery
+                ${status.recoveryCodesLeft === 1 ? "code" : "codes"} left.
+              </p>
+              <form
+                method="POST"
+                action="/app/security/recovery-codes"
+                class="space-y-4 mt-4"
+              >
+                <h3 class="font-semibold">New recovery codes</h3>
+                <p class="text-sm text-base-content/60">
+                  Replaces your current recovery codes.
+                </p>
+                ${CodeField({})}
+                ${Button({
+                  children: "Generate New Codes",
+                  type: "submit",
+                  variant: "secondary",
+                })}
+              </form>
+              ${status.required
+                ? html`
+                    <p class="text-sm text-base-content/60 mt-4">
+                      Your administrator requires two-factor authentication, so
+                      it can't be turned off.
+                    </p>
+                  `
+                : html`
+                    <form
+                      method="POST"
+                      action="/app/security/totp/disable"
+                      class="space-y-4 mt-4"
+                    >
+                      <h3 class="font-semibold">Turn off</h3>
+                      ${CodeField({
+                        label: "Code from your app or a recovery code",
+                      })}
+                      ${Button({
+                        children: "Turn Off Two-Factor",
+                        type: "submit",
+                        variant: "error",
+                      })}
+                    </form>
+                  `}
+            `
+          : html`
+              <p class="text-base-content/70">
+                Add a second step to logging in: a 6-digit code from an
+                authenticator app such as Google Authenticator, 1Password or
+                Authy. Someone who learns your password still can't see Mum's
+                health information without your phone.
+              </p>
+              <form
+                method="POST"
+                action="/app/security/totp/setup"
+                class="mt-4"
+              >
+                ${Button({
+                  children: "Set Up Two-Factor",
+                  type: "submit",
+                  variant: "primary",
+                })}
+              </form>
+            `}
+      </div>
+    `,
+  })}
+`;
+
+// Renders the security page with the user's current passkeys and two-factor
+// state, plus an optional outcome message
+const renderOverview = async (
+  c: Context<HonoContext>,
+  user: User,
+  { error, message }: { error?: string; message?: string } = {},
+) => {
+  const [status, passkeys, sessions] = await Promise.all([
+    getTwoFactorStatus(user.id),
+    getUserPasskeys(user.id),
+    getUserSessions(user.id),
+  ]);
+
+  return renderPage(
+    c,
+    user,
+    html`
+      ${message ? Alert({ type: "success", message }) : ""}
+      ${error ? Alert({ type: "error", message: error }) : ""}
+      ${PasskeyList({ passkeys })} ${TwoFactorOverview({ status })}
+      ${SessionList({
+        sessions,
+        currentSessionId: c.get("session")!.token,
+      })}
+    `,
+  );
+};
+
+// Shows the QR code for a pending secret and asks for the first code
+const EnrollmentForm = async ({
+  user,
+  secret,
+  error,
+}: {
+  user: User;
+  secret: string;
+  error?: string;
+}) => {
+  const qrCode = await QRCode.toString(getTotpUri(secret, user.email), {
+    type: "svg",
+    margin: 1,
+    width: 200,
+  });
+
+  return Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Set up two-factor authentication</h2>
+        ${error ? Alert({ type: "error", message: error }) : ""}
+        <ol class="list-decimal list-inside space-y-2 text-base-content/70">
+          <li>Scan this QR code with your authenticator app.</li>
+          <li>Enter the 6-digit code it shows to finish.</li>
+        </ol>
+        <div class="bg-white p-2 rounded w-fit my-4">${raw(qrCode)}</div>
+        <p class="text-sm text-base-content/60">
+          Can't scan it? Enter this key instead:
+        </p>
+        <code class="text-sm bg-base-200 px-2 py-1 rounded select-all w-fit"
+          >${formatTotpSecret(secret)}</code
+        >
+        <form
+          method="POST"
+          action="/app/security/totp/confirm"
+          class="space-y-4 mt-4"
+        >
+          ${CodeField({})}
+          <div class="flex gap-2">
+            ${Button({
+              children: "Turn On",
+              type: "submit",
+              variant: "primary",
+            })}
+            ${Button({
+              children: "Cancel",
+              href: "/app/security",
+              variant: "ghost",
+            })}
+          </div>
+        </form>
+      </div>
+    `,
+  });
+};
+
+// Shows newly issued recovery codes. They're stored hashed, so this is the
+// only time they can be seen.
+const RecoveryCodes = ({ codes }: { codes: string[] }) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Save your recovery codes</h2>
+        <p class="text-base-content/70">
+          If you lose your phone, each of these codes lets you log in once. Keep
+          them somewhere safe. They won't be shown again.
+        </p>
+        <ul
+          class="bg-base-200 p-4 rounded font-mono grid grid-cols-2 gap-2 select-all"
+        >
+          ${codes.map((code) => html`<li>${code}</li>`)}
+        </ul>
+        <div class="mt-4">
+          ${Button({
+            children: "I've Saved Them",
+            href: "/app/security",
+            variant: "primary",
+          })}
+        </div>
+      </div>
+    `,
+  });
+
+// Account security page
+securityRouter.get("/", async (c) => {
+  return renderOverview(c, c.get("user")!);
+});
+
+// Signs out one device. Signing out this one logs the user out.
+securityRouter.post("/sessions/:id/revoke", async (c) => {
+  const user = c.get("user")!;
+  const sessionId = c.req.param("id");
+  const removed = await deleteUserSession(user.id, sessionId);
+
+  if (sessionId === c.get("session")!.token) {
+    clearSessionCookie(c);
+    return c.redirect("/auth/login");
+  }
+
+  return renderOverview(
+    c,
+    user,
+    removed
+      ? { message: "That device has been signed out." }
+      : { error: "That device was already signed out." },
+  );
+});
+
+// Signs out every device except this one
+securityRouter.post("/sessions/revoke-others", async (c) => {
+  const user = c.get("user")!;
+  const count = await deleteUserSessions(user.id, c.get("session")!.token);
+
+  return renderOverview(c, user, {
+    message:
+      count === 1
+        ? "Signed out 1 other device."
+        : `Signed out ${count} other devices.`,
+  });
+});
+
+// Passkey registration options - fetched by the browser before its prompt
+securityRouter.post("/passkeys/options", async (c) => {
+  const { options, challengeToken } = await createPasskeyRegistrationOptions(
+    c.get("user")!,
+  );
+  setPasskeyChallengeCookie(c, challengeToken);
+  return c.json(options);
+});
+
+// Saves a new passkey from the browser's response
+securityRouter.post("/passkeys", async (c) => {
+  const user = c.get("user")!;
+  const challengeToken = getPasskeyChallengeToken(c);
+  clearPasskeyChallengeCookie(c);
+
+  const formData = await c.req.formData();
+  const response = parsePasskeyResponse<RegistrationResponseJSON>(
+    formData.get("response"),
+  );
+  const registered =
+    challengeToken && response
+      ? await verifyPasskeyRegistration(
+          challengeToken,
+          user.id,
+          response,
+          passkeyNameSchema.parse(formData.get("name")),
+        )
+      : false;
+
+  return renderOverview(
+    c,
+    user,
+    registered
+      ? { message: "Passkey added." }
+      : { error: "The passkey couldn't be saved. Please try again." },
+  );
+});
+
+// Removes a passkey, unless the user would be left with no way to log in
+securityRouter.post("/passkeys/:id/delete", async (c) => {
+  const user = c.get("user")!;
+  const removed = await deletePasskey(user.id, c.req.param("id"));
+
+  return renderOverview(
+    c,
+    user,
+    removed
+      ? { message: "Passkey removed." }
+      : {
+          error:
+            "That passkey can't be removed because it's your only way to log in. Set a password or add another passkey first.",
+        },
+  );
+});
+
+// Starts enrolment with a new secret
+securityRouter.post("/totp/setup", async (c) => {
+  const user = c.get("user")!;
+  const status = await getTwoFactorStatus(user.id);
+  if (status.enabled) {
+    return c.redirect("/app/security");
+  }
+
+  const secret = await beginTotpEnrollment(user.id);
+  return renderPage(c, user, EnrollmentForm({ user, secret }));
+});
+
+// Confirms enrolment with the first code and shows the recovery codes
+securityRouter.post("/totp/confirm", codeRateLimit, async (c) => {
+  const user = c.get("user")!;
+  const status = await getTwoFactorStatus(user.id);
+  if (!status.pendingSecret) {
+    return c.redirect("/app/security");
+  }
+
+  const formData = await c.req.formData();
+  const parsed = codeSchema.safeParse({ code: formData.get("code") });
+  const codes = parsed.success
+    ? await confirmTotpEnrollment(user.id, parsed.data.code)
+    : null;
+  if (!codes) {
+    return renderPage(
+      c,
+      user,
+      EnrollmentForm({
+        user,
+        secret: status.pendingSecret,
+        error:
+          "That code didn't match. Check your phone's clock is right and try the latest code.",
+      }),
+    );
+  }
+
+  return renderPage(c, user, RecoveryCodes({ codes }));
+});
+
+// Replaces the recovery codes after checking a current code
+securityRouter.post("/recovery-codes", codeRateLimit, async (c) => {
+  const user = c.get("user")!;
+  const formData = await c.req.formData();
+  const parsed = codeSchema.safeParse({ code: formData.get("code") });
+
+  if (
+    !parsed.success ||
+    !(await verifySecondFactor(user.id, parsed.data.code))
+  ) {
+    return renderOverview(c, user, { error: "That code didn't work." });
+  }
+
+  const codes = await regenerateRecoveryCodes(user.id);
+  return renderPage(c, user, RecoveryCodes({ codes }));
+});
+
+// Turns two-factor off after checking a current code, unless an admin requires it
+securityRouter.post("/totp/disable", codeRateLimit, async (c) => {
+  const user = c.get("user")!;
+  const status = await getTwoFactorStatus(user.id);
+  if (!status.enabled || status.required) {
+    return c.redirect("/app/security");
+  }
+
+  const formData = await c.req.formData();
+  const parsed = codeSchema.safeParse({ code: formData.get("code") });
+  if (
+    !parsed.success ||
+    !(await verifySecondFactor(user.id, parsed.data.code))
+  ) {
+    return renderOverview(c, user, { error: "That code didn't work." });
+  }
+
+  await disableTwoFactor(user.id);
+  return renderOverview(c, user, {
+    message: "Two-factor authentication is off.",
+  });
+});
@@ -0,0 +1,401 @@
+import { Hono, type Context } from "hono";
+import { html } from "hono/html";
+import { z } from "zod";
+import {
+  changePasswordCommand,
+  requestEmailChangeCommand,
+  updateProfileCommand,
+} from "../../lib/account/commands.ts";
+import {
+  findUserById,
+  getPendingEmail,
+  userHasPassword,
+} from "../../lib/auth/index.ts";
+import { rateLimit } from "../../lib/auth/rate-limit.ts";
+import {
+  createFormResource,
+  formErrorStore,
+  handleFormPost,
+} from "../../lib/cqrs/index.ts";
+import type { FormErrors } from "../../lib/cqrs/form-errors.ts";
+import {
+  getNotifications,
+  getUnreadCount,
+} from "../../lib/notifications/index.ts";
+import type { HonoContext } from "../../types/hono.ts";
+import type { User } from "../../types/user.ts";
+import { Button, Card, FormField, PageHeader } from "../../ui/index.ts";
+import { AppLayout } from "../../ui/layouts/index.ts";
+
+export const settingsRouter = new Hono<HonoContext>();
+
+// Limits guessing on the forms that take the current password
+const passwordRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  maxRequests: 10,
+});
+
+// Validation schemas
+const profileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+const passwordSchema = z
+  .object({
+    currentPassword: z.string().default(""),
+    newPassword: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string().min(1, "Please confirm your password"),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+const emailSchema = z.object({
+  email: z.string().trim().email("Invalid email address").toLowerCase(),
+  emailPassword: z.string().default(""),
+});
+
+// Page state type
+type SettingsPageState = {
+  user: User;
+  hasPassword: boolean;
+  pendingEmail: string | null;
+  formErrors: FormErrors | null;
+};
+
+// Field for the current password, left out for passkey-only users
+const CurrentPasswordField = ({ id, error }: { id: string; error?: string }) =>
+  FormField({
+    label: "Current password",
+    htmlFor: id,
+    error,
+    children: html`
+      <input
+        type="password"
+        id="${id}"
+        name="${id}"
+        class="input input-bordered w-full"
+        data-bind="${id}"
+        autocomplete="current-password"
+        required
+      />
+    `,
+  });
+
+// Tells passkey-only users why a change may ask them to sign in again
+const RecentSignInNote = html`
+  <p class="text-base-content/60 text-sm">
+    To keep your account safe, you can only do this within 10 minutes of signing
+    in.
+  </p>
+`;
+
+// Form for the user's display name
+const ProfileForm = ({
+  user,
+  errors,
+}: {
+  user: User;
+  errors: FormErrors | null;
+}) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Profile</h2>
+        <form
+          data-on:submit="@post('/app/settings/profile')"
+          data-signals="${JSON.stringify({ name: user.name ?? "" })}"
+          class="space-y-4"
+        >
+          ${FormField({
+            label: "Name",
+            htmlFor: "name",
+            error: errors?.fieldErrors?.name?.[0],
+            children: html`
+              <input
+                type="text"
+                id="name"
+                name="name"
+                class="input input-bordered w-full"
+                data-bind="name"
+                autocomplete="name"
+                required
+              />
+            `,
+          })}
+          ${Button({ children: "Save Name", type: "submit" })}
+        </form>
+      </div>
+    `,
+  });
+
+// Form to change the sign-in email, confirmed from the new address
+const EmailForm = ({
+  user,
+  hasPassword,
+  pendingEmail,
+  errors,
+}: {
+  user: User;
+  hasPassword: boolean;
+  pendingEmail: string | null;
+  errors: FormErrors | null;
+}) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Email</h2>
+        <p class="text-base-content/70">
+          You sign in with <strong>${user.email}</strong>.
+        </p>
+        ${pendingEmail
+          ? html`
+              <div class="alert alert-info" role="status">
+                Waiting for you to confirm ${pendingEmail}. Check that inbox for
+                the link.
+              </div>
+            `
+          : ""}
+        <form
+          data-on:submit="@post('/app/settings/email')"
+          data-signals="${JSON.stringify({ email: "", emailPassword: "" })}"
+          data-effect="$submitSeq && ($emailPassword = '')"
+          class="space-y-4"
+        >
+          ${FormField({
+            label: "New email",
+            htmlFor: "email",
+            error: errors?.fieldErrors?.email?.[0],
+            children: html`
+              <input
+                type="email"
+                id="email"
+                name="email"
+                class="input input-bordered w-full"
+                data-bind="email"
+                autocomplete="email"
+                required
+              />
+            `,
+          })}
+          ${hasPassword
+            ? CurrentPasswordField({
+                id: "emailPassword",
+                error: errors?.fieldErrors?.emailPassword?.[0],
+              })
+            : RecentSignInNote}
+          <p class="text-base-content/60 text-sm">
+            We'll send a link to the new address. Your email won't change until
+            you follow it.
+          </p>
+          ${Button({
+            children: "Change Email",
+            type: "submit",
+            variant: "secondary",
+          })}
+        </form>
+      </div>
+    `,
+  });
+
+// Form to change the password, or set one if the user only has passkeys
+const PasswordForm = ({
+  hasPassword,
+  errors,
+}: {
+  hasPassword: boolean;
+  errors: FormErrors | null;
+}) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Password</h2>
+        <form
+          data-on:submit="@post('/app/settings/password')"
+          data-signals="${JSON.stringify({
+            currentPassword: "",
+            newPassword: "",
+            confirmPassword: "",
+          })}"
+          data-effect="$submitSeq && ($currentPassword = $newPassword = $confirmPassword = '')"
+          class="space-y-4"
+        >
+          ${hasPassword
+            ? CurrentPasswordField({
+                id: "currentPassword",
+                error: errors?.fieldErrors?.currentPassword?.[0],
+              })
+            : html`
+                <p class="text-base-content/70">
+                  You sign in with a passkey. Set a password to sign in without
+                  one too.
+                </p>
+                ${RecentSignInNote}
+              `}
+          ${FormField({
+            label: "New password",
+            htmlFor: "newPassword",
+            error: errors?.fieldErrors?.newPassword?.[0],
+            children: html`
+              <input
+                type="password"
+                id="newPassword"
+                name="newPassword"
+                class="input input-bordered w-full"
+                data-bind="newPassword"
+                autocomplete="new-password"
+                minlength="8"
+                required
+              />
+            `,
+          })}
+          ${FormField({
+            label: "Confirm new password",
+            htmlFor: "confirmPassword",
+            error: errors?.fieldErrors?.confirmPassword?.[0],
+            children: html`
+              <input
+                type="password"
+                id="confirmPassword"
+                name="confirmPassword"
+                class="input input-bordered w-full"
+                data-bind="confirmPassword"
+                autocomplete="new-password"
+                required
+              />
+            `,
+          })}
+          <p class="text-base-content/60 text-sm">
+            Other devices will be signed out.
+          </p>
+          ${Button({
+            children: hasPassword ? "Change Password" : "Set Password",
+            type: "submit",
+            variant: "secondary",
+          })}
+        </form>
+      </div>
+    `,
+  });
+
+// Settings content renderer (used by both GET and SSE)
+const renderSettingsContent = (state: SettingsPageState) => html`
+  <div id="settings-content" class="max-w-xl space-y-6">
+    ${state.formErrors?.formErrors?.length
+      ? html`<div class="alert alert-error">
+          ${state.formErrors.formErrors[0]}
+        </div>`
+      : ""}
+    ${ProfileForm({ user: state.user, errors: state.formErrors })}
+    ${EmailForm({
+      user: state.user,
+      hasPassword: state.hasPassword,
+      pendingEmail: state.pendingEmail,
+      errors: state.formErrors,
+    })}
+    ${PasswordForm({
+      hasPassword: state.hasPassword,
+      errors: state.formErrors,
+    })}
+  </div>
+`;
+
+// Loads page state. The user is re-read so a saved change shows straight away.
+const loadSettingsState = async (
+  user: User,
+  connectionId: string,
+): Promise<SettingsPageState> => {
+  const [current, hasPassword, pendingEmail] = await Promise.all([
+    findUserById(user.id),
+    userHasPassword(user.id),
+    getPendingEmail(user.id),
+  ]);
+
+  return {
+    user: current ?? user,
+    hasPassword,
+    pendingEmail,
+    formErrors: await formErrorStore.getErrors(connectionId),
+  };
+};
+
+// Settings form resource (the name form posts through it)
+const settingsForm = createFormResource({
+  path: "/app/settings/sse",
+  schema: profileSchema,
+  command: updateProfileCommand,
+  data: (parsed, c: Context<HonoContext>) => ({
+    userId: c.get("user")!.id,
+    name: parsed.name,
+  }),
+  eventTypes: ["account.*"],
+  loadState: (user, _c, cid) => loadSettingsState(user, cid),
+  render: renderSettingsContent,
+});
+
+// Settings SSE endpoint
+settingsRouter.post("/sse", settingsForm.sseHandler);
+
+// Settings page
+settingsRouter.get("/", async (c) => {
+  const user = c.get("user")!;
+
+  const [state, notifications, unreadCount] = await Promise.all([
+    loadSettingsState(user, ""),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Settings - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Settings",
+          description: "Your name, email address and password",
+        })}
+        ${settingsForm.container(renderSettingsContent(state))}
+      `,
+    }),
+  );
+});
+
+// Update name
+settingsRouter.post("/profile", settingsForm.postHandler);
+
+// Request an email change. The command checks the current password (or a
+// recent passkey sign-in) itself.
+settingsRouter.post(
+  "/email",
+  passwordRateLimit,
+  handleFormPost({
+    schema: emailSchema,
+    command: requestEmailChangeCommand,
+    data: (parsed, c) => ({
+      userId: c.get("user")!.id,
+      email: parsed.email,
+      currentPassword: parsed.emailPassword,
+      sessionId: c.get("session")?.token ?? "",
+    }),
+  }),
+);
+
+// Change or set the password, checked the same way
+settingsRouter.post(
+  "/password",
+  passwordRateLimit,
+  handleFormPost({
+    schema: passwordSchema,
+    command: changePasswordCommand,
+    data: (parsed, c) => ({
+      userId: c.get("user")!.id,
+      currentPassword: parsed.currentPassword,
+      newPassword: parsed.newPassword,
+      sessionId: c.get("session")?.token ?? "",
+    }),
+  }),
+);
@@ -0,0 +1,272 @@
+import { Hono, type Context } from "hono";
+import { html } from "hono/html";
+import type { HtmlEscapedString } from "hono/utils/html";
+import { z } from "zod";
+import {
+  API_TOKEN_EXPIRY_DAYS,
+  API_TOKEN_SCOPES,
+  createApiToken,
+  deleteUserApiToken,
+  getUserApiTokens,
+} from "../../lib/auth/index.ts";
+import {
+  getNotifications,
+  getUnreadCount,
+} from "../../lib/notifications/index.ts";
+import type { ApiToken, ApiTokenScope, HonoContext } from "../../types/hono.ts";
+import type { User } from "../../types/user.ts";
+import { Alert, Button, Card, FormField, PageHeader } from "../../ui/index.ts";
+import { AppLayout } from "../../ui/layouts/index.ts";
+
+export const tokensRouter = new Hono<HonoContext>();
+
+// Most tokens a user may have at once
+const MAX_API_TOKENS = 20;
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, "Give the token a name").max(100),
+  write: z.literal("on").optional(),
+  expiresInDays: z.coerce
+    .number()
+    .refine((days) => API_TOKEN_EXPIRY_DAYS.includes(days), "Pick an expiry"),
+});
+
+// What each scope lets a token do
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Read",
+  write: "Read and write",
+};
+
+// Renders a page in the app layout
+const renderPage = async (
+  c: Context<HonoContext>,
+  user: User,
+  children: HtmlEscapedString | Promise<HtmlEscapedString>,
+) => {
+  const [notifications, unreadCount] = await Promise.all([
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "API Tokens - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "API Tokens",
+          description: "Let scripts and other apps use your account",
+        })}
+        <div class="max-w-xl space-y-6">${children}</div>
+      `,
+    }),
+  );
+};
+
+// Shows a newly created token. It can't be shown again.
+const NewTokenAlert = ({ token }: { token: string }) => html`
+  <div class="alert alert-success" role="alert">
+    <div>
+      <p class="font-semibold mb-1">Copy your new token now:</p>
+      <code class="text-xs bg-base-100 px-2 py-1 rounded break-all select-all"
+        >${token}</code
+      >
+      <p class="text-xs mt-1 opacity-70">
+        You won't be able to see it again. Send it in an "Authorization: Bearer"
+        header.
+      </p>
+    </div>
+  </div>
+`;
+
+// Form to create a token
+const CreateTokenForm = () =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">New token</h2>
+        <form method="POST" action="/app/tokens" class="space-y-4">
+          ${FormField({
+            label: "Name",
+            htmlFor: "tokenName",
+            children: html`
+              <input
+                type="text"
+                id="tokenName"
+                name="name"
+                class="input input-bordered w-full"
+                placeholder="e.g. Backup script"
+                maxlength="100"
+                required
+              />
+            `,
+          })}
+          ${FormField({
+            label: "Expires after",
+            htmlFor: "expiresInDays",
+            children: html`
+              <select
+                id="expiresInDays"
+                name="expiresInDays"
+                class="select select-bordered w-full"
+              >
+                ${API_TOKEN_EXPIRY_DAYS.map(
+                  (days) => html`
+                    <option value="${days}" ${days === 30 ? "selected" : ""}>
+                      ${days} days
+                    </option>
+                  `,
+                )}
+              </select>
+            `,
+          })}
+          <label class="label cursor-pointer justify-start gap-3">
+            <input type="checkbox" name="write" class="checkbox" />
+            <span class="label-text">
+              Allow changes. Without this the token can only read.
+            </span>
+          </label>
+          ${Button({
+            children: "Create Token",
+            type: "submit",
+            variant: "primary",
+          })}
+        </form>
+      </div>
+    `,
+  });
+
+// Lists the user's tokens, with revoke actions
+const TokenList = ({ tokens }: { tokens: ApiToken[] }) =>
+  Card({
+    children: html`
+      <div class="card-body">
+        <h2 class="card-title">Your tokens</h2>
+        ${tokens.length === 0
+          ? html`<p class="text-base-content/60">No tokens yet</p>`
+          : html`
+              <ul class="divide-y divide-base-200 my-2">
+                ${tokens.map((token) => {
+                  const expired = new Date(token.expiresAt) < new Date();
+                  return html`
+                    <li class="flex items-center justify-between gap-4 py-2">
+                      <div>
+                        <div class="font-medium">
+                          ${token.name}
+                          <span class="badge badge-ghost badge-sm ml-1"
+                            >${SCOPE_LABELS[
+                              token.scopes.includes("write") ? "write" : "read"
+                            ]}</span
+                          >
+                          ${expired
+                            ? html`<span class="badge badge-error badge-sm"
+                                >Expired</span
+                              >`
+                            : ""}
+                        </div>
+                        <div class="text-sm text-base-content/60">
+                          Created
+                          ${new Date(token.createdAt).toLocaleDateString()} ·
+                          ${token.lastUsedAt
+                            ? html`Last used
+                              ${new Date(token.lastUsedAt).toLocaleString()}`
+                            : "Never used"}
+                          · ${expired ? "Expired" : "Expires"}
+                          ${new Date(token.expiresAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <form
+                        method="POST"
+                        action="/app/tokens/${token.id}/revoke"
+                      >
+                        ${Button({
+                          children: expired ? "Remove" : "Revoke",
+                          type: "submit",
+                          variant: "ghost",
+                          size: "sm",
+                        })}
+                      </form>
+                    </li>
+                  `;
+                })}
+              </ul>
+            `}
+      </div>
+    `,
+  });
+
+// Renders the tokens page, plus an optional outcome message or new token
+const renderOverview = async (
+  c: Context<HonoContext>,
+  user: User,
+  {
+    error,
+    message,
+    newToken,
+  }: { error?: string; message?: string; newToken?: string } = {},
+) => {
+  const tokens = await getUserApiTokens(user.id);
+
+  return renderPage(
+    c,
+    user,
+    html`
+      ${message ? Alert({ type: "success", message }) : ""}
+      ${error ? Alert({ type: "error", message: error }) : ""}
+      ${newToken ? NewTokenAlert({ token: newToken }) : ""} ${CreateTokenForm()}
+      ${TokenList({ tokens })}
+    `,
+  );
+};
+
+// Tokens page
+tokensRouter.get("/", async (c) => renderOverview(c, c.get("user")!));
+
+// Creates a token and shows it once
+tokensRouter.post("/", async (c) => {
+  const user = c.get("user")!;
+  const formData = await c.req.formData();
+  const parsed = createTokenSchema.safeParse({
+    name: formData.get("name"),
+    write: formData.get("write") ?? undefined,
+    expiresInDays: formData.get("expiresInDays"),
+  });
+
+  if (!parsed.success) {
+    return renderOverview(c, user, {
+      error: parsed.error.issues[0].message,
+    });
+  }
+
+  const tokens = await getUserApiTokens(user.id);
+  if (tokens.length >= MAX_API_TOKENS) {
+    return renderOverview(c, user, {
+      error: `You can have up to ${MAX_API_TOKENS} tokens. Revoke one first.`,
+    });
+  }
+
+  const token = await createApiToken(
+    user.id,
+    parsed.data.name,
+    parsed.data.write ? API_TOKEN_SCOPES : ["read"],
+    parsed.data.expiresInDays,
+  );
+
+  return renderOverview(c, user, { newToken: token });
+});
+
+// Revokes one of the user's tokens
+tokensRouter.post("/:id/revoke", async (c) => {
+  const user = c.get("user")!;
+  const removed = await deleteUserApiToken(user.id, c.req.param("id"));
+
+  return renderOverview(
+    c,
+    user,
+    removed
+      ? { message: "That token has been revoked." }
+      : { error: "That token was already revoked." },
+  );
+});
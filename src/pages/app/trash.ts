@@ -0,0 +1,258 @@
+import { Hono, type Context } from "hono";
+import { html } from "hono/html";
+import {
+  purgeAppointmentCommand,
+  restoreAppointmentCommand,
+} from "../../lib/appointments/commands.ts";
+import { canEdit, requireRole, type Area } from "../../lib/auth/index.ts";
+import {
+  purgeBillCommand,
+  restoreBillCommand,
+} from "../../lib/bills/commands.ts";
+import {
+  purgeContractCommand,
+  restoreContractCommand,
+} from "../../lib/contracts/commands.ts";
+import { commandStore, createSSEResource } from "../../lib/cqrs/index.ts";
+import type { CommandDefinition } from "../../lib/cqrs/index.ts";
+import {
+  purgeHealthNoteCommand,
+  restoreHealthNoteCommand,
+} from "../../lib/health-notes/commands.ts";
+import {
+  purgeNoteCommand,
+  restoreNoteCommand,
+} from "../../lib/notes/commands.ts";
+import { isHouseholdMember } from "../../lib/households/index.ts";
+import {
+  getNotifications,
+  getUnreadCount,
+} from "../../lib/notifications/index.ts";
+import {
+  purgeObservationCommand,
+  restoreObservationCommand,
+} from "../../lib/observations/commands.ts";
+import {
+  purgeReminderCommand,
+  restoreReminderCommand,
+} from "../../lib/reminders/commands.ts";
+import {
+  getTrashItems,
+  isInTrash,
+  isTrashEntityType,
+  TRASH_RETENTION_DAYS,
+} from "../../lib/trash/index.ts";
+import type { HonoContext } from "../../types/hono.ts";
+import type { TrashEntityType, TrashItem } from "../../types/trash.ts";
+import type { User } from "../../types/user.ts";
+import { Card, PageHeader } from "../../ui/index.ts";
+import { AppLayout } from "../../ui/layouts/index.ts";
+
+export const trashRouter = new Hono<HonoContext>();
+
+// Viewers can't restore or delete anything, so they have no use for the trash
+trashRouter.use("*", requireRole("admin", "family", "carer"));
+
+type TrashCommand = CommandDefinition<{ id: string }, unknown>;
+
+// Restore and purge commands for each kind of trashed item
+const TRASH_COMMANDS: Record<
+  TrashEntityType,
+  { restore: TrashCommand; purge: TrashCommand }
+> = {
+  contract: { restore: restoreContractCommand, purge: purgeContractCommand },
+  appointment: {
+    restore: restoreAppointmentCommand,
+    purge: purgeAppointmentCommand,
+  },
+  healthNote: {
+    restore: restoreHealthNoteCommand,
+    purge: purgeHealthNoteCommand,
+  },
+  note: { restore: restoreNoteCommand, purge: purgeNoteCommand },
+  observation: {
+    restore: restoreObservationCommand,
+    purge: purgeObservationCommand,
+  },
+  reminder: { restore: restoreReminderCommand, purge: purgeReminderCommand },
+  bill: { restore: restoreBillCommand, purge: purgeBillCommand },
+};
+
+// The area each kind of trashed item belongs to. Users only see items from
+// areas they may change.
+const TRASH_AREAS: Record<TrashEntityType, Area> = {
+  contract: "finances",
+  appointment: "appointments",
+  healthNote: "health",
+  note: "notes",
+  observation: "observations",
+  reminder: "reminders",
+  bill: "finances",
+};
+
+// Display labels for trashed item types
+const TYPE_LABELS: Record<TrashEntityType, string> = {
+  contract: "Contract",
+  appointment: "Appointment",
+  healthNote: "Health note",
+  note: "Note",
+  observation: "Observation",
+  reminder: "Reminder",
+  bill: "Bill",
+};
+
+// Formats a date for display
+const formatDate = (dateStr: string): string => {
+  return new Date(dateStr).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+// Renders a single trashed item row
+const TrashRow = (item: TrashItem) => html`
+  <tr>
+    <td>
+      <span class="badge badge-ghost">${TYPE_LABELS[item.entityType]}</span>
+    </td>
+    <td class="max-w-md truncate" title="${item.label}">${item.label}</td>
+    <td class="whitespace-nowrap">${formatDate(item.deletedAt)}</td>
+    <td>
+      <div class="flex gap-2 justify-end">
+        <button
+          type="button"
+          class="btn btn-ghost btn-sm"
+          data-on:click="@post('/app/trash/${item.entityType}/${item.id}/restore')"
+        >
+          Restore
+        </button>
+        <button
+          type="button"
+          class="btn btn-ghost btn-sm text-error"
+          data-on:click="confirm('Delete this for good? This cannot be undone.') && @post('/app/trash/${item.entityType}/${item.id}/purge')"
+        >
+          Delete forever
+        </button>
+      </div>
+    </td>
+  </tr>
+`;
+
+// Page state type
+type TrashPageState = {
+  items: TrashItem[];
+};
+
+// Trash content renderer (used by both GET and SSE)
+const renderTrashContent = (state: TrashPageState) => html`
+  <div id="trash-content">
+    ${Card({
+      children: html`
+        <div class="card-body">
+          ${state.items.length > 0
+            ? html`
+                <div class="overflow-x-auto">
+                  <table class="table">
+                    <thead>
+                      <tr>
+                        <th>Type</th>
+                        <th>Item</th>
+                        <th>Deleted</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      ${state.items.map(TrashRow)}
+                    </tbody>
+                  </table>
+                </div>
+              `
+            : html`<p class="text-base-content/60">The trash is empty</p>`}
+        </div>
+      `,
+    })}
+  </div>
+`;
+
+// Loads trash page state
+const loadTrashState = async (user: User): Promise<TrashPageState> => ({
+  items: (await getTrashItems(user.householdId!)).filter((item) =>
+    canEdit(user, TRASH_AREAS[item.entityType]),
+  ),
+});
+
+// Trash page
+trashRouter.get("/", async (c) => {
+  const user = c.get("user")!;
+
+  const [state, notifications, unreadCount] = await Promise.all([
+    loadTrashState(user),
+    getNotifications(user.id, user.householdId, 5),
+    getUnreadCount(user.id, user.householdId),
+  ]);
+
+  return c.html(
+    AppLayout({
+      title: "Trash - All Eyes on Mum",
+      user,
+      notifications,
+      unreadCount,
+      children: html`
+        ${PageHeader({
+          title: "Trash",
+          description: `Deleted items can be restored for ${TRASH_RETENTION_DAYS} days before they are removed for good`,
+        })}
+        <div data-init="@get('/app/trash/sse')">
+          ${renderTrashContent(state)}
+        </div>
+      `,
+    }),
+  );
+});
+
+// Trash SSE endpoint
+trashRouter.get(
+  "/sse",
+  createSSEResource({
+    loadState: loadTrashState,
+    render: renderTrashContent,
+    eventTypes: Object.keys(TRASH_COMMANDS).map((type) => `${type}.*`),
+  }),
+);
+
+// Restores or permanently deletes a trashed item. Undo links name the
+// household the item was deleted from, which may not be the one open now.
+const handleTrashAction =
+  (action: "restore" | "purge") => async (c: Context<HonoContext>) => {
+    const user = c.get("user")!;
+    const type = c.req.param("type");
+    const id = c.req.param("id");
+    const householdId = c.req.query("household") || user.householdId;
+
+    if (
+      !isTrashEntityType(type) ||
+      !householdId ||
+      !(await isHouseholdMember(householdId, user.id)) ||
+      !(await isInTrash(type, id, householdId))
+    ) {
+      return c.text("That item isn't in the trash", 404);
+    }
+
+    await commandStore.enqueue(
+      TRASH_COMMANDS[type][action],
+      user,
+      { id },
+      { householdId },
+    );
+
+    return c.body(null, 204);
+  };
+
+// Restore a trashed item
+trashRouter.post("/:type/:id/restore", handleTrashAction("restore"));
+
+// Permanently delete a trashed item
+trashRouter.post("/:type/:id/purge", handleTrashAction("purge"));
@@ -0,0 +1,47 @@
+import { Hono } from "hono";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { setupTestDatabase } from "../../test/db.ts";
+import type { HonoContext } from "../../types/hono.ts";
+import { createUser } from "../../lib/auth/user.ts";
+import { sendEmail } from "../../lib/email/index.ts";
+import { authRouter } from "./index.ts";
+
+vi.mock("../../lib/email/index.ts", () => ({
+  sendEmail: vi.fn(async () => {
+    throw new Error("SMTP server unavailable");
+  }),
+}));
+
+describe("POST /auth/forgot", () => {
+  const app = new Hono<HonoContext>().route("/auth", authRouter);
+
+  const requestReset = async (email: string) => {
+    const response = await app.request("/auth/forgot", {
+      method: "POST",
+      body: new URLSearchParams({ email }),
+    });
+    return response.text();
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    await createUser("registered@example.com", "a-password");
+  });
+
+  it("answers the same whether or not the account exists when mail is failing", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const registered = await requestReset("registered@example.com");
+    const unknown = await requestReset("unknown@example.com");
+
+    expect(registered).toContain("If an account exists for that email");
+    expect(registered).toBe(unknown);
+    await vi.waitFor(() => expect(sendEmail).toHaveBeenCalledTimes(1));
+    await vi.waitFor(() =>
+      expect(console.error).toHaveBeenCalledWith(
+        "Failed to send password reset email:",
+        expect.any(Error),
+      ),
+    );
+  });
+});
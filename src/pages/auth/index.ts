@@ -1,29 +1,71 @@
-import { Hono } from "hono";
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { Hono, type Context } from "hono";
 import { html } from "hono/html";
 import { z } from "zod";
 import {
+  confirmEmailChange,
   createSession,
   createUser,
   deleteSession,
   deleteUserSessions,
   emailExists,
+  findUserByEmail,
+  findUserById,
   isAdminEmail,
   isRegistrationOpen,
+  isTwoFactorEnabled,
+  isUserActive,
+  requestPasswordReset,
+  resetPassword,
   setUserPassword,
+  verifySecondFactor,
   verifyUserCredentials,
 } from "../../lib/auth/index.ts";
 import {
+  createLoginChallenge,
+  deleteLoginChallenge,
+  getLoginChallenge,
+  recordFailedChallengeAttempt,
+} from "../../lib/auth/login-challenge.ts";
+import {
+  clearLoginChallengeCookie,
+  clearPasskeyChallengeCookie,
   clearSessionCookie,
+  getLoginChallengeToken,
+  getPasskeyChallengeToken,
   getSessionToken,
+  setLoginChallengeCookie,
+  setPasskeyChallengeCookie,
   setSessionCookie,
 } from "../../lib/auth/middleware.ts";
+import {
+  createPasskeyLoginOptions,
+  createPasskeyRegistrationOptions,
+  parsePasskeyResponse,
+  verifyPasskeyLogin,
+  verifyPasskeyRegistration,
+} from "../../lib/auth/passkey.ts";
+import { getClientIp } from "../../lib/auth/client-ip.ts";
+import {
+  clearLoginFailures,
+  getLockedUntil,
+  recordLoginFailure,
+  type LoginFailureReason,
+} from "../../lib/auth/login-throttle.ts";
 import { rateLimit } from "../../lib/auth/rate-limit.ts";
+import { validateEmailChangeToken } from "../../lib/auth/email-change-token.ts";
+import { validatePasswordResetToken } from "../../lib/auth/password-reset-token.ts";
 import {
   consumeRegistrationToken,
   validateRegistrationToken,
 } from "../../lib/auth/registration-token.ts";
+import { addToAllHouseholds } from "../../lib/households/index.ts";
 import type { HonoContext } from "../../types/hono.ts";
-import { Alert, Button, Card, FormField } from "../../ui/index.ts";
+import type { User } from "../../types/user.ts";
+import { Alert, Button, Card, FormField, PasskeyForm } from "../../ui/index.ts";
 import { BaseLayout } from "../../ui/layouts/index.ts";
 
 export const authRouter = new Hono<HonoContext>();
@@ -37,6 +79,22 @@ const inviteRegisterRateLimit = rateLimit({
   windowMs: 60 * 60 * 1000,
   maxRequests: 10,
 });
+const twoFactorRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  maxRequests: 10,
+});
+const forgotPasswordRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  maxRequests: 5,
+});
+const resetPasswordRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  maxRequests: 10,
+});
+const verifyEmailRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  maxRequests: 10,
+});
 
 // Validation schemas
 const loginSchema = z.object({
@@ -44,13 +102,22 @@ const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(1, "Enter the code from your app"),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
 const registerSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(8, "Password must be at least 8 characters"),
   name: z.string().min(1, "Name is required"),
 });
 
-const inviteRegisterSchema = z
+// New password with confirmation, for invite registration and password resets
+const newPasswordSchema = z
   .object({
     password: z.string().min(8, "Password must be at least 8 characters"),
     confirmPassword: z.string().min(1, "Please confirm your password"),
@@ -87,6 +154,46 @@ const AuthLayout = ({
   });
 };
 
+// Logs a user in once their password has been accepted. Accounts with
+// two-factor enabled go on to the code step instead of getting a session.
+const completeLogin = async (
+  c: Context<HonoContext>,
+  user: User,
+): Promise<Response> => {
+  if (await isTwoFactorEnabled(user.id)) {
+    const challengeToken = await createLoginChallenge(user.id);
+    setLoginChallengeCookie(c, challengeToken);
+    return c.redirect("/auth/2fa");
+  }
+
+  await clearLoginFailures(user.email);
+  const token = await createSession(user.id, c.req.header("User-Agent"));
+  setSessionCookie(c, token);
+  return c.redirect("/app");
+};
+
+// Logs a failed sign-in against the address that was tried
+const recordFailure = async (
+  c: Context<HonoContext>,
+  email: string,
+  reason: LoginFailureReason,
+) => {
+  const user = await findUserByEmail(email);
+  await recordLoginFailure({
+    email,
+    userId: user?.id ?? null,
+    ip: getClientIp(c),
+    userAgent: c.req.header("User-Agent") ?? null,
+    reason,
+  });
+};
+
+// Tells a locked-out user how long to wait
+const lockedMessage = (lockedUntil: Date): string => {
+  const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60_000);
+  return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+};
+
 // Login form component
 const LoginForm = ({
   email = "",
@@ -132,18 +239,28 @@ const LoginForm = ({
         />
       `,
     })}
+    <div class="text-right text-sm">
+      <a href="/auth/forgot" class="link link-primary">Forgot password?</a>
+    </div>
     <div class="form-control mt-6">
       ${Button({ children: "Login", type: "submit", variant: "primary" })}
     </div>
-    ${showRegisterLink
-      ? html`
-          <p class="text-center text-sm mt-4">
-            Don't have an account?
-            <a href="/auth/register" class="link link-primary">Register</a>
-          </p>
-        `
-      : ""}
   </form>
+  ${PasskeyForm({
+    mode: "login",
+    action: "/auth/passkey",
+    optionsUrl: "/auth/passkey/options",
+    label: "Login with a Passkey",
+    intro: html`<div class="divider">or</div>`,
+  })}
+  ${showRegisterLink
+    ? html`
+        <p class="text-center text-sm mt-4">
+          Don't have an account?
+          <a href="/auth/register" class="link link-primary">Register</a>
+        </p>
+      `
+    : ""}
 `;
 
 // Register form component
@@ -262,11 +379,28 @@ authRouter.post("/login", loginRateLimit, async (c) => {
     );
   }
 
+  // A locked address isn't checked at all, so guessing gets nowhere
+  const lockedUntil = await getLockedUntil(parsed.data.email);
+  if (lockedUntil) {
+    await recordFailure(c, parsed.data.email, "locked");
+    return c.html(
+      AuthLayout({
+        title: "Login",
+        children: LoginForm({
+          email: data.email,
+          error: lockedMessage(lockedUntil),
+          showRegisterLink: registrationOpen,
+        }),
+      }),
+    );
+  }
+
   const user = await verifyUserCredentials(
     parsed.data.email,
     parsed.data.password,
   );
   if (!user) {
+    await recordFailure(c, parsed.data.email, "password");
     return c.html(
       AuthLayout({
         title: "Login",
@@ -279,8 +413,187 @@ authRouter.post("/login", loginRateLimit, async (c) => {
     );
   }
 
-  const token = await createSession(user.id);
+  return completeLogin(c, user);
+});
+
+// Passkey login options - fetched by the browser before its passkey prompt
+authRouter.post("/passkey/options", loginRateLimit, async (c) => {
+  const { options, challengeToken } = await createPasskeyLoginOptions();
+  setPasskeyChallengeCookie(c, challengeToken);
+  return c.json(options);
+});
+
+// Passkey login handler. A passkey that checked the user's PIN or biometric
+// counts as both factors; one that didn't still needs the two-factor code.
+// Locked addresses can't sign in with a passkey either, so a lost device
+// doesn't get round the lockout.
+authRouter.post("/passkey", loginRateLimit, async (c) => {
+  const challengeToken = getPasskeyChallengeToken(c);
+  clearPasskeyChallengeCookie(c);
+
+  const showError = async (error: string) =>
+    c.html(
+      AuthLayout({
+        title: "Login",
+        children: LoginForm({
+          error,
+          showRegisterLink: await isRegistrationOpen(),
+        }),
+      }),
+    );
+
+  const formData = await c.req.formData();
+  const response = parsePasskeyResponse<AuthenticationResponseJSON>(
+    formData.get("response"),
+  );
+  const login =
+    challengeToken && response
+      ? await verifyPasskeyLogin(challengeToken, response)
+      : null;
+  const user = login ? await findUserById(login.userId) : null;
+  if (!login || !user) {
+    return showError("That passkey couldn't be used to sign in.");
+  }
+
+  const lockedUntil = await getLockedUntil(user.email);
+  if (lockedUntil) {
+    await recordFailure(c, user.email, "locked");
+    return showError(lockedMessage(lockedUntil));
+  }
+
+  // Deactivated since the passkey was checked
+  if (!(await isUserActive(user.id))) {
+    return showError("Invalid email or password");
+  }
+
+  if (!login.userVerified) {
+    return completeLogin(c, user);
+  }
+
+  await clearLoginFailures(user.email);
+  const token = await createSession(user.id, c.req.header("User-Agent"));
   setSessionCookie(c, token);
+  return c.redirect("/app");
+});
+
+// Two-factor code form component
+const TwoFactorForm = ({ error }: { error?: string }) => html`
+  ${error ? Alert({ type: "error", message: error }) : ""}
+  <p class="text-base-content/70 mb-4 ${error ? "mt-4" : ""}">
+    Enter the 6-digit code from your authenticator app, or one of your recovery
+    codes.
+  </p>
+  <form method="POST" action="/auth/2fa" class="space-y-4">
+    ${FormField({
+      label: "Code",
+      htmlFor: "code",
+      children: html`
+        <input
+          type="text"
+          id="code"
+          name="code"
+          class="input input-bordered w-full"
+          required
+          autofocus
+          autocomplete="one-time-code"
+          inputmode="text"
+          spellcheck="false"
+        />
+      `,
+    })}
+    <div class="form-control mt-6">
+      ${Button({ children: "Verify", type: "submit", variant: "primary" })}
+    </div>
+    <p class="text-center text-sm mt-4">
+      <a href="/auth/login" class="link link-primary">Back to login</a>
+    </p>
+  </form>
+`;
+
+// Sends the user back to the password step of a login
+const restartLogin = (c: Context<HonoContext>, error: string) => {
+  clearLoginChallengeCookie(c);
+  return c.html(
+    AuthLayout({
+      title: "Login",
+      children: LoginForm({ error, showRegisterLink: false }),
+    }),
+  );
+};
+
+// Two-factor step of login
+authRouter.get("/2fa", async (c) => {
+  const token = getLoginChallengeToken(c);
+  const challenge = token ? await getLoginChallenge(token) : null;
+  if (!challenge) {
+    clearLoginChallengeCookie(c);
+    return c.redirect("/auth/login");
+  }
+
+  return c.html(
+    AuthLayout({
+      title: "Two-Factor Authentication",
+      children: TwoFactorForm({}),
+    }),
+  );
+});
+
+// Two-factor handler - checks the code and creates the session
+authRouter.post("/2fa", twoFactorRateLimit, async (c) => {
+  const token = getLoginChallengeToken(c);
+  const challenge = token ? await getLoginChallenge(token) : null;
+  if (!challenge) {
+    return restartLogin(c, "Your login timed out. Please sign in again.");
+  }
+
+  const formData = await c.req.formData();
+  const parsed = twoFactorSchema.safeParse({ code: formData.get("code") });
+  if (!parsed.success) {
+    return c.html(
+      AuthLayout({
+        title: "Two-Factor Authentication",
+        children: TwoFactorForm({ error: parsed.error.errors[0].message }),
+      }),
+    );
+  }
+
+  const user = await findUserById(challenge.userId);
+  if (!user) {
+    return restartLogin(c, "Your login timed out. Please sign in again.");
+  }
+
+  const lockedUntil = await getLockedUntil(user.email);
+  if (lockedUntil) {
+    await deleteLoginChallenge(challenge.id);
+    await recordFailure(c, user.email, "locked");
+    return restartLogin(c, lockedMessage(lockedUntil));
+  }
+
+  if (!(await verifySecondFactor(challenge.userId, parsed.data.code))) {
+    await recordFailure(c, user.email, "two_factor");
+    const attemptsLeft = await recordFailedChallengeAttempt(challenge);
+    if (attemptsLeft === 0) {
+      return restartLogin(c, "Too many wrong codes. Please sign in again.");
+    }
+    return c.html(
+      AuthLayout({
+        title: "Two-Factor Authentication",
+        children: TwoFactorForm({
+          error: "That code didn't work. Please try again.",
+        }),
+      }),
+    );
+  }
+
+  await deleteLoginChallenge(challenge.id);
+  clearLoginChallengeCookie(c);
+  await clearLoginFailures(user.email);
+
+  const sessionToken = await createSession(
+    challenge.userId,
+    c.req.header("User-Agent"),
+  );
+  setSessionCookie(c, sessionToken);
 
   return c.redirect("/app");
 });
@@ -402,13 +715,32 @@ authRouter.post("/register", registerRateLimit, async (c) => {
     parsed.data.name,
     "admin",
   );
-  const token = await createSession(user.id);
+  // The first admin looks after everyone
+  await addToAllHouseholds(user.id);
+  const token = await createSession(user.id, c.req.header("User-Agent"));
   setSessionCookie(c, token);
 
   return c.redirect("/app");
 });
 
-// Invite registration form component - for users setting their password via invite link
+// Page shown for an unknown, used or expired invite link
+const InvalidInviteLink = () =>
+  AuthLayout({
+    title: "Invalid Invite Link",
+    children: html`
+      ${Alert({
+        type: "error",
+        message:
+          "This invite link is invalid or has expired. Please contact an administrator for a new link.",
+      })}
+      <div class="mt-4">
+        <a href="/auth/login" class="link link-primary">Back to login</a>
+      </div>
+    `,
+  });
+
+// Invite registration form component - for users setting a password or
+// creating a passkey via invite link
 const InviteRegisterForm = ({
   name,
   token,
@@ -422,7 +754,7 @@ const InviteRegisterForm = ({
 }) => html`
   ${error ? Alert({ type: "error", message: error }) : ""}
   <p class="text-base-content/70 mb-4">
-    Welcome, ${name}! Set your password to complete your account setup.
+    Welcome, ${name}! Set a password to complete your account setup.
   </p>
   <form
     method="POST"
@@ -469,6 +801,19 @@ const InviteRegisterForm = ({
       })}
     </div>
   </form>
+  ${PasskeyForm({
+    mode: "register",
+    action: `/auth/register/${token}/passkey`,
+    optionsUrl: `/auth/register/${token}/passkey/options`,
+    label: "Create a Passkey Instead",
+    intro: html`
+      <div class="divider">or</div>
+      <p class="text-base-content/70 mb-4">
+        Skip the password and sign in with your fingerprint, face or phone
+        screen lock.
+      </p>
+    `,
+  })}
 `;
 
 // Referrer-Policy for token routes to prevent token leakage
@@ -476,6 +821,10 @@ authRouter.use("/register/:token", async (c, next) => {
   await next();
   c.header("Referrer-Policy", "strict-origin");
 });
+authRouter.use("/register/:token/*", async (c, next) => {
+  await next();
+  c.header("Referrer-Policy", "strict-origin");
+});
 
 // Invite registration page - validates token and shows password form
 authRouter.get("/register/:token", async (c) => {
@@ -488,21 +837,7 @@ authRouter.get("/register/:token", async (c) => {
   const invitedUser = await validateRegistrationToken(token);
 
   if (!invitedUser) {
-    return c.html(
-      AuthLayout({
-        title: "Invalid Invite Link",
-        children: html`
-          ${Alert({
-            type: "error",
-            message:
-              "This invite link is invalid or has expired. Please contact an administrator for a new link.",
-          })}
-          <div class="mt-4">
-            <a href="/auth/login" class="link link-primary">Back to login</a>
-          </div>
-        `,
-      }),
-    );
+    return c.html(InvalidInviteLink());
   }
 
   return c.html(
@@ -525,26 +860,12 @@ authRouter.post("/register/:token", inviteRegisterRateLimit, async (c) => {
     confirmPassword: formData.get("confirmPassword") as string,
   };
 
-  const parsed = inviteRegisterSchema.safeParse(data);
+  const parsed = newPasswordSchema.safeParse(data);
   if (!parsed.success) {
     // Need to validate token again to get user name for re-rendering
     const invitedUser = await validateRegistrationToken(token);
     if (!invitedUser) {
-      return c.html(
-        AuthLayout({
-          title: "Invalid Invite Link",
-          children: html`
-            ${Alert({
-              type: "error",
-              message:
-                "This invite link is invalid or has expired. Please contact an administrator for a new link.",
-            })}
-            <div class="mt-4">
-              <a href="/auth/login" class="link link-primary">Back to login</a>
-            </div>
-          `,
-        }),
-      );
+      return c.html(InvalidInviteLink());
     }
 
     const flatErrors = parsed.error.flatten();
@@ -564,34 +885,424 @@ authRouter.post("/register/:token", inviteRegisterRateLimit, async (c) => {
   // Consume token (single-use) and get user
   const invitedUser = await consumeRegistrationToken(token);
   if (!invitedUser) {
+    return c.html(InvalidInviteLink());
+  }
+
+  // Set the user's password
+  await setUserPassword(invitedUser.id, parsed.data.password);
+
+  // Invalidate any existing sessions (Copenhagen Book recommendation)
+  await deleteUserSessions(invitedUser.id);
+
+  // Create a new session and log the user in
+  const sessionToken = await createSession(
+    invitedUser.id,
+    c.req.header("User-Agent"),
+  );
+  setSessionCookie(c, sessionToken);
+
+  return c.redirect("/app");
+});
+
+// Invite passkey options - fetched by the browser before its passkey prompt
+authRouter.post(
+  "/register/:token/passkey/options",
+  inviteRegisterRateLimit,
+  async (c) => {
+    const invitedUser = await validateRegistrationToken(c.req.param("token"));
+    if (!invitedUser) {
+      return c.json({ error: "Invalid invite link" }, 404);
+    }
+
+    const { options, challengeToken } =
+      await createPasskeyRegistrationOptions(invitedUser);
+    setPasskeyChallengeCookie(c, challengeToken);
+    return c.json(options);
+  },
+);
+
+// Invite passkey handler - saves the passkey in place of a password and
+// creates a session
+authRouter.post(
+  "/register/:token/passkey",
+  inviteRegisterRateLimit,
+  async (c) => {
+    const token = c.req.param("token");
+    const challengeToken = getPasskeyChallengeToken(c);
+    clearPasskeyChallengeCookie(c);
+
+    const invitedUser = await validateRegistrationToken(token);
+    if (!invitedUser) {
+      return c.html(InvalidInviteLink());
+    }
+
+    const formData = await c.req.formData();
+    const response = parsePasskeyResponse<RegistrationResponseJSON>(
+      formData.get("response"),
+    );
+    const registered =
+      challengeToken && response
+        ? await verifyPasskeyRegistration(
+            challengeToken,
+            invitedUser.id,
+            response,
+            "Passkey",
+          )
+        : false;
+    if (!registered) {
+      return c.html(
+        AuthLayout({
+          title: "Complete Registration",
+          children: InviteRegisterForm({
+            name: invitedUser.name || invitedUser.email,
+            token,
+            error: "The passkey couldn't be saved. Please try again.",
+          }),
+        }),
+      );
+    }
+
+    // The invite is used up once the account has a way to log in
+    await consumeRegistrationToken(token);
+    await deleteUserSessions(invitedUser.id);
+
+    const sessionToken = await createSession(
+      invitedUser.id,
+      c.req.header("User-Agent"),
+    );
+    setSessionCookie(c, sessionToken);
+
+    return c.redirect("/app");
+  },
+);
+
+// Forgot password form component
+const ForgotPasswordForm = ({
+  email = "",
+  error,
+}: {
+  email?: string;
+  error?: string;
+}) => html`
+  ${error ? Alert({ type: "error", message: error }) : ""}
+  <p class="text-base-content/70 mb-4">
+    Enter your email address and we'll send you a link to choose a new password.
+  </p>
+  <form method="POST" action="/auth/forgot" class="space-y-4">
+    ${FormField({
+      label: "Email",
+      htmlFor: "email",
+      children: html`
+        <input
+          type="email"
+          id="email"
+          name="email"
+          value="${email}"
+          class="input input-bordered w-full"
+          required
+          autocomplete="email"
+        />
+      `,
+    })}
+    <div class="form-control mt-6">
+      ${Button({
+        children: "Send Reset Link",
+        type: "submit",
+        variant: "primary",
+      })}
+    </div>
+    <p class="text-center text-sm mt-4">
+      <a href="/auth/login" class="link link-primary">Back to login</a>
+    </p>
+  </form>
+`;
+
+// Reset password form component - for users choosing a new password via an emailed link
+const ResetPasswordForm = ({
+  token,
+  error,
+  fieldErrors,
+}: {
+  token: string;
+  error?: string;
+  fieldErrors?: Record<string, string[]>;
+}) => html`
+  ${error ? Alert({ type: "error", message: error }) : ""}
+  <p class="text-base-content/70 mb-4">
+    Choose a new password. You'll be signed out on all other devices.
+  </p>
+  <form
+    method="POST"
+    action="/auth/reset/${token}"
+    class="space-y-4 ${error ? "mt-4" : ""}"
+  >
+    ${FormField({
+      label: "New Password",
+      htmlFor: "password",
+      error: fieldErrors?.password?.[0],
+      children: html`
+        <input
+          type="password"
+          id="password"
+          name="password"
+          class="input input-bordered w-full"
+          required
+          minlength="8"
+          autocomplete="new-password"
+        />
+      `,
+    })}
+    ${FormField({
+      label: "Confirm Password",
+      htmlFor: "confirmPassword",
+      error: fieldErrors?.confirmPassword?.[0],
+      children: html`
+        <input
+          type="password"
+          id="confirmPassword"
+          name="confirmPassword"
+          class="input input-bordered w-full"
+          required
+          minlength="8"
+          autocomplete="new-password"
+        />
+      `,
+    })}
+    <div class="form-control mt-6">
+      ${Button({
+        children: "Set New Password",
+        type: "submit",
+        variant: "primary",
+      })}
+    </div>
+  </form>
+`;
+
+// Page shown for an unknown, used or expired reset link
+const InvalidResetLink = () =>
+  AuthLayout({
+    title: "Invalid Reset Link",
+    children: html`
+      ${Alert({
+        type: "error",
+        message:
+          "This password reset link is invalid or has expired. Please request a new one.",
+      })}
+      <div class="mt-4">
+        <a href="/auth/forgot" class="link link-primary">Request a new link</a>
+      </div>
+    `,
+  });
+
+// Forgot password page
+authRouter.get("/forgot", async (c) => {
+  const user = c.get("user");
+  if (user) {
+    return c.redirect("/app");
+  }
+
+  return c.html(
+    AuthLayout({
+      title: "Forgot Password",
+      children: ForgotPasswordForm({}),
+    }),
+  );
+});
+
+// Forgot password handler - emails a reset link. Shows the same confirmation
+// whether or not the email has an account.
+authRouter.post("/forgot", forgotPasswordRateLimit, async (c) => {
+  const formData = await c.req.formData();
+  const email = formData.get("email") as string;
+
+  const parsed = forgotPasswordSchema.safeParse({ email });
+  if (!parsed.success) {
     return c.html(
       AuthLayout({
-        title: "Invalid Invite Link",
+        title: "Forgot Password",
+        children: ForgotPasswordForm({
+          email,
+          error: parsed.error.errors[0].message,
+        }),
+      }),
+    );
+  }
+
+  // Not awaited, and failures are only logged: telling the user the email
+  // couldn't be sent, or taking longer to answer when it was, would show
+  // which addresses have accounts
+  requestPasswordReset(parsed.data.email).catch((error) => {
+    console.error("Failed to send password reset email:", error);
+  });
+
+  return c.html(
+    AuthLayout({
+      title: "Check Your Email",
+      children: html`
+        ${Alert({
+          type: "success",
+          message:
+            "If an account exists for that email, we've sent a link to reset your password. It expires in an hour.",
+        })}
+        <div class="mt-4">
+          <a href="/auth/login" class="link link-primary">Back to login</a>
+        </div>
+      `,
+    }),
+  );
+});
+
+// Referrer-Policy for token routes to prevent token leakage
+authRouter.use("/reset/:token", async (c, next) => {
+  await next();
+  c.header("Referrer-Policy", "strict-origin");
+});
+
+// Reset password page - validates token and shows new password form
+authRouter.get("/reset/:token", async (c) => {
+  const token = c.req.param("token");
+  const resetUser = await validatePasswordResetToken(token);
+  if (!resetUser) {
+    return c.html(InvalidResetLink());
+  }
+
+  return c.html(
+    AuthLayout({
+      title: "Reset Password",
+      children: ResetPasswordForm({ token }),
+    }),
+  );
+});
+
+// Reset password handler - sets the new password, signs out every existing
+// session and logs the user in (via the code step if two-factor is on)
+authRouter.post("/reset/:token", resetPasswordRateLimit, async (c) => {
+  const token = c.req.param("token");
+  const formData = await c.req.formData();
+  const data = {
+    password: formData.get("password") as string,
+    confirmPassword: formData.get("confirmPassword") as string,
+  };
+
+  const parsed = newPasswordSchema.safeParse(data);
+  if (!parsed.success) {
+    if (!(await validatePasswordResetToken(token))) {
+      return c.html(InvalidResetLink());
+    }
+
+    const flatErrors = parsed.error.flatten();
+    return c.html(
+      AuthLayout({
+        title: "Reset Password",
+        children: ResetPasswordForm({
+          token,
+          error: flatErrors.formErrors[0],
+          fieldErrors: flatErrors.fieldErrors,
+        }),
+      }),
+    );
+  }
+
+  const resetUser = await resetPassword(token, parsed.data.password);
+  if (!resetUser) {
+    return c.html(InvalidResetLink());
+  }
+
+  // A reset link proves access to the mailbox, not the authenticator app
+  return completeLogin(c, resetUser);
+});
+
+// Shown for an expired, used or unknown email change link
+const InvalidEmailChangeLink = () =>
+  AuthLayout({
+    title: "Invalid Confirmation Link",
+    children: html`
+      ${Alert({
+        type: "error",
+        message:
+          "This confirmation link is invalid or has expired. Please change your email again from your settings.",
+      })}
+      <div class="mt-4">
+        <a href="/app/settings" class="link link-primary">Go to settings</a>
+      </div>
+    `,
+  });
+
+// Referrer-Policy for token routes to prevent token leakage
+authRouter.use("/verify-email/:token", async (c, next) => {
+  await next();
+  c.header("Referrer-Policy", "strict-origin");
+});
+
+// Email change confirmation page. The change only happens on POST, so mail
+// scanners that follow links can't confirm it by accident.
+authRouter.get("/verify-email/:token", async (c) => {
+  const token = c.req.param("token");
+  const change = await validateEmailChangeToken(token);
+  if (!change) {
+    return c.html(InvalidEmailChangeLink());
+  }
+
+  return c.html(
+    AuthLayout({
+      title: "Confirm Email Change",
+      children: html`
+        <p class="mb-4">
+          Use <strong>${change.newEmail}</strong> to sign in to your account
+          from now on?
+        </p>
+        <form method="POST" action="/auth/verify-email/${token}">
+          ${Button({
+            children: "Confirm New Email",
+            type: "submit",
+            variant: "primary",
+          })}
+        </form>
+      `,
+    }),
+  );
+});
+
+// Email change confirmation handler - switches the account to the new address
+authRouter.post("/verify-email/:token", verifyEmailRateLimit, async (c) => {
+  const result = await confirmEmailChange(c.req.param("token"));
+
+  if (result.status === "invalid") {
+    return c.html(InvalidEmailChangeLink());
+  }
+
+  if (result.status === "taken") {
+    return c.html(
+      AuthLayout({
+        title: "Email Not Changed",
         children: html`
           ${Alert({
             type: "error",
             message:
-              "This invite link is invalid or has expired. Please contact an administrator for a new link.",
+              "Another account now uses this email address, so yours hasn't been changed.",
           })}
           <div class="mt-4">
-            <a href="/auth/login" class="link link-primary">Back to login</a>
+            <a href="/app/settings" class="link link-primary">Go to settings</a>
           </div>
         `,
       }),
     );
   }
 
-  // Set the user's password
-  await setUserPassword(invitedUser.id, parsed.data.password);
-
-  // Invalidate any existing sessions (Copenhagen Book recommendation)
-  await deleteUserSessions(invitedUser.id);
-
-  // Create a new session and log the user in
-  const sessionToken = await createSession(invitedUser.id);
-  setSessionCookie(c, sessionToken);
-
-  return c.redirect("/app");
+  return c.html(
+    AuthLayout({
+      title: "Email Changed",
+      children: html`
+        ${Alert({
+          type: "success",
+          message: `Your account now uses ${result.newEmail}.`,
+        })}
+        <div class="mt-4">
+          <a href="/app/settings" class="link link-primary">Go to settings</a>
+        </div>
+      `,
+    }),
+  );
 });
 
 // Logout handler
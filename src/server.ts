@@ -1,7 +1,8 @@
 import { Hono } from "hono";
 import { csrf } from "hono/csrf";
 import { serveStatic } from "@hono/node-server/serve-static";
-import { sessionMiddleware } from "./lib/auth/middleware.ts";
+import { getBearerToken, sessionMiddleware } from "./lib/auth/middleware.ts";
+import { ForbiddenError } from "./lib/cqrs/index.ts";
 import { compressionMiddleware } from "./lib/hono/index.ts";
 import { adminRouter } from "./pages/admin/index.ts";
 import { appRouter } from "./pages/app/index.ts";
@@ -14,8 +15,10 @@ export const app = new Hono<HonoContext>();
 // Healthcheck — before any middleware so it's fast and has no side effects
 app.get("/health", (c) => c.json({ status: "ok" }));
 
-// CSRF protection
-app.use(csrf());
+// CSRF protection. Requests signed in with an API token don't need it: a
+// browser never adds the Authorization header to a cross-site request.
+const csrfProtection = csrf();
+app.use((c, next) => (getBearerToken(c) ? next() : csrfProtection(c, next)));
 
 // Compression
 app.use(compressionMiddleware);
@@ -38,4 +41,13 @@ app.route("/auth", authRouter);
 app.route("/app", appRouter);
 app.route("/admin", adminRouter);
 
+// Commands a user's role may not run are refused like role-guarded routes
+app.onError((err, c) => {
+  if (err instanceof ForbiddenError) {
+    return c.text("Forbidden", 403);
+  }
+  console.error(err);
+  return c.text("Internal Server Error", 500);
+});
+
 export default app;
@@ -0,0 +1,16 @@
+import { getCommand } from "../lib/cqrs/command-queue.ts";
+import type { StoredCommand } from "../types/command.ts";
+
+// Waits for a command to reach a state, letting the store's database calls run
+export const waitForCommand = async (
+  id: string,
+  check: (command: StoredCommand) => boolean,
+): Promise<StoredCommand> => {
+  const deadline = performance.now() + 5000;
+  while (performance.now() < deadline) {
+    const command = await getCommand(id);
+    if (command && check(command)) return command;
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  throw new Error(`Command ${id} never reached the expected state`);
+};
@@ -0,0 +1,8 @@
+import { initDatabase } from "../lib/db.ts";
+import { runMigrations } from "../lib/migrations/index.ts";
+
+// Creates the schema in the test file's database
+export const setupTestDatabase = async (): Promise<void> => {
+  await initDatabase();
+  await runMigrations();
+};
@@ -0,0 +1,14 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll } from "vitest";
+
+// Each test file gets its own empty database directory, and the settings the
+// app won't load without
+const databaseDir = mkdtempSync(join(tmpdir(), "aeom-test-"));
+process.env.DATABASE_PATH = `${databaseDir}/`;
+process.env.ADMIN_EMAIL ??= "admin@example.com";
+
+afterAll(() => {
+  rmSync(databaseDir, { recursive: true, force: true });
+});
@@ -0,0 +1,15 @@
+export type AuditEntry = {
+  id: string;
+  commandId: string | null;
+  commandType: string;
+  userId: string;
+  userName: string | null;
+  entityType: string;
+  entityId: string | null;
+  payload: unknown;
+  result: unknown;
+  durationMs: number;
+  success: boolean;
+  error: string | null;
+  createdAt: string;
+};
@@ -0,0 +1,41 @@
+export type CommandStatus = "pending" | "running" | "succeeded" | "failed";
+
+export type StoredCommand = {
+  id: string;
+  type: string;
+  userId: string;
+  connectionId: string | null;
+  // Household the command acts on, for household-scoped commands
+  householdId: string | null;
+  // Commands sharing an entity key run one at a time, in order
+  entityKey: string | null;
+  data: unknown;
+  status: CommandStatus;
+  attempts: number;
+  lastError: string | null;
+  runAfter: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Percentiles over recently processed commands, in milliseconds
+export type LatencySummary = {
+  p50: number;
+  p95: number;
+  max: number;
+};
+
+export type CommandQueueStats = {
+  concurrency: number;
+  running: number;
+  // Pending and runnable now
+  queued: number;
+  // Pending but waiting on a retry backoff
+  delayed: number;
+  // Processed since the dispatcher started
+  processed: number;
+  // Time from becoming runnable to starting
+  wait: LatencySummary;
+  // Time spent in the handler
+  run: LatencySummary;
+};
@@ -4,11 +4,29 @@ export type Session = {
   token: string;
   userId: string;
   expiresAt: string;
+  lastActiveAt: string;
+  // The user's admin requires two-factor authentication but they haven't set it up
+  mustEnrollTwoFactor: boolean;
+};
+
+// What an API token may do: read pages, or also make changes
+export type ApiTokenScope = "read" | "write";
+
+export type ApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
 };
 
 export type HonoContext = {
   Variables: {
     user: User | null;
     session: Session | null;
+    // Set instead of session when the request signed in with an API token
+    apiToken: ApiToken | null;
   };
 };
@@ -0,0 +1,19 @@
+import type { UserRole } from "./user.ts";
+
+// Someone being cared for, and everything the family keeps track of for them
+export type Household = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A user who belongs to a household
+export type HouseholdMember = {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  deactivated: boolean;
+  joinedAt: string;
+};
@@ -1,8 +1,21 @@
 export type { Appointment, AppointmentType } from "./appointment.ts";
+export type { AuditEntry } from "./audit.ts";
 export type { Bill, BillCategory, BillFrequency, BillPayment } from "./bill.ts";
+export type {
+  CommandQueueStats,
+  CommandStatus,
+  LatencySummary,
+  StoredCommand,
+} from "./command.ts";
 export type { Contract, ContractCategory, PaymentMethod } from "./contract.ts";
 export type { HealthNote, HealthNoteCategory } from "./health-note.ts";
-export type { HonoContext, Session } from "./hono.ts";
+export type { ApiToken, ApiTokenScope, HonoContext, Session } from "./hono.ts";
+export type { Household, HouseholdMember } from "./household.ts";
+export type {
+  Migration,
+  MigrationState,
+  MigrationStatus,
+} from "./migration.ts";
 export type { Note } from "./note.ts";
 export type { Notification, NotificationType } from "./notification.ts";
 export type { Observation, ObservationCategory } from "./observation.ts";
@@ -11,4 +24,5 @@ export type {
   RecurringReminder,
   ReminderFrequency,
 } from "./reminder.ts";
-export type { User } from "./user.ts";
+export type { TrashEntityType, TrashItem } from "./trash.ts";
+export type { User, UserRole } from "./user.ts";
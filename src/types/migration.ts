@@ -0,0 +1,21 @@
+export type Migration = {
+  version: number;
+  name: string;
+  // Run in order inside a single transaction
+  statements: string[];
+};
+
+export type MigrationState =
+  | "applied"
+  | "pending"
+  // Applied, but the statements have changed since
+  | "modified"
+  // Recorded in the database but no longer in the code
+  | "missing";
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt: string | null;
+};
@@ -17,4 +17,6 @@ export type Notification = {
   createdAt: string;
   sourceType: NotificationSourceType | null;
   sourceId: string | null;
+  // Set while the action behind the notification can still be undone
+  undoUrl: string | null;
 };
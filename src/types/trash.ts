@@ -0,0 +1,15 @@
+export type TrashEntityType =
+  | "contract"
+  | "appointment"
+  | "healthNote"
+  | "note"
+  | "observation"
+  | "reminder"
+  | "bill";
+
+export type TrashItem = {
+  entityType: TrashEntityType;
+  id: string;
+  label: string;
+  deletedAt: string;
+};
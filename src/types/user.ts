@@ -1,8 +1,12 @@
+export type UserRole = "admin" | "family" | "carer" | "viewer";
+
 export type User = {
   id: string;
   email: string;
   name: string | null;
-  role: "admin" | "user";
+  role: UserRole;
+  // The household the app is showing them, or null if they belong to none
+  householdId: string | null;
   createdAt: string;
   updatedAt: string;
 };
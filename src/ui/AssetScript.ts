@@ -0,0 +1,8 @@
+import { html } from "hono/html";
+import { getAssetPath } from "../lib/vite-manifest.ts";
+
+// Loads a browser script built from src/assets, e.g. "src/assets/passkey.ts"
+export const AssetScript = (entryName: string) => {
+  const path = getAssetPath(entryName);
+  return path ? html`<script type="module" src="${path}"></script>` : "";
+};
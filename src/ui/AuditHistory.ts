@@ -0,0 +1,88 @@
+import { html } from "hono/html";
+import type { AuditEntry } from "../types/audit.ts";
+
+type AuditHistoryProps = {
+  entries: AuditEntry[];
+};
+
+// Past-tense labels for common command actions
+const ACTION_LABELS: Record<string, string> = {
+  create: "created",
+  update: "updated",
+  delete: "moved to the trash",
+  restore: "restored",
+  purge: "deleted for good",
+  trigger: "marked as done",
+  pause: "paused",
+  resume: "resumed",
+  markPaid: "marked as paid",
+  resolve: "resolved",
+  unresolve: "reopened",
+};
+
+// Formats a payload value for display
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Renders the change history of an entity from the audit log
+export const AuditHistory = ({ entries }: AuditHistoryProps) => {
+  return html`
+    <div class="card bg-base-100 shadow-xl">
+      <div class="card-body">
+        <h3 class="card-title">History</h3>
+        ${entries.length === 0
+          ? html`<p class="text-sm text-base-content/60">
+              No changes recorded
+            </p>`
+          : html`
+              <ul class="space-y-3">
+                ${entries.map((entry) => {
+                  const action = entry.commandType.split(".").pop() || "";
+                  const fields = Object.entries(
+                    (entry.payload ?? {}) as Record<string, unknown>,
+                  ).filter(([key]) => key !== "id");
+
+                  return html`
+                    <li class="text-sm">
+                      <div>
+                        <strong>${entry.userName || "Unknown user"}</strong>
+                        ${ACTION_LABELS[action] || action}
+                      </div>
+                      <div class="text-xs text-base-content/60">
+                        ${new Date(entry.createdAt).toLocaleString("en-GB")}
+                      </div>
+                      ${action === "update" && fields.length > 0
+                        ? html`
+                            <details class="mt-1">
+                              <summary class="cursor-pointer text-xs">
+                                Values saved
+                              </summary>
+                              <dl class="text-xs mt-1 space-y-1">
+                                ${fields.map(
+                                  ([key, value]) => html`
+                                    <div>
+                                      <dt class="inline text-base-content/60">
+                                        ${key}:
+                                      </dt>
+                                      <dd class="inline">
+                                        ${formatValue(value)}
+                                      </dd>
+                                    </div>
+                                  `,
+                                )}
+                              </dl>
+                            </details>
+                          `
+                        : ""}
+                    </li>
+                  `;
+                })}
+              </ul>
+            `}
+      </div>
+    </div>
+  `;
+};
@@ -0,0 +1,91 @@
+import { html } from "hono/html";
+
+type ConflictNoticeProps = {
+  // Who saved the newer version, if known
+  changedBy: string | null;
+  // Form signal values the user submitted
+  mine: Record<string, string>;
+  // Form signal values of the newer saved version
+  theirs: Record<string, string>;
+  // Labels for the form fields, keyed by signal name
+  labels: Record<string, string>;
+  // Where to go to drop the user's changes and start from the newer version
+  discardHref: string;
+};
+
+// Formats a form value for display
+const displayValue = (value: string | undefined) => value || "(empty)";
+
+// Renders a stale-write conflict: the fields that differ from the newer saved
+// version, with a button per field to take their value into the form
+export const ConflictNotice = ({
+  changedBy,
+  mine,
+  theirs,
+  labels,
+  discardHref,
+}: ConflictNoticeProps) => {
+  const fields = Object.keys(labels).filter((key) => mine[key] !== theirs[key]);
+
+  return html`
+    <div class="alert alert-warning mb-4 flex-col items-stretch" role="alert">
+      <div>
+        <strong
+          >${changedBy || "Someone else"} saved changes while you were
+          editing.</strong
+        >
+        <p class="text-sm">
+          Your changes have not been saved. Use their value for any field you
+          want to keep, then save to overwrite the rest with yours.
+        </p>
+      </div>
+      ${fields.length > 0
+        ? html`
+            <div class="overflow-x-auto">
+              <table class="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Field</th>
+                    <th>Yours</th>
+                    <th>Theirs</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${fields.map(
+                    (key) => html`
+                      <tr>
+                        <td>${labels[key]}</td>
+                        <td class="whitespace-pre-wrap">
+                          ${displayValue(mine[key])}
+                        </td>
+                        <td class="whitespace-pre-wrap">
+                          ${displayValue(theirs[key])}
+                        </td>
+                        <td>
+                          <button
+                            type="button"
+                            class="btn btn-xs"
+                            data-on:click="$${key} = ${JSON.stringify(
+                              theirs[key] ?? "",
+                            )}"
+                          >
+                            Use theirs
+                          </button>
+                        </td>
+                      </tr>
+                    `,
+                  )}
+                </tbody>
+              </table>
+            </div>
+          `
+        : ""}
+      <div>
+        <a href="${discardHref}" class="btn btn-ghost btn-sm"
+          >Discard my changes</a
+        >
+      </div>
+    </div>
+  `;
+};
@@ -0,0 +1,50 @@
+import { html } from "hono/html";
+import type { HtmlEscapedString } from "hono/utils/html";
+import { AssetScript } from "./AssetScript.ts";
+import { Button } from "./Button.ts";
+
+type PasskeyFormProps = {
+  mode: "login" | "register";
+  action: string;
+  optionsUrl: string;
+  label: string;
+  variant?: "primary" | "secondary" | "ghost";
+  // Shown above the form, and hidden with it
+  intro?: HtmlEscapedString | Promise<HtmlEscapedString>;
+  // Extra fields posted with the passkey
+  children?: HtmlEscapedString | Promise<HtmlEscapedString>;
+};
+
+// Renders a form that runs the browser's passkey prompt before posting. It
+// stays hidden in browsers without passkey support.
+export const PasskeyForm = ({
+  mode,
+  action,
+  optionsUrl,
+  label,
+  variant = "secondary",
+  intro,
+  children,
+}: PasskeyFormProps) => html`
+  <div data-passkey-section hidden>
+    ${intro ?? ""}
+    <form
+      method="POST"
+      action="${action}"
+      class="space-y-4"
+      data-passkey="${mode}"
+      data-passkey-options="${optionsUrl}"
+    >
+      <input type="hidden" name="response" />
+      ${children ?? ""}
+      <p class="text-sm text-error" data-passkey-error hidden></p>
+      ${Button({
+        children: label,
+        type: "submit",
+        variant,
+        class: "w-full",
+      })}
+    </form>
+  </div>
+  ${AssetScript("src/assets/passkey.ts")}
+`;
@@ -1,5 +1,9 @@
 export { Alert } from "./Alert.ts";
+export { AssetScript } from "./AssetScript.ts";
+export { AuditHistory } from "./AuditHistory.ts";
 export { Button } from "./Button.ts";
 export { Card } from "./Card.ts";
+export { ConflictNotice } from "./ConflictNotice.ts";
 export { FormField } from "./FormField.ts";
 export { PageHeader } from "./PageHeader.ts";
+export { PasskeyForm } from "./PasskeyForm.ts";
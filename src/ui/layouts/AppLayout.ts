@@ -1,5 +1,11 @@
 import { html } from "hono/html";
 import type { HtmlEscapedString } from "hono/utils/html";
+import {
+  canView,
+  isReadOnlyRole,
+  type Area,
+} from "../../lib/auth/permissions.ts";
+import type { Household } from "../../types/household.ts";
 import type { Notification } from "../../types/notification.ts";
 import type { User } from "../../types/user.ts";
 import { BaseLayout } from "./BaseLayout.ts";
@@ -102,6 +108,15 @@ const NotificationItem = (notification: Notification) => html`
       </p>
       <p class="text-xs text-base-content/50 mt-1">
         ${formatTimeAgo(notification.createdAt)}
+        ${notification.undoUrl
+          ? html`<button
+              type="button"
+              class="link link-primary ml-2"
+              data-on:click="@post('${notification.undoUrl}')"
+            >
+              Undo
+            </button>`
+          : ""}
       </p>
     </div>
     <button
@@ -226,6 +241,82 @@ const NotificationDropdown = (
   </div>
 `;
 
+// Renders the household switcher (SSE-patchable). A single household is just
+// named; with more the user can pick which one the app shows.
+export const HouseholdSwitcher = (
+  households: Household[],
+  currentId: string | null,
+) => {
+  const current = households.find((h) => h.id === currentId);
+  if (!current) {
+    return html`<div id="household-switcher"></div>`;
+  }
+  if (households.length === 1) {
+    return html`
+      <div id="household-switcher">
+        <span class="badge badge-ghost">${current.name}</span>
+      </div>
+    `;
+  }
+
+  return html`
+    <div id="household-switcher" class="dropdown">
+      <div
+        tabindex="0"
+        role="button"
+        class="btn btn-ghost btn-sm"
+        aria-label="Switch household"
+      >
+        ${current.name}
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          class="h-4 w-4"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            stroke-width="2"
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </div>
+      <ul
+        tabindex="0"
+        class="menu menu-sm dropdown-content bg-base-100 rounded-box z-10 mt-3 w-52 p-2 shadow"
+      >
+        ${households.map(
+          (household) => html`
+            <li>
+              <button
+                type="button"
+                class="${household.id === currentId ? "menu-active" : ""}"
+                data-on:click="@post('/app/households/${household.id}/switch')"
+              >
+                ${household.name}
+              </button>
+            </li>
+          `,
+        )}
+      </ul>
+    </div>
+  `;
+};
+
+// Sidebar links, with the area a role must be able to see to get each one
+const NAV_LINKS: { href: string; label: string; area?: Area }[] = [
+  { href: "/app", label: "Dashboard" },
+  { href: "/app/contracts", label: "Contracts", area: "finances" },
+  { href: "/app/reminders", label: "Reminders", area: "reminders" },
+  { href: "/app/appointments", label: "Appointments", area: "appointments" },
+  { href: "/app/health", label: "Health", area: "health" },
+  { href: "/app/notes", label: "Notes", area: "notes" },
+  { href: "/app/observations", label: "Observations", area: "observations" },
+];
+
 type AppLayoutProps = {
   title: string;
   user: User;
@@ -272,8 +363,12 @@ export const AppLayout = ({
                 </svg>
               </label>
             </div>
-            <div class="flex-1">
+            <div class="flex-1 flex items-center gap-3">
               <span class="text-xl font-bold">All Eyes on Mum</span>
+              <!-- Household switcher (SSE-updated) -->
+              <div data-init="@get('/app/households/switcher')">
+                ${HouseholdSwitcher([], user.householdId)}
+              </div>
             </div>
             <div class="flex-none flex items-center gap-2">
               <!-- Notification bell (SSE-updated) -->
@@ -299,6 +394,8 @@ export const AppLayout = ({
                   class="menu menu-sm dropdown-content bg-base-100 rounded-box z-10 mt-3 w-52 p-2 shadow"
                 >
                   <li><a href="/app/settings">Settings</a></li>
+                  <li><a href="/app/security">Security</a></li>
+                  <li><a href="/app/tokens">API Tokens</a></li>
                   <li><a href="/auth/logout">Logout</a></li>
                 </ul>
               </div>
@@ -320,13 +417,15 @@ export const AppLayout = ({
             class="menu bg-base-100 w-64 min-h-full p-4 border-r border-base-300"
           >
             <ul>
-              <li><a href="/app">Dashboard</a></li>
-              <li><a href="/app/contracts">Contracts</a></li>
-              <li><a href="/app/reminders">Reminders</a></li>
-              <li><a href="/app/appointments">Appointments</a></li>
-              <li><a href="/app/health">Health</a></li>
-              <li><a href="/app/notes">Notes</a></li>
-              <li><a href="/app/observations">Observations</a></li>
+              ${NAV_LINKS.filter(
+                (link) => !link.area || canView(user, link.area),
+              ).map(
+                (link) =>
+                  html`<li><a href="${link.href}">${link.label}</a></li>`,
+              )}
+              ${isReadOnlyRole(user.role)
+                ? ""
+                : html`<li><a href="/app/trash">Trash</a></li>`}
             </ul>
             ${user.role === "admin"
               ? html`
@@ -338,6 +437,11 @@ export const AppLayout = ({
                   </p>
                   <ul>
                     <li><a href="/admin/users">Manage Users</a></li>
+                    <li><a href="/admin/invites">Invites</a></li>
+                    <li><a href="/admin/households">Households</a></li>
+                    <li><a href="/admin/logins">Failed Sign-ins</a></li>
+                    <li><a href="/admin/commands">Command Queue</a></li>
+                    <li><a href="/admin/audit">Audit Log</a></li>
                   </ul>
                 `
               : ""}
@@ -1,2 +1,2 @@
-export { AppLayout, NotificationBell } from "./AppLayout.ts";
+export { AppLayout, HouseholdSwitcher, NotificationBell } from "./AppLayout.ts";
 export { BaseLayout } from "./BaseLayout.ts";